@@ -0,0 +1,90 @@
+/**
+ * Admin Console Page
+ *
+ * Resource management for privileged wallets:
+ * - Create new resource tokens (RESOURCE_MANAGER_ROLE)
+ * - View role members and grant/revoke roles (DEFAULT_ADMIN_ROLE)
+ *
+ * The page is only shown to wallets holding RESOURCE_MANAGER_ROLE or
+ * DEFAULT_ADMIN_ROLE. The contract enforces the same roles, so this gate
+ * is a convenience rather than a security boundary.
+ *
+ * @page
+ */
+
+'use client';
+
+import { Box, Center, Grid, Heading, Spinner, Text, VStack } from '@chakra-ui/react';
+import { useAccount } from 'wagmi';
+import CreateResourceForm from '@/components/CreateResourceForm';
+import RoleManager from '@/components/RoleManager';
+import { useAdminAccess } from '@/hooks/useContract';
+
+/**
+ * Admin Console Page Component
+ */
+export default function AdminPage() {
+  const { isConnected } = useAccount();
+  const { isResourceManager, isAdmin, canAccess, isLoading } = useAdminAccess();
+
+  return (
+    <Box maxW="1400px" mx="auto">
+      <Heading as="h1" size={{ base: 'xl', md: '2xl' }} mb={2} color="gray.800">
+        Admin Console
+      </Heading>
+      <Text fontSize={{ base: 'md', md: 'lg' }} color="gray.600" mb={8}>
+        Create resources and manage who can administer the contract
+      </Text>
+
+      {!isConnected ? (
+        <AccessMessage icon="🔗" title="Connect Your Wallet">
+          Connect a wallet holding the Resource Manager or Admin role to use the console.
+        </AccessMessage>
+      ) : isLoading ? (
+        <VStack gap={3} py={12}>
+          <Spinner size="lg" color="brand.500" />
+          <Text color="gray.500">Checking permissions...</Text>
+        </VStack>
+      ) : !canAccess ? (
+        <AccessMessage icon="🔒" title="Access Denied">
+          This wallet does not hold the Resource Manager or Admin role.
+        </AccessMessage>
+      ) : (
+        <Grid templateColumns={{ base: '1fr', lg: 'repeat(2, 1fr)' }} gap={6} alignItems="start">
+          {isResourceManager ? (
+            <CreateResourceForm />
+          ) : (
+            <AccessMessage icon="🛠️" title="Resource Manager Only">
+              Grant yourself the Resource Manager role to create resources.
+            </AccessMessage>
+          )}
+          <RoleManager canManage={isAdmin} />
+        </Grid>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Centered notice used for the connect / access states
+ */
+function AccessMessage({ icon, title, children }: { icon: string; title: string; children: React.ReactNode }) {
+  return (
+    <Center
+      bg="white"
+      borderRadius="lg"
+      boxShadow="md"
+      p={12}
+      flexDirection="column"
+      gap={4}
+    >
+      <Text fontSize="5xl">{icon}</Text>
+      <Heading size="lg" color="gray.600">
+        {title}
+      </Heading>
+      <Text fontSize="md" color="gray.500" textAlign="center" maxW="500px">
+        {children}
+      </Text>
+    </Center>
+  );
+}
@@ -1,54 +1,460 @@
 /**
- * AI Suggestions Page (Placeholder)
- * 
- * This page will display AI-powered recommendations for:
- * - Optimal resource usage times
- * - Similar resources based on usage patterns
- * - Predicted availability
- * - Resource utilization analytics
- * 
- * Future features:
- * - Personalized resource recommendations
- * - Usage pattern analysis
- * - Peak time predictions
- * - Resource optimization suggestions
- * - Integration with ML models
+ * AI Suggestions Page
+ *
+ * Usage analytics rebuilt from on-chain reservation events
+ * (useResourceAnalytics, utils/analytics.ts):
+ * - Campus-wide utilization, reservation count, average duration and peak time
+ * - Peak hours and peak weekdays charts, for all resources or one resource
+ * - Per-resource table: utilization, reservations, average duration,
+ *   turnover and peak hour
+ * - Analysis window: last 7, 30 or 90 days, or all time
+ *
+ * Availability forecasts over the same history (utils/forecast.ts):
+ * - When each reserved resource is likely to free up
+ * - Best time to reserve: the least contended slot on each resource in the
+ *   coming week, linking to its booking form with the slot pre-filled
+ * - Heatmap of how contended each hour of the week is
+ *
+ * Personal recommendations for the connected wallet (WalletRecommendations):
+ * its usual resources with alternatives while they are taken, and available
+ * resources it has not tried
+ *
+ * Forecasts always use the last 12 weeks, whatever the analysis window.
+ * Hours and weekdays are in the viewer's local time zone.
+ *
+ * @page
  */
 
 'use client';
 
-import { Box, Heading, Text, Center } from '@chakra-ui/react';
+import { useState } from 'react';
+import NextLink from 'next/link';
+import {
+  Badge,
+  Box,
+  Button,
+  Center,
+  Flex,
+  Grid,
+  Heading,
+  HStack,
+  Link,
+  NativeSelect,
+  Spinner,
+  Table,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { ProgressBar } from '@/components/ui/progress';
+import ContentionHeatmap from '@/components/ContentionHeatmap';
+import UsageBarChart from '@/components/UsageBarChart';
+import WalletRecommendations from '@/components/WalletRecommendations';
+import { useContractAddress, useResourceAnalytics } from '@/hooks/useContract';
+import { formatDuration, formatRemainingTime, getCategoryColor, getCategoryName } from '@/config/contract';
+import { ANALYTICS_WINDOWS, formatHour, UsageStats, WEEKDAY_NAMES } from '@/utils/analytics';
+import { FORECAST_LOOKBACK_WEEKS, ForecastConfidence, ReservationRecommendation } from '@/utils/forecast';
+
+/**
+ * Chart labels for each hour of day
+ */
+const HOUR_LABELS = Array.from({ length: 24 }, (_, hour) => formatHour(hour));
+
+/**
+ * Format a 0-1 ratio as a percentage
+ */
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(ratio > 0 && ratio < 0.1 ? 1 : 0)}%`;
+
+/**
+ * Describe the busiest weekday and hour, e.g. "Tue, 2 PM"
+ */
+const formatPeak = (stats: UsageStats) => {
+  if (stats.peakHour === null || stats.peakWeekday === null) {
+    return '—';
+  }
+  return `${WEEKDAY_NAMES[stats.peakWeekday]}, ${formatHour(stats.peakHour)}`;
+};
+
+/**
+ * Badge color for each forecast confidence level
+ */
+const CONFIDENCE_COLORS: Record<ForecastConfidence, string> = {
+  low: 'gray',
+  medium: 'blue',
+  high: 'green',
+};
+
+/**
+ * Format a unix timestamp (seconds) as a weekday and time, e.g. "Tue 2:00 PM"
+ */
+const formatSlotTime = (timestamp: number) =>
+  new Date(timestamp * 1000).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Describe how far away a forecast time is
+ */
+const formatFromNow = (timestamp: number, now: number) =>
+  timestamp - now < 60 ? 'any moment' : `in ${formatRemainingTime(timestamp - now)}`;
+
+/**
+ * Resource page link with the recommended slot pre-filled in its booking form
+ */
+const bookingHref = (recommendation: ReservationRecommendation) =>
+  `/resources/${recommendation.resourceId}?start=${recommendation.start}&duration=${recommendation.duration}`;
 
 export default function AISuggestionsPage() {
+  const contractAddress = useContractAddress();
+  const [windowDays, setWindowDays] = useState<number | null>(30);
+  const [selectedId, setSelectedId] = useState<string>('all');
+  const [heatmapId, setHeatmapId] = useState<string>('all');
+  const { analytics, forecast, isLoading, error } = useResourceAnalytics(windowDays);
+
+  const selected = analytics.resources.find((resource) => resource.resourceId.toString() === selectedId);
+  const chartStats = selected ?? analytics.overall;
+  const heatmapValues = forecast.contention.get(Number(heatmapId)) ?? forecast.overallContention;
+
   return (
     <Box maxW="1400px" mx="auto">
       <Heading
         as="h1"
         size={{ base: 'xl', md: '2xl' }}
-        mb={4}
+        mb={2}
         color="gray.800"
       >
         AI Suggestions
       </Heading>
-      
-      <Center
-        bg="white"
-        borderRadius="lg"
-        boxShadow="md"
-        p={12}
-        minH="400px"
-        flexDirection="column"
-        gap={4}
-      >
-        <Text fontSize="6xl">🤖</Text>
-        <Heading size="lg" color="gray.600">
-          Coming Soon
-        </Heading>
-        <Text fontSize="md" color="gray.500" textAlign="center" maxW="500px">
-          AI-powered resource recommendations and analytics will be displayed here.
-          Get personalized suggestions based on your usage patterns.
-        </Text>
-      </Center>
+      <Text fontSize={{ base: 'md', md: 'lg' }} color="gray.600" mb={6}>
+        Usage patterns, peak times and availability forecasts, computed from every reservation recorded on-chain
+      </Text>
+
+      {!contractAddress ? (
+        <Center bg="white" borderRadius="lg" boxShadow="md" p={12} minH="300px" flexDirection="column" gap={4}>
+          <Text fontSize="6xl">🤖</Text>
+          <Text fontSize="md" color="gray.500" textAlign="center" maxW="500px">
+            No CampusResourceNFT contract is deployed on this network, so there is no usage to analyze.
+          </Text>
+        </Center>
+      ) : isLoading && analytics.resources.length === 0 ? (
+        <VStack py={12}>
+          <Spinner size="lg" color="brand.500" />
+          <Text color="gray.500">Indexing reservation history...</Text>
+        </VStack>
+      ) : error ? (
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Failed to load usage analytics</Text>
+          <Text color="gray.600" fontSize="sm">{error.message}</Text>
+        </Box>
+      ) : (
+        <VStack align="stretch" gap={6}>
+          {/* Analysis Window */}
+          <HStack gap={2} wrap="wrap">
+            {ANALYTICS_WINDOWS.map(({ value, label }) => (
+              <Button
+                key={label}
+                size="sm"
+                colorScheme="brand"
+                variant={windowDays === value ? 'solid' : 'outline'}
+                onClick={() => setWindowDays(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </HStack>
+
+          {/* Summary */}
+          <Grid templateColumns={{ base: 'repeat(2, 1fr)', md: 'repeat(4, 1fr)' }} gap={4}>
+            <SummaryCard
+              label="Average Utilization"
+              value={formatPercent(analytics.overall.utilization)}
+              note={`across ${analytics.resources.length} resources`}
+            />
+            <SummaryCard
+              label="Reservations"
+              value={analytics.overall.reservationCount.toString()}
+              note={`${analytics.overall.uniqueReservers} distinct wallets`}
+            />
+            <SummaryCard
+              label="Average Duration"
+              value={analytics.overall.averageDuration > 0 ? formatDuration(analytics.overall.averageDuration) : '—'}
+              note="of ended reservations"
+            />
+            <SummaryCard
+              label="Peak Time"
+              value={formatPeak(analytics.overall)}
+              note="busiest weekday and hour"
+            />
+          </Grid>
+
+          {/* Personal Recommendations */}
+          <WalletRecommendations />
+
+          {/* Peak Charts */}
+          <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+            <Flex justify="space-between" align="center" mb={4} gap={3} wrap="wrap">
+              <Heading as="h2" size="md" color="gray.700">
+                Peak Times
+              </Heading>
+              <NativeSelect.Root size="sm" maxW="260px">
+                <NativeSelect.Field value={selectedId} onChange={(e) => setSelectedId(e.target.value)}>
+                  <option value="all">All resources</option>
+                  {analytics.resources.map((resource) => (
+                    <option key={resource.resourceId} value={resource.resourceId}>
+                      #{resource.resourceId} {resource.name}
+                    </option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Flex>
+
+            <Grid templateColumns={{ base: '1fr', lg: '2fr 1fr' }} gap={6}>
+              <Box>
+                <Text fontSize="sm" color="gray.600" mb={2}>
+                  Reserved time by hour of day
+                  {chartStats.peakHour !== null && ` · busiest at ${formatHour(chartStats.peakHour)}`}
+                </Text>
+                <UsageBarChart
+                  values={chartStats.hourlyUsage}
+                  labels={HOUR_LABELS}
+                  formatValue={formatDuration}
+                  labelEvery={3}
+                />
+              </Box>
+              <Box>
+                <Text fontSize="sm" color="gray.600" mb={2}>
+                  Reserved time by weekday
+                  {chartStats.peakWeekday !== null && ` · busiest on ${WEEKDAY_NAMES[chartStats.peakWeekday]}`}
+                </Text>
+                <UsageBarChart
+                  values={chartStats.weekdayUsage}
+                  labels={WEEKDAY_NAMES}
+                  formatValue={formatDuration}
+                />
+              </Box>
+            </Grid>
+          </Box>
+
+          {/* Free-Up Forecast */}
+          <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200" overflowX="auto">
+            <Heading as="h2" size="md" color="gray.700" mb={1}>
+              Expected Availability
+            </Heading>
+            <Text fontSize="sm" color="gray.600" mb={4}>
+              When reserved resources are likely to free up, judging by how much of their booked time past reservers used
+            </Text>
+            {forecast.freeUp.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">No resource is reserved right now.</Text>
+            ) : (
+              <Table.Root size="sm">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeader>Resource</Table.ColumnHeader>
+                    <Table.ColumnHeader>Reserved Until</Table.ColumnHeader>
+                    <Table.ColumnHeader>Likely Released</Table.ColumnHeader>
+                    <Table.ColumnHeader>Likely Free</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Confidence</Table.ColumnHeader>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {forecast.freeUp.map((item) => (
+                    <Table.Row key={item.resourceId}>
+                      <Table.Cell>
+                        <Link as={NextLink} href={`/resources/${item.resourceId}`} color="brand.600" fontWeight="medium">
+                          {item.name}
+                        </Link>
+                      </Table.Cell>
+                      <Table.Cell>{formatSlotTime(item.reservationEnd)}</Table.Cell>
+                      <Table.Cell>
+                        <Text>{formatSlotTime(item.expectedReleaseAt)}</Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {formatFromNow(item.expectedReleaseAt, forecast.generatedAt)}
+                          {item.sampleSize > 0 && ` · usually uses ${formatPercent(item.holdRatio)} of the booking`}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Text>{formatSlotTime(item.expectedFreeAt)}</Text>
+                        <Text fontSize="xs" color="gray.500">
+                          {item.waitlistLength > 0
+                            ? `after ${item.waitlistLength} waitlisted ${item.waitlistLength === 1 ? 'user' : 'users'}`
+                            : 'nobody waiting'}
+                        </Text>
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">
+                        <Badge colorScheme={CONFIDENCE_COLORS[item.confidence]} title={`${item.sampleSize} ended reservations`}>
+                          {item.confidence}
+                        </Badge>
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </Box>
+
+          {/* Booking Recommendations */}
+          <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200" overflowX="auto">
+            <Heading as="h2" size="md" color="gray.700" mb={1}>
+              Best Time to Reserve
+            </Heading>
+            <Text fontSize="sm" color="gray.600" mb={4}>
+              The least contended slot on each resource in the coming week, sized to how long it is usually held
+            </Text>
+            {forecast.recommendations.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">No resource can be booked in the coming week.</Text>
+            ) : (
+              <Table.Root size="sm">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeader>Resource</Table.ColumnHeader>
+                    <Table.ColumnHeader>Suggested Slot</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Usually Reserved</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Confidence</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right" />
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {forecast.recommendations.map((recommendation) => (
+                    <Table.Row key={recommendation.resourceId}>
+                      <Table.Cell>
+                        <HStack gap={2}>
+                          <Text fontWeight="medium">{recommendation.name}</Text>
+                          <Badge colorScheme={getCategoryColor(recommendation.category)} fontSize="2xs">
+                            {getCategoryName(recommendation.category)}
+                          </Badge>
+                        </HStack>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <Text>{formatSlotTime(recommendation.start)}</Text>
+                        <Text fontSize="xs" color="gray.500">for {formatDuration(recommendation.duration)}</Text>
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">
+                        <Text>{formatPercent(recommendation.contention)}</Text>
+                        {recommendation.nextSlotContention > recommendation.contention && (
+                          <Text fontSize="xs" color="gray.500">
+                            vs {formatPercent(recommendation.nextSlotContention)} at the next slot
+                          </Text>
+                        )}
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">
+                        <Badge colorScheme={CONFIDENCE_COLORS[recommendation.confidence]}>
+                          {recommendation.confidence}
+                        </Badge>
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">
+                        <Link as={NextLink} href={bookingHref(recommendation)} color="brand.600" fontWeight="medium" whiteSpace="nowrap">
+                          Book this slot →
+                        </Link>
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </Box>
+
+          {/* Contention Heatmap */}
+          <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+            <Flex justify="space-between" align="center" mb={4} gap={3} wrap="wrap">
+              <Box>
+                <Heading as="h2" size="md" color="gray.700">
+                  Least Contended Hours
+                </Heading>
+                <Text fontSize="sm" color="gray.600">
+                  Chance of being reserved in each hour of the week, over the last {FORECAST_LOOKBACK_WEEKS} weeks
+                  (recent weeks count more)
+                </Text>
+              </Box>
+              <NativeSelect.Root size="sm" maxW="260px">
+                <NativeSelect.Field value={heatmapId} onChange={(e) => setHeatmapId(e.target.value)}>
+                  <option value="all">All resources</option>
+                  {analytics.resources
+                    .filter((resource) => forecast.contention.has(resource.resourceId))
+                    .map((resource) => (
+                      <option key={resource.resourceId} value={resource.resourceId}>
+                        #{resource.resourceId} {resource.name}
+                      </option>
+                    ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Flex>
+            <ContentionHeatmap values={heatmapValues} />
+          </Box>
+
+          {/* Per-Resource Utilization */}
+          <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200" overflowX="auto">
+            <Heading as="h2" size="md" color="gray.700" mb={4}>
+              Utilization by Resource
+            </Heading>
+            {analytics.resources.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">No resources have been created on this network yet.</Text>
+            ) : (
+              <Table.Root size="sm">
+                <Table.Header>
+                  <Table.Row>
+                    <Table.ColumnHeader>Resource</Table.ColumnHeader>
+                    <Table.ColumnHeader minW="160px">Utilization</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Reservations</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Avg Duration</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Turnover / Week</Table.ColumnHeader>
+                    <Table.ColumnHeader textAlign="right">Peak Hour</Table.ColumnHeader>
+                  </Table.Row>
+                </Table.Header>
+                <Table.Body>
+                  {analytics.resources.map((resource) => (
+                    <Table.Row key={resource.resourceId}>
+                      <Table.Cell>
+                        <HStack gap={2}>
+                          <Link as={NextLink} href={`/resources/${resource.resourceId}`} color="brand.600" fontWeight="medium">
+                            {resource.name}
+                          </Link>
+                          <Badge colorScheme={getCategoryColor(resource.category)} fontSize="2xs">
+                            {getCategoryName(resource.category)}
+                          </Badge>
+                        </HStack>
+                      </Table.Cell>
+                      <Table.Cell>
+                        <HStack gap={2}>
+                          <ProgressBar value={resource.utilization * 100} size="sm" colorScheme="brand" flex="1" />
+                          <Text fontSize="xs" color="gray.700" w="40px" textAlign="right">
+                            {formatPercent(resource.utilization)}
+                          </Text>
+                        </HStack>
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">{resource.reservationCount}</Table.Cell>
+                      <Table.Cell textAlign="right">
+                        {resource.averageDuration > 0 ? formatDuration(resource.averageDuration) : '—'}
+                      </Table.Cell>
+                      <Table.Cell textAlign="right">{resource.turnoverPerWeek.toFixed(1)}</Table.Cell>
+                      <Table.Cell textAlign="right">
+                        {resource.peakHour !== null ? formatHour(resource.peakHour) : '—'}
+                      </Table.Cell>
+                    </Table.Row>
+                  ))}
+                </Table.Body>
+              </Table.Root>
+            )}
+          </Box>
+        </VStack>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Headline figure with a short note underneath
+ */
+function SummaryCard({ label, value, note }: { label: string; value: string; note: string }) {
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={5} border="1px" borderColor="gray.200">
+      <Text fontSize="xs" color="gray.500" textTransform="uppercase" fontWeight="bold">
+        {label}
+      </Text>
+      <Text fontSize="2xl" fontWeight="bold" color="gray.800">
+        {value}
+      </Text>
+      <Text fontSize="xs" color="gray.500">
+        {note}
+      </Text>
     </Box>
   );
 }
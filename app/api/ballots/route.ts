@@ -0,0 +1,100 @@
+/**
+ * Off-chain Ballots API Route
+ *
+ * GET /api/ballots?chainId={chainId}&proposalId={proposalId}
+ *
+ * Lists the signed ballots stored for a proposal, in submission order.
+ * Clients recompute the tally from the signatures (see utils/offchainVoting.ts).
+ *
+ * POST /api/ballots
+ *
+ * Accepts a signed EIP-712 Ballot and stores it after checking the
+ * signature, snapshot block and voting weight (utils/ballotStore.ts).
+ *
+ * Responses:
+ * - 200 { success: true, ballots? }
+ * - 400 { success: false, error } for malformed or rejected ballots
+ * - 404 { success: false, error } for unknown proposals
+ * - 409 { success: false, error } when the voter has already signed a ballot
+ * - 503 { success: false, error } when off-chain voting is not configured
+ * - 507 { success: false, error } when the ballot store is full (BALLOT_STORE_MAX_BALLOTS)
+ */
+
+import { NextResponse } from 'next/server';
+import { BaseError } from 'viem';
+import { BallotError, getStoredBallots, recordBallot } from '@/utils/ballotStore';
+import { BallotsResponse, BallotSubmission, deserializeBallot, SignedBallot } from '@/utils/offchainVoting';
+
+/**
+ * Ballots are public so anyone can verify a result; allow reads from other origins
+ */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+};
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const chainId = Number(searchParams.get('chainId'));
+  const proposalId = searchParams.get('proposalId');
+  if (!Number.isInteger(chainId) || !proposalId || !/^\d+$/.test(proposalId)) {
+    return NextResponse.json<BallotsResponse>(
+      { success: false, error: 'Expected numeric chainId and proposalId' },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const ballots = await getStoredBallots(chainId, BigInt(proposalId));
+    return NextResponse.json<BallotsResponse>({ success: true, ballots }, { headers: CORS_HEADERS });
+  } catch (error) {
+    console.error('Ballot store error:', error);
+    return NextResponse.json<BallotsResponse>(
+      { success: false, error: 'Failed to read ballot store' },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  let chainId: number;
+  let ballot: SignedBallot;
+  try {
+    const body = (await req.json()) as BallotSubmission;
+    if (typeof body?.chainId !== 'number' || !body.ballot) {
+      throw new Error('Missing chainId or ballot');
+    }
+    chainId = body.chainId;
+    ballot = deserializeBallot(body.ballot);
+  } catch {
+    return NextResponse.json<BallotsResponse>(
+      { success: false, error: 'Malformed ballot' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await recordBallot(chainId, ballot);
+    return NextResponse.json<BallotsResponse>({ success: true });
+  } catch (error) {
+    if (error instanceof BallotError) {
+      return NextResponse.json<BallotsResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    // RPC and contract errors
+    if (error instanceof BaseError) {
+      return NextResponse.json<BallotsResponse>(
+        { success: false, error: error.shortMessage },
+        { status: 400 }
+      );
+    }
+
+    console.error('Ballot error:', error);
+    return NextResponse.json<BallotsResponse>(
+      { success: false, error: 'Failed to record ballot' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * ERC1155 Metadata API Route
+ * 
+ * GET /api/metadata/{id}.json
+ * 
+ * Serves ERC1155 metadata JSON for a resource token from the local metadata
+ * store (utils/metadataStore.ts). `{id}` is the 64-character hex token ID
+ * substituted by ERC1155 clients; plain decimal IDs are accepted too.
+ * 
+ * Responses:
+ * - 200 ResourceMetadata
+ * - 400 { error } for a malformed ID
+ * - 404 { error } when the store has no entry for the resource
+ */
+
+import { NextResponse } from 'next/server';
+import { parseMetadataId, ResourceMetadata } from '@/utils/metadata';
+import { getStoredMetadata } from '@/utils/metadataStore';
+
+/**
+ * Metadata is public; allow wallets and marketplaces on other origins to read it
+ */
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+};
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  const resourceId = parseMetadataId(params.id);
+  if (resourceId === null) {
+    return NextResponse.json(
+      { error: 'Malformed token ID' },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const stored = await getStoredMetadata(resourceId);
+    if (!stored) {
+      return NextResponse.json(
+        { error: `No metadata for resource ${resourceId}` },
+        { status: 404, headers: CORS_HEADERS }
+      );
+    }
+
+    const metadata: ResourceMetadata = {
+      name: stored.name || `Campus Resource #${resourceId}`,
+      description: stored.description || '',
+      ...(stored.image && { image: stored.image }),
+      ...(stored.external_url && { external_url: stored.external_url }),
+      ...(stored.attributes && { attributes: stored.attributes }),
+      properties: {
+        ...(stored.location && { location: stored.location }),
+      },
+    };
+
+    return NextResponse.json<ResourceMetadata>(metadata, { headers: CORS_HEADERS });
+  } catch (error) {
+    console.error('Metadata store error:', error);
+    return NextResponse.json(
+      { error: 'Failed to read metadata store' },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Relayer API Route
+ * 
+ * POST /api/relay
+ * 
+ * Accepts a signed EIP-712 ForwardRequest (see utils/gasless.ts) and submits
+ * it through CampusResourceForwarder, paying the gas on the user's behalf.
+ * Validation and submission live in utils/relayer.ts.
+ * 
+ * Responses:
+ * - 200 { success: true, txHash }
+ * - 400 { success: false, error } for malformed, rejected or reverting requests
+ * - 429 { success: false, error } once the signer's hourly relay quota is used up
+ * - 503 { success: false, error } when the relayer is not configured
+ */
+
+import { NextResponse } from 'next/server';
+import { BaseError, isAddress, isHex } from 'viem';
+import {
+  deserializeForwardRequest,
+  ForwardRequestData,
+  RelayRequestBody,
+  RelayResponse,
+} from '@/utils/gasless';
+import { relayForwardRequest, RelayError } from '@/utils/relayer';
+
+/**
+ * Whether a field is a non-negative integer encoded as a decimal string
+ */
+const isDecimalString = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d+$/.test(value);
+};
+
+/**
+ * Whether a body's request has the shape of a serialized ForwardRequest
+ * Checked before deserializing, so BigInt() never throws on client input.
+ */
+const isSerializedForwardRequest = (request: unknown): request is RelayRequestBody['request'] => {
+  if (typeof request !== 'object' || request === null) {
+    return false;
+  }
+  const { from, to, value, gas, deadline, data, signature } = request as Record<string, unknown>;
+  return (
+    typeof from === 'string' && isAddress(from) &&
+    typeof to === 'string' && isAddress(to) &&
+    isDecimalString(value) &&
+    isDecimalString(gas) &&
+    Number.isSafeInteger(deadline) && (deadline as number) >= 0 &&
+    typeof data === 'string' && isHex(data) &&
+    typeof signature === 'string' && isHex(signature)
+  );
+};
+
+export async function POST(req: Request) {
+  let chainId: number;
+  let request: ForwardRequestData;
+  try {
+    const body = (await req.json()) as RelayRequestBody;
+    if (typeof body?.chainId !== 'number' || !isSerializedForwardRequest(body.request)) {
+      throw new Error('Missing or malformed chainId or request');
+    }
+    chainId = body.chainId;
+    request = deserializeForwardRequest(body);
+  } catch {
+    return NextResponse.json<RelayResponse>(
+      { success: false, error: 'Malformed relay request' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const result = await relayForwardRequest(chainId, request);
+    return NextResponse.json<RelayResponse>(result);
+  } catch (error) {
+    if (error instanceof RelayError) {
+      return NextResponse.json<RelayResponse>(
+        { success: false, error: error.message },
+        { status: error.status }
+      );
+    }
+
+    // Contract reverts surfaced by simulation
+    if (error instanceof BaseError) {
+      return NextResponse.json<RelayResponse>(
+        { success: false, error: error.shortMessage },
+        { status: 400 }
+      );
+    }
+
+    console.error('Relay error:', error);
+    return NextResponse.json<RelayResponse>(
+      { success: false, error: 'Failed to relay transaction' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,7 +7,7 @@
  * Key responsibilities:
  * 1. Set HTML lang attribute and metadata
  * 2. Wrap app with Providers (Wagmi, QueryClient, Chakra)
- * 3. Include global layout components (Header, Sidebar)
+ * 3. Include global layout components (Header, Sidebar, network banner)
  * 4. Define responsive layout structure
  * 
  * Note: This is a Server Component by default in Next.js 14 App Router.
@@ -18,6 +18,7 @@ import type { Metadata } from 'next';
 import { Providers } from '@/components/Providers';
 import Header from '@/components/Header';
 import Sidebar from '@/components/Sidebar';
+import OutdatedDeploymentBanner from '@/components/OutdatedDeploymentBanner';
 import { Box, Flex } from '@chakra-ui/react';
 import './globals.css';
 
@@ -63,6 +64,8 @@ export default function RootLayout({
               bg="gray.50"
               minH="calc(100vh - 73px)"
             >
+              {/* Warns when the connected network's contract predates this build */}
+              <OutdatedDeploymentBanner />
               {children}
             </Box>
           </Flex>
@@ -5,7 +5,8 @@
  * - User's active reservations at the top
  * - Smart contract resource grid
  * - Real-time data from blockchain
- * - Filter and search capabilities
+ * - Filter and search capabilities (text, category, status, sort)
+ * - "Clean up expired" action for reservations nobody released
  * 
  * Features:
  * - Live data from CampusResourceNFT contract
@@ -13,17 +14,27 @@
  * - Responsive grid layout (1-3 columns)
  * - Contract interaction through ResourceCard components
  * 
- * Note: For production, replace hardcoded resource IDs with dynamic loading
- * from contract events or subgraph.
+ * Resource IDs are discovered from the contract via useAllResources, so newly
+ * created resources appear without a reload.
+ * 
+ * Filter state lives in the URL query (?q=&category=&status=&sort=) so
+ * filtered views can be shared; see utils/resourceFilters.ts.
  * 
  * @page
  */
 
 'use client';
 
-import { Box, Heading, Text, SimpleGrid, Flex, Badge, VStack } from '@chakra-ui/react';
+import { Suspense, useMemo } from 'react';
+import { Box, Heading, Text, SimpleGrid, Flex, Badge, VStack, Spinner } from '@chakra-ui/react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import ExpiredSweepBanner from '@/components/ExpiredSweepBanner';
 import ResourceCard from '@/components/ResourceCard';
+import ResourceFilterBar from '@/components/ResourceFilterBar';
 import UserReservations from '@/components/UserReservations';
+import { useAllResources, useResources, useResourcesMetadata } from '@/hooks/useContract';
+import { applyResourceFilters, parseResourceFilters, serializeResourceFilters } from '@/utils/resourceFilters';
+import type { ResourceFilters } from '@/types';
 import { useAccount } from 'wagmi';
 
 /**
@@ -34,19 +45,6 @@ import { useAccount } from 'wagmi';
 export default function DashboardPage() {
   const { isConnected } = useAccount();
 
-  /**
-   * Resource IDs to display
-   * 
-   * PRODUCTION TODO:
-   * - Fetch resource IDs from contract events (ResourceCreated)
-   * - Or use The Graph to index all resources
-   * - Or maintain a backend API that tracks resource creation
-   * 
-   * For now, we'll display a few placeholder resource IDs (1-6)
-   * Assuming resources were created during contract deployment
-   */
-  const resourceIds = [1, 2, 3, 4, 5, 6];
-
   return (
     <Box maxW="1400px" mx="auto">
       {/* Page Header */}
@@ -96,27 +94,10 @@ export default function DashboardPage() {
         </Box>
       )}
 
-      {/* Resources Grid */}
-      <Box>
-        <Heading
-          as="h2"
-          size={{ base: 'md', md: 'lg' }}
-          mb={4}
-          color="gray.700"
-        >
-          All Resources
-        </Heading>
-        
-        <SimpleGrid
-          columns={{ base: 1, md: 2, lg: 3 }}
-          gap={{ base: 4, md: 6 }}
-          w="full"
-        >
-          {resourceIds.map((resourceId) => (
-            <ResourceCard key={resourceId} resourceId={resourceId} />
-          ))}
-        </SimpleGrid>
-      </Box>
+      {/* Resources Grid - useSearchParams needs a Suspense boundary */}
+      <Suspense fallback={<ResourcesLoading />}>
+        <ResourcesSection />
+      </Suspense>
 
       {/* Instructions for First-Time Users */}
       <Box
@@ -148,3 +129,108 @@ export default function DashboardPage() {
     </Box>
   );
 }
+
+/**
+ * Filterable grid of every on-chain resource
+ */
+function ResourcesSection() {
+  const { address: userAddress } = useAccount();
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => parseResourceFilters(new URLSearchParams(searchParams.toString())), [searchParams]);
+
+  // Every resource created on-chain (updates live on ResourceCreated)
+  const { resourceIds, isLoading: idsLoading, error: idsError } = useAllResources();
+
+  // Load every card's data in one batched request; cards then read from the shared cache
+  const { resources, isLoading: detailsLoading, error: detailsError } = useResources(resourceIds);
+  const { metadata } = useResourcesMetadata(resourceIds);
+  const resourcesLoading = idsLoading || detailsLoading;
+  const resourcesError = idsError || detailsError;
+
+  // Locations come from the off-chain metadata
+  const filteredResources = applyResourceFilters(
+    resources.map((resource) => ({
+      ...resource,
+      location: metadata.get(resource.id)?.properties?.location,
+    })),
+    filters,
+    userAddress
+  );
+
+  /**
+   * Replace the URL query with the new filter state
+   */
+  const handleFiltersChange = (next: ResourceFilters) => {
+    const query = serializeResourceFilters(next);
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false });
+  };
+
+  return (
+    <Box>
+      <Heading
+        as="h2"
+        size={{ base: 'md', md: 'lg' }}
+        mb={4}
+        color="gray.700"
+      >
+        All Resources
+      </Heading>
+
+      {resourcesLoading ? (
+        <ResourcesLoading />
+      ) : resourcesError ? (
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Error Loading Resources</Text>
+          <Text color="gray.600" fontSize="sm">{resourcesError.message}</Text>
+        </Box>
+      ) : resourceIds.length === 0 ? (
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="gray.200" p={6}>
+          <Text color="gray.500" textAlign="center">
+            No resources have been created on this network yet.
+          </Text>
+        </Box>
+      ) : (
+        <>
+          <ExpiredSweepBanner />
+          <ResourceFilterBar
+            filters={filters}
+            onChange={handleFiltersChange}
+            resultCount={filteredResources.length}
+            totalCount={resources.length}
+          />
+          {filteredResources.length === 0 ? (
+            <Box bg="white" borderRadius="lg" border="1px" borderColor="gray.200" p={6}>
+              <Text color="gray.500" textAlign="center">
+                No resources match these filters.
+              </Text>
+            </Box>
+          ) : (
+            <SimpleGrid
+              columns={{ base: 1, md: 2, lg: 3 }}
+              gap={{ base: 4, md: 6 }}
+              w="full"
+            >
+              {filteredResources.map((resource) => (
+                <ResourceCard key={resource.id} resourceId={resource.id} />
+              ))}
+            </SimpleGrid>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * Spinner shown while resources load
+ */
+function ResourcesLoading() {
+  return (
+    <VStack gap={3} py={12}>
+      <Spinner size="lg" color="brand.500" />
+      <Text color="gray.500">Loading resources...</Text>
+    </VStack>
+  );
+}
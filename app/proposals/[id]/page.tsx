@@ -0,0 +1,520 @@
+/**
+ * Proposal Detail Page
+ *
+ * Full view of a single governance proposal at /proposals/[id]:
+ * - Action and its parameters (new resource, stake change, retirement)
+ * - Description, proposer and voting deadline
+ * - For/against tally against the quorum
+ * - Vote buttons for token holders while voting is open
+ * - Execute button once the proposal has passed
+ * - Signed (gasless) voting mode: sign a ballot, and see the off-chain tally
+ *   recomputed in the browser from every stored signature
+ *
+ * Proposal cards on the proposals page link here; `?mode=offchain` opens the
+ * signed voting mode.
+ *
+ * @page
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import { Badge, Box, Button, Flex, Grid, Heading, HStack, Link, Spinner, Text, VStack } from '@chakra-ui/react';
+import { formatEther } from 'viem';
+import { toaster } from '@/components/ui/toaster';
+import ProposalTally from '@/components/ProposalTally';
+import VotingModeSwitch from '@/components/VotingModeSwitch';
+import { useResource } from '@/hooks/useContract';
+import {
+  useCastVote,
+  useExecuteProposal,
+  useGovernanceSettings,
+  useOffchainTally,
+  useProposal,
+  useSignBallot,
+  useSnapshotVotingWeight,
+} from '@/hooks/useGovernance';
+import { formatRemainingTime, getCategoryName } from '@/config/contract';
+import {
+  getProposalState,
+  getProposalTitle,
+  Proposal,
+  PROPOSAL_ACTION_NAMES,
+  PROPOSAL_STATE_COLORS,
+  PROPOSAL_STATE_NAMES,
+  ProposalAction,
+  ProposalState,
+} from '@/utils/governance';
+import { getOffchainState, VotingMode } from '@/utils/offchainVoting';
+
+/**
+ * Shorten an address for display
+ */
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Proposal Detail Page Component
+ */
+export default function ProposalDetailPage() {
+  const params = useParams<{ id: string }>();
+  const proposalId = Number(params.id);
+  const isValidId = Number.isInteger(proposalId) && proposalId >= 0;
+
+  if (!isValidId) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Invalid Proposal ID</Text>
+          <Text color="gray.600" fontSize="sm">&quot;{params.id}&quot; is not a proposal ID.</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  return <ProposalDetail proposalId={proposalId} />;
+}
+
+/**
+ * Link back to the proposals page
+ */
+function BackLink() {
+  return (
+    <Link as={NextLink} href="/proposals" fontSize="sm" color="brand.600" mb={4} display="inline-block">
+      ← All Proposals
+    </Link>
+  );
+}
+
+/**
+ * Detail view for a valid proposal ID
+ */
+function ProposalDetail({ proposalId }: { proposalId: number }) {
+  const searchParams = useSearchParams();
+  const [mode, setMode] = useState<VotingMode>(searchParams.get('mode') === 'offchain' ? 'offchain' : 'onchain');
+  const { address, isConnected } = useAccount();
+  const { proposal, hasVoted, isLoading, error } = useProposal(proposalId);
+  const { quorum } = useGovernanceSettings();
+  const { weight } = useSnapshotVotingWeight(address, proposal?.snapshotBlock);
+  const { vote, isPending: isVoting, isSuccess: voteSuccess, error: voteError } = useCastVote();
+  const { execute, isPending: isExecuting, isSuccess: executeSuccess, error: executeError } = useExecuteProposal();
+
+  // Tick while voting is open so the page flips to passed/rejected on time
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Handle successful vote
+  useEffect(() => {
+    if (voteSuccess) {
+      toaster.create({
+        title: 'Vote Cast',
+        description: 'Your vote has been counted.',
+        type: 'success',
+        duration: 5000,
+      });
+    }
+  }, [voteSuccess]);
+
+  // Handle successful execution
+  useEffect(() => {
+    if (executeSuccess) {
+      toaster.create({
+        title: 'Proposal Executed',
+        description: 'The change has been applied to the resource contract.',
+        type: 'success',
+        duration: 5000,
+      });
+    }
+  }, [executeSuccess]);
+
+  // Handle transaction errors
+  useEffect(() => {
+    const txError = voteError || executeError;
+    if (txError) {
+      toaster.create({
+        title: 'Transaction Failed',
+        description: txError.message || 'Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [voteError, executeError]);
+
+  if (isLoading) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <VStack py={12}>
+          <Spinner size="lg" color="brand.500" />
+          <Text color="gray.500">Loading proposal...</Text>
+        </VStack>
+      </Box>
+    );
+  }
+
+  if (error || !proposal) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Proposal Not Found</Text>
+          <Text color="gray.600" fontSize="sm">Proposal #{proposalId} does not exist.</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const state = getProposalState(proposal, quorum, now);
+  const canVote = state === ProposalState.ACTIVE && isConnected && weight > BigInt(0) && !hasVoted;
+
+  /**
+   * Submit a vote
+   */
+  const handleVote = async (support: boolean) => {
+    try {
+      await vote(proposalId, support);
+    } catch (err) {
+      console.error('Vote error:', err);
+    }
+  };
+
+  /**
+   * Submit the execute transaction
+   */
+  const handleExecute = async () => {
+    try {
+      await execute(proposalId);
+    } catch (err) {
+      console.error('Execute proposal error:', err);
+    }
+  };
+
+  return (
+    <Box maxW="1400px" mx="auto">
+      <BackLink />
+
+      {/* Header */}
+      <Box mb={6}>
+        <Heading as="h1" size={{ base: 'xl', md: '2xl' }} color="gray.800" mb={2}>
+          #{proposalId} <ProposalHeading proposal={proposal} />
+        </Heading>
+        <HStack gap={2} flexWrap="wrap">
+          <Badge colorScheme="gray" fontSize="sm" px={2} py={1} borderRadius="md">
+            {PROPOSAL_ACTION_NAMES[proposal.action]}
+          </Badge>
+          <Badge colorScheme={PROPOSAL_STATE_COLORS[state]} fontSize="sm" px={2} py={1} borderRadius="md">
+            {PROPOSAL_STATE_NAMES[state].toUpperCase()}
+          </Badge>
+        </HStack>
+      </Box>
+
+      <Grid templateColumns={{ base: '1fr', lg: '2fr 1fr' }} gap={6} alignItems="start">
+        <VStack align="stretch" gap={6}>
+          {/* Description */}
+          <Section title="Description">
+            <Text fontSize="sm" color={proposal.description ? 'gray.700' : 'gray.500'} whiteSpace="pre-wrap">
+              {proposal.description || 'No description given.'}
+            </Text>
+          </Section>
+
+          {/* Proposed Change */}
+          <Section title="Proposed Change">
+            <VStack align="stretch" gap={0}>
+              <ProposalChange proposal={proposal} />
+              <Field label="Proposer" value={shortAddress(proposal.proposer)} />
+              <Field
+                label={state === ProposalState.ACTIVE ? 'Voting Ends' : 'Voting Ended'}
+                value={new Date(Number(proposal.voteEnd) * 1000).toLocaleString()}
+              />
+            </VStack>
+          </Section>
+        </VStack>
+
+        {/* Votes */}
+        <Section title="Votes">
+          <VStack align="stretch" gap={4}>
+            <VotingModeSwitch mode={mode} onChange={setMode} />
+
+            {mode === 'offchain' ? (
+              <OffchainVotes proposal={proposal} quorum={quorum} now={now} />
+            ) : (
+              <>
+                <ProposalTally forVotes={proposal.forVotes} againstVotes={proposal.againstVotes} quorum={quorum} />
+
+                {state === ProposalState.ACTIVE && (
+                  <Text fontSize="sm" fontWeight="bold" color="blue.600">
+                    {formatRemainingTime(Number(proposal.voteEnd) - now)} left to vote
+                  </Text>
+                )}
+
+                {canVote && (
+                  <HStack gap={2}>
+                    <Button
+                      flex="1"
+                      colorScheme="green"
+                      onClick={() => handleVote(true)}
+                      loading={isVoting}
+                      disabled={isVoting}
+                    >
+                      Vote For
+                    </Button>
+                    <Button
+                      flex="1"
+                      colorScheme="red"
+                      variant="outline"
+                      onClick={() => handleVote(false)}
+                      loading={isVoting}
+                      disabled={isVoting}
+                    >
+                      Vote Against
+                    </Button>
+                  </HStack>
+                )}
+
+                {state === ProposalState.ACTIVE && (
+                  <Text fontSize="xs" color="gray.500">
+                    {!isConnected
+                      ? 'Connect your wallet to vote.'
+                      : hasVoted
+                        ? 'You have voted on this proposal.'
+                        : weight === BigInt(0)
+                          ? 'Only wallets holding resource tokens at the snapshot block can vote.'
+                          : `You vote with ${weight.toString()} votes, your balance at block ${proposal.snapshotBlock.toString()}.`}
+                  </Text>
+                )}
+
+                {state === ProposalState.PASSED && (
+                  <Button
+                    colorScheme="purple"
+                    onClick={handleExecute}
+                    loading={isExecuting}
+                    loadingText="Executing..."
+                    disabled={isExecuting || !isConnected}
+                  >
+                    Execute Proposal
+                  </Button>
+                )}
+              </>
+            )}
+          </VStack>
+        </Section>
+      </Grid>
+    </Box>
+  );
+}
+
+/**
+ * Proposal title, with the target resource's name when it has one
+ */
+function ProposalHeading({ proposal }: { proposal: Proposal }) {
+  const targetsResource = proposal.action !== ProposalAction.ADD_RESOURCE;
+  const { resource } = useResource(Number(proposal.resourceId));
+
+  return <>{getProposalTitle(proposal, targetsResource ? resource?.name : undefined)}</>;
+}
+
+/**
+ * Parameters of the proposed change
+ */
+function ProposalChange({ proposal }: { proposal: Proposal }) {
+  const resourceLink = (
+    <Link as={NextLink} href={`/resources/${proposal.resourceId}`} color="brand.600">
+      #{proposal.resourceId.toString()}
+    </Link>
+  );
+
+  if (proposal.action === ProposalAction.ADD_RESOURCE) {
+    return (
+      <>
+        <Field label="Name" value={proposal.name} />
+        <Field label="Category" value={getCategoryName(proposal.category)} />
+        <Field label="Initial Supply" value={proposal.initialSupply.toString()} />
+        <Field label="Recipient" value={shortAddress(proposal.recipient)} />
+        <Field
+          label="Reservation Stake"
+          value={proposal.stake > BigInt(0) ? `${formatEther(proposal.stake)} ETH` : 'Default stake'}
+        />
+        {proposal.executed && <Field label="Created Resource" value={resourceLink} />}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Field label="Resource" value={resourceLink} />
+      {proposal.action === ProposalAction.CHANGE_STAKE && (
+        <Field label="New Stake" value={`${formatEther(proposal.stake)} ETH`} />
+      )}
+    </>
+  );
+}
+
+/**
+ * Signed (gasless) voting: off-chain tally, sign buttons and the counted ballots
+ */
+function OffchainVotes({ proposal, quorum, now }: { proposal: Proposal; quorum: bigint; now: number }) {
+  const { address, isConnected } = useAccount();
+  const { tally, hasSigned, isLoading, error } = useOffchainTally(proposal);
+  const { weight } = useSnapshotVotingWeight(address, proposal.snapshotBlock);
+  const { signVote, isPending, isSuccess, error: signError } = useSignBallot();
+
+  // Handle stored ballot
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Ballot Signed',
+        description: 'Your signed vote has been stored. No gas was spent.',
+        type: 'success',
+        duration: 5000,
+      });
+    }
+  }, [isSuccess]);
+
+  // Handle signing or submission errors
+  useEffect(() => {
+    if (signError) {
+      toaster.create({
+        title: 'Ballot Failed',
+        description: signError.message || 'Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [signError]);
+
+  if (isLoading) {
+    return (
+      <VStack py={4}>
+        <Spinner size="md" color="brand.500" />
+        <Text fontSize="sm" color="gray.500">Verifying signed ballots...</Text>
+      </VStack>
+    );
+  }
+
+  if (error || !tally) {
+    return (
+      <Text fontSize="sm" color="red.500">
+        Failed to load signed ballots{error ? `: ${error.message}` : ''}
+      </Text>
+    );
+  }
+
+  const state = getOffchainState(proposal, tally, quorum, now);
+  const canSign = state === ProposalState.ACTIVE && isConnected && weight > BigInt(0) && !hasSigned;
+
+  /**
+   * Sign and submit a ballot
+   */
+  const handleSign = async (support: boolean) => {
+    try {
+      await signVote(proposal, support);
+    } catch (err) {
+      console.error('Sign ballot error:', err);
+    }
+  };
+
+  return (
+    <VStack align="stretch" gap={4}>
+      <HStack gap={2}>
+        <Text fontSize="sm" color="gray.600">Signal:</Text>
+        <Badge colorScheme={PROPOSAL_STATE_COLORS[state]} fontSize="xs">
+          {PROPOSAL_STATE_NAMES[state].toUpperCase()}
+        </Badge>
+      </HStack>
+
+      <ProposalTally forVotes={tally.forVotes} againstVotes={tally.againstVotes} quorum={quorum} />
+
+      {canSign && (
+        <HStack gap={2}>
+          <Button
+            flex="1"
+            colorScheme="green"
+            onClick={() => handleSign(true)}
+            loading={isPending}
+            disabled={isPending}
+          >
+            Sign For
+          </Button>
+          <Button
+            flex="1"
+            colorScheme="red"
+            variant="outline"
+            onClick={() => handleSign(false)}
+            loading={isPending}
+            disabled={isPending}
+          >
+            Sign Against
+          </Button>
+        </HStack>
+      )}
+
+      {state === ProposalState.ACTIVE && (
+        <Text fontSize="xs" color="gray.500">
+          {!isConnected
+            ? 'Connect your wallet to sign a ballot.'
+            : hasSigned
+              ? 'Your signed ballot has been counted.'
+              : weight === BigInt(0)
+                ? 'Only wallets holding resource tokens at the snapshot block can sign.'
+                : `Your ballot counts ${weight.toString()} votes, your balance at block ${proposal.snapshotBlock.toString()}.`}
+        </Text>
+      )}
+
+      {/* Counted ballots */}
+      {tally.counted.length > 0 && (
+        <VStack align="stretch" gap={0}>
+          {tally.counted.map((ballot) => (
+            <Field
+              key={ballot.voter}
+              label={shortAddress(ballot.voter)}
+              value={
+                <Text as="span" color={ballot.support ? 'green.600' : 'red.600'}>
+                  {ballot.support ? 'For' : 'Against'} · {ballot.weight.toString()}
+                </Text>
+              }
+            />
+          ))}
+        </VStack>
+      )}
+
+      <Text fontSize="xs" color="gray.500">
+        Tally recomputed in your browser from {tally.counted.length} valid signature
+        {tally.counted.length === 1 ? '' : 's'} and balances at snapshot block {proposal.snapshotBlock.toString()}
+        {tally.rejected > 0 && ` (${tally.rejected} invalid ballot${tally.rejected === 1 ? '' : 's'} ignored)`}.
+        Signed votes are advisory and cannot execute the proposal.
+      </Text>
+    </VStack>
+  );
+}
+
+/**
+ * White card with a heading, matching the dashboard panels
+ */
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={4}>
+        {title}
+      </Heading>
+      {children}
+    </Box>
+  );
+}
+
+/**
+ * Label/value row
+ */
+function Field({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <Flex justify="space-between" py={2} borderBottom="1px" borderColor="gray.100" gap={4}>
+      <Text fontSize="sm" color="gray.600">{label}</Text>
+      <Text fontSize="sm" color="gray.800" fontWeight="medium" textAlign="right">{value}</Text>
+    </Flex>
+  );
+}
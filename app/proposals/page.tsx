@@ -1,23 +1,48 @@
 /**
- * Proposals Page (Placeholder)
- * 
- * This page will display community proposals for resource allocation,
- * improvements, or new resources. Users can vote on proposals using
- * their connected wallet.
- * 
- * Future features:
- * - List active proposals
- * - Display proposal details (title, description, votes)
- * - Voting mechanism (connected to smart contract)
- * - Create new proposal form
- * - Filter by status (active, passed, rejected)
+ * Proposals Page
+ *
+ * Token-holder governance over campus resources (CampusResourceGovernor):
+ * - List of proposals, newest first, filterable by status (active, passed, rejected)
+ * - Vote tally and time left on each proposal
+ * - Voting mode switch: on-chain votes, or gas-free signed ballots whose
+ *   tallies are recomputed from the signatures (utils/offchainVoting.ts)
+ * - Connected wallet's voting weight
+ * - Create proposal form (add resource, change stake, retire resource)
+ *
+ * Proposal cards link to /proposals/[id], where holders vote and anyone can
+ * execute a passed proposal.
+ *
+ * @page
  */
 
 'use client';
 
-import { Box, Heading, Text, Center, Icon } from '@chakra-ui/react';
+import { useEffect, useMemo, useState } from 'react';
+import { Badge, Box, Button, Center, Flex, Grid, Heading, HStack, Spinner, Text, VStack } from '@chakra-ui/react';
+import { useAccount } from 'wagmi';
+import CreateProposalForm from '@/components/CreateProposalForm';
+import ProposalCard from '@/components/ProposalCard';
+import VotingModeSwitch from '@/components/VotingModeSwitch';
+import { useAllResources, useResources } from '@/hooks/useContract';
+import {
+  useGovernanceSettings,
+  useIsGovernanceConfigured,
+  useOffchainTallies,
+  useProposals,
+  useVotingWeight,
+} from '@/hooks/useGovernance';
+import { formatDuration } from '@/config/contract';
+import { getProposalState, matchesProposalFilter, PROPOSAL_FILTERS, ProposalFilter } from '@/utils/governance';
+import { getOffchainState, VotingMode } from '@/utils/offchainVoting';
+
+/**
+ * How often proposal states are recomputed, so closed votes move to passed/rejected
+ */
+const STATE_REFRESH_INTERVAL = 30000; // 30 seconds
 
 export default function ProposalsPage() {
+  const isConfigured = useIsGovernanceConfigured();
+
   return (
     <Box maxW="1400px" mx="auto">
       <Heading
@@ -28,25 +53,170 @@ export default function ProposalsPage() {
       >
         Proposals
       </Heading>
-      
-      <Center
-        bg="white"
-        borderRadius="lg"
-        boxShadow="md"
-        p={12}
-        minH="400px"
-        flexDirection="column"
-        gap={4}
-      >
-        <Text fontSize="6xl">📝</Text>
-        <Heading size="lg" color="gray.600">
-          Coming Soon
-        </Heading>
-        <Text fontSize="md" color="gray.500" textAlign="center" maxW="500px">
-          Community governance proposals will be displayed here. 
-          Vote on resource allocations and improvements using your wallet.
-        </Text>
-      </Center>
+
+      {isConfigured ? (
+        <ProposalsDashboard />
+      ) : (
+        <Center
+          bg="white"
+          borderRadius="lg"
+          boxShadow="md"
+          p={12}
+          minH="400px"
+          flexDirection="column"
+          gap={4}
+        >
+          <Text fontSize="6xl">📝</Text>
+          <Heading size="lg" color="gray.600">
+            Governance Not Deployed
+          </Heading>
+          <Text fontSize="md" color="gray.500" textAlign="center" maxW="500px">
+            No CampusResourceGovernor is deployed on this network. Run the deploy script
+            or set the governor address for this chain to vote on resource changes.
+          </Text>
+        </Center>
+      )}
     </Box>
   );
 }
+
+/**
+ * Proposal list, filters and create form for a configured governor
+ */
+function ProposalsDashboard() {
+  const { address, isConnected } = useAccount();
+  const { proposals, isLoading, error } = useProposals();
+  const { quorum, votingPeriod } = useGovernanceSettings();
+  const { weight } = useVotingWeight(address);
+  const { resourceIds } = useAllResources();
+  const { resources } = useResources(resourceIds);
+
+  const [filter, setFilter] = useState<ProposalFilter>('all');
+  const [mode, setMode] = useState<VotingMode>('onchain');
+  const { tallies } = useOffchainTallies(proposals, mode === 'offchain');
+
+  // Recompute states periodically
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), STATE_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const resourceNames = useMemo(
+    () => new Map(resources.map((resource) => [resource.id, resource.name])),
+    [resources]
+  );
+
+  // In off-chain mode, show and filter by the tally recomputed from signed ballots
+  const proposalsWithState = proposals.map((proposal) => {
+    if (mode === 'onchain') {
+      return { proposal, state: getProposalState(proposal, quorum, now) };
+    }
+    const tally = tallies.get(proposal.proposalId) ?? { forVotes: BigInt(0), againstVotes: BigInt(0) };
+    return {
+      proposal: { ...proposal, forVotes: tally.forVotes, againstVotes: tally.againstVotes },
+      state: getOffchainState(proposal, tally, quorum, now),
+    };
+  });
+  const filtered = proposalsWithState.filter(({ state }) => matchesProposalFilter(state, filter));
+
+  return (
+    <Grid templateColumns={{ base: '1fr', lg: '2fr 1fr' }} gap={6} alignItems="start">
+      <VStack align="stretch" gap={4}>
+        {/* Status Filter */}
+        <Flex
+          bg="white"
+          borderRadius="lg"
+          border="1px"
+          borderColor="gray.200"
+          p={4}
+          gap={3}
+          wrap="wrap"
+          align="center"
+          justify="space-between"
+        >
+          <HStack gap={2} wrap="wrap">
+            {PROPOSAL_FILTERS.map(({ value, label }) => (
+              <Button
+                key={value}
+                size="sm"
+                colorScheme="brand"
+                variant={filter === value ? 'solid' : 'outline'}
+                onClick={() => setFilter(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </HStack>
+          <HStack gap={3} wrap="wrap">
+            <Text fontSize="sm" color="gray.500">
+              {filtered.length} of {proposals.length} proposals
+            </Text>
+            <VotingModeSwitch mode={mode} onChange={setMode} />
+          </HStack>
+        </Flex>
+
+        {/* Proposal List */}
+        {isLoading ? (
+          <Center py={12}>
+            <Spinner size="lg" color="brand.500" />
+          </Center>
+        ) : error ? (
+          <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+            <Text color="red.500" fontWeight="bold">Failed to load proposals</Text>
+            <Text color="gray.600" fontSize="sm">{error.message}</Text>
+          </Box>
+        ) : filtered.length === 0 ? (
+          <Center bg="white" borderRadius="lg" boxShadow="md" p={12} flexDirection="column" gap={2}>
+            <Text fontSize="3xl">🗳️</Text>
+            <Text color="gray.500">
+              {proposals.length === 0 ? 'No proposals yet. Create the first one.' : 'No proposals match this filter.'}
+            </Text>
+          </Center>
+        ) : (
+          filtered.map(({ proposal, state }) => (
+            <ProposalCard
+              key={proposal.proposalId.toString()}
+              proposal={proposal}
+              state={state}
+              quorum={quorum}
+              resourceName={resourceNames.get(Number(proposal.resourceId))}
+              mode={mode}
+            />
+          ))
+        )}
+      </VStack>
+
+      <VStack align="stretch" gap={6}>
+        {/* Voting Power */}
+        <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+          <Heading as="h2" size="md" color="gray.700" mb={3}>
+            Your Voting Power
+          </Heading>
+          {isConnected ? (
+            <HStack gap={2}>
+              <Badge colorScheme={weight > BigInt(0) ? 'green' : 'gray'} fontSize="md" px={3} py={1} borderRadius="full">
+                {weight.toString()} votes
+              </Badge>
+              <Text fontSize="xs" color="gray.500">one per resource token you hold</Text>
+            </HStack>
+          ) : (
+            <Text fontSize="sm" color="gray.600">Connect your wallet to see your voting power.</Text>
+          )}
+          <Text fontSize="xs" color="gray.500" mt={3}>
+            Voting lasts {formatDuration(votingPeriod)}. A proposal passes with at least {quorum.toString()} votes
+            cast and more votes for than against.
+          </Text>
+          {mode === 'offchain' && (
+            <Text fontSize="xs" color="purple.600" mt={2}>
+              Signed ballots cost no gas and count your balance at each proposal&apos;s snapshot block.
+              Their results are advisory: only on-chain votes can pass a proposal for execution.
+            </Text>
+          )}
+        </Box>
+
+        {isConnected && <CreateProposalForm resources={resources} />}
+      </VStack>
+    </Grid>
+  );
+}
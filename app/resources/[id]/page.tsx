@@ -0,0 +1,415 @@
+/**
+ * Resource Detail Page
+ *
+ * Full view of a single on-chain resource at /resources/[id]:
+ * - Current reservation status with countdown
+ * - Every field of the ResourceWithId read from the contract, plus its
+ *   off-chain metadata (description, location, image)
+ * - Reservation timeline (who, when, how long, stake, outcome) rebuilt from
+ *   getReservationHistory and the reserve/release/expiry events
+ * - Advance booking calendar; `?start=<unix seconds>&duration=<seconds>`
+ *   pre-fills its booking form (used by the AI Suggestions recommendations)
+ * - Stake editor for resource managers
+ *
+ * Resource cards on the dashboard link here.
+ *
+ * @page
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import NextLink from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useAccount } from 'wagmi';
+import {
+  Badge,
+  Box,
+  Flex,
+  Grid,
+  Heading,
+  HStack,
+  Image,
+  Link,
+  Spinner,
+  Text,
+  VStack,
+} from '@chakra-ui/react';
+import { formatEther } from 'viem';
+import { ProgressBar } from '@/components/ui/progress';
+import BookingCalendar from '@/components/BookingCalendar';
+import ResourceStakeEditor from '@/components/ResourceStakeEditor';
+import TransferPolicyToggle from '@/components/TransferPolicyToggle';
+import {
+  useAdminAccess,
+  useIsRetired,
+  useMaxReservationDuration,
+  useReservationStake,
+  useResourceDetails,
+  useResourceMetadata,
+  useResourceTimeline,
+} from '@/hooks/useContract';
+import {
+  formatDuration,
+  formatRemainingTime,
+  getCategoryColor,
+  MAX_RESERVATION_DURATION,
+} from '@/config/contract';
+import { ReservationOutcome, ReservationTimelineEntry } from '@/utils/indexer';
+
+/**
+ * Badge color for each reservation outcome
+ */
+const OUTCOME_COLORS: Record<ReservationOutcome, string> = {
+  active: 'green',
+  released: 'blue',
+  expired: 'red',
+  transferred: 'purple',
+};
+
+/**
+ * Shorten an address for display
+ */
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Format a unix timestamp (seconds) for display
+ */
+const formatTimestamp = (timestamp: bigint) =>
+  timestamp > BigInt(0) ? new Date(Number(timestamp) * 1000).toLocaleString() : '—';
+
+/**
+ * Read a positive whole number from a query parameter, if present
+ */
+const parsePositiveInt = (value: string | null): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Resource Detail Page Component
+ */
+export default function ResourceDetailPage() {
+  const params = useParams<{ id: string }>();
+  const resourceId = Number(params.id);
+  const isValidId = Number.isInteger(resourceId) && resourceId >= 0;
+
+  if (!isValidId) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Invalid Resource ID</Text>
+          <Text color="gray.600" fontSize="sm">&quot;{params.id}&quot; is not a resource ID.</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  return <ResourceDetail resourceId={resourceId} />;
+}
+
+/**
+ * Link back to the dashboard
+ */
+function BackLink() {
+  return (
+    <Link as={NextLink} href="/" fontSize="sm" color="brand.600" mb={4} display="inline-block">
+      ← All Resources
+    </Link>
+  );
+}
+
+/**
+ * Detail view for a valid resource ID
+ */
+function ResourceDetail({ resourceId }: { resourceId: number }) {
+  const { address: userAddress } = useAccount();
+  const { resource: onChainResource, isUserReserver, isLoading, error } = useResourceDetails(resourceId);
+  const { resource, metadata } = useResourceMetadata(resourceId, onChainResource);
+  const { timeline, unindexedReservers, totalReservations, isLoading: timelineLoading, error: timelineError } =
+    useResourceTimeline(resourceId);
+  const { maxDuration: onChainMaxDuration } = useMaxReservationDuration();
+  const maxDuration = onChainMaxDuration || MAX_RESERVATION_DURATION;
+  const { stake } = useReservationStake(resourceId);
+  const { isResourceManager } = useAdminAccess();
+  const { isRetired } = useIsRetired(resourceId);
+
+  // Suggested booking slot from the query string
+  const searchParams = useSearchParams();
+  const suggestedStart = parsePositiveInt(searchParams.get('start'));
+  const suggestedDuration = parsePositiveInt(searchParams.get('duration'));
+
+  // Countdown for the live reservation
+  const [timeRemaining, setTimeRemaining] = useState<number>(0);
+  useEffect(() => {
+    if (resource?.isReserved && resource.remainingTime) {
+      setTimeRemaining(resource.remainingTime);
+
+      const interval = setInterval(() => {
+        setTimeRemaining((prev) => Math.max(0, prev - 1));
+      }, 1000);
+
+      return () => clearInterval(interval);
+    }
+  }, [resource]);
+
+  if (isLoading) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <VStack gap={3} py={12}>
+          <Spinner size="lg" color="brand.500" />
+          <Text color="gray.500">Loading resource...</Text>
+        </VStack>
+      </Box>
+    );
+  }
+
+  if (error || !resource) {
+    return (
+      <Box maxW="1400px" mx="auto">
+        <BackLink />
+        <Box bg="white" borderRadius="lg" border="1px" borderColor="red.200" p={6}>
+          <Text color="red.500" fontWeight="bold">Error Loading Resource</Text>
+          <Text color="gray.600" fontSize="sm">{error?.message || 'Resource not found'}</Text>
+        </Box>
+      </Box>
+    );
+  }
+
+  const totalDuration = Number(resource.reservationEnd - resource.reservationStart);
+  const progressPercentage = totalDuration > 0
+    ? ((totalDuration - timeRemaining) / totalDuration) * 100
+    : 0;
+
+  // Every field of the ResourceWithId, as read from the contract
+  const fields: { label: string; value: string }[] = [
+    { label: 'Resource ID', value: resource.id.toString() },
+    { label: 'Name', value: resource.name },
+    { label: 'Category', value: `${resource.categoryName} (${resource.category})` },
+    { label: 'Reserved', value: resource.isReserved ? 'Yes' : 'No' },
+    { label: 'Current Reserver', value: resource.isReserved ? resource.currentReserver : '—' },
+    { label: 'Reservation Start', value: formatTimestamp(resource.reservationStart) },
+    { label: 'Reservation End', value: formatTimestamp(resource.reservationEnd) },
+    { label: 'Reservation Stake', value: `${stake} ETH` },
+    { label: 'Staked Amount', value: `${formatEther(resource.stakedAmount)} ETH` },
+    { label: 'Remaining Time', value: resource.isReserved ? formatRemainingTime(resource.remainingTime ?? 0) : '—' },
+    { label: 'Expired', value: resource.isReserved && resource.isExpired ? 'Yes' : 'No' },
+    { label: 'Exists', value: resource.exists ? 'Yes' : 'No' },
+    ...(metadata?.attributes ?? []).map((attribute) => ({
+      label: attribute.trait_type,
+      value: attribute.value.toString(),
+    })),
+  ];
+
+  return (
+    <Box maxW="1400px" mx="auto">
+      <BackLink />
+
+      {/* Page Header */}
+      <Box mb={6}>
+        <Heading as="h1" size={{ base: 'xl', md: '2xl' }} mb={2} color="gray.800">
+          {resource.name}
+        </Heading>
+        <HStack gap={2} flexWrap="wrap">
+          <Badge colorScheme={getCategoryColor(resource.category)} fontSize="sm" px={2} py={1} borderRadius="md">
+            {resource.categoryName}
+          </Badge>
+          <Badge colorScheme={resource.isReserved ? 'orange' : 'green'} fontSize="sm" px={2} py={1} borderRadius="md">
+            {resource.isReserved ? 'RESERVED' : 'AVAILABLE'}
+          </Badge>
+          {isUserReserver && (
+            <Badge colorScheme="blue" fontSize="sm" px={2} py={1} borderRadius="md">
+              YOUR RESERVATION
+            </Badge>
+          )}
+          {isRetired && (
+            <Badge colorScheme="gray" fontSize="sm" px={2} py={1} borderRadius="md">
+              RETIRED
+            </Badge>
+          )}
+        </HStack>
+        {resource.description && (
+          <Text fontSize="md" color="gray.600" mt={3} maxW="800px">
+            {resource.description}
+          </Text>
+        )}
+        {resource.location && (
+          <Text fontSize="sm" color="gray.500" mt={1}>
+            📍 {resource.location}
+          </Text>
+        )}
+        {resource.image && (
+          <Image
+            src={resource.image}
+            alt={resource.name}
+            mt={4}
+            maxH="320px"
+            borderRadius="lg"
+            objectFit="cover"
+          />
+        )}
+      </Box>
+
+      <Grid templateColumns={{ base: '1fr', lg: '2fr 1fr' }} gap={6} alignItems="start">
+        <VStack align="stretch" gap={6}>
+          {/* Current Status */}
+          <Section title="Current Status">
+            {resource.isReserved ? (
+              <VStack align="stretch" gap={2} bg="orange.50" p={4} borderRadius="md">
+                <Flex justify="space-between" align="center">
+                  <Text fontSize="sm" color="gray.600">
+                    Reserved by {isUserReserver ? 'you' : shortAddress(resource.currentReserver)}
+                  </Text>
+                  <Text fontSize="sm" fontWeight="bold" color="orange.600">
+                    {formatRemainingTime(timeRemaining)}
+                  </Text>
+                </Flex>
+                <ProgressBar value={progressPercentage} size="sm" colorScheme="orange" />
+                <Text fontSize="xs" color="gray.500">
+                  Until {formatTimestamp(resource.reservationEnd)} • Stake {formatEther(resource.stakedAmount)} ETH
+                </Text>
+              </VStack>
+            ) : (
+              <Text fontSize="sm" color={isRetired ? 'gray.500' : 'green.600'}>
+                {isRetired
+                  ? 'Retired. This resource can no longer be reserved or booked.'
+                  : 'Available now. Reserve it from the dashboard or book a future slot.'}
+              </Text>
+            )}
+          </Section>
+
+          {/* Reservation Timeline */}
+          <Section title={`Reservation Timeline (${totalReservations})`}>
+            {timelineLoading ? (
+              <Flex justify="center" py={4}>
+                <Spinner size="md" color="brand.500" />
+              </Flex>
+            ) : timelineError ? (
+              <Text fontSize="sm" color="red.500">
+                Failed to load reservation events: {timelineError.message}
+              </Text>
+            ) : timeline.length === 0 && unindexedReservers.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">
+                This resource has never been reserved.
+              </Text>
+            ) : (
+              <VStack align="stretch" gap={0}>
+                {timeline.map((entry) => (
+                  <TimelineItem
+                    key={entry.transactionHash}
+                    entry={entry}
+                    isMine={!!userAddress && entry.reserver.toLowerCase() === userAddress.toLowerCase()}
+                  />
+                ))}
+                {unindexedReservers.length > 0 && (
+                  <Box pt={3}>
+                    <Text fontSize="xs" color="gray.500" mb={1}>
+                      {unindexedReservers.length} earlier reservation(s) predate the indexed block range:
+                    </Text>
+                    <HStack gap={2} flexWrap="wrap">
+                      {[...unindexedReservers].reverse().map((reserver, index) => (
+                        <Badge key={`${reserver}-${index}`} colorScheme="gray" fontSize="xs">
+                          {shortAddress(reserver)}
+                        </Badge>
+                      ))}
+                    </HStack>
+                  </Box>
+                )}
+              </VStack>
+            )}
+          </Section>
+
+          {/* Resource Data */}
+          <Section title="Resource Data">
+            <Grid templateColumns={{ base: '1fr', md: 'repeat(2, 1fr)' }} gap={3}>
+              {fields.map((field) => (
+                <Box key={field.label}>
+                  <Text fontSize="xs" color="gray.500">{field.label}</Text>
+                  <Text fontSize="sm" color="gray.800" wordBreak="break-all">{field.value}</Text>
+                </Box>
+              ))}
+            </Grid>
+          </Section>
+        </VStack>
+
+        <VStack align="stretch" gap={6}>
+          {/* Booking Calendar */}
+          <Section title="Bookings">
+            <BookingCalendar
+              key={`${suggestedStart}-${suggestedDuration}`}
+              resourceId={resourceId}
+              maxDuration={maxDuration}
+              initialStart={suggestedStart}
+              initialDuration={suggestedDuration}
+            />
+          </Section>
+
+          {/* Stake (resource managers only) */}
+          {isResourceManager && (
+            <Section title="Stake">
+              <ResourceStakeEditor resourceId={resourceId} />
+            </Section>
+          )}
+
+          {/* Handover policy (resource managers only) */}
+          {isResourceManager && (
+            <Section title="Handovers">
+              <TransferPolicyToggle resourceId={resourceId} />
+            </Section>
+          )}
+        </VStack>
+      </Grid>
+    </Box>
+  );
+}
+
+/**
+ * White card with a heading, matching the dashboard panels
+ */
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={4}>
+        {title}
+      </Heading>
+      {children}
+    </Box>
+  );
+}
+
+/**
+ * One reservation in the timeline
+ */
+function TimelineItem({ entry, isMine }: { entry: ReservationTimelineEntry; isMine: boolean }) {
+  const endedAt = entry.endedAt ?? entry.reservationEnd;
+  const heldFor = Number(endedAt - entry.reservationStart);
+
+  return (
+    <Flex gap={3} py={3} borderBottom="1px" borderColor="gray.100">
+      <Box w={2} h={2} mt={2} borderRadius="full" bg={`${OUTCOME_COLORS[entry.outcome]}.400`} flexShrink={0} />
+      <VStack align="stretch" gap={1} flex="1">
+        <HStack gap={2} flexWrap="wrap">
+          <Text fontSize="sm" fontWeight="bold" color="gray.800">
+            {shortAddress(entry.reserver)}
+          </Text>
+          {isMine && <Badge colorScheme="blue" fontSize="xs">YOU</Badge>}
+          <Badge colorScheme={OUTCOME_COLORS[entry.outcome]} fontSize="xs">
+            {entry.outcome.toUpperCase()}
+          </Badge>
+          {entry.fromWaitlist && <Badge colorScheme="purple" fontSize="xs">FROM WAITLIST</Badge>}
+        </HStack>
+        <Text fontSize="xs" color="gray.600">
+          {formatTimestamp(entry.reservationStart)} → {entry.outcome === 'active' ? `ends ${formatTimestamp(entry.reservationEnd)}` : formatTimestamp(endedAt)}
+        </Text>
+        <Text fontSize="xs" color="gray.500">
+          {entry.outcome === 'active' ? 'Booked for' : 'Held for'} {formatDuration(Math.max(0, heldFor))} • Stake {formatEther(entry.stakeAmount)} ETH
+          {entry.stakeReturned !== undefined && ` • Returned ${formatEther(entry.stakeReturned)} ETH`}
+          {!!entry.penalty && ` • Late penalty ${formatEther(entry.penalty)} ETH`}
+          {!!entry.keeperReward && ` • Keeper reward ${formatEther(entry.keeperReward)} ETH`}
+        </Text>
+      </VStack>
+    </Flex>
+  );
+}
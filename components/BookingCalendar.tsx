@@ -0,0 +1,308 @@
+/**
+ * BookingCalendar Component
+ *
+ * Week-by-week calendar of advance bookings for one resource:
+ * - Agenda of booked slots per day, read from getBookings()
+ * - Cancel / check-in actions on the user's own bookings
+ * - Form to book a future slot (start time + duration)
+ * - Navigation up to the contract's advance booking limit
+ *
+ * Props:
+ * @param {number} resourceId - The on-chain resource ID
+ * @param {number} maxDuration - Maximum slot length in seconds
+ * @param {number} initialStart - Pre-filled slot start (unix seconds, optional)
+ * @param {number} initialDuration - Pre-filled slot length in seconds (optional)
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Badge, Box, Button, Flex, HStack, Input, Spinner, Text, VStack } from '@chakra-ui/react';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import DurationPicker from '@/components/DurationPicker';
+import {
+  useBookings,
+  useBookResource,
+  useCancelBooking,
+  useCheckInBooking,
+  useReservationStake,
+} from '@/hooks/useContract';
+import {
+  Booking,
+  BookingStatus,
+  DEFAULT_RESERVATION_DURATION,
+  MAX_ADVANCE_BOOKING,
+  formatDuration,
+  validateBookingStart,
+  validateReservationDuration,
+} from '@/config/contract';
+
+const DAY_SECONDS = 86400;
+const WEEK_SECONDS = 7 * DAY_SECONDS;
+
+/**
+ * BookingCalendar Props Interface
+ */
+interface BookingCalendarProps {
+  resourceId: number;
+  maxDuration: number;
+  initialStart?: number;
+  initialDuration?: number;
+}
+
+/**
+ * Unix timestamp of local midnight today
+ */
+const getStartOfToday = (): number => {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.floor(today.getTime() / 1000);
+};
+
+/**
+ * Format a unix timestamp for a datetime-local input
+ */
+const toDateTimeInputValue = (timestamp: number): string => {
+  const date = new Date(timestamp * 1000);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Format the time range of a booking relative to its day
+ */
+const formatSlot = (booking: Booking): string => {
+  const start = new Date(Number(booking.start) * 1000);
+  const end = new Date(Number(booking.end) * 1000);
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const sameDay = start.toDateString() === end.toDateString();
+  return sameDay
+    ? `${time(start)} – ${time(end)}`
+    : `${time(start)} – ${end.toLocaleDateString([], { weekday: 'short' })} ${time(end)}`;
+};
+
+/**
+ * BookingCalendar Component
+ */
+export default function BookingCalendar({ resourceId, maxDuration, initialStart, initialDuration }: BookingCalendarProps) {
+  const { address: userAddress, isConnected } = useAccount();
+  const { stake } = useReservationStake(resourceId);
+
+  // Calendar window is anchored to midnight when the calendar was opened,
+  // and opens on the week of a pre-filled slot
+  const maxWeekOffset = Math.floor(MAX_ADVANCE_BOOKING / WEEK_SECONDS);
+  const [startOfToday] = useState(getStartOfToday);
+  const [weekOffset, setWeekOffset] = useState(() =>
+    initialStart
+      ? Math.min(maxWeekOffset, Math.max(0, Math.floor((initialStart - startOfToday) / WEEK_SECONDS)))
+      : 0
+  );
+  const windowStart = startOfToday + weekOffset * WEEK_SECONDS;
+  const windowEnd = windowStart + WEEK_SECONDS;
+
+  const { bookings, isLoading, error } = useBookings(resourceId, windowStart, windowEnd);
+  const { book, isPending: isBooking, isSuccess: bookSuccess, error: bookError } = useBookResource();
+  const { cancel, isPending: isCancelling, isSuccess: cancelSuccess, error: cancelError } = useCancelBooking();
+  const { checkIn, isPending: isCheckingIn, isSuccess: checkInSuccess, error: checkInError } = useCheckInBooking();
+
+  // Booking form state (start defaults to the next full hour)
+  const [startInput, setStartInput] = useState(() =>
+    toDateTimeInputValue(initialStart ?? Math.ceil(Date.now() / 1000 / 3600) * 3600)
+  );
+  const [duration, setDuration] = useState<number>(initialDuration ?? DEFAULT_RESERVATION_DURATION);
+  const start = Math.floor(new Date(startInput).getTime() / 1000);
+  const startError = validateBookingStart(start);
+  const formError = startError || validateReservationDuration(duration, maxDuration);
+
+  // Group bookings under the day they start on (carried-over slots show on the first day)
+  const days = useMemo(
+    () =>
+      Array.from({ length: 7 }, (_, index) => {
+        const dayStart = windowStart + index * DAY_SECONDS;
+        return {
+          dayStart,
+          bookings: bookings.filter((booking) => {
+            const slotStart = Math.max(Number(booking.start), windowStart);
+            return slotStart >= dayStart && slotStart < dayStart + DAY_SECONDS;
+          }),
+        };
+      }),
+    [bookings, windowStart]
+  );
+
+  // Transaction feedback
+  useEffect(() => {
+    if (bookSuccess) {
+      toaster.create({ title: 'Slot Booked', description: 'Your booking is on the calendar.', type: 'success', duration: 5000 });
+    }
+  }, [bookSuccess]);
+
+  useEffect(() => {
+    if (cancelSuccess) {
+      toaster.create({ title: 'Booking Cancelled', description: 'Your stake has been returned.', type: 'success', duration: 5000 });
+    }
+  }, [cancelSuccess]);
+
+  useEffect(() => {
+    if (checkInSuccess) {
+      toaster.create({ title: 'Checked In', description: 'The resource is now reserved for you.', type: 'success', duration: 5000 });
+    }
+  }, [checkInSuccess]);
+
+  useEffect(() => {
+    const txError = bookError || cancelError || checkInError;
+    if (txError) {
+      toaster.create({
+        title: 'Booking Transaction Failed',
+        description: txError.message || 'Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [bookError, cancelError, checkInError]);
+
+  /**
+   * Handle booking a new slot
+   */
+  const handleBook = async () => {
+    if (formError) {
+      toaster.create({ title: 'Invalid Booking', description: formError, type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await book(resourceId, start, duration);
+    } catch (err) {
+      console.error('Booking error:', err);
+    }
+  };
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return (
+    <VStack align="stretch" gap={3}>
+      {/* Week navigation */}
+      <Flex justify="space-between" align="center">
+        <Button size="xs" variant="outline" onClick={() => setWeekOffset((prev) => prev - 1)} disabled={weekOffset === 0}>
+          ‹ Prev
+        </Button>
+        <Text fontSize="xs" fontWeight="bold" color="gray.700">
+          {new Date(windowStart * 1000).toLocaleDateString()} – {new Date((windowEnd - 1) * 1000).toLocaleDateString()}
+        </Text>
+        <Button
+          size="xs"
+          variant="outline"
+          onClick={() => setWeekOffset((prev) => prev + 1)}
+          disabled={weekOffset >= maxWeekOffset}
+        >
+          Next ›
+        </Button>
+      </Flex>
+
+      {/* Agenda */}
+      {isLoading ? (
+        <Flex justify="center" py={2}>
+          <Spinner size="sm" color="brand.500" />
+        </Flex>
+      ) : error ? (
+        <Text fontSize="xs" color="red.500">
+          Failed to load bookings: {error.message}
+        </Text>
+      ) : (
+        <VStack align="stretch" gap={1}>
+          {days.map(({ dayStart, bookings: dayBookings }) => (
+            <Box key={dayStart} borderBottom="1px" borderColor="gray.100" py={1}>
+              <Text fontSize="xs" color="gray.600" fontWeight="semibold">
+                {new Date(dayStart * 1000).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+              </Text>
+              {dayBookings.length === 0 ? (
+                <Text fontSize="xs" color="gray.400">
+                  Free
+                </Text>
+              ) : (
+                dayBookings.map((booking) => {
+                  const isMine = !!userAddress && booking.booker.toLowerCase() === userAddress.toLowerCase();
+                  const isActive = booking.status === BookingStatus.ACTIVE;
+                  const canCheckIn = isMine && isActive && now >= Number(booking.start) && now < Number(booking.end);
+
+                  return (
+                    <HStack key={booking.bookingId.toString()} gap={2} flexWrap="wrap" py={1}>
+                      <Text fontSize="xs" color="gray.800">
+                        {formatSlot(booking)}
+                      </Text>
+                      {isMine ? (
+                        <Badge colorScheme="blue" fontSize="2xs">YOU</Badge>
+                      ) : (
+                        <Text fontSize="2xs" color="gray.500">
+                          {booking.booker.slice(0, 6)}...{booking.booker.slice(-4)}
+                        </Text>
+                      )}
+                      {booking.status === BookingStatus.CHECKED_IN && (
+                        <Badge colorScheme="green" fontSize="2xs">CHECKED IN</Badge>
+                      )}
+                      {canCheckIn && (
+                        <Button
+                          size="2xs"
+                          colorScheme="green"
+                          onClick={() => checkIn(resourceId, booking.bookingId)}
+                          loading={isCheckingIn}
+                        >
+                          Check in
+                        </Button>
+                      )}
+                      {isMine && isActive && (
+                        <Button
+                          size="2xs"
+                          variant="outline"
+                          colorScheme="red"
+                          onClick={() => cancel(resourceId, booking.bookingId)}
+                          loading={isCancelling}
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </HStack>
+                  );
+                })
+              )}
+            </Box>
+          ))}
+        </VStack>
+      )}
+
+      {/* Book a slot */}
+      {isConnected && (
+        <VStack align="stretch" gap={2} bg="gray.50" p={3} borderRadius="md">
+          <Text fontSize="xs" color="gray.600">
+            Start Time
+          </Text>
+          <Input
+            size="sm"
+            type="datetime-local"
+            value={startInput}
+            onChange={(e) => setStartInput(e.target.value)}
+          />
+          <DurationPicker value={duration} onChange={setDuration} maxDuration={maxDuration} />
+          {startError && (
+            <Text fontSize="xs" color="red.500">
+              {startError}
+            </Text>
+          )}
+          <Button
+            size="sm"
+            colorScheme="brand"
+            onClick={handleBook}
+            loading={isBooking}
+            loadingText="Booking..."
+            disabled={isBooking || !!formError}
+          >
+            Book Slot ({formatDuration(duration)}, {stake} ETH stake)
+          </Button>
+        </VStack>
+      )}
+    </VStack>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * ContentionHeatmap Component
+ *
+ * Week grid of how likely a resource is to be reserved, on the AI Suggestions
+ * page (see utils/forecast.ts):
+ * - One row per weekday, one cell per local hour of day
+ * - Cells shaded from green (rarely reserved) to red (usually reserved)
+ * - Hover title with the weekday, hour and percentage
+ * - Color legend
+ *
+ * Props:
+ * @param {number[]} values - Chance of being reserved (0-1) per hour of week,
+ *   indexed weekday * 24 + hour (0 = Sunday)
+ *
+ * @component
+ */
+
+'use client';
+
+import { Box, Flex, HStack, Text, VStack } from '@chakra-ui/react';
+import { formatHour, WEEKDAY_NAMES } from '@/utils/analytics';
+
+/**
+ * ContentionHeatmap Props Interface
+ */
+interface ContentionHeatmapProps {
+  values: number[];
+}
+
+/**
+ * Cell shades, from least to most contended, with the lowest chance each covers
+ */
+const CONTENTION_LEVELS = [
+  { min: 0, color: 'green.100', label: 'Under 10%' },
+  { min: 0.1, color: 'yellow.200', label: '10–30%' },
+  { min: 0.3, color: 'orange.300', label: '30–60%' },
+  { min: 0.6, color: 'red.400', label: '60% or more' },
+];
+
+/**
+ * Shade for a contention value
+ */
+const colorFor = (value: number) =>
+  CONTENTION_LEVELS.reduce((color, level) => (value >= level.min ? level.color : color), CONTENTION_LEVELS[0].color);
+
+/**
+ * ContentionHeatmap Component
+ */
+export default function ContentionHeatmap({ values }: ContentionHeatmapProps) {
+  return (
+    <VStack align="stretch" gap={1}>
+      {/* Hour labels */}
+      <Flex gap="2px" pl="40px">
+        {Array.from({ length: 24 }, (_, hour) => (
+          <Text key={hour} flex="1" minW={0} fontSize="2xs" color="gray.500" whiteSpace="nowrap">
+            {hour % 3 === 0 ? formatHour(hour) : ''}
+          </Text>
+        ))}
+      </Flex>
+
+      {/* One row per weekday */}
+      {WEEKDAY_NAMES.map((weekday, day) => (
+        <Flex key={weekday} gap="2px" align="center">
+          <Text w="38px" fontSize="xs" color="gray.600">
+            {weekday}
+          </Text>
+          {Array.from({ length: 24 }, (_, hour) => {
+            const value = values[day * 24 + hour] ?? 0;
+            return (
+              <Box
+                key={hour}
+                flex="1"
+                h="18px"
+                minW={0}
+                borderRadius="sm"
+                bg={colorFor(value)}
+                title={`${weekday} ${formatHour(hour)}: ${Math.round(value * 100)}% likely reserved`}
+              />
+            );
+          })}
+        </Flex>
+      ))}
+
+      {/* Legend */}
+      <HStack gap={4} pt={2} pl="40px" wrap="wrap">
+        {CONTENTION_LEVELS.map((level) => (
+          <HStack key={level.label} gap={1}>
+            <Box w="12px" h="12px" borderRadius="sm" bg={level.color} />
+            <Text fontSize="xs" color="gray.600">{level.label}</Text>
+          </HStack>
+        ))}
+      </HStack>
+    </VStack>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * ContractEventSync Component
+ * 
+ * Keeps cached contract reads and indexer queries in step with the chain
+ * through a single CampusResourceNFT event subscription
+ * (see useContractEventSync). Mounted once inside the app providers;
+ * renders nothing.
+ * 
+ * @component
+ */
+
+'use client';
+
+import { useContractEventSync } from '@/hooks/useContract';
+
+/**
+ * ContractEventSync Component
+ */
+export default function ContractEventSync() {
+  useContractEventSync();
+  return null;
+}
@@ -0,0 +1,289 @@
+/**
+ * CreateProposalForm Component
+ *
+ * Proposals page form for opening a governance proposal:
+ * - Action select (add resource, change stake, retire resource)
+ * - Fields for the chosen action, validated inline
+ * - Description shown to voters
+ * - Toast notifications for success and failure
+ *
+ * Only wallets holding resource tokens can propose (the governor enforces this).
+ *
+ * Props:
+ * @param {ResourceWithId[]} resources - Existing resources to choose a target from
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Box, Button, Heading, Input, NativeSelect, Text, Textarea, VStack } from '@chakra-ui/react';
+import { isAddress, Address } from 'viem';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import { useCreateProposal, useVotingWeight } from '@/hooks/useGovernance';
+import { CATEGORY_NAMES, ResourceCategory, ResourceWithId } from '@/config/contract';
+import { PROPOSAL_ACTION_NAMES, ProposalAction } from '@/utils/governance';
+
+/**
+ * CreateProposalForm Props Interface
+ */
+interface CreateProposalFormProps {
+  resources: ResourceWithId[];
+}
+
+/**
+ * Form field values
+ */
+interface ProposalFormValues {
+  action: ProposalAction;
+  resourceId: string;
+  name: string;
+  category: ResourceCategory;
+  supply: string;
+  recipient: string;
+  stake: string;
+}
+
+/**
+ * Validate the fields the chosen action uses
+ * @returns Error message, or null if the form can be submitted
+ */
+const validateForm = (values: ProposalFormValues): string | null => {
+  if (values.action === ProposalAction.ADD_RESOURCE) {
+    if (values.name.trim().length === 0) {
+      return 'Name cannot be empty';
+    }
+    const parsedSupply = Number(values.supply);
+    if (!Number.isInteger(parsedSupply) || parsedSupply <= 0) {
+      return 'Initial supply must be a whole number greater than zero';
+    }
+    if (!isAddress(values.recipient)) {
+      return 'Recipient must be a valid address';
+    }
+    if (values.stake.trim().length > 0 && !(Number(values.stake) > 0)) {
+      return 'Stake must be greater than zero (leave blank for the default)';
+    }
+    return null;
+  }
+
+  if (values.resourceId === '') {
+    return 'Choose a resource';
+  }
+  if (values.action === ProposalAction.CHANGE_STAKE && !(Number(values.stake) > 0)) {
+    return 'Stake must be greater than zero';
+  }
+  return null;
+};
+
+/**
+ * CreateProposalForm Component
+ */
+export default function CreateProposalForm({ resources }: CreateProposalFormProps) {
+  const { address } = useAccount();
+  const { weight } = useVotingWeight(address);
+  const { proposeAddResource, proposeStakeChange, proposeRetirement, isPending, isSuccess, error } = useCreateProposal();
+
+  const [values, setValues] = useState<ProposalFormValues>({
+    action: ProposalAction.ADD_RESOURCE,
+    resourceId: '',
+    name: '',
+    category: ResourceCategory.LAB,
+    supply: '1',
+    recipient: '',
+    stake: '',
+  });
+  const [description, setDescription] = useState('');
+  const update = (changes: Partial<ProposalFormValues>) => setValues((prev) => ({ ...prev, ...changes }));
+
+  // Default the recipient to the connected wallet
+  useEffect(() => {
+    if (address) {
+      setValues((prev) => ({ ...prev, recipient: prev.recipient || address }));
+    }
+  }, [address]);
+
+  const formError = validateForm(values);
+  const canPropose = weight > BigInt(0);
+
+  // Handle successful proposal
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Proposal Created',
+        description: 'Voting is now open.',
+        type: 'success',
+        duration: 5000,
+      });
+      setValues((prev) => ({ ...prev, resourceId: '', name: '', supply: '1', stake: '' }));
+      setDescription('');
+    }
+  }, [isSuccess]);
+
+  // Handle proposal errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Proposal Failed',
+        description: error.message || 'Failed to create the proposal. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the proposal transaction for the chosen action
+   */
+  const handleSubmit = async () => {
+    if (formError) {
+      toaster.create({ title: 'Invalid Proposal', description: formError, type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      if (values.action === ProposalAction.ADD_RESOURCE) {
+        await proposeAddResource({
+          name: values.name.trim(),
+          category: values.category,
+          initialSupply: Number(values.supply),
+          recipient: values.recipient as Address,
+          stakeEth: values.stake.trim(),
+          description: description.trim(),
+        });
+      } else if (values.action === ProposalAction.CHANGE_STAKE) {
+        await proposeStakeChange(Number(values.resourceId), values.stake.trim(), description.trim());
+      } else {
+        await proposeRetirement(Number(values.resourceId), description.trim());
+      }
+    } catch (err) {
+      console.error('Create proposal error:', err);
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={4}>
+        New Proposal
+      </Heading>
+
+      <VStack align="stretch" gap={3}>
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Action</Text>
+          <NativeSelect.Root size="sm">
+            <NativeSelect.Field
+              value={values.action}
+              onChange={(e) => update({ action: Number(e.target.value) as ProposalAction })}
+            >
+              {(Object.entries(PROPOSAL_ACTION_NAMES) as [string, string][]).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </Box>
+
+        {values.action === ProposalAction.ADD_RESOURCE ? (
+          <>
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Name</Text>
+              <Input size="sm" placeholder="e.g. Campus Van" value={values.name} onChange={(e) => update({ name: e.target.value })} />
+            </Box>
+
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Category</Text>
+              <NativeSelect.Root size="sm">
+                <NativeSelect.Field
+                  value={values.category}
+                  onChange={(e) => update({ category: Number(e.target.value) as ResourceCategory })}
+                >
+                  {(Object.entries(CATEGORY_NAMES) as [string, string][]).map(([value, label]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Box>
+
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Initial Supply</Text>
+              <Input size="sm" type="number" min={1} step={1} value={values.supply} onChange={(e) => update({ supply: e.target.value })} />
+            </Box>
+
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Recipient</Text>
+              <Input size="sm" placeholder="0x..." value={values.recipient} onChange={(e) => update({ recipient: e.target.value.trim() })} />
+            </Box>
+          </>
+        ) : (
+          <Box>
+            <Text fontSize="xs" color="gray.600" mb={1}>Resource</Text>
+            <NativeSelect.Root size="sm">
+              <NativeSelect.Field
+                value={values.resourceId}
+                onChange={(e) => update({ resourceId: e.target.value })}
+              >
+                <option value="">Choose a resource</option>
+                {resources.map((resource) => (
+                  <option key={resource.id} value={resource.id}>
+                    #{resource.id} {resource.name}
+                  </option>
+                ))}
+              </NativeSelect.Field>
+              <NativeSelect.Indicator />
+            </NativeSelect.Root>
+          </Box>
+        )}
+
+        {values.action !== ProposalAction.RETIRE_RESOURCE && (
+          <Box>
+            <Text fontSize="xs" color="gray.600" mb={1}>
+              {values.action === ProposalAction.ADD_RESOURCE ? 'Reservation Stake (ETH)' : 'New Stake (ETH)'}
+            </Text>
+            <Input
+              size="sm"
+              type="number"
+              min={0}
+              step="0.01"
+              placeholder={values.action === ProposalAction.ADD_RESOURCE ? 'Default stake' : 'e.g. 0.2'}
+              value={values.stake}
+              onChange={(e) => update({ stake: e.target.value })}
+            />
+          </Box>
+        )}
+
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Description</Text>
+          <Textarea
+            size="sm"
+            rows={3}
+            placeholder="Why should token holders vote for this?"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+          />
+        </Box>
+
+        {!canPropose && (
+          <Text fontSize="xs" color="orange.600">
+            Only resource token holders can create proposals.
+          </Text>
+        )}
+
+        <Button
+          colorScheme="brand"
+          onClick={handleSubmit}
+          loading={isPending}
+          loadingText="Proposing..."
+          disabled={isPending || !canPropose || !!formError}
+        >
+          Create Proposal
+        </Button>
+      </VStack>
+    </Box>
+  );
+}
@@ -0,0 +1,180 @@
+/**
+ * CreateResourceForm Component
+ *
+ * Admin console form that mints a new resource token via createResource:
+ * - Name, category, initial supply, recipient and reservation stake
+ * - Inline validation before the transaction is sent
+ * - Toast notifications for success and failure
+ *
+ * Only usable by wallets holding RESOURCE_MANAGER_ROLE (the contract enforces this).
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Box, Button, Heading, Input, NativeSelect, Text, VStack } from '@chakra-ui/react';
+import { isAddress, Address } from 'viem';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import { useCreateResource } from '@/hooks/useContract';
+import { CATEGORY_NAMES, ResourceCategory } from '@/config/contract';
+
+/**
+ * Validate the form fields
+ * @returns Error message, or null if the form can be submitted
+ */
+const validateForm = (name: string, supply: string, recipient: string, stake: string): string | null => {
+  if (name.trim().length === 0) {
+    return 'Name cannot be empty';
+  }
+  const parsedSupply = Number(supply);
+  if (!Number.isInteger(parsedSupply) || parsedSupply <= 0) {
+    return 'Initial supply must be a whole number greater than zero';
+  }
+  if (!isAddress(recipient)) {
+    return 'Recipient must be a valid address';
+  }
+  if (stake.trim().length > 0 && !(Number(stake) > 0)) {
+    return 'Stake must be greater than zero (leave blank for the default)';
+  }
+  return null;
+};
+
+/**
+ * CreateResourceForm Component
+ */
+export default function CreateResourceForm() {
+  const { address } = useAccount();
+  const { create, isPending, isSuccess, error } = useCreateResource();
+
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState<ResourceCategory>(ResourceCategory.LAB);
+  const [supply, setSupply] = useState('1');
+  const [recipient, setRecipient] = useState('');
+  const [stake, setStake] = useState('');
+
+  // Default the recipient to the connected wallet
+  useEffect(() => {
+    if (address) {
+      setRecipient((prev) => prev || address);
+    }
+  }, [address]);
+
+  const formError = validateForm(name, supply, recipient, stake);
+
+  // Handle successful creation
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Resource Created',
+        description: 'The new resource is now listed on the dashboard.',
+        type: 'success',
+        duration: 5000,
+      });
+      setName('');
+      setSupply('1');
+      setStake('');
+    }
+  }, [isSuccess]);
+
+  // Handle creation errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Creation Failed',
+        description: error.message || 'Failed to create resource. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the createResource transaction
+   */
+  const handleSubmit = async () => {
+    if (formError) {
+      toaster.create({ title: 'Invalid Resource', description: formError, type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await create(name.trim(), category, Number(supply), recipient as Address, stake.trim());
+    } catch (err) {
+      console.error('Create resource error:', err);
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={4}>
+        Create Resource
+      </Heading>
+
+      <VStack align="stretch" gap={3}>
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Name</Text>
+          <Input size="sm" placeholder="e.g. Physics Lab A" value={name} onChange={(e) => setName(e.target.value)} />
+        </Box>
+
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Category</Text>
+          <NativeSelect.Root size="sm">
+            <NativeSelect.Field
+              value={category}
+              onChange={(e) => setCategory(Number(e.target.value) as ResourceCategory)}
+            >
+              {(Object.entries(CATEGORY_NAMES) as [string, string][]).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </NativeSelect.Field>
+            <NativeSelect.Indicator />
+          </NativeSelect.Root>
+        </Box>
+
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Initial Supply</Text>
+          <Input size="sm" type="number" min={1} step={1} value={supply} onChange={(e) => setSupply(e.target.value)} />
+        </Box>
+
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Recipient</Text>
+          <Input size="sm" placeholder="0x..." value={recipient} onChange={(e) => setRecipient(e.target.value.trim())} />
+        </Box>
+
+        <Box>
+          <Text fontSize="xs" color="gray.600" mb={1}>Reservation Stake (ETH)</Text>
+          <Input
+            size="sm"
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder="Default stake"
+            value={stake}
+            onChange={(e) => setStake(e.target.value)}
+          />
+        </Box>
+
+        {formError && name.length > 0 && (
+          <Text fontSize="xs" color="red.500">
+            {formError}
+          </Text>
+        )}
+
+        <Button
+          colorScheme="brand"
+          onClick={handleSubmit}
+          loading={isPending}
+          loadingText="Creating..."
+          disabled={isPending || !!formError}
+        >
+          Create Resource
+        </Button>
+      </VStack>
+    </Box>
+  );
+}
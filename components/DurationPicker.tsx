@@ -0,0 +1,161 @@
+/**
+ * DurationPicker Component
+ *
+ * Lets the user choose how long to reserve a resource:
+ * - Preset buttons (1 hour up to 7 days)
+ * - Custom amount in hours or days
+ * - Inline validation against the contract's maximum duration
+ * - Preview of when the reservation would end
+ *
+ * A starting value that is not a preset (e.g. a suggested slot length) opens
+ * in custom mode, in days if it is a whole number of days and hours otherwise.
+ *
+ * Props:
+ * @param {number} value - Selected duration in seconds
+ * @param {function} onChange - Called with the new duration in seconds
+ * @param {number} maxDuration - Maximum allowed duration in seconds
+ *
+ * @component
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Box, Button, HStack, Input, Text, VStack } from '@chakra-ui/react';
+import {
+  RESERVATION_DURATION_PRESETS,
+  validateReservationDuration,
+} from '@/config/contract';
+
+/**
+ * Units available for a custom duration
+ */
+type DurationUnit = 'hours' | 'days';
+
+const UNIT_SECONDS: Record<DurationUnit, number> = {
+  hours: 3600,
+  days: 86400,
+};
+
+/**
+ * Whether a duration is one of the preset buttons
+ */
+const isPreset = (seconds: number) =>
+  RESERVATION_DURATION_PRESETS.some((preset) => preset.seconds === seconds);
+
+/**
+ * Unit to show a custom duration in
+ */
+const unitFor = (seconds: number): DurationUnit =>
+  seconds > 0 && seconds % UNIT_SECONDS.days === 0 ? 'days' : 'hours';
+
+/**
+ * DurationPicker Props Interface
+ */
+interface DurationPickerProps {
+  value: number;
+  onChange: (seconds: number) => void;
+  maxDuration: number;
+}
+
+/**
+ * DurationPicker Component
+ *
+ * Controlled input: the parent owns the duration in seconds
+ */
+export default function DurationPicker({ value, onChange, maxDuration }: DurationPickerProps) {
+  const [isCustom, setIsCustom] = useState(() => !isPreset(value));
+  const [customAmount, setCustomAmount] = useState(() =>
+    isPreset(value) ? '' : (value / UNIT_SECONDS[unitFor(value)]).toString()
+  );
+  const [customUnit, setCustomUnit] = useState<DurationUnit>(() => unitFor(value));
+
+  const validationError = validateReservationDuration(value, maxDuration);
+  const endTime = new Date(Date.now() + value * 1000);
+
+  /**
+   * Apply a custom amount/unit pair
+   * Invalid text input maps to 0 so validation reports it
+   */
+  const applyCustom = (amount: string, unit: DurationUnit) => {
+    setCustomAmount(amount);
+    setCustomUnit(unit);
+    const parsed = Number(amount);
+    onChange(Number.isFinite(parsed) ? Math.round(parsed * UNIT_SECONDS[unit]) : 0);
+  };
+
+  return (
+    <VStack align="stretch" gap={2}>
+      <Text fontSize="xs" color="gray.600">
+        Reservation Duration
+      </Text>
+
+      {/* Presets */}
+      <HStack gap={1} flexWrap="wrap">
+        {RESERVATION_DURATION_PRESETS.filter((preset) => preset.seconds <= maxDuration).map((preset) => (
+          <Button
+            key={preset.label}
+            size="xs"
+            variant={!isCustom && value === preset.seconds ? 'solid' : 'outline'}
+            colorScheme="brand"
+            onClick={() => {
+              setIsCustom(false);
+              onChange(preset.seconds);
+            }}
+          >
+            {preset.label}
+          </Button>
+        ))}
+        <Button
+          size="xs"
+          variant={isCustom ? 'solid' : 'outline'}
+          colorScheme="brand"
+          onClick={() => {
+            setIsCustom(true);
+            applyCustom(customAmount, customUnit);
+          }}
+        >
+          Custom
+        </Button>
+      </HStack>
+
+      {/* Custom amount */}
+      {isCustom && (
+        <HStack gap={2}>
+          <Input
+            size="sm"
+            type="number"
+            min={0}
+            step="any"
+            placeholder="Amount"
+            value={customAmount}
+            onChange={(e) => applyCustom(e.target.value, customUnit)}
+          />
+          {(Object.keys(UNIT_SECONDS) as DurationUnit[]).map((unit) => (
+            <Button
+              key={unit}
+              size="sm"
+              variant={customUnit === unit ? 'solid' : 'outline'}
+              onClick={() => applyCustom(customAmount, unit)}
+            >
+              {unit}
+            </Button>
+          ))}
+        </HStack>
+      )}
+
+      {/* Validation / end time preview */}
+      <Box>
+        {validationError ? (
+          <Text fontSize="xs" color="red.500">
+            {validationError}
+          </Text>
+        ) : (
+          <Text fontSize="xs" color="gray.500">
+            Ends: <strong>{endTime.toLocaleString()}</strong>
+          </Text>
+        )}
+      </Box>
+    </VStack>
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * ExpiredSweepBanner Component
+ * 
+ * Dashboard notice listing reservations that have expired but still hold
+ * their resource, with a "Clean up expired" action that calls releaseExpired.
+ * 
+ * Anyone can sweep; the caller earns the keeper reward (a share of each
+ * expired stake) in their stake balance. Hidden when nothing has expired.
+ * 
+ * @component
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { Box, Button, Flex, Text, VStack } from '@chakra-ui/react';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import { useExpiredReservations, useReleaseExpired } from '@/hooks/useContract';
+
+/**
+ * ExpiredSweepBanner Component
+ */
+export default function ExpiredSweepBanner() {
+  const { isConnected } = useAccount();
+  const { expiredIds, reward, refetch } = useExpiredReservations();
+  const { releaseExpired, isPending, isSuccess, error } = useReleaseExpired();
+
+  // Handle successful sweep
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Expired Reservations Released',
+        description: 'The keeper reward was added to your stake balance.',
+        type: 'success',
+        duration: 5000,
+      });
+      refetch();
+    }
+  }, [isSuccess, refetch]);
+
+  // Handle sweep errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Clean Up Failed',
+        description: error.message || 'Failed to release expired reservations. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the releaseExpired transaction
+   */
+  const handleSweep = async () => {
+    try {
+      await releaseExpired(expiredIds);
+    } catch (err) {
+      console.error('Release expired error:', err);
+    }
+  };
+
+  if (expiredIds.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box bg="orange.50" border="1px" borderColor="orange.200" borderRadius="lg" p={4} mb={4}>
+      <Flex justify="space-between" align="center" gap={4} wrap="wrap">
+        <VStack align="flex-start" gap={1}>
+          <Text fontWeight="semibold" color="orange.800">
+            🧹 {expiredIds.length} expired reservation{expiredIds.length === 1 ? '' : 's'} still holding resources
+          </Text>
+          <Text fontSize="sm" color="orange.700">
+            Release {expiredIds.length === 1 ? 'it' : 'them'} to free the resources and earn {reward} ETH.
+          </Text>
+        </VStack>
+        <Button
+          size="sm"
+          colorScheme="orange"
+          onClick={handleSweep}
+          loading={isPending}
+          loadingText="Cleaning up..."
+          disabled={!isConnected || isPending}
+        >
+          Clean up expired
+        </Button>
+      </Flex>
+    </Box>
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * ExtendReservationControl Component
+ *
+ * Lets the current reserver add time to a live reservation in one transaction:
+ * - Extension presets that fit within the maximum reservation duration
+ * - "Extend" button calling extendReservation
+ * - Toast notifications for success and failure
+ *
+ * The stake already locked covers the extension, and the contract rejects
+ * extensions that run into a booked slot.
+ *
+ * Props:
+ * @param {number} resourceId - The on-chain resource ID
+ * @param {string} resourceName - Name shown in notifications
+ * @param {bigint} reservationStart - Reservation start timestamp (seconds)
+ * @param {bigint} reservationEnd - Reservation end timestamp (seconds)
+ * @param {number} maxDuration - Maximum allowed reservation duration in seconds
+ * @param {function} onExtended - Called once the extension is confirmed
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button, HStack, NativeSelect, Text } from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { useExtendReservation } from '@/hooks/useContract';
+import {
+  formatDuration,
+  getExtensionAllowance,
+  RESERVATION_DURATION_PRESETS,
+} from '@/config/contract';
+
+/**
+ * ExtendReservationControl Props Interface
+ */
+interface ExtendReservationControlProps {
+  resourceId: number;
+  resourceName: string;
+  reservationStart: bigint;
+  reservationEnd: bigint;
+  maxDuration: number;
+  onExtended?: () => void;
+}
+
+/**
+ * ExtendReservationControl Component
+ */
+export default function ExtendReservationControl({
+  resourceId,
+  resourceName,
+  reservationStart,
+  reservationEnd,
+  maxDuration,
+  onExtended,
+}: ExtendReservationControlProps) {
+  const { extend, isPending, isSuccess, error } = useExtendReservation();
+
+  // Presets that fit, plus whatever is left up to the maximum
+  const allowance = getExtensionAllowance(reservationStart, reservationEnd, maxDuration);
+  const options: number[] = RESERVATION_DURATION_PRESETS.map((preset) => preset.seconds as number)
+    .filter((seconds) => seconds < allowance);
+  if (allowance > 0) {
+    options.push(allowance);
+  }
+
+  const [extraSeconds, setExtraSeconds] = useState<number>(options[0] ?? 0);
+  const selected = options.includes(extraSeconds) ? extraSeconds : options[0] ?? 0;
+
+  // Handle successful extension
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Reservation Extended',
+        description: `${resourceName} is yours for longer.`,
+        type: 'success',
+        duration: 5000,
+      });
+      onExtended?.();
+    }
+  }, [isSuccess, resourceName, onExtended]);
+
+  // Handle extension errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Extension Failed',
+        description: error.message || 'Failed to extend the reservation. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the extendReservation transaction
+   */
+  const handleExtend = async () => {
+    try {
+      await extend(resourceId, selected);
+    } catch (err) {
+      console.error('Extend reservation error:', err);
+    }
+  };
+
+  if (allowance <= 0) {
+    return (
+      <Text fontSize="xs" color="gray.500">
+        Already at the {formatDuration(maxDuration)} maximum
+      </Text>
+    );
+  }
+
+  return (
+    <HStack gap={2}>
+      <NativeSelect.Root size="sm" flex="1">
+        <NativeSelect.Field
+          value={selected}
+          onChange={(e) => setExtraSeconds(Number(e.target.value))}
+          aria-label="Extend by"
+        >
+          {options.map((seconds) => (
+            <option key={seconds} value={seconds}>
+              +{formatDuration(seconds)}{seconds === allowance ? ' (max)' : ''}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+      <Button
+        size="sm"
+        colorScheme="blue"
+        variant="outline"
+        onClick={handleExtend}
+        loading={isPending}
+        loadingText="Extending..."
+        disabled={isPending}
+      >
+        Extend
+      </Button>
+    </HStack>
+  );
+}
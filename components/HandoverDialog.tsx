@@ -0,0 +1,194 @@
+/**
+ * HandoverDialog Component
+ *
+ * "Hand Over" button and dialog for passing a live reservation to a teammate:
+ * - Recipient address input with validation
+ * - Current open offer, which can be withdrawn
+ * - Notice when a resource manager has disabled handovers
+ *
+ * The reservation only changes hands once the recipient accepts and stakes
+ * the same amount; the reserver's stake is returned at that point.
+ *
+ * Props:
+ * @param {number} resourceId - The on-chain resource ID
+ * @param {string} resourceName - Name shown in the dialog and notifications
+ * @param {bigint} stakedAmount - Stake locked by the reservation, in wei
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Box, Button, CloseButton, Dialog, HStack, Input, Portal, Text, VStack } from '@chakra-ui/react';
+import { Address, formatEther, isAddress } from 'viem';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import { useReservationTransfer, useTransferReservation } from '@/hooks/useContract';
+
+/**
+ * HandoverDialog Props Interface
+ */
+interface HandoverDialogProps {
+  resourceId: number;
+  resourceName: string;
+  stakedAmount: bigint;
+}
+
+/**
+ * Shorten an address for display
+ */
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * HandoverDialog Component
+ */
+export default function HandoverDialog({ resourceId, resourceName, stakedAmount }: HandoverDialogProps) {
+  const { address: userAddress } = useAccount();
+  const { offeredTo, transfersAllowed } = useReservationTransfer(resourceId);
+  const { offer, withdraw, isPending, isSuccess, error } = useTransferReservation();
+
+  const [open, setOpen] = useState(false);
+  const [recipient, setRecipient] = useState('');
+  const recipientError = !isAddress(recipient)
+    ? 'Enter a valid wallet address'
+    : userAddress && recipient.toLowerCase() === userAddress.toLowerCase()
+      ? 'You already hold this reservation'
+      : null;
+
+  // Handle successful offer or withdrawal
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Handover Updated',
+        description: `The ${resourceName} handover offer has been updated.`,
+        type: 'success',
+        duration: 5000,
+      });
+      setRecipient('');
+    }
+  }, [isSuccess, resourceName]);
+
+  // Handle transaction errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Handover Failed',
+        description: error.message || 'Failed to update the handover. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Offer the reservation to the entered wallet
+   */
+  const handleOffer = async () => {
+    if (recipientError) {
+      toaster.create({ title: 'Invalid Recipient', description: recipientError, type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await offer(resourceId, recipient as Address);
+    } catch (err) {
+      console.error('Handover offer error:', err);
+    }
+  };
+
+  /**
+   * Withdraw the open offer
+   */
+  const handleWithdraw = async () => {
+    try {
+      await withdraw(resourceId);
+    } catch (err) {
+      console.error('Handover withdraw error:', err);
+    }
+  };
+
+  return (
+    <Dialog.Root open={open} onOpenChange={(details) => setOpen(details.open)} placement="center">
+      <Dialog.Trigger asChild>
+        <Button size="sm" colorScheme="purple" variant="outline" disabled={!transfersAllowed}>
+          {transfersAllowed ? 'Hand Over' : 'Handovers Disabled'}
+        </Button>
+      </Dialog.Trigger>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content>
+            <Dialog.Header>
+              <Dialog.Title>Hand Over {resourceName}</Dialog.Title>
+            </Dialog.Header>
+            <Dialog.Body>
+              <VStack align="stretch" gap={4}>
+                <Text fontSize="sm" color="gray.600">
+                  Your teammate takes over the reservation once they accept and stake{' '}
+                  <strong>{formatEther(stakedAmount)} ETH</strong>. Your stake is returned when they accept.
+                  The reservation keeps its end time.
+                </Text>
+
+                {offeredTo && (
+                  <HStack justify="space-between" bg="purple.50" p={3} borderRadius="md">
+                    <Text fontSize="sm" color="purple.700">
+                      Offered to <strong>{shortAddress(offeredTo)}</strong>
+                    </Text>
+                    <Button
+                      size="xs"
+                      colorScheme="red"
+                      variant="outline"
+                      onClick={handleWithdraw}
+                      loading={isPending}
+                      disabled={isPending}
+                    >
+                      Withdraw
+                    </Button>
+                  </HStack>
+                )}
+
+                <Box>
+                  <Text fontSize="xs" color="gray.600" mb={1}>
+                    {offeredTo ? 'Offer to someone else instead' : 'Teammate wallet'}
+                  </Text>
+                  <Input
+                    size="sm"
+                    placeholder="0x..."
+                    value={recipient}
+                    onChange={(e) => setRecipient(e.target.value.trim())}
+                  />
+                  {recipient.length > 0 && recipientError && (
+                    <Text fontSize="xs" color="red.500" mt={1}>
+                      {recipientError}
+                    </Text>
+                  )}
+                </Box>
+              </VStack>
+            </Dialog.Body>
+            <Dialog.Footer>
+              <Dialog.ActionTrigger asChild>
+                <Button size="sm" variant="outline">
+                  Close
+                </Button>
+              </Dialog.ActionTrigger>
+              <Button
+                size="sm"
+                colorScheme="purple"
+                onClick={handleOffer}
+                loading={isPending}
+                loadingText="Offering..."
+                disabled={isPending || !!recipientError}
+              >
+                Offer Handover
+              </Button>
+            </Dialog.Footer>
+            <Dialog.CloseTrigger asChild>
+              <CloseButton size="sm" />
+            </Dialog.CloseTrigger>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  );
+}
@@ -17,7 +17,7 @@ import {
   MenuItem,
 } from '@/components/ui/menu';
 import { useAccount, useConnect, useDisconnect, useSwitchChain, useChainId } from 'wagmi';
-import { polygon, sepolia } from 'wagmi/chains';
+import { CHAIN_DISPLAY, SUPPORTED_CHAINS } from '@/config/wagmi';
 import { toaster } from '@/components/ui/toaster';
 
 /**
@@ -38,7 +38,8 @@ const ERROR_MESSAGES = {
  * 
  * Features:
  * - Wallet connection/disconnection with injected provider (MetaMask, etc.)
- * - Network switching between Polygon and Sepolia
+ * - Network switching between the supported chains (Polygon, Sepolia and,
+ *   when enabled, the Hardhat local node)
  * - Wallet address display with truncation
  * - Error handling with user notifications
  * - Responsive design
@@ -79,28 +80,14 @@ export default function Header() {
    * Get human-readable chain name from chain ID
    */
   const getChainName = (id: number) => {
-    switch (id) {
-      case polygon.id:
-        return 'Polygon';
-      case sepolia.id:
-        return 'Sepolia';
-      default:
-        return 'Unknown';
-    }
+    return CHAIN_DISPLAY[id]?.name ?? 'Unknown';
   };
 
   /**
    * Get color scheme for chain badge
    */
   const getChainColor = (id: number) => {
-    switch (id) {
-      case polygon.id:
-        return 'purple';
-      case sepolia.id:
-        return 'orange';
-      default:
-        return 'gray';
-    }
+    return CHAIN_DISPLAY[id]?.color ?? 'gray';
   };
 
   /**
@@ -109,7 +96,7 @@ export default function Header() {
    * Switches the connected wallet to the specified blockchain network.
    * Shows success/error notifications.
    * 
-   * @param targetChainId - The chain ID to switch to (137 for Polygon, 11155111 for Sepolia)
+   * @param targetChainId - The chain ID to switch to (137 for Polygon, 11155111 for Sepolia, 31337 for Hardhat)
    */
   const handleChainSwitch = async (targetChainId: number) => {
     try {
@@ -292,18 +279,15 @@ export default function Header() {
                   </Button>
                 </MenuTrigger>
                 <MenuContent>
-                  <MenuItem
-                    value={polygon.id.toString()}
-                    onClick={() => handleChainSwitch(polygon.id)}
-                  >
-                    Polygon
-                  </MenuItem>
-                  <MenuItem
-                    value={sepolia.id.toString()}
-                    onClick={() => handleChainSwitch(sepolia.id)}
-                  >
-                    Sepolia Testnet
-                  </MenuItem>
+                  {SUPPORTED_CHAINS.map((chain) => (
+                    <MenuItem
+                      key={chain.id}
+                      value={chain.id.toString()}
+                      onClick={() => handleChainSwitch(chain.id)}
+                    >
+                      {getChainName(chain.id)}
+                    </MenuItem>
+                  ))}
                 </MenuContent>
               </MenuRoot>
 
@@ -0,0 +1,83 @@
+/**
+ * LatePenaltyInfo Component
+ * 
+ * Projected late-return penalty for the connected user's reservation,
+ * updated every second:
+ * - Before the reservation ends: when penalties would start
+ * - During the grace period: time left before penalties start
+ * - After the grace period: penalty so far and the net refund
+ * 
+ * Uses the contract's penalty policy (usePenaltyPolicy) and mirrors its
+ * calculation with calculateLatePenalty.
+ * 
+ * Props:
+ * @param {bigint} stakedAmount - Reservation stake in wei
+ * @param {bigint} reservationEnd - Reservation end (unix seconds)
+ * 
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Flex, Text, VStack } from '@chakra-ui/react';
+import { formatEther } from 'viem';
+import { usePenaltyPolicy } from '@/hooks/useContract';
+import { calculateLatePenalty, formatRemainingTime } from '@/config/contract';
+
+/**
+ * LatePenaltyInfo Props Interface
+ */
+interface LatePenaltyInfoProps {
+  stakedAmount: bigint;
+  reservationEnd: bigint;
+}
+
+/**
+ * LatePenaltyInfo Component
+ */
+export default function LatePenaltyInfo({ stakedAmount, reservationEnd }: LatePenaltyInfoProps) {
+  const { policy } = usePenaltyPolicy();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Re-project every second
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!policy || policy.penaltyBpsPerHour === BigInt(0)) {
+    return null;
+  }
+
+  const penaltyStart = Number(reservationEnd + policy.gracePeriod);
+  const penalty = calculateLatePenalty(stakedAmount, reservationEnd, policy, now);
+  const hourlyPercent = Number(policy.penaltyBpsPerHour) / 100;
+
+  if (penalty === BigInt(0)) {
+    return (
+      <Text fontSize="xs" color="gray.500">
+        {now < Number(reservationEnd)
+          ? `Release within ${formatRemainingTime(penaltyStart - now)} to avoid a late penalty (${hourlyPercent}% of the stake per hour after that)`
+          : `Grace period: ${formatRemainingTime(penaltyStart - now)} left before a ${hourlyPercent}% per hour penalty starts`}
+      </Text>
+    );
+  }
+
+  return (
+    <VStack align="stretch" gap={1} bg="red.50" p={2} borderRadius="md">
+      <Flex justify="space-between" fontSize="xs">
+        <Text color="red.700">Late Penalty:</Text>
+        <Text fontWeight="bold" color="red.700">
+          -{formatEther(penalty)} ETH
+        </Text>
+      </Flex>
+      <Flex justify="space-between" fontSize="xs">
+        <Text color="gray.600">Net Refund:</Text>
+        <Text fontWeight="bold" color="gray.800">
+          {formatEther(stakedAmount - penalty)} ETH
+        </Text>
+      </Flex>
+    </VStack>
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * OutdatedDeploymentBanner Component
+ * 
+ * Network notice shown when the connected chain's contract in
+ * deployments/registry.json was deployed from a different CampusResourceNFT
+ * ABI than this build was generated from (see getOutdatedDeployment), so
+ * reads and transactions may fail or decode wrongly. Hidden otherwise.
+ * 
+ * @component
+ */
+
+'use client';
+
+import { Box, Text, VStack } from '@chakra-ui/react';
+import { useChainId } from 'wagmi';
+import { getOutdatedDeployment } from '@/config/contract';
+
+/**
+ * OutdatedDeploymentBanner Component
+ */
+export default function OutdatedDeploymentBanner() {
+  const chainId = useChainId();
+  const deployment = getOutdatedDeployment(chainId);
+
+  if (!deployment) {
+    return null;
+  }
+
+  return (
+    <Box bg="red.50" border="1px" borderColor="red.200" borderRadius="lg" p={4} mb={4}>
+      <VStack align="flex-start" gap={1}>
+        <Text fontWeight="semibold" color="red.800">
+          ⚠️ The {deployment.network} contract is out of date
+        </Text>
+        <Text fontSize="sm" color="red.700">
+          It was deployed from a different CampusResourceNFT version than this app was built for, so some
+          actions may fail. Redeploy it with scripts/deploy.js, or regenerate the config from the deployed contract.
+        </Text>
+      </VStack>
+    </Box>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * ProposalCard Component
+ *
+ * Summary card for one governance proposal on the proposals page:
+ * - Title, action and status badges
+ * - Description preview
+ * - For/against tally and time left to vote
+ *
+ * Links to the proposal detail page (/proposals/[id]), opening it in the
+ * same voting mode.
+ *
+ * Props:
+ * @param {Proposal} proposal - Proposal from the governor, with the tally to show
+ * @param {ProposalState} state - Current state (see getProposalState / getOffchainState)
+ * @param {bigint} quorum - Governor quorum
+ * @param {string} resourceName - Name of the target resource, if known
+ * @param {VotingMode} mode - Voting mode the tally comes from (default: onchain)
+ *
+ * @component
+ */
+
+'use client';
+
+import NextLink from 'next/link';
+import { Badge, Box, Flex, HStack, Link, Text, VStack } from '@chakra-ui/react';
+import ProposalTally from '@/components/ProposalTally';
+import { formatRemainingTime } from '@/config/contract';
+import {
+  getProposalTitle,
+  Proposal,
+  PROPOSAL_ACTION_NAMES,
+  PROPOSAL_STATE_COLORS,
+  PROPOSAL_STATE_NAMES,
+  ProposalState,
+} from '@/utils/governance';
+import { VotingMode } from '@/utils/offchainVoting';
+
+/**
+ * ProposalCard Props Interface
+ */
+interface ProposalCardProps {
+  proposal: Proposal;
+  state: ProposalState;
+  quorum: bigint;
+  resourceName?: string;
+  mode?: VotingMode;
+}
+
+/**
+ * ProposalCard Component
+ */
+export default function ProposalCard({ proposal, state, quorum, resourceName, mode = 'onchain' }: ProposalCardProps) {
+  const secondsLeft = Number(proposal.voteEnd) - Math.floor(Date.now() / 1000);
+
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={5} border="1px" borderColor="gray.200">
+      <VStack align="stretch" gap={3}>
+        <Flex justify="space-between" align="flex-start" gap={3}>
+          <VStack align="flex-start" gap={1} flex="1">
+            <Link
+              as={NextLink}
+              href={`/proposals/${proposal.proposalId}${mode === 'offchain' ? '?mode=offchain' : ''}`}
+              fontWeight="bold"
+              color="gray.800"
+              _hover={{ color: 'brand.600' }}
+            >
+              #{proposal.proposalId.toString()} {getProposalTitle(proposal, resourceName)}
+            </Link>
+            <HStack gap={2}>
+              <Badge colorScheme="gray" fontSize="xs">
+                {PROPOSAL_ACTION_NAMES[proposal.action]}
+              </Badge>
+              <Badge colorScheme={PROPOSAL_STATE_COLORS[state]} fontSize="xs">
+                {PROPOSAL_STATE_NAMES[state].toUpperCase()}
+              </Badge>
+            </HStack>
+          </VStack>
+          {state === ProposalState.ACTIVE && (
+            <Text fontSize="xs" color="blue.600" fontWeight="bold" whiteSpace="nowrap">
+              {formatRemainingTime(secondsLeft)} left
+            </Text>
+          )}
+        </Flex>
+
+        {proposal.description && (
+          <Text fontSize="sm" color="gray.600" lineClamp={2}>
+            {proposal.description}
+          </Text>
+        )}
+
+        <ProposalTally forVotes={proposal.forVotes} againstVotes={proposal.againstVotes} quorum={quorum} />
+      </VStack>
+    </Box>
+  );
+}
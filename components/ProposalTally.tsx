@@ -0,0 +1,52 @@
+/**
+ * ProposalTally Component
+ *
+ * For/against bar for a proposal:
+ * - Share of the voting weight cast in favour
+ * - For and against totals
+ * - Progress towards the quorum
+ *
+ * Props:
+ * @param {bigint} forVotes - Voting weight in favour
+ * @param {bigint} againstVotes - Voting weight against
+ * @param {bigint} quorum - Minimum total weight the proposal needs to pass
+ *
+ * @component
+ */
+
+'use client';
+
+import { Flex, Text, VStack } from '@chakra-ui/react';
+import { ProgressBar } from '@/components/ui/progress';
+
+/**
+ * ProposalTally Props Interface
+ */
+interface ProposalTallyProps {
+  forVotes: bigint;
+  againstVotes: bigint;
+  quorum: bigint;
+}
+
+/**
+ * ProposalTally Component
+ */
+export default function ProposalTally({ forVotes, againstVotes, quorum }: ProposalTallyProps) {
+  const totalVotes = forVotes + againstVotes;
+  const forPercentage = totalVotes > BigInt(0) ? Number((forVotes * BigInt(100)) / totalVotes) : 0;
+
+  return (
+    <VStack align="stretch" gap={1}>
+      <Flex justify="space-between" fontSize="xs">
+        <Text color="green.600" fontWeight="bold">For {forVotes.toString()}</Text>
+        <Text color="red.600" fontWeight="bold">Against {againstVotes.toString()}</Text>
+      </Flex>
+      <ProgressBar value={forPercentage} size="sm" colorScheme="green" bg={totalVotes > BigInt(0) ? 'red.200' : 'gray.100'} />
+      <Text fontSize="xs" color="gray.500">
+        {totalVotes >= quorum
+          ? `Quorum reached (${totalVotes.toString()} of ${quorum.toString()})`
+          : `${totalVotes.toString()} of ${quorum.toString()} votes needed for quorum`}
+      </Text>
+    </VStack>
+  );
+}
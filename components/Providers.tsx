@@ -5,6 +5,9 @@
  * 1. Web3Provider - Manages Web3 wallet connectivity (Wagmi + QueryClient)
  * 2. ChakraProvider - Provides Chakra UI theme and components
  * 
+ * ContractEventSync runs inside them to keep cached contract data in step
+ * with on-chain events.
+ * 
  * All providers are marked as client components ('use client') since they
  * require browser APIs and state management.
  * 
@@ -19,6 +22,7 @@
 
 import { ChakraProvider, Toaster } from '@chakra-ui/react';
 import { Web3Provider } from '@/components/Web3Provider';
+import ContractEventSync from '@/components/ContractEventSync';
 import { theme } from '@/styles/theme';
 import { toaster } from '@/components/ui/toaster';
 
@@ -35,6 +39,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
   return (
     <Web3Provider>
       <ChakraProvider value={theme}>
+        <ContractEventSync />
         {children}
         <Toaster toaster={toaster}>
           {(toast) => toast.title}
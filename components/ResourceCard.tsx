@@ -7,7 +7,17 @@
  * - Loading states during transactions
  * - Error handling with toast notifications
  * - Countdown timer for active reservations
- * - Gasless transaction support via Biconomy
+ * - Duration picker validated against the on-chain maximum
+ * - Gasless transaction support via the EIP-2771 relayer
+ * - Gasless stakes drawn from the user's deposited stake balance
+ * - Booking calendar for reserving future time slots
+ * - Name links to the resource detail page (/resources/[id])
+ * - Description and location from the off-chain ERC1155 metadata
+ * - Projected late penalty and net refund on the user's own reservation
+ * - Extend control for the user's own reservation
+ * - Waitlist queue (join, leave, position) while someone else holds the resource
+ * - "Try instead" hint with available alternatives while someone else holds the resource
+ * - Retired badge, with reserving, booking and waitlisting turned off
  * 
  * Props:
  * @param {number} resourceId - The on-chain resource ID
@@ -24,6 +34,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import NextLink from 'next/link';
 import {
   Box,
   Text,
@@ -32,23 +43,38 @@ import {
   VStack,
   HStack,
   Flex,
+  Link,
   Spinner,
 } from '@chakra-ui/react';
 import { useAccount, useChainId } from 'wagmi';
 import { toaster } from '@/components/ui/toaster';
 import { ProgressBar } from '@/components/ui/progress';
+import LatePenaltyInfo from '@/components/LatePenaltyInfo';
 import { 
   useResourceDetails, 
+  useResourceMetadata,
   useReserveResource, 
   useReleaseResource,
-  useReservationStake 
+  useReservationStake,
+  useMaxReservationDuration,
+  useStakeBalance,
+  useDepositStake,
+  useIsRetired
 } from '@/hooks/useContract';
 import { 
   getCategoryColor, 
   formatRemainingTime,
-  DEFAULT_RESERVATION_DURATION 
+  formatDuration,
+  validateReservationDuration,
+  DEFAULT_RESERVATION_DURATION,
+  MAX_RESERVATION_DURATION
 } from '@/config/contract';
-import { isBiconomyEnabled } from '@/utils/biconomy';
+import { isGaslessEnabled } from '@/utils/gasless';
+import DurationPicker from '@/components/DurationPicker';
+import BookingCalendar from '@/components/BookingCalendar';
+import ExtendReservationControl from '@/components/ExtendReservationControl';
+import WaitlistControl from '@/components/WaitlistControl';
+import TryInsteadHint from '@/components/TryInsteadHint';
 
 /**
  * ResourceCard Props Interface
@@ -67,20 +93,33 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
   const chainId = useChainId();
   
   // Fetch resource data from contract
-  const { resource, isUserReserver, isLoading, error, refetch } = useResourceDetails(resourceId);
-  const { stake } = useReservationStake();
+  const { resource: onChainResource, isUserReserver, isLoading, error, refetch } = useResourceDetails(resourceId);
+  const { resource } = useResourceMetadata(resourceId, onChainResource);
+  const { stake, stakeWei } = useReservationStake(resourceId);
+  const { isRetired } = useIsRetired(resourceId);
+  const { balance: stakeBalance, balanceWei: stakeBalanceWei } = useStakeBalance(userAddress);
+  const { maxDuration: onChainMaxDuration } = useMaxReservationDuration();
+  const maxDuration = onChainMaxDuration || MAX_RESERVATION_DURATION;
   
   // Contract write hooks
   const { reserve, isPending: isReserving, isSuccess: reserveSuccess, error: reserveError } = useReserveResource();
   const { release, isPending: isReleasing, isSuccess: releaseSuccess, error: releaseError } = useReleaseResource();
+  const { deposit, isPending: isDepositing, isSuccess: depositSuccess, error: depositError } = useDepositStake();
   
   // Local state for countdown timer
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
   const [useGasless, setUseGasless] = useState(false);
+  const gaslessAvailable = isGaslessEnabled(chainId);
+  const [duration, setDuration] = useState<number>(DEFAULT_RESERVATION_DURATION);
+  const [showCalendar, setShowCalendar] = useState(false);
+  const durationError = validateReservationDuration(duration, maxDuration);
 
-  // Check if gasless transactions are available
+  // Gasless reservations are paid from the deposited balance instead of msg.value
+  const needsStakeDeposit = useGasless && !!stakeWei && (stakeBalanceWei ?? BigInt(0)) < stakeWei;
+
+  // Default to gasless whenever the current chain has a forwarder
   useEffect(() => {
-    setUseGasless(isBiconomyEnabled(chainId));
+    setUseGasless(isGaslessEnabled(chainId));
   }, [chainId]);
 
   // Update countdown timer every second
@@ -124,6 +163,30 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
     }
   }, [releaseSuccess, resource, refetch]);
 
+  // Handle successful stake deposit
+  useEffect(() => {
+    if (depositSuccess) {
+      toaster.create({
+        title: 'Stake Deposited',
+        description: 'You can now reserve without sending ETH.',
+        type: 'success',
+        duration: 5000,
+      });
+    }
+  }, [depositSuccess]);
+
+  // Handle stake deposit errors
+  useEffect(() => {
+    if (depositError) {
+      toaster.create({
+        title: 'Deposit Failed',
+        description: depositError.message || 'Failed to deposit stake. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [depositError]);
+
   // Handle reservation errors
   useEffect(() => {
     if (reserveError) {
@@ -175,22 +238,44 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
       return;
     }
 
+    // Check requested duration against the contract limit
+    if (durationError) {
+      toaster.create({
+        title: 'Invalid Duration',
+        description: durationError,
+        type: 'error',
+        duration: 4000,
+      });
+      return;
+    }
+
     try {
       toaster.create({
         title: 'Processing Reservation',
-        description: `Reserving ${resource.name}... Stake: ${stake} ETH`,
+        description: `Reserving ${resource.name} for ${formatDuration(duration)}... Stake: ${stake} ETH`,
         type: 'info',
         duration: 3000,
       });
 
-      // Call reserve function (1 day default duration)
-      await reserve(resourceId, DEFAULT_RESERVATION_DURATION);
+      await reserve(resourceId, duration, { gasless: useGasless });
       
     } catch (err) {
       console.error('Reservation error:', err);
     }
   };
 
+  /**
+   * Handle stake deposit
+   * Deposits one reservation stake so gasless reservations can draw from it
+   */
+  const handleDeposit = async () => {
+    try {
+      await deposit(stake);
+    } catch (err) {
+      console.error('Deposit error:', err);
+    }
+  };
+
   /**
    * Handle resource release
    * Returns stake to user
@@ -224,7 +309,7 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
         duration: 3000,
       });
 
-      await release(resourceId);
+      await release(resourceId, { gasless: useGasless });
       
     } catch (err) {
       console.error('Release error:', err);
@@ -299,15 +384,18 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
     >
       {/* Header Section: Name and Category */}
       <VStack align="stretch" gap={3} flex="1">
-        {/* Resource Name */}
-        <Text
+        {/* Resource Name (links to the detail page) */}
+        <Link
+          as={NextLink}
+          href={`/resources/${resourceId}`}
           fontSize={{ base: 'lg', md: 'xl' }}
           fontWeight="bold"
           color="gray.800"
           lineClamp={2}
+          _hover={{ color: 'brand.600' }}
         >
           {resource.name}
-        </Text>
+        </Link>
 
         {/* Category and Status Badges */}
         <HStack gap={2} flexWrap="wrap">
@@ -340,8 +428,35 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
               YOUR RESERVATION
             </Badge>
           )}
+          {isRetired && (
+            <Badge
+              colorScheme="gray"
+              fontSize="sm"
+              px={2}
+              py={1}
+              borderRadius="md"
+            >
+              RETIRED
+            </Badge>
+          )}
         </HStack>
 
+        {/* Off-chain Metadata */}
+        {(resource.description || resource.location) && (
+          <VStack align="stretch" gap={1}>
+            {resource.description && (
+              <Text fontSize="sm" color="gray.600" lineClamp={2}>
+                {resource.description}
+              </Text>
+            )}
+            {resource.location && (
+              <Text fontSize="xs" color="gray.500">
+                📍 {resource.location}
+              </Text>
+            )}
+          </VStack>
+        )}
+
         {/* Reservation Info */}
         {resource.isReserved && (
           <VStack align="stretch" gap={2} bg="orange.50" p={3} borderRadius="md">
@@ -357,32 +472,127 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
                 Reserved by: {resource.currentReserver.slice(0, 6)}...{resource.currentReserver.slice(-4)}
               </Text>
             )}
+            {!isUserReserver && <TryInsteadHint resourceId={resourceId} />}
+            {isUserReserver && (
+              <LatePenaltyInfo stakedAmount={resource.stakedAmount} reservationEnd={resource.reservationEnd} />
+            )}
+            {isUserReserver && timeRemaining > 0 && (
+              <ExtendReservationControl
+                resourceId={resourceId}
+                resourceName={resource.name}
+                reservationStart={resource.reservationStart}
+                reservationEnd={resource.reservationEnd}
+                maxDuration={maxDuration}
+                onExtended={refetch}
+              />
+            )}
           </VStack>
         )}
 
+        {/* Waitlist while someone else holds the resource */}
+        {resource.isReserved && !isUserReserver && !isRetired && (
+          <WaitlistControl
+            resourceId={resourceId}
+            resourceName={resource.name}
+            maxDuration={maxDuration}
+            onChange={refetch}
+          />
+        )}
+
         {/* Stake Info for Available Resources */}
-        {!resource.isReserved && (
+        {!resource.isReserved && !isRetired && (
           <Box bg="blue.50" p={3} borderRadius="md">
             <Text fontSize="xs" color="gray.600">
               Required Stake: <strong>{stake} ETH</strong>
             </Text>
-            <Text fontSize="xs" color="gray.500" mt={1}>
-              Refunded upon release
-            </Text>
+            {useGasless ? (
+              <>
+                <Text fontSize="xs" color="gray.600" mt={1}>
+                  Deposited Balance: <strong>{stakeBalance} ETH</strong>
+                </Text>
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  {needsStakeDeposit
+                    ? 'Deposit a stake once to reserve without sending ETH'
+                    : 'Paid from your deposit, returned to it upon release'}
+                </Text>
+                {needsStakeDeposit && isConnected && (
+                  <Button
+                    size="xs"
+                    colorScheme="blue"
+                    mt={2}
+                    onClick={handleDeposit}
+                    loading={isDepositing}
+                    loadingText="Depositing..."
+                    disabled={isDepositing}
+                  >
+                    Deposit {stake} ETH
+                  </Button>
+                )}
+              </>
+            ) : (
+              <Text fontSize="xs" color="gray.500" mt={1}>
+                Refunded upon release
+              </Text>
+            )}
           </Box>
         )}
 
-        {/* Gasless Badge */}
-        {useGasless && (
-          <Badge colorScheme="purple" fontSize="xs" alignSelf="flex-start">
-            ⚡ Gasless Available
-          </Badge>
+        {/* Duration Selection for Available Resources */}
+        {!resource.isReserved && !isRetired && isConnected && (
+          <DurationPicker
+            value={duration}
+            onChange={setDuration}
+            maxDuration={maxDuration}
+          />
+        )}
+
+        <HStack gap={2}>
+          {/* Gasless Toggle */}
+          {gaslessAvailable && isConnected && (
+            <Button
+              size="xs"
+              variant={useGasless ? 'solid' : 'outline'}
+              colorScheme="purple"
+              onClick={() => setUseGasless((prev) => !prev)}
+            >
+              ⚡ Gasless {useGasless ? 'On' : 'Off'}
+            </Button>
+          )}
+
+          {/* Advance Booking Toggle */}
+          {!isRetired && (
+            <Button
+              size="xs"
+              variant={showCalendar ? 'solid' : 'outline'}
+              colorScheme="teal"
+              onClick={() => setShowCalendar((prev) => !prev)}
+            >
+              📅 {showCalendar ? 'Hide Calendar' : 'Book Ahead'}
+            </Button>
+          )}
+        </HStack>
+
+        {/* Advance Booking Calendar */}
+        {showCalendar && !isRetired && (
+          <BookingCalendar resourceId={resourceId} maxDuration={maxDuration} />
         )}
       </VStack>
 
       {/* Action Buttons */}
       <VStack gap={2} mt={4}>
-        {!resource.isReserved ? (
+        {!resource.isReserved && isRetired ? (
+          <Button
+            size="md"
+            w="full"
+            disabled
+            _disabled={{
+              opacity: 0.6,
+              cursor: 'not-allowed',
+            }}
+          >
+            Retired
+          </Button>
+        ) : !resource.isReserved ? (
           <Button
             colorScheme="brand"
             size="md"
@@ -390,9 +600,9 @@ export default function ResourceCard({ resourceId }: ResourceCardProps) {
             onClick={handleReserve}
             loading={isReserving}
             loadingText="Reserving..."
-            disabled={!isConnected || isReserving}
+            disabled={!isConnected || isReserving || !!durationError || needsStakeDeposit}
           >
-            Reserve (1 day)
+            Reserve ({formatDuration(duration)})
           </Button>
         ) : isUserReserver ? (
           <Button
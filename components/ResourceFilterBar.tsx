@@ -0,0 +1,126 @@
+/**
+ * ResourceFilterBar Component
+ * 
+ * Toolbar above the dashboard resources grid:
+ * - Text search over name and location
+ * - Category, status and sort selects
+ * - Result count and a reset button when any filter is active
+ * 
+ * The component is controlled; the dashboard keeps the filter state in the
+ * URL query (see utils/resourceFilters.ts).
+ * 
+ * @component
+ */
+
+'use client';
+
+import { Button, Flex, Input, NativeSelect, Text } from '@chakra-ui/react';
+import { CATEGORY_NAMES } from '@/config/contract';
+import {
+  DEFAULT_RESOURCE_FILTERS,
+  hasActiveFilters,
+  SORT_LABELS,
+  STATUS_FILTER_LABELS,
+} from '@/utils/resourceFilters';
+import type { ResourceFilters, ResourceSort, ResourceStatusFilter } from '@/types';
+
+/**
+ * ResourceFilterBar Props Interface
+ */
+interface ResourceFilterBarProps {
+  filters: ResourceFilters;
+  onChange: (filters: ResourceFilters) => void;
+  resultCount: number;
+  totalCount: number;
+}
+
+/**
+ * ResourceFilterBar Component
+ * 
+ * @param filters - Current filter state
+ * @param onChange - Called with the full updated filter state
+ * @param resultCount - Number of resources matching the filters
+ * @param totalCount - Number of resources before filtering
+ */
+export default function ResourceFilterBar({ filters, onChange, resultCount, totalCount }: ResourceFilterBarProps) {
+  const update = (changes: Partial<ResourceFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <Flex
+      bg="white"
+      borderRadius="lg"
+      border="1px"
+      borderColor="gray.200"
+      p={4}
+      mb={4}
+      gap={3}
+      wrap="wrap"
+      align="center"
+    >
+      <Input
+        size="sm"
+        flex={{ base: '1 1 100%', md: '2 1 240px' }}
+        placeholder="Search by name or location..."
+        value={filters.query}
+        onChange={(e) => update({ query: e.target.value })}
+      />
+
+      <NativeSelect.Root size="sm" flex="1 1 140px">
+        <NativeSelect.Field
+          aria-label="Category"
+          value={filters.category}
+          onChange={(e) => update({ category: e.target.value === 'all' ? 'all' : Number(e.target.value) })}
+        >
+          <option value="all">All Categories</option>
+          {(Object.entries(CATEGORY_NAMES) as [string, string][]).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+
+      <NativeSelect.Root size="sm" flex="1 1 140px">
+        <NativeSelect.Field
+          aria-label="Status"
+          value={filters.status}
+          onChange={(e) => update({ status: e.target.value as ResourceStatusFilter })}
+        >
+          {(Object.entries(STATUS_FILTER_LABELS) as [ResourceStatusFilter, string][]).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+
+      <NativeSelect.Root size="sm" flex="1 1 160px">
+        <NativeSelect.Field
+          aria-label="Sort"
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as ResourceSort })}
+        >
+          {(Object.entries(SORT_LABELS) as [ResourceSort, string][]).map(([value, label]) => (
+            <option key={value} value={value}>
+              Sort: {label}
+            </option>
+          ))}
+        </NativeSelect.Field>
+        <NativeSelect.Indicator />
+      </NativeSelect.Root>
+
+      <Flex align="center" gap={3} ml={{ md: 'auto' }}>
+        <Text fontSize="sm" color="gray.500" whiteSpace="nowrap">
+          {resultCount} of {totalCount}
+        </Text>
+        {hasActiveFilters(filters) && (
+          <Button size="sm" variant="ghost" onClick={() => onChange(DEFAULT_RESOURCE_FILTERS)}>
+            Clear
+          </Button>
+        )}
+      </Flex>
+    </Flex>
+  );
+}
@@ -0,0 +1,111 @@
+/**
+ * ResourceStakeEditor Component
+ *
+ * Resource detail panel for changing a resource's stake via setStake:
+ * - Current stake required to reserve or book
+ * - New stake input with inline validation
+ * - Toast notifications for success and failure
+ *
+ * Only rendered for wallets holding RESOURCE_MANAGER_ROLE (the contract enforces this).
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button, HStack, Input, Text, VStack } from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { useReservationStake, useSetStake } from '@/hooks/useContract';
+
+/**
+ * ResourceStakeEditor Props Interface
+ */
+interface ResourceStakeEditorProps {
+  resourceId: number;
+}
+
+/**
+ * ResourceStakeEditor Component
+ *
+ * @param resourceId - The ID of the resource to edit
+ */
+export default function ResourceStakeEditor({ resourceId }: ResourceStakeEditorProps) {
+  const { stake } = useReservationStake(resourceId);
+  const { setStake, isPending, isSuccess, error } = useSetStake();
+
+  const [newStake, setNewStake] = useState('');
+  const isValid = Number(newStake) > 0;
+
+  // Handle successful update
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Stake Updated',
+        description: 'New reservations and bookings use the new stake.',
+        type: 'success',
+        duration: 5000,
+      });
+      setNewStake('');
+    }
+  }, [isSuccess]);
+
+  // Handle update errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Stake Update Failed',
+        description: error.message || 'Failed to update the stake. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the setStake transaction
+   */
+  const handleSubmit = async () => {
+    if (!isValid) {
+      toaster.create({ title: 'Invalid Stake', description: 'Stake must be greater than zero.', type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await setStake(resourceId, newStake.trim());
+    } catch (err) {
+      console.error('Set stake error:', err);
+    }
+  };
+
+  return (
+    <VStack align="stretch" gap={3}>
+      <Text fontSize="sm" color="gray.600">
+        Current stake: <strong>{stake} ETH</strong>
+      </Text>
+      <HStack gap={2}>
+        <Input
+          size="sm"
+          type="number"
+          min={0}
+          step="0.01"
+          placeholder="New stake (ETH)"
+          value={newStake}
+          onChange={(e) => setNewStake(e.target.value)}
+        />
+        <Button
+          size="sm"
+          colorScheme="brand"
+          onClick={handleSubmit}
+          loading={isPending}
+          disabled={isPending || !isValid}
+        >
+          Update
+        </Button>
+      </HStack>
+      <Text fontSize="xs" color="gray.500">
+        Live reservations and bookings keep the stake they locked.
+      </Text>
+    </VStack>
+  );
+}
@@ -0,0 +1,192 @@
+/**
+ * RoleManager Component
+ *
+ * Admin console panel for AccessControl roles:
+ * - Current members of each managed role (from RoleGranted/RoleRevoked events)
+ * - Grant or revoke a role for any address
+ * - Live check of whether the entered address already holds the role
+ *
+ * Granting and revoking require DEFAULT_ADMIN_ROLE (the contract enforces this).
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge, Box, Button, Flex, Heading, HStack, Input, NativeSelect, Spinner, Text, VStack } from '@chakra-ui/react';
+import { Address, Hex, isAddress } from 'viem';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import { useGrantRole, useHasRole, useRevokeRole, useRoleMembers } from '@/hooks/useContract';
+import { MANAGED_ROLES } from '@/config/contract';
+
+/**
+ * RoleManager Props Interface
+ */
+interface RoleManagerProps {
+  canManage: boolean;
+}
+
+/**
+ * RoleManager Component
+ *
+ * @param canManage - Whether the connected wallet holds DEFAULT_ADMIN_ROLE
+ */
+export default function RoleManager({ canManage }: RoleManagerProps) {
+  const { address: userAddress } = useAccount();
+  const { members, isLoading: membersLoading, error: membersError } = useRoleMembers();
+  const { grant, isPending: isGranting, isSuccess: grantSuccess, error: grantError } = useGrantRole();
+  const { revoke, isPending: isRevoking, isSuccess: revokeSuccess, error: revokeError } = useRevokeRole();
+
+  const [role, setRole] = useState<Hex>(MANAGED_ROLES[0].role);
+  const [account, setAccount] = useState('');
+  const validAccount = isAddress(account) ? (account as Address) : undefined;
+  const { hasRole, isLoading: hasRoleLoading } = useHasRole(role, validAccount);
+
+  // Transaction feedback
+  useEffect(() => {
+    if (grantSuccess) {
+      toaster.create({ title: 'Role Granted', type: 'success', duration: 5000 });
+    }
+  }, [grantSuccess]);
+
+  useEffect(() => {
+    if (revokeSuccess) {
+      toaster.create({ title: 'Role Revoked', type: 'success', duration: 5000 });
+    }
+  }, [revokeSuccess]);
+
+  useEffect(() => {
+    const txError = grantError || revokeError;
+    if (txError) {
+      toaster.create({
+        title: 'Role Update Failed',
+        description: txError.message || 'Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [grantError, revokeError]);
+
+  /**
+   * Grant or revoke the selected role for the entered account
+   */
+  const handleUpdate = async (action: 'grant' | 'revoke') => {
+    if (!validAccount) {
+      toaster.create({ title: 'Invalid Address', description: 'Enter a valid account address.', type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await (action === 'grant' ? grant(role, validAccount) : revoke(role, validAccount));
+    } catch (err) {
+      console.error('Role update error:', err);
+    }
+  };
+
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={4}>
+        Roles
+      </Heading>
+
+      <VStack align="stretch" gap={5}>
+        {/* Current Members */}
+        {membersLoading ? (
+          <Flex justify="center" py={2}>
+            <Spinner size="sm" color="brand.500" />
+          </Flex>
+        ) : membersError ? (
+          <Text fontSize="sm" color="red.500">
+            Failed to load role members: {membersError.message}
+          </Text>
+        ) : (
+          MANAGED_ROLES.map(({ role: managedRole, name }) => {
+            const roleMembers = members.get(managedRole) ?? [];
+            return (
+              <Box key={managedRole}>
+                <Text fontSize="sm" fontWeight="semibold" color="gray.700" mb={1}>
+                  {name} ({roleMembers.length})
+                </Text>
+                {roleMembers.length === 0 ? (
+                  <Text fontSize="xs" color="gray.400">No members</Text>
+                ) : (
+                  <VStack align="stretch" gap={1}>
+                    {roleMembers.map((member) => (
+                      <HStack key={member} gap={2}>
+                        <Text fontSize="xs" fontFamily="mono" color="gray.700" wordBreak="break-all">
+                          {member}
+                        </Text>
+                        {userAddress && member.toLowerCase() === userAddress.toLowerCase() && (
+                          <Badge colorScheme="blue" fontSize="2xs">YOU</Badge>
+                        )}
+                      </HStack>
+                    ))}
+                  </VStack>
+                )}
+              </Box>
+            );
+          })
+        )}
+
+        {/* Grant / Revoke */}
+        {canManage ? (
+          <VStack align="stretch" gap={3} bg="gray.50" p={4} borderRadius="md">
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Role</Text>
+              <NativeSelect.Root size="sm">
+                <NativeSelect.Field value={role} onChange={(e) => setRole(e.target.value as Hex)}>
+                  {MANAGED_ROLES.map(({ role: managedRole, name }) => (
+                    <option key={managedRole} value={managedRole}>
+                      {name}
+                    </option>
+                  ))}
+                </NativeSelect.Field>
+                <NativeSelect.Indicator />
+              </NativeSelect.Root>
+            </Box>
+
+            <Box>
+              <Text fontSize="xs" color="gray.600" mb={1}>Account</Text>
+              <Input size="sm" placeholder="0x..." value={account} onChange={(e) => setAccount(e.target.value.trim())} />
+              {validAccount && !hasRoleLoading && (
+                <Text fontSize="xs" color="gray.500" mt={1}>
+                  {hasRole ? 'Already holds this role' : 'Does not hold this role'}
+                </Text>
+              )}
+            </Box>
+
+            <HStack gap={2}>
+              <Button
+                size="sm"
+                colorScheme="green"
+                flex="1"
+                onClick={() => handleUpdate('grant')}
+                loading={isGranting}
+                disabled={!validAccount || hasRole || isGranting}
+              >
+                Grant
+              </Button>
+              <Button
+                size="sm"
+                colorScheme="red"
+                variant="outline"
+                flex="1"
+                onClick={() => handleUpdate('revoke')}
+                loading={isRevoking}
+                disabled={!validAccount || !hasRole || isRevoking}
+              >
+                Revoke
+              </Button>
+            </HStack>
+          </VStack>
+        ) : (
+          <Text fontSize="xs" color="gray.500">
+            Only admins can grant or revoke roles.
+          </Text>
+        )}
+      </VStack>
+    </Box>
+  );
+}
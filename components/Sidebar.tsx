@@ -9,6 +9,7 @@
  * 
  * Navigation items are defined in the NAV_ITEMS constant.
  * Each item includes a label, href (route), and optional icon.
+ * The Admin item is only listed for wallets holding an admin console role.
  * 
  * Responsive behavior:
  * - Mobile: Hidden by default, toggleable via hamburger menu (can be extended)
@@ -23,6 +24,7 @@ import { Box, VStack, Link, Text, Icon, Flex } from '@chakra-ui/react';
 import { usePathname } from 'next/navigation';
 import NextLink from 'next/link';
 import { NavItem } from '@/types';
+import { useAdminAccess } from '@/hooks/useContract';
 
 /**
  * Navigation items configuration
@@ -46,6 +48,15 @@ const NAV_ITEMS: NavItem[] = [
   },
 ];
 
+/**
+ * Admin console item, shown to RESOURCE_MANAGER_ROLE / DEFAULT_ADMIN_ROLE holders
+ */
+const ADMIN_NAV_ITEM: NavItem = {
+  label: 'Admin',
+  href: '/admin',
+  icon: '🛠️',
+};
+
 /**
  * Sidebar Component
  * 
@@ -54,14 +65,16 @@ const NAV_ITEMS: NavItem[] = [
  */
 export default function Sidebar() {
   const pathname = usePathname();
+  const { canAccess: showAdmin } = useAdminAccess();
+  const navItems = showAdmin ? [...NAV_ITEMS, ADMIN_NAV_ITEM] : NAV_ITEMS;
 
   /**
    * Check if a navigation item is currently active
-   * Exact match for home route, startsWith for others
+   * Home route also covers resource detail pages, startsWith for others
    */
   const isActive = (href: string) => {
     if (href === '/') {
-      return pathname === '/';
+      return pathname === '/' || !!pathname?.startsWith('/resources/');
     }
     return pathname?.startsWith(href);
   };
@@ -94,7 +107,7 @@ export default function Sidebar() {
 
       {/* Navigation Items */}
       <VStack gap={2} align="stretch">
-        {NAV_ITEMS.map((item) => {
+        {navItems.map((item) => {
           const active = isActive(item.href);
 
           return (
@@ -0,0 +1,89 @@
+/**
+ * TransferPolicyToggle Component
+ *
+ * Resource detail panel for allowing or blocking reservation handovers via setTransfersAllowed:
+ * - Current policy for the resource
+ * - Button to flip it
+ * - Toast notifications for success and failure
+ *
+ * Only rendered for wallets holding RESOURCE_MANAGER_ROLE (the contract enforces this).
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect } from 'react';
+import { Button, HStack, Text } from '@chakra-ui/react';
+import { toaster } from '@/components/ui/toaster';
+import { useReservationTransfer, useSetTransfersAllowed } from '@/hooks/useContract';
+
+/**
+ * TransferPolicyToggle Props Interface
+ */
+interface TransferPolicyToggleProps {
+  resourceId: number;
+}
+
+/**
+ * TransferPolicyToggle Component
+ *
+ * @param resourceId - The ID of the resource to configure
+ */
+export default function TransferPolicyToggle({ resourceId }: TransferPolicyToggleProps) {
+  const { transfersAllowed, isLoading } = useReservationTransfer(resourceId);
+  const { setTransfersAllowed, isPending, isSuccess, error } = useSetTransfersAllowed();
+
+  // Handle successful update
+  useEffect(() => {
+    if (isSuccess) {
+      toaster.create({
+        title: 'Handover Policy Updated',
+        description: 'Open handover offers follow the new policy.',
+        type: 'success',
+        duration: 5000,
+      });
+    }
+  }, [isSuccess]);
+
+  // Handle update errors
+  useEffect(() => {
+    if (error) {
+      toaster.create({
+        title: 'Policy Update Failed',
+        description: error.message || 'Failed to update the handover policy. Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
+
+  /**
+   * Submit the setTransfersAllowed transaction
+   */
+  const handleToggle = async () => {
+    try {
+      await setTransfersAllowed(resourceId, !transfersAllowed);
+    } catch (err) {
+      console.error('Set transfer policy error:', err);
+    }
+  };
+
+  return (
+    <HStack justify="space-between">
+      <Text fontSize="sm" color="gray.600">
+        Handovers: <strong>{transfersAllowed ? 'Allowed' : 'Disabled'}</strong>
+      </Text>
+      <Button
+        size="sm"
+        colorScheme={transfersAllowed ? 'red' : 'green'}
+        variant="outline"
+        onClick={handleToggle}
+        loading={isPending}
+        disabled={isPending || isLoading}
+      >
+        {transfersAllowed ? 'Disable' : 'Allow'}
+      </Button>
+    </HStack>
+  );
+}
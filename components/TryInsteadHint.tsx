@@ -0,0 +1,65 @@
+/**
+ * TryInsteadHint Component
+ *
+ * "Try instead" line on a reserved resource card, naming up to two available
+ * alternatives picked for the connected wallet (see useSimilarResources).
+ * Each name links to the resource's page; hovering shows why it was picked.
+ * Renders nothing while loading or when there is nothing to suggest.
+ *
+ * Props:
+ * @param {number} resourceId - The reserved resource
+ *
+ * @component
+ */
+
+'use client';
+
+import { Fragment } from 'react';
+import NextLink from 'next/link';
+import { Link, Text } from '@chakra-ui/react';
+import { useSimilarResources } from '@/hooks/useContract';
+import { SUGGESTION_REASON_LABELS } from '@/utils/recommendations';
+
+/**
+ * Most alternatives named in the hint
+ */
+const HINT_LIMIT = 2;
+
+/**
+ * TryInsteadHint Props Interface
+ */
+interface TryInsteadHintProps {
+  resourceId: number;
+}
+
+/**
+ * TryInsteadHint Component
+ */
+export default function TryInsteadHint({ resourceId }: TryInsteadHintProps) {
+  const { suggestions } = useSimilarResources(resourceId);
+  const shown = suggestions.slice(0, HINT_LIMIT);
+
+  if (shown.length === 0) {
+    return null;
+  }
+
+  return (
+    <Text fontSize="xs" color="gray.600">
+      💡 Try instead:{' '}
+      {shown.map((suggestion, index) => (
+        <Fragment key={suggestion.resourceId}>
+          {index > 0 && ', '}
+          <Link
+            as={NextLink}
+            href={`/resources/${suggestion.resourceId}`}
+            color="brand.600"
+            fontWeight="medium"
+            title={SUGGESTION_REASON_LABELS[suggestion.reason]}
+          >
+            {suggestion.name}
+          </Link>
+        </Fragment>
+      ))}
+    </Text>
+  );
+}
@@ -0,0 +1,70 @@
+/**
+ * UsageBarChart Component
+ *
+ * Vertical bar chart for usage buckets on the AI Suggestions page
+ * (reserved time per hour of day or day of week):
+ * - Bars scaled to the busiest bucket, which is highlighted
+ * - Bucket labels under the bars (every `labelEvery`-th label shown)
+ * - Hover title with the label and formatted value
+ *
+ * Props:
+ * @param {number[]} values - Value of each bucket
+ * @param {string[]} labels - Label of each bucket
+ * @param {function} formatValue - Formats a value for the hover title
+ * @param {number} labelEvery - Show every nth label (default: 1)
+ * @param {string} height - Chart height (default: 160px)
+ *
+ * @component
+ */
+
+'use client';
+
+import { Box, Flex, Text, VStack } from '@chakra-ui/react';
+
+/**
+ * UsageBarChart Props Interface
+ */
+interface UsageBarChartProps {
+  values: number[];
+  labels: string[];
+  formatValue: (value: number) => string;
+  labelEvery?: number;
+  height?: string;
+}
+
+/**
+ * UsageBarChart Component
+ */
+export default function UsageBarChart({ values, labels, formatValue, labelEvery = 1, height = '160px' }: UsageBarChartProps) {
+  const max = Math.max(...values, 0);
+
+  if (max === 0) {
+    return (
+      <Flex h={height} align="center" justify="center" bg="gray.50" borderRadius="md">
+        <Text fontSize="sm" color="gray.500">No reservations in this period</Text>
+      </Flex>
+    );
+  }
+
+  return (
+    <Flex align="flex-end" gap={1} h={height}>
+      {values.map((value, index) => (
+        <VStack key={labels[index]} flex="1" h="100%" gap={1} minW={0}>
+          <Flex flex="1" w="100%" align="flex-end">
+            <Box
+              w="100%"
+              h={`${(value / max) * 100}%`}
+              minH={value > 0 ? '2px' : 0}
+              bg={value === max ? 'brand.500' : 'brand.200'}
+              borderTopRadius="sm"
+              title={`${labels[index]}: ${formatValue(value)}`}
+            />
+          </Flex>
+          <Text fontSize="2xs" color="gray.500" h={4} whiteSpace="nowrap">
+            {index % labelEvery === 0 ? labels[index] : ''}
+          </Text>
+        </VStack>
+      ))}
+    </Flex>
+  );
+}
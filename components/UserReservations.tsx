@@ -4,12 +4,14 @@
  * Displays user's active reservations with:
  * - List of currently reserved resources
  * - Countdown timers for each reservation
- * - Quick release buttons
+ * - Quick release, extend and hand over buttons
  * - Total staked amount
+ * - Projected late penalty and net refund
  * - Reservation history
+ * - Handovers offered to the user, with an Accept button
  * 
  * Features:
- * - Real-time data from smart contract
+ * - Real-time data from smart contract event logs
  * - Auto-refresh on new reservations
  * - Mobile-responsive layout
  * - Empty state for no reservations
@@ -20,6 +22,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import NextLink from 'next/link';
 import {
   Box,
   Text,
@@ -31,32 +34,30 @@ import {
   Flex,
   Heading,
   Grid,
+  Link,
 } from '@chakra-ui/react';
+import { formatEther } from 'viem';
 import { useAccount } from 'wagmi';
 import { toaster } from '@/components/ui/toaster';
 import { ProgressBar } from '@/components/ui/progress';
+import LatePenaltyInfo from '@/components/LatePenaltyInfo';
+import ExtendReservationControl from '@/components/ExtendReservationControl';
+import HandoverDialog from '@/components/HandoverDialog';
 import { 
+  useAcceptReservationTransfer,
+  useIncomingTransfers,
+  useMaxReservationDuration,
   useReleaseResource,
-  useContractAddress
+  useUserReservations
 } from '@/hooks/useContract';
 import { 
   formatRemainingTime,
   getCategoryColor,
   getCategoryName,
-  ResourceCategory
+  MAX_RESERVATION_DURATION,
+  UserReservation
 } from '@/config/contract';
-
-/**
- * Simplified reservation data structure
- * In production, fetch from contract events or subgraph
- */
-interface UserReservationItem {
-  resourceId: number;
-  resourceName: string;
-  category: ResourceCategory;
-  reservationEnd: bigint;
-  stakedAmount: bigint;
-}
+import { IncomingTransfer } from '@/utils/indexer';
 
 /**
  * UserReservations Component
@@ -65,12 +66,18 @@ interface UserReservationItem {
  */
 export default function UserReservations() {
   const { address, isConnected } = useAccount();
-  const contractAddress = useContractAddress();
-  const [reservations, setReservations] = useState<UserReservationItem[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  
+  // Active reservations rebuilt from contract events
+  const { reservations, isLoading, error, refetch } = useUserReservations(address);
   
   // Release resource hook
   const { release, isPending, isSuccess } = useReleaseResource();
+  const { maxDuration: onChainMaxDuration } = useMaxReservationDuration();
+  const maxDuration = onChainMaxDuration || MAX_RESERVATION_DURATION;
+
+  // Handovers other reservers have offered to this wallet
+  const { transfers: incomingTransfers, refetch: refetchIncoming } = useIncomingTransfers(address);
+  const { accept, isPending: isAccepting, isSuccess: acceptSuccess, error: acceptError } = useAcceptReservationTransfer();
 
   // Handle successful release
   useEffect(() => {
@@ -82,59 +89,47 @@ export default function UserReservations() {
         duration: 5000,
       });
       // Refresh reservations
-      fetchUserReservations();
+      refetch();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isSuccess]);
+  }, [isSuccess, refetch]);
 
-  /**
-   * Fetch user's active reservations
-   * 
-   * Note: This is a placeholder. In production:
-   * 1. Use The Graph to index ResourceReserved events filtered by user
-   * 2. Or use contract event logs with viem
-   * 3. Or maintain a backend API that indexes events
-   */
-  const fetchUserReservations = async () => {
-    if (!address || !contractAddress) {
-      setIsLoading(false);
-      return;
+  // Handle accepted handover
+  useEffect(() => {
+    if (acceptSuccess) {
+      toaster.create({
+        title: 'Handover Accepted',
+        description: 'The reservation is now yours.',
+        type: 'success',
+        duration: 5000,
+      });
+      refetch();
+      refetchIncoming();
     }
+  }, [acceptSuccess, refetch, refetchIncoming]);
 
-    setIsLoading(true);
-    
-    try {
-      // TODO: Implement actual fetching from contract events
-      // For now, return empty array
-      // 
-      // Example implementation with viem:
-      // const logs = await publicClient.getLogs({
-      //   address: contractAddress,
-      //   event: parseAbiItem('event ResourceReserved(uint256 indexed resourceId, address indexed reserver, uint256 stakeAmount, uint256 reservationEnd)'),
-      //   args: { reserver: address },
-      //   fromBlock: 'earliest',
-      //   toBlock: 'latest'
-      // });
-      
-      setReservations([]);
-    } catch (error) {
-      console.error('Error fetching reservations:', error);
+  // Handle handover errors
+  useEffect(() => {
+    if (acceptError) {
       toaster.create({
-        title: 'Error',
-        description: 'Failed to load your reservations.',
+        title: 'Handover Failed',
+        description: acceptError.message || 'Failed to accept the handover. Please try again.',
         type: 'error',
         duration: 5000,
       });
-    } finally {
-      setIsLoading(false);
     }
-  };
+  }, [acceptError]);
 
-  // Fetch reservations on mount and when address changes
+  // Surface indexer failures
   useEffect(() => {
-    fetchUserReservations();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [address, contractAddress]);
+    if (error) {
+      toaster.create({
+        title: 'Error',
+        description: 'Failed to load your reservations.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [error]);
 
   /**
    * Handle resource release
@@ -154,6 +149,25 @@ export default function UserReservations() {
     }
   };
 
+  /**
+   * Handle accepting a handover
+   */
+  const handleAccept = async (transfer: IncomingTransfer) => {
+    try {
+      await accept(transfer.resourceId, transfer.stakeAmount);
+    } catch (error) {
+      console.error('Accept handover error:', error);
+    }
+  };
+
+  const incomingSection = incomingTransfers.length > 0 && (
+    <IncomingHandovers
+      transfers={incomingTransfers}
+      onAccept={handleAccept}
+      isAccepting={isAccepting}
+    />
+  );
+
   // Not connected state
   if (!isConnected) {
     return (
@@ -212,6 +226,7 @@ export default function UserReservations() {
           <Text color="gray.500" textAlign="center">
             You haven&apos;t reserved any resources yet. Browse available resources and reserve one to get started.
           </Text>
+          {incomingSection}
         </VStack>
       </Box>
     );
@@ -237,6 +252,9 @@ export default function UserReservations() {
           </Badge>
         </Flex>
 
+        {/* Incoming Handovers */}
+        {incomingSection}
+
         {/* Reservations List */}
         <Grid
           templateColumns={{ base: '1fr', md: 'repeat(2, 1fr)' }}
@@ -248,6 +266,8 @@ export default function UserReservations() {
               reservation={reservation}
               onRelease={handleRelease}
               isReleasing={isPending}
+              maxDuration={maxDuration}
+              onExtended={refetch}
             />
           ))}
         </Grid>
@@ -256,16 +276,66 @@ export default function UserReservations() {
   );
 }
 
+/**
+ * Incoming Handovers Component
+ */
+interface IncomingHandoversProps {
+  transfers: IncomingTransfer[];
+  onAccept: (transfer: IncomingTransfer) => void;
+  isAccepting: boolean;
+}
+
+function IncomingHandovers({ transfers, onAccept, isAccepting }: IncomingHandoversProps) {
+  return (
+    <Box bg="purple.50" borderRadius="md" p={4} border="1px" borderColor="purple.200" w="full">
+      <VStack align="stretch" gap={3}>
+        <Heading size="sm" color="purple.700">
+          Offered to You
+        </Heading>
+        {transfers.map((transfer) => (
+          <Flex key={transfer.resourceId} justify="space-between" align="center" gap={3}>
+            <VStack align="flex-start" gap={0}>
+              <Link
+                as={NextLink}
+                href={`/resources/${transfer.resourceId}`}
+                fontWeight="bold"
+                color="gray.800"
+                _hover={{ color: 'brand.600' }}
+              >
+                {transfer.resourceName}
+              </Link>
+              <Text fontSize="xs" color="gray.600">
+                From {transfer.from.slice(0, 6)}...{transfer.from.slice(-4)} · Stake {formatEther(transfer.stakeAmount)} ETH
+              </Text>
+            </VStack>
+            <Button
+              size="sm"
+              colorScheme="purple"
+              onClick={() => onAccept(transfer)}
+              loading={isAccepting}
+              loadingText="Accepting..."
+            >
+              Accept
+            </Button>
+          </Flex>
+        ))}
+      </VStack>
+    </Box>
+  );
+}
+
 /**
  * Individual Reservation Card Component
  */
 interface ReservationCardProps {
-  reservation: UserReservationItem;
+  reservation: UserReservation;
   onRelease: (resourceId: number, resourceName: string) => void;
   isReleasing: boolean;
+  maxDuration: number;
+  onExtended: () => void;
 }
 
-function ReservationCard({ reservation, onRelease, isReleasing }: ReservationCardProps) {
+function ReservationCard({ reservation, onRelease, isReleasing, maxDuration, onExtended }: ReservationCardProps) {
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
 
   // Calculate remaining time
@@ -282,7 +352,10 @@ function ReservationCard({ reservation, onRelease, isReleasing }: ReservationCar
   }, [reservation.reservationEnd]);
 
   const isExpired = timeRemaining <= 0;
-  const progressPercentage = isExpired ? 100 : 50; // Simplified progress
+  const totalDuration = Number(reservation.reservationEnd - reservation.reservationStart);
+  const progressPercentage = isExpired || totalDuration <= 0
+    ? 100
+    : ((totalDuration - timeRemaining) / totalDuration) * 100;
 
   return (
     <Box
@@ -296,9 +369,15 @@ function ReservationCard({ reservation, onRelease, isReleasing }: ReservationCar
         {/* Resource Name */}
         <Flex justify="space-between" align="flex-start">
           <VStack align="flex-start" gap={1} flex="1">
-            <Text fontWeight="bold" color="gray.800">
+            <Link
+              as={NextLink}
+              href={`/resources/${reservation.resourceId}`}
+              fontWeight="bold"
+              color="gray.800"
+              _hover={{ color: 'brand.600' }}
+            >
               {reservation.resourceName}
-            </Text>
+            </Link>
             <Badge
               colorScheme={getCategoryColor(reservation.category)}
               fontSize="xs"
@@ -333,6 +412,28 @@ function ReservationCard({ reservation, onRelease, isReleasing }: ReservationCar
         <Text fontSize="xs" color="gray.500">
           Staked: {Number(reservation.stakedAmount) / 1e18} ETH
         </Text>
+        <LatePenaltyInfo stakedAmount={reservation.stakedAmount} reservationEnd={reservation.reservationEnd} />
+
+        {/* Extend Control */}
+        {!isExpired && (
+          <ExtendReservationControl
+            resourceId={reservation.resourceId}
+            resourceName={reservation.resourceName}
+            reservationStart={reservation.reservationStart}
+            reservationEnd={reservation.reservationEnd}
+            maxDuration={maxDuration}
+            onExtended={onExtended}
+          />
+        )}
+
+        {/* Handover Dialog */}
+        {!isExpired && (
+          <HandoverDialog
+            resourceId={reservation.resourceId}
+            resourceName={reservation.resourceName}
+            stakedAmount={reservation.stakedAmount}
+          />
+        )}
 
         {/* Release Button */}
         <Button
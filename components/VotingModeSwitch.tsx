@@ -0,0 +1,48 @@
+/**
+ * VotingModeSwitch Component
+ *
+ * Toggle between on-chain votes (castVote transactions) and gas-free signed
+ * ballots on the proposals pages (see utils/offchainVoting.ts).
+ *
+ * Props:
+ * @param {VotingMode} mode - Selected mode
+ * @param {function} onChange - Called with the newly selected mode
+ *
+ * @component
+ */
+
+'use client';
+
+import { Button, HStack } from '@chakra-ui/react';
+import { VotingMode, VOTING_MODES } from '@/utils/offchainVoting';
+
+/**
+ * VotingModeSwitch Props Interface
+ */
+interface VotingModeSwitchProps {
+  mode: VotingMode;
+  onChange: (mode: VotingMode) => void;
+}
+
+/**
+ * VotingModeSwitch Component
+ */
+export default function VotingModeSwitch({ mode, onChange }: VotingModeSwitchProps) {
+  return (
+    <HStack gap={0}>
+      {VOTING_MODES.map(({ value, label }, index) => (
+        <Button
+          key={value}
+          size="sm"
+          colorScheme="purple"
+          variant={mode === value ? 'solid' : 'outline'}
+          borderLeftRadius={index === 0 ? 'md' : 0}
+          borderRightRadius={index === VOTING_MODES.length - 1 ? 'md' : 0}
+          onClick={() => onChange(value)}
+        >
+          {label}
+        </Button>
+      ))}
+    </HStack>
+  );
+}
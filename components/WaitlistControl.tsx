@@ -0,0 +1,191 @@
+/**
+ * WaitlistControl Component
+ *
+ * Waitlist panel for a resource someone else has reserved:
+ * - Number of users waiting and the connected user's position
+ * - Duration picker and "Join Waitlist" button (stakes the resource's stake)
+ * - "Leave" button that returns the waitlist stake
+ * - Notice when the user is promoted to the reservation
+ *
+ * When the reservation is released or swept, the first user in line becomes
+ * the reserver for the duration they chose. Users whose time runs into a
+ * booked slot are skipped and their stake is credited to their stake balance.
+ *
+ * Props:
+ * @param {number} resourceId - The on-chain resource ID
+ * @param {string} resourceName - Name shown in notifications
+ * @param {number} maxDuration - Maximum allowed reservation duration in seconds
+ * @param {function} onChange - Called after joining, leaving or being promoted
+ *
+ * @component
+ */
+
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Box, Button, Flex, Text, VStack } from '@chakra-ui/react';
+import { useAccount } from 'wagmi';
+import { toaster } from '@/components/ui/toaster';
+import DurationPicker from '@/components/DurationPicker';
+import { useJoinWaitlist, useLeaveWaitlist, useReservationStake, useWaitlist } from '@/hooks/useContract';
+import {
+  DEFAULT_RESERVATION_DURATION,
+  formatDuration,
+  validateReservationDuration,
+} from '@/config/contract';
+
+/**
+ * WaitlistControl Props Interface
+ */
+interface WaitlistControlProps {
+  resourceId: number;
+  resourceName: string;
+  maxDuration: number;
+  onChange?: () => void;
+}
+
+/**
+ * WaitlistControl Component
+ */
+export default function WaitlistControl({ resourceId, resourceName, maxDuration, onChange }: WaitlistControlProps) {
+  const { address, isConnected } = useAccount();
+  const { entries, position } = useWaitlist(resourceId);
+  const { stake } = useReservationStake(resourceId);
+  const { join, isPending: isJoining, isSuccess: joinSuccess, error: joinError } = useJoinWaitlist();
+  const { leave, isPending: isLeaving, isSuccess: leaveSuccess, error: leaveError } = useLeaveWaitlist();
+
+  const [duration, setDuration] = useState<number>(DEFAULT_RESERVATION_DURATION);
+  const durationError = validateReservationDuration(duration, maxDuration);
+
+  // Leaving the queue without leaving it yourself means you were promoted or skipped
+  const previousPosition = useRef({ address, position });
+  const leftOnPurpose = useRef(false);
+  useEffect(() => {
+    const previous = previousPosition.current;
+    if (previous.address === address && previous.position > 0 && position === 0 && !leftOnPurpose.current) {
+      toaster.create({
+        title: 'Waitlist Update',
+        description: `You have left the ${resourceName} waitlist. Either the resource is now yours, or your time overlapped a booking and your stake was added to your deposit.`,
+        type: 'info',
+        duration: 8000,
+      });
+      onChange?.();
+    }
+    previousPosition.current = { address, position };
+  }, [address, position, resourceName, onChange]);
+
+  // Handle successful join
+  useEffect(() => {
+    if (joinSuccess) {
+      toaster.create({
+        title: 'Joined Waitlist',
+        description: `You will get ${resourceName} when it is your turn.`,
+        type: 'success',
+        duration: 5000,
+      });
+      leftOnPurpose.current = false;
+      onChange?.();
+    }
+  }, [joinSuccess, resourceName, onChange]);
+
+  // Handle successful leave
+  useEffect(() => {
+    if (leaveSuccess) {
+      toaster.create({
+        title: 'Left Waitlist',
+        description: 'Your waitlist stake has been returned.',
+        type: 'success',
+        duration: 5000,
+      });
+      onChange?.();
+    }
+  }, [leaveSuccess, onChange]);
+
+  // Handle transaction errors
+  useEffect(() => {
+    const txError = joinError || leaveError;
+    if (txError) {
+      toaster.create({
+        title: 'Waitlist Update Failed',
+        description: txError.message || 'Please try again.',
+        type: 'error',
+        duration: 5000,
+      });
+    }
+  }, [joinError, leaveError]);
+
+  /**
+   * Submit the joinWaitlist transaction
+   */
+  const handleJoin = async () => {
+    if (durationError) {
+      toaster.create({ title: 'Invalid Duration', description: durationError, type: 'error', duration: 4000 });
+      return;
+    }
+
+    try {
+      await join(resourceId, duration);
+    } catch (err) {
+      console.error('Join waitlist error:', err);
+    }
+  };
+
+  /**
+   * Submit the leaveWaitlist transaction
+   */
+  const handleLeave = async () => {
+    try {
+      leftOnPurpose.current = true;
+      await leave(resourceId);
+    } catch (err) {
+      leftOnPurpose.current = false;
+      console.error('Leave waitlist error:', err);
+    }
+  };
+
+  return (
+    <Box bg="purple.50" p={3} borderRadius="md">
+      <VStack align="stretch" gap={2}>
+        <Flex justify="space-between" align="center">
+          <Text fontSize="xs" color="gray.600">Waitlist:</Text>
+          <Text fontSize="xs" fontWeight="bold" color="purple.700">
+            {entries.length === 0 ? 'Nobody waiting' : `${entries.length} waiting`}
+          </Text>
+        </Flex>
+
+        {position > 0 ? (
+          <>
+            <Text fontSize="sm" color="purple.700">
+              You&apos;re <strong>#{position}</strong> in line for {formatDuration(Number(entries[position - 1].duration))}
+            </Text>
+            <Button
+              size="xs"
+              colorScheme="red"
+              variant="outline"
+              onClick={handleLeave}
+              loading={isLeaving}
+              loadingText="Leaving..."
+              disabled={isLeaving}
+            >
+              Leave Waitlist
+            </Button>
+          </>
+        ) : isConnected ? (
+          <>
+            <DurationPicker value={duration} onChange={setDuration} maxDuration={maxDuration} />
+            <Button
+              size="sm"
+              colorScheme="purple"
+              onClick={handleJoin}
+              loading={isJoining}
+              loadingText="Joining..."
+              disabled={isJoining || !!durationError}
+            >
+              Join Waitlist (Stake {stake} ETH)
+            </Button>
+          </>
+        ) : null}
+      </VStack>
+    </Box>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * WalletRecommendations Component
+ *
+ * "Recommended for You" panel on the AI Suggestions page, built from the
+ * connected wallet's own reservations and co-usage across all wallets
+ * (see useWalletRecommendations and utils/recommendations.ts):
+ * - The wallet's most reserved resources, with available alternatives for
+ *   any that are reserved, booked or retired right now
+ * - Available resources the wallet has not tried yet, with the reason and
+ *   the resource each one resembles
+ *
+ * @component
+ */
+
+'use client';
+
+import NextLink from 'next/link';
+import { useAccount } from 'wagmi';
+import { Badge, Box, Flex, Grid, Heading, HStack, Link, Spinner, Text, VStack } from '@chakra-ui/react';
+import { useWalletRecommendations } from '@/hooks/useContract';
+import { getCategoryColor, getCategoryName } from '@/config/contract';
+import { ResourceSuggestion, SUGGESTION_REASON_LABELS } from '@/utils/recommendations';
+
+/**
+ * WalletRecommendations Component
+ */
+export default function WalletRecommendations() {
+  const { address, isConnected } = useAccount();
+  const { recommendations, isLoading, error } = useWalletRecommendations(address);
+  const { favorites, suggestions } = recommendations;
+
+  return (
+    <Box bg="white" borderRadius="lg" boxShadow="md" p={6} border="1px" borderColor="gray.200">
+      <Heading as="h2" size="md" color="gray.700" mb={1}>
+        Recommended for You
+      </Heading>
+      <Text fontSize="sm" color="gray.600" mb={4}>
+        Based on your reservations and what people with similar habits reserve
+      </Text>
+
+      {!isConnected ? (
+        <Text fontSize="sm" color="gray.500">Connect your wallet to get recommendations.</Text>
+      ) : isLoading ? (
+        <HStack gap={2}>
+          <Spinner size="sm" color="brand.500" />
+          <Text fontSize="sm" color="gray.500">Reading your reservation history...</Text>
+        </HStack>
+      ) : error ? (
+        <Text fontSize="sm" color="red.500">Failed to load recommendations: {error.message}</Text>
+      ) : favorites.length === 0 ? (
+        <Text fontSize="sm" color="gray.500">
+          You have not reserved anything yet. Recommendations appear after your first reservation.
+        </Text>
+      ) : (
+        <Grid templateColumns={{ base: '1fr', lg: '1fr 1fr' }} gap={6}>
+          {/* Favorites */}
+          <VStack align="stretch" gap={3}>
+            <Text fontSize="xs" color="gray.500" textTransform="uppercase" fontWeight="bold">
+              Your Usual Resources
+            </Text>
+            {favorites.map((favorite) => (
+              <Box key={favorite.resourceId} p={3} borderRadius="md" border="1px" borderColor="gray.200">
+                <Flex justify="space-between" align="center" gap={2}>
+                  <Link as={NextLink} href={`/resources/${favorite.resourceId}`} color="brand.600" fontWeight="medium">
+                    {favorite.name}
+                  </Link>
+                  <Badge colorScheme={favorite.isAvailable ? 'green' : 'orange'}>
+                    {favorite.isAvailable ? 'Available' : 'Unavailable'}
+                  </Badge>
+                </Flex>
+                <Text fontSize="xs" color="gray.500">
+                  Reserved {favorite.reservations} {favorite.reservations === 1 ? 'time' : 'times'}
+                </Text>
+                {!favorite.isAvailable && (
+                  <Box mt={2}>
+                    {favorite.alternatives.length === 0 ? (
+                      <Text fontSize="xs" color="gray.500">No similar resource is free right now.</Text>
+                    ) : (
+                      <VStack align="stretch" gap={1}>
+                        <Text fontSize="xs" color="gray.600">Try instead:</Text>
+                        {favorite.alternatives.map((suggestion) => (
+                          <SuggestionRow key={suggestion.resourceId} suggestion={suggestion} />
+                        ))}
+                      </VStack>
+                    )}
+                  </Box>
+                )}
+              </Box>
+            ))}
+          </VStack>
+
+          {/* New Suggestions */}
+          <VStack align="stretch" gap={3}>
+            <Text fontSize="xs" color="gray.500" textTransform="uppercase" fontWeight="bold">
+              New to You
+            </Text>
+            {suggestions.length === 0 ? (
+              <Text fontSize="sm" color="gray.500">No other available resource matches your history right now.</Text>
+            ) : (
+              suggestions.map((suggestion) => (
+                <SuggestionRow
+                  key={suggestion.resourceId}
+                  suggestion={suggestion}
+                  note={`like ${suggestion.basedOnName}`}
+                />
+              ))
+            )}
+          </VStack>
+        </Grid>
+      )}
+    </Box>
+  );
+}
+
+/**
+ * One suggested resource: link, category, reason and match score
+ */
+function SuggestionRow({ suggestion, note }: { suggestion: ResourceSuggestion; note?: string }) {
+  return (
+    <Flex justify="space-between" align="center" gap={2}>
+      <VStack align="flex-start" gap={0}>
+        <HStack gap={2}>
+          <Link as={NextLink} href={`/resources/${suggestion.resourceId}`} color="brand.600" fontSize="sm" fontWeight="medium">
+            {suggestion.name}
+          </Link>
+          <Badge colorScheme={getCategoryColor(suggestion.category)} fontSize="2xs">
+            {getCategoryName(suggestion.category)}
+          </Badge>
+        </HStack>
+        <Text fontSize="xs" color="gray.500">
+          {SUGGESTION_REASON_LABELS[suggestion.reason]}
+          {note && ` · ${note}`}
+        </Text>
+      </VStack>
+      <Text fontSize="xs" color="gray.600" whiteSpace="nowrap">
+        {Math.round(suggestion.score * 100)}% match
+      </Text>
+    </Flex>
+  );
+}
@@ -21,6 +21,7 @@
 'use client';
 
 import { WagmiProvider } from 'wagmi';
+import { hashFn } from 'wagmi/query';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { config } from '@/config/wagmi';
 import { useEffect, useState, type ReactNode } from 'react';
@@ -33,6 +34,7 @@ import { useEffect, useState, type ReactNode } from 'react';
  * - Single retry on failure (reduces wait time for users)
  * - 5-minute default cache time
  * - 30-second stale time for balance/state queries
+ * - wagmi's key hashing so manually seeded contract reads share cache entries
  */
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -41,6 +43,7 @@ const queryClient = new QueryClient({
       retry: 1, // Retry failed requests once
       gcTime: 1000 * 60 * 5, // Keep unused data in cache for 5 minutes
       staleTime: 1000 * 30, // Consider data fresh for 30 seconds
+      queryKeyHashFn: hashFn, // Hash bigint contract args the same way wagmi does
     },
     mutations: {
       retry: 1, // Retry failed mutations once
@@ -5,194 +5,166 @@
  * and TypeScript types for type-safe contract interactions.
  */
 
-import { Address } from 'viem';
+import { Address, Hex, keccak256, toBytes, zeroHash } from 'viem';
+import { BookingStatus, CAMPUS_RESOURCE_NFT_ABI_HASH, ResourceCategory } from './generated/CampusResourceNFT';
+import deploymentRegistry from '@/deployments/registry.json';
 
 // ==================== Contract ABI ====================
-export const CAMPUS_RESOURCE_NFT_ABI = [
-  // Constructor
-  {
-    inputs: [
-      { internalType: 'address', name: 'trustedForwarder', type: 'address' },
-      { internalType: 'uint256', name: 'reservationStake', type: 'uint256' },
-      { internalType: 'string', name: 'uri', type: 'string' }
-    ],
-    stateMutability: 'nonpayable',
-    type: 'constructor'
-  },
-  // Events
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'uint256', name: 'resourceId', type: 'uint256' },
-      { indexed: false, internalType: 'string', name: 'name', type: 'string' },
-      { indexed: false, internalType: 'uint8', name: 'category', type: 'uint8' }
-    ],
-    name: 'ResourceCreated',
-    type: 'event'
-  },
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'uint256', name: 'resourceId', type: 'uint256' },
-      { indexed: true, internalType: 'address', name: 'reserver', type: 'address' },
-      { indexed: false, internalType: 'uint256', name: 'stakeAmount', type: 'uint256' },
-      { indexed: false, internalType: 'uint256', name: 'reservationEnd', type: 'uint256' }
-    ],
-    name: 'ResourceReserved',
-    type: 'event'
-  },
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'uint256', name: 'resourceId', type: 'uint256' },
-      { indexed: true, internalType: 'address', name: 'reserver', type: 'address' },
-      { indexed: false, internalType: 'uint256', name: 'stakeReturned', type: 'uint256' }
-    ],
-    name: 'ResourceReleased',
-    type: 'event'
-  },
-  {
-    anonymous: false,
-    inputs: [
-      { indexed: true, internalType: 'uint256', name: 'resourceId', type: 'uint256' },
-      { indexed: true, internalType: 'address', name: 'previousReserver', type: 'address' }
-    ],
-    name: 'ReservationExpired',
-    type: 'event'
-  },
-  // Read Functions
-  {
-    inputs: [],
-    name: 'RESERVATION_STAKE',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [],
-    name: 'MAX_RESERVATION_DURATION',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'getResource',
-    outputs: [
-      {
-        components: [
-          { internalType: 'string', name: 'name', type: 'string' },
-          { internalType: 'uint8', name: 'category', type: 'uint8' },
-          { internalType: 'bool', name: 'isReserved', type: 'bool' },
-          { internalType: 'address', name: 'currentReserver', type: 'address' },
-          { internalType: 'uint256', name: 'reservationStart', type: 'uint256' },
-          { internalType: 'uint256', name: 'reservationEnd', type: 'uint256' },
-          { internalType: 'uint256', name: 'stakedAmount', type: 'uint256' },
-          { internalType: 'bool', name: 'exists', type: 'bool' }
-        ],
-        internalType: 'struct CampusResourceNFT.Resource',
-        name: '',
-        type: 'tuple'
-      }
-    ],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'isResourceReserved',
-    outputs: [{ internalType: 'bool', name: '', type: 'bool' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'getCurrentReserver',
-    outputs: [{ internalType: 'address', name: '', type: 'address' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'getRemainingReservationTime',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'getReservationHistory',
-    outputs: [{ internalType: 'address[]', name: '', type: 'address[]' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'address', name: 'user', type: 'address' }],
-    name: 'getUserTotalStaked',
-    outputs: [{ internalType: 'uint256', name: '', type: 'uint256' }],
-    stateMutability: 'view',
-    type: 'function'
-  },
-  // Write Functions
-  {
-    inputs: [
-      { internalType: 'uint256', name: 'resourceId', type: 'uint256' },
-      { internalType: 'uint256', name: 'duration', type: 'uint256' }
-    ],
-    name: 'reserveResource',
-    outputs: [],
-    stateMutability: 'payable',
-    type: 'function'
-  },
-  {
-    inputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    name: 'releaseResource',
-    outputs: [],
-    stateMutability: 'nonpayable',
-    type: 'function'
-  },
-  {
-    inputs: [
-      { internalType: 'string', name: 'name', type: 'string' },
-      { internalType: 'uint8', name: 'category', type: 'uint8' },
-      { internalType: 'uint256', name: 'initialSupply', type: 'uint256' },
-      { internalType: 'address', name: 'recipient', type: 'address' }
-    ],
-    name: 'createResource',
-    outputs: [{ internalType: 'uint256', name: 'resourceId', type: 'uint256' }],
-    stateMutability: 'nonpayable',
-    type: 'function'
-  }
-] as const;
+/**
+ * ABI and enums are generated from the compiled contract
+ * artifact (see scripts/generate-contract-config.js) so they cannot drift
+ * from CampusResourceNFT.sol.
+ */
+export { CAMPUS_RESOURCE_NFT_ABI, BookingStatus, ResourceCategory } from './generated/CampusResourceNFT';
+
+// ==================== Deployments ====================
+/**
+ * Deployment recorded by scripts/deploy.js in deployments/registry.json
+ * 
+ * @property blockNumber - Block the contract was deployed in
+ * @property reservationStake - Default stake for new resources in wei (decimal string)
+ * @property abiHash - keccak256 of the deployed contract's ABI JSON
+ * @property governorAddress - CampusResourceGovernor, absent for deployments that predate it
+ */
+export interface DeploymentRecord {
+  network: string;
+  chainId: number;
+  contractAddress: Address;
+  forwarderAddress: Address;
+  governorAddress?: Address;
+  deployer: Address;
+  blockNumber: number;
+  reservationStake: string;
+  metadataURI: string;
+  abiHash: Hex;
+  timestamp: string;
+}
+
+/**
+ * Registry entries keyed by chain ID
+ */
+export const DEPLOYMENTS = deploymentRegistry as Record<string, DeploymentRecord>;
+
+/**
+ * Get the registry entry for a chain
+ */
+export const getDeployment = (chainId: number): DeploymentRecord | undefined => {
+  return DEPLOYMENTS[String(chainId)];
+};
+
+/**
+ * Registry entries deployed from a different CampusResourceNFT ABI than the
+ * one generated into this build (their abiHash does not match)
+ */
+export const getOutdatedDeployments = (): DeploymentRecord[] => {
+  return Object.values(DEPLOYMENTS).filter(
+    (deployment) => deployment.abiHash?.toLowerCase() !== CAMPUS_RESOURCE_NFT_ABI_HASH.toLowerCase()
+  );
+};
 
 // ==================== Contract Addresses ====================
 /**
  * Contract addresses for different networks
- * Update these after deployment
+ * An env var overrides the registry; chains with neither use the zero address
  */
 export const CONTRACT_ADDRESSES: Record<number, Address> = {
   // Hardhat local network
-  31337: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_LOCALHOST || '0x0000000000000000000000000000000000000000') as Address,
+  31337: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_LOCALHOST || getDeployment(31337)?.contractAddress || '0x0000000000000000000000000000000000000000') as Address,
   
   // Polygon Mainnet
-  137: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_POLYGON || '0x0000000000000000000000000000000000000000') as Address,
+  137: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_POLYGON || getDeployment(137)?.contractAddress || '0x0000000000000000000000000000000000000000') as Address,
   
   // Sepolia Testnet
-  11155111: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_SEPOLIA || '0x0000000000000000000000000000000000000000') as Address,
+  11155111: (process.env.NEXT_PUBLIC_CONTRACT_ADDRESS_SEPOLIA || getDeployment(11155111)?.contractAddress || '0x0000000000000000000000000000000000000000') as Address,
 };
 
-// ==================== TypeScript Types ====================
 /**
- * Resource categories enum matching the smart contract
+ * Registry entry the app talks to on a chain, if it was deployed from a
+ * different CampusResourceNFT ABI (calls to it can fail or decode wrongly)
+ * Addresses overridden from env are not described by the registry, so they
+ * are never flagged. Shown by OutdatedDeploymentBanner.
  */
-export enum ResourceCategory {
-  LAB = 0,
-  BOOK = 1,
-  INSTRUMENT = 2,
-  FACILITY = 3,
-  OTHER = 4
-}
+export const getOutdatedDeployment = (chainId: number): DeploymentRecord | undefined => {
+  const address = CONTRACT_ADDRESSES[chainId]?.toLowerCase();
+  return getOutdatedDeployments().find(
+    (deployment) => deployment.chainId === chainId && deployment.contractAddress?.toLowerCase() === address
+  );
+};
+
+/**
+ * Deploy block overrides from env, for contracts the registry does not describe
+ * (set alongside NEXT_PUBLIC_CONTRACT_ADDRESS_*)
+ */
+const DEPLOY_BLOCKS: Record<number, string | undefined> = {
+  31337: process.env.NEXT_PUBLIC_DEPLOY_BLOCK_LOCALHOST,
+  137: process.env.NEXT_PUBLIC_DEPLOY_BLOCK_POLYGON,
+  11155111: process.env.NEXT_PUBLIC_DEPLOY_BLOCK_SEPOLIA,
+};
+
+/**
+ * Chains short enough to scan from genesis when no deploy block is known
+ */
+const LOCAL_CHAIN_IDS = new Set([31337]);
 
+/**
+ * First block worth scanning for the contract's events on a chain
+ * An env override wins; otherwise the registry's deploy block is used when it
+ * describes the contract in CONTRACT_ADDRESSES. Only local chains fall back
+ * to genesis: scanning a public chain from block 0 would page through
+ * millions of blocks, so it throws instead.
+ */
+export const getDeployBlock = (chainId: number | undefined): bigint => {
+  if (chainId === undefined) {
+    throw new Error('Cannot find the deploy block without a chain');
+  }
+
+  const override = DEPLOY_BLOCKS[chainId];
+  if (override) {
+    if (!/^\d+$/.test(override)) {
+      throw new Error(`Deploy block for chain ${chainId} must be a block number, got "${override}"`);
+    }
+    return BigInt(override);
+  }
+
+  const deployment = getDeployment(chainId);
+  const address = CONTRACT_ADDRESSES[chainId];
+  if (deployment && address && deployment.contractAddress.toLowerCase() === address.toLowerCase()) {
+    return BigInt(deployment.blockNumber);
+  }
+
+  if (LOCAL_CHAIN_IDS.has(chainId)) {
+    return BigInt(0);
+  }
+  throw new Error(
+    `No deploy block known for the CampusResourceNFT contract on chain ${chainId}. ` +
+    'Deploy with scripts/deploy.js or set the NEXT_PUBLIC_DEPLOY_BLOCK_* variable for the network.'
+  );
+};
+
+// ==================== Access Control Roles ====================
+/**
+ * AccessControl role identifiers, matching CampusResourceNFT.sol
+ * DEFAULT_ADMIN_ROLE can grant/revoke roles; RESOURCE_MANAGER_ROLE can create, re-stake and retire resources
+ */
+export const DEFAULT_ADMIN_ROLE: Hex = zeroHash;
+export const RESOURCE_MANAGER_ROLE: Hex = keccak256(toBytes('RESOURCE_MANAGER_ROLE'));
+
+/**
+ * Roles that can be managed from the admin console, with display names
+ */
+export const MANAGED_ROLES = [
+  { role: RESOURCE_MANAGER_ROLE, name: 'Resource Manager' },
+  { role: DEFAULT_ADMIN_ROLE, name: 'Admin' },
+] as const;
+
+/**
+ * Get a display name for a role identifier
+ */
+export const getRoleName = (role: Hex): string => {
+  return MANAGED_ROLES.find((entry) => entry.role === role)?.name ?? `${role.slice(0, 10)}…`;
+};
+
+// ==================== TypeScript Types ====================
 /**
  * Resource data structure from the smart contract
  */
@@ -209,12 +181,16 @@ export interface Resource {
 
 /**
  * Extended resource with computed fields for UI
+ * description/location/image come from the off-chain ERC1155 metadata (see useResourceMetadata)
  */
 export interface ResourceWithId extends Resource {
   id: number;
   remainingTime?: number; // in seconds
   isExpired?: boolean;
   categoryName?: string;
+  description?: string;
+  location?: string;
+  image?: string;
 }
 
 /**
@@ -231,33 +207,80 @@ export interface UserReservation {
   isExpired: boolean;
 }
 
+/**
+ * Advance booking of a future time slot (from getBookings)
+ */
+export interface Booking {
+  bookingId: bigint;
+  booker: Address;
+  start: bigint;
+  end: bigint;
+  stakedAmount: bigint;
+  status: BookingStatus;
+}
+
+/**
+ * User waiting for a reserved resource (from getWaitlist)
+ */
+export interface WaitlistEntry {
+  user: Address;
+  duration: bigint;
+  stakedAmount: bigint;
+}
+
+/**
+ * Late-return penalty policy (from getPenaltyPolicy)
+ * A reservation released more than gracePeriod after reservationEnd loses
+ * penaltyBpsPerHour of its stake per started hour, capped at the stake
+ */
+export interface PenaltyPolicy {
+  gracePeriod: bigint;
+  penaltyBpsPerHour: bigint;
+  treasury: Address;
+}
+
 // ==================== Constants ====================
+/**
+ * Display names for each on-chain category
+ * Typed against the generated enum, so adding a category to the contract
+ * fails type-checking until it is named here.
+ */
+export const CATEGORY_NAMES = {
+  [ResourceCategory.LAB]: 'Lab',
+  [ResourceCategory.BOOK]: 'Book',
+  [ResourceCategory.INSTRUMENT]: 'Instrument',
+  [ResourceCategory.EQUIPMENT]: 'Equipment',
+  [ResourceCategory.SPACE]: 'Space'
+} as const satisfies Record<ResourceCategory, string>;
+
+/**
+ * Human-readable category name (e.g. 'Lab', 'Space')
+ */
+export type ResourceCategoryName = (typeof CATEGORY_NAMES)[ResourceCategory];
+
+/**
+ * Chakra color scheme for each on-chain category
+ */
+export const CATEGORY_COLORS: Record<ResourceCategory, string> = {
+  [ResourceCategory.LAB]: 'blue',
+  [ResourceCategory.BOOK]: 'green',
+  [ResourceCategory.INSTRUMENT]: 'purple',
+  [ResourceCategory.EQUIPMENT]: 'orange',
+  [ResourceCategory.SPACE]: 'teal'
+};
+
 /**
  * Get category name from enum value
  */
 export const getCategoryName = (category: ResourceCategory): string => {
-  const categoryNames: Record<ResourceCategory, string> = {
-    [ResourceCategory.LAB]: 'Lab',
-    [ResourceCategory.BOOK]: 'Book',
-    [ResourceCategory.INSTRUMENT]: 'Instrument',
-    [ResourceCategory.FACILITY]: 'Facility',
-    [ResourceCategory.OTHER]: 'Other'
-  };
-  return categoryNames[category] || 'Unknown';
+  return CATEGORY_NAMES[category] || 'Unknown';
 };
 
 /**
  * Get category color for UI
  */
 export const getCategoryColor = (category: ResourceCategory): string => {
-  const categoryColors: Record<ResourceCategory, string> = {
-    [ResourceCategory.LAB]: 'blue',
-    [ResourceCategory.BOOK]: 'green',
-    [ResourceCategory.INSTRUMENT]: 'purple',
-    [ResourceCategory.FACILITY]: 'orange',
-    [ResourceCategory.OTHER]: 'gray'
-  };
-  return categoryColors[category] || 'gray';
+  return CATEGORY_COLORS[category] || 'gray';
 };
 
 /**
@@ -275,6 +298,116 @@ export const formatRemainingTime = (seconds: number): string => {
   return `${minutes}m`;
 };
 
+/**
+ * Format a duration for display (e.g. "1 day", "2 days 4 hours", "90 minutes")
+ */
+export const formatDuration = (seconds: number): string => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const plural = (value: number, unit: string) => `${value} ${unit}${value === 1 ? '' : 's'}`;
+
+  const parts: string[] = [];
+  if (days > 0) parts.push(plural(days, 'day'));
+  if (hours > 0) parts.push(plural(hours, 'hour'));
+  if (days === 0 && minutes > 0) parts.push(plural(minutes, 'minute'));
+  return parts.length > 0 ? parts.join(' ') : '0 minutes';
+};
+
+/**
+ * Penalty a reservation would incur if released at `now`
+ * Mirrors CampusResourceNFT._latePenalty so the UI can project it in real time
+ * 
+ * @param stakedAmount - Reservation stake in wei
+ * @param reservationEnd - Reservation end (unix seconds)
+ * @param policy - Current penalty policy
+ * @param now - Release time (unix seconds)
+ * @returns Penalty in wei, capped at the stake
+ */
+export const calculateLatePenalty = (
+  stakedAmount: bigint,
+  reservationEnd: bigint,
+  policy: PenaltyPolicy,
+  now: number = Math.floor(Date.now() / 1000)
+): bigint => {
+  const penaltyStart = reservationEnd + policy.gracePeriod;
+  const current = BigInt(now);
+  if (current <= penaltyStart) {
+    return BigInt(0);
+  }
+
+  // Every started hour past the grace period counts
+  const hoursLate = (current - penaltyStart + BigInt(3599)) / BigInt(3600);
+  const penalty = (stakedAmount * policy.penaltyBpsPerHour * hoursLate) / BigInt(10000);
+  return penalty > stakedAmount ? stakedAmount : penalty;
+};
+
+/**
+ * Validate a requested booking start time
+ * @param start - Requested slot start (unix seconds)
+ * @param now - Current time (unix seconds)
+ * @returns Error message, or null if the start time is valid
+ */
+export const validateBookingStart = (start: number, now: number = Math.floor(Date.now() / 1000)): string | null => {
+  if (!Number.isFinite(start)) {
+    return 'Choose a start time';
+  }
+  if (start < now) {
+    return 'Start time cannot be in the past';
+  }
+  if (start > now + MAX_ADVANCE_BOOKING) {
+    return `Bookings can start at most ${formatDuration(MAX_ADVANCE_BOOKING)} ahead`;
+  }
+  return null;
+};
+
+/**
+ * Validate a requested reservation duration
+ * @param seconds - Requested duration in seconds
+ * @param maxDuration - Maximum allowed duration in seconds (from the contract)
+ * @returns Error message, or null if the duration is valid
+ */
+export const validateReservationDuration = (seconds: number, maxDuration: number): string | null => {
+  if (!Number.isFinite(seconds) || seconds <= 0) {
+    return 'Duration must be greater than zero';
+  }
+  if (!Number.isInteger(seconds)) {
+    return 'Duration must be a whole number of seconds';
+  }
+  if (seconds > maxDuration) {
+    return `Duration cannot exceed ${formatDuration(maxDuration)}`;
+  }
+  return null;
+};
+
+/**
+ * Time a live reservation can still be extended by
+ * The whole reservation (start to end) is capped at the maximum duration
+ * 
+ * @param reservationStart - Reservation start timestamp (seconds)
+ * @param reservationEnd - Reservation end timestamp (seconds)
+ * @param maxDuration - Maximum allowed duration in seconds
+ * @returns Seconds that can still be added (0 if none)
+ */
+export const getExtensionAllowance = (
+  reservationStart: bigint,
+  reservationEnd: bigint,
+  maxDuration: number
+): number => {
+  return Math.max(0, maxDuration - Number(reservationEnd - reservationStart));
+};
+
+/**
+ * Preset reservation durations offered in the duration picker (in seconds)
+ */
+export const RESERVATION_DURATION_PRESETS = [
+  { label: '1h', seconds: 3600 },
+  { label: '4h', seconds: 14400 },
+  { label: '1 day', seconds: 86400 },
+  { label: '3 days', seconds: 259200 },
+  { label: '7 days', seconds: 604800 }
+] as const;
+
 /**
  * Default reservation duration (1 day in seconds)
  */
@@ -284,3 +417,8 @@ export const DEFAULT_RESERVATION_DURATION = 86400; // 1 day
  * Maximum reservation duration (7 days in seconds)
  */
 export const MAX_RESERVATION_DURATION = 604800; // 7 days
+
+/**
+ * How far ahead a booking may start (30 days in seconds)
+ */
+export const MAX_ADVANCE_BOOKING = 2592000; // 30 days
@@ -0,0 +1,39 @@
+/**
+ * Server-side RPC Configuration
+ *
+ * Resolves the RPC endpoint that server code (the meta-transaction relayer and
+ * the off-chain ballot store) uses to talk to each chain. The browser keeps
+ * using the wagmi transports in config/wagmi.ts.
+ *
+ * Resolution order for a chain ID:
+ * 1. SERVER_RPC_URL_<chainId>
+ * 2. RELAYER_RPC_URL_<chainId>, the name used before the endpoints were shared
+ * 3. The chain's default public endpoint (http://127.0.0.1:8545 for Hardhat)
+ *
+ * Unknown chains without an env var have no endpoint.
+ */
+
+import { hardhat, polygon, sepolia } from 'viem/chains';
+import type { Chain } from 'viem';
+
+// ==================== Defaults ====================
+
+/**
+ * Chains with a default public endpoint
+ */
+const DEFAULT_RPC_CHAINS: Chain[] = [polygon, sepolia, hardhat];
+
+// ==================== Resolution ====================
+
+/**
+ * Resolve the RPC URL server code uses for a chain
+ * @param chainId - Chain ID
+ * @returns RPC URL, or undefined if the chain has none
+ */
+export const getServerRpcUrl = (chainId: number): string | undefined => {
+  return (
+    process.env[`SERVER_RPC_URL_${chainId}`] ||
+    process.env[`RELAYER_RPC_URL_${chainId}`] ||
+    DEFAULT_RPC_CHAINS.find((chain) => chain.id === chainId)?.rpcUrls.default.http[0]
+  );
+};
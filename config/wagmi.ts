@@ -19,10 +19,50 @@
  * Supported Chains:
  * - Polygon Mainnet (Chain ID: 137)
  * - Sepolia Testnet (Chain ID: 11155111)
+ * - Hardhat local node (Chain ID: 31337), when NEXT_PUBLIC_ENABLE_LOCAL_CHAIN=true
+ * 
+ * Environment:
+ * - NEXT_PUBLIC_POLYGON_RPC_URL / NEXT_PUBLIC_SEPOLIA_RPC_URL: optional RPC
+ *   overrides (default: the chain's public endpoint)
+ * - NEXT_PUBLIC_ENABLE_LOCAL_CHAIN: register the Hardhat chain (`npm run node`)
+ * - NEXT_PUBLIC_LOCAL_RPC_URL: local node RPC (default: http://127.0.0.1:8545)
  */
 
 import { http, createConfig, createStorage, cookieStorage } from 'wagmi';
-import { polygon, sepolia } from 'wagmi/chains';
+import { hardhat, polygon, sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
+
+// ==================== Chains ====================
+
+/**
+ * Whether the Hardhat local chain is registered
+ */
+export const LOCAL_CHAIN_ENABLED = process.env.NEXT_PUBLIC_ENABLE_LOCAL_CHAIN === 'true';
+
+/**
+ * Chains the app can connect to, in network switcher order
+ */
+export const SUPPORTED_CHAINS = (
+  LOCAL_CHAIN_ENABLED ? [polygon, sepolia, hardhat] : [polygon, sepolia]
+) as [Chain, ...Chain[]];
+
+/**
+ * Display name and badge color for each chain in the network switcher
+ */
+export const CHAIN_DISPLAY: Record<number, { name: string; color: string }> = {
+  [polygon.id]: { name: 'Polygon', color: 'purple' },
+  [sepolia.id]: { name: 'Sepolia Testnet', color: 'orange' },
+  [hardhat.id]: { name: 'Hardhat Local', color: 'yellow' },
+};
+
+/**
+ * RPC endpoint overrides from env (undefined uses the chain's default)
+ */
+const RPC_URLS: Record<number, string | undefined> = {
+  [polygon.id]: process.env.NEXT_PUBLIC_POLYGON_RPC_URL,
+  [sepolia.id]: process.env.NEXT_PUBLIC_SEPOLIA_RPC_URL,
+  [hardhat.id]: process.env.NEXT_PUBLIC_LOCAL_RPC_URL,
+};
 
 /**
  * Wagmi Configuration Object
@@ -38,21 +78,25 @@ import { polygon, sepolia } from 'wagmi/chains';
  * Chains Configuration:
  * - polygon: Production network for Polygon (MATIC)
  * - sepolia: Ethereum test network for development
+ * - hardhat: Local node for offline development (opt-in)
  * 
  * Transports:
  * - HTTP transport for each chain
- * - Uses public RPC endpoints (can be replaced with Alchemy/Infura)
+ * - Uses public RPC endpoints unless overridden from env (e.g. Alchemy/Infura)
+ * - Reads issued in the same tick are aggregated into one Multicall3 call;
+ *   calls that cannot be aggregated (or chains without Multicall3, like a bare
+ *   Hardhat node) share one JSON-RPC batch request instead
  * 
  * Storage:
  * - Cookie-based storage for SSR compatibility
  * - Persists wallet connection across page reloads
  */
 export const config = createConfig({
-  chains: [polygon, sepolia],
-  transports: {
-    [polygon.id]: http(), // Polygon RPC endpoint
-    [sepolia.id]: http(), // Sepolia RPC endpoint
-  },
+  chains: SUPPORTED_CHAINS,
+  transports: Object.fromEntries(
+    SUPPORTED_CHAINS.map((chain) => [chain.id, http(RPC_URLS[chain.id], { batch: true })])
+  ),
+  batch: { multicall: true }, // Aggregate per-card reads (stake, retirement, balances)
   ssr: true, // Enable server-side rendering support
   storage: createStorage({
     storage: cookieStorage, // Use cookies for persistence
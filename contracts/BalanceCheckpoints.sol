@@ -0,0 +1,72 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import "./CampusResourceNFT.sol";
+
+/**
+ * @title BalanceCheckpoints
+ * @author Campus Resources Team
+ * @notice Per-block checkpoints of each account's combined CampusResourceNFT balance
+ * @dev Linked library: its external functions run through DELEGATECALL on the
+ *      NFT's own storage, which keeps the NFT under the EIP-170 size limit.
+ *      CampusResourceNFT records every mint, burn and transfer here from its
+ *      ERC1155 _update hook; CampusResourceGovernor and off-chain ballots read the
+ *      snapshot weights back through CampusResourceNFT.getPastTotalBalance.
+ */
+library BalanceCheckpoints {
+    using Checkpoints for Checkpoints.Trace208;
+
+    /**
+     * @notice Checkpoints the combined balances of both sides of a mint, burn or transfer
+     * @dev A self-transfer writes the same total back
+     * @param totals Combined balance checkpoints by account
+     * @param from Sender (address(0) for mints)
+     * @param to Recipient (address(0) for burns)
+     * @param values Amounts moved, one per token ID
+     */
+    function record(
+        mapping(address => Checkpoints.Trace208) storage totals,
+        address from,
+        address to,
+        uint256[] memory values
+    ) external {
+        uint256 moved = 0;
+        for (uint256 i = 0; i < values.length; i++) {
+            moved += values[i];
+        }
+        if (from != address(0)) {
+            _push(totals[from], totals[from].latest() - moved);
+        }
+        if (to != address(0)) {
+            _push(totals[to], totals[to].latest() + moved);
+        }
+    }
+
+    /**
+     * @notice Gets an account's combined balance at the end of a past block
+     * @dev Reverts for the current block, whose balances can still change
+     * @param totals Combined balance checkpoints by account
+     * @param account Address to check
+     * @param blockNumber Block to read; must be before the current block
+     * @return Combined balance once blockNumber was mined
+     */
+    function pastTotal(
+        mapping(address => Checkpoints.Trace208) storage totals,
+        address account,
+        uint256 blockNumber
+    ) external view returns (uint256) {
+        if (blockNumber >= block.number) {
+            revert CampusResourceNFT.FutureLookup(blockNumber, block.number);
+        }
+        return totals[account].upperLookupRecent(SafeCast.toUint48(blockNumber));
+    }
+
+    /**
+     * @notice Checkpoints a combined balance at the current block
+     */
+    function _push(Checkpoints.Trace208 storage total, uint256 value) private {
+        total.push(SafeCast.toUint48(block.number), SafeCast.toUint208(value));
+    }
+}
@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/metatx/ERC2771Forwarder.sol";
+
+/**
+ * @title CampusResourceForwarder
+ * @author Campus Resources Team
+ * @notice EIP-2771 trusted forwarder for gasless CampusResourceNFT transactions
+ * @dev Thin deployment of OpenZeppelin's ERC2771Forwarder. Users sign an EIP-712
+ *      ForwardRequest and the relayer (app/api/relay) submits it through `execute`,
+ *      paying the gas. CampusResourceNFT must be deployed with this contract as its
+ *      trusted forwarder.
+ *
+ * EIP-712 domain: name "CampusResourceForwarder", version "1"
+ */
+contract CampusResourceForwarder is ERC2771Forwarder {
+    /// @notice EIP-712 domain name used when signing ForwardRequests
+    string public constant DOMAIN_NAME = "CampusResourceForwarder";
+
+    constructor() ERC2771Forwarder(DOMAIN_NAME) {}
+}
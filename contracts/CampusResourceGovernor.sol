@@ -0,0 +1,416 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./CampusResourceNFT.sol";
+
+/**
+ * @title CampusResourceGovernor
+ * @author Campus Resources Team
+ * @notice Token-holder governance for CampusResourceNFT resource allocation
+ * @dev Holders of CampusResourceNFT tokens propose adding a resource, changing a
+ *      resource's stake or retiring a resource, and vote with a weight equal to
+ *      their combined ERC1155 balance across all resources. Proposals that pass
+ *      are executed through RESOURCE_MANAGER_ROLE, which must be granted to this
+ *      contract on CampusResourceNFT.
+ *
+ * Votes are weighted by the voter's combined balance at the proposal's snapshot
+ * block (the block before it was created), read from CampusResourceNFT's balance
+ * checkpoints, so tokens moved to another wallet during a vote are not counted
+ * again. Off-chain signed ballots (utils/offchainVoting.ts) use the same weight.
+ */
+contract CampusResourceGovernor {
+
+    /**
+     * @notice Change a proposal makes to CampusResourceNFT when executed
+     */
+    enum ProposalAction {
+        ADD_RESOURCE,      // createResource
+        CHANGE_STAKE,      // setStake
+        RETIRE_RESOURCE    // retireResource
+    }
+
+    /**
+     * @notice Lifecycle of a proposal
+     */
+    enum ProposalState {
+        ACTIVE,            // Voting is open
+        PASSED,            // Voting closed with quorum and a majority for; awaiting execution
+        REJECTED,          // Voting closed without quorum or without a majority for
+        EXECUTED           // Passed and applied to CampusResourceNFT
+    }
+
+    /**
+     * @notice Proposal and its running tally
+     * @dev Fields not used by the action are left zero
+     */
+    struct Proposal {
+        uint256 proposalId;                          // Index in the proposal list
+        address proposer;                            // Token holder who created the proposal
+        ProposalAction action;                       // Change applied on execution
+        uint256 resourceId;                          // Target resource; the new ID once an ADD_RESOURCE executes
+        string name;                                 // ADD_RESOURCE: resource name
+        CampusResourceNFT.ResourceCategory category; // ADD_RESOURCE: resource category
+        uint256 initialSupply;                       // ADD_RESOURCE: tokens minted to recipient
+        address recipient;                           // ADD_RESOURCE: receiver of the initial supply
+        uint256 stake;                               // ADD_RESOURCE / CHANGE_STAKE: stake in wei
+        string description;                          // Rationale shown to voters
+        uint256 voteEnd;                             // Timestamp when voting closes
+        uint256 snapshotBlock;                       // Block whose balances weight every vote
+        uint256 forVotes;                            // Voting weight in favour
+        uint256 againstVotes;                        // Voting weight against
+        bool executed;                               // Whether the proposal has been applied
+    }
+
+    /// @notice Resource contract governed by token holders
+    CampusResourceNFT public immutable resourceToken;
+
+    /// @notice How long each proposal is open for voting, in seconds
+    uint256 public immutable votingPeriod;
+
+    /// @notice Minimum total voting weight (for + against) a proposal needs to pass
+    uint256 public immutable quorum;
+
+    /// @notice Every proposal ever created, indexed by proposal ID
+    Proposal[] private _proposals;
+
+    /// @notice Whether an account has voted on a proposal
+    mapping(uint256 => mapping(address => bool)) public hasVoted;
+
+    /*//////////////////////////////////////////////////////////////
+                                 EVENTS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Emitted when a proposal is created
+     * @param proposalId The ID of the proposal
+     * @param proposer Token holder who created it
+     * @param action Change applied on execution
+     * @param resourceId Target resource (0 for ADD_RESOURCE)
+     * @param voteEnd Timestamp when voting closes
+     */
+    event ProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        ProposalAction action,
+        uint256 resourceId,
+        uint256 voteEnd
+    );
+
+    /**
+     * @notice Emitted when a token holder votes
+     * @param proposalId The ID of the proposal
+     * @param voter Address that voted
+     * @param support Whether the vote is in favour
+     * @param weight Voting weight counted
+     */
+    event VoteCast(
+        uint256 indexed proposalId,
+        address indexed voter,
+        bool support,
+        uint256 weight
+    );
+
+    /**
+     * @notice Emitted when a passed proposal is applied to CampusResourceNFT
+     * @param proposalId The ID of the proposal
+     * @param resourceId Resource created or changed
+     */
+    event ProposalExecuted(uint256 indexed proposalId, uint256 indexed resourceId);
+
+    /*//////////////////////////////////////////////////////////////
+                                 ERRORS
+    //////////////////////////////////////////////////////////////*/
+
+    /// @notice Thrown when an account without resource tokens proposes or votes
+    error NoVotingPower(address account);
+
+    /// @notice Thrown when referencing a proposal that does not exist
+    error ProposalDoesNotExist(uint256 proposalId);
+
+    /// @notice Thrown when a proposal is not in the state an action requires
+    error InvalidProposalState(uint256 proposalId, ProposalState current, ProposalState required);
+
+    /// @notice Thrown when an account votes twice on a proposal
+    error AlreadyVoted(uint256 proposalId, address voter);
+
+    /// @notice Thrown when proposal parameters could never be executed
+    error InvalidProposal();
+
+    /*//////////////////////////////////////////////////////////////
+                              CONSTRUCTOR
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Initializes the governor
+     * @param token CampusResourceNFT whose holders vote
+     * @param votingPeriod_ Voting period per proposal, in seconds
+     * @param quorum_ Minimum total voting weight a proposal needs to pass
+     */
+    constructor(CampusResourceNFT token, uint256 votingPeriod_, uint256 quorum_) {
+        require(address(token) != address(0), "Invalid token address");
+        require(votingPeriod_ > 0, "Voting period must be greater than zero");
+        require(quorum_ > 0, "Quorum must be greater than zero");
+
+        resourceToken = token;
+        votingPeriod = votingPeriod_;
+        quorum = quorum_;
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              PROPOSALS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Proposes creating a new resource
+     * @param name Name of the resource
+     * @param category Category of the resource
+     * @param initialSupply Tokens to mint to recipient
+     * @param recipient Address to receive the initial supply
+     * @param stake Stake required to reserve the resource (in wei); 0 uses the default stake
+     * @param description Rationale shown to voters
+     * @return proposalId The ID of the new proposal
+     */
+    function proposeAddResource(
+        string calldata name,
+        CampusResourceNFT.ResourceCategory category,
+        uint256 initialSupply,
+        address recipient,
+        uint256 stake,
+        string calldata description
+    ) external returns (uint256 proposalId) {
+        if (bytes(name).length == 0 || initialSupply == 0 || recipient == address(0)) {
+            revert InvalidProposal();
+        }
+
+        Proposal storage proposal = _propose(ProposalAction.ADD_RESOURCE, 0, description);
+        proposal.name = name;
+        proposal.category = category;
+        proposal.initialSupply = initialSupply;
+        proposal.recipient = recipient;
+        proposal.stake = stake;
+
+        return proposal.proposalId;
+    }
+
+    /**
+     * @notice Proposes changing the stake required to reserve or book a resource
+     * @param resourceId The ID of the resource
+     * @param stake New stake amount (in wei)
+     * @param description Rationale shown to voters
+     * @return proposalId The ID of the new proposal
+     */
+    function proposeStakeChange(uint256 resourceId, uint256 stake, string calldata description)
+        external
+        returns (uint256 proposalId)
+    {
+        if (stake == 0) {
+            revert InvalidProposal();
+        }
+
+        // Reverts with ResourceDoesNotExist for unknown resources
+        resourceToken.getResource(resourceId);
+
+        Proposal storage proposal = _propose(ProposalAction.CHANGE_STAKE, resourceId, description);
+        proposal.stake = stake;
+
+        return proposal.proposalId;
+    }
+
+    /**
+     * @notice Proposes retiring a resource
+     * @param resourceId The ID of the resource
+     * @param description Rationale shown to voters
+     * @return proposalId The ID of the new proposal
+     */
+    function proposeRetirement(uint256 resourceId, string calldata description)
+        external
+        returns (uint256 proposalId)
+    {
+        // Reverts with ResourceDoesNotExist for unknown resources
+        resourceToken.getResource(resourceId);
+        if (resourceToken.isRetired(resourceId)) {
+            revert InvalidProposal();
+        }
+
+        return _propose(ProposalAction.RETIRE_RESOURCE, resourceId, description).proposalId;
+    }
+
+    /**
+     * @notice Internal function that opens a proposal for voting
+     * @param action Change applied on execution
+     * @param resourceId Target resource (0 for ADD_RESOURCE)
+     * @param description Rationale shown to voters
+     * @return proposal Storage pointer for the caller to fill in action parameters
+     */
+    function _propose(ProposalAction action, uint256 resourceId, string calldata description)
+        internal
+        returns (Proposal storage proposal)
+    {
+        if (votingWeight(msg.sender) == 0) {
+            revert NoVotingPower(msg.sender);
+        }
+
+        uint256 proposalId = _proposals.length;
+        proposal = _proposals.push();
+        proposal.proposalId = proposalId;
+        proposal.proposer = msg.sender;
+        proposal.action = action;
+        proposal.resourceId = resourceId;
+        proposal.description = description;
+        proposal.voteEnd = block.timestamp + votingPeriod;
+        // Balances in the creation block can still change, so weights are fixed one block earlier
+        proposal.snapshotBlock = block.number - 1;
+
+        emit ProposalCreated(proposalId, msg.sender, action, resourceId, proposal.voteEnd);
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                           VOTING & EXECUTION
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Votes on an active proposal with the caller's voting weight at its snapshot block
+     * @param proposalId The ID of the proposal
+     * @param support Whether to vote in favour
+     */
+    function castVote(uint256 proposalId, bool support) external {
+        _requireState(proposalId, ProposalState.ACTIVE);
+
+        if (hasVoted[proposalId][msg.sender]) {
+            revert AlreadyVoted(proposalId, msg.sender);
+        }
+
+        Proposal storage proposal = _proposals[proposalId];
+        uint256 weight = votingWeightAt(msg.sender, proposal.snapshotBlock);
+        if (weight == 0) {
+            revert NoVotingPower(msg.sender);
+        }
+
+        hasVoted[proposalId][msg.sender] = true;
+
+        if (support) {
+            proposal.forVotes += weight;
+        } else {
+            proposal.againstVotes += weight;
+        }
+
+        emit VoteCast(proposalId, msg.sender, support, weight);
+    }
+
+    /**
+     * @notice Applies a passed proposal to CampusResourceNFT
+     * @dev Callable by anyone once voting has closed. Requires this contract to hold
+     *      RESOURCE_MANAGER_ROLE; CampusResourceNFT errors bubble up unchanged.
+     * @param proposalId The ID of the proposal
+     */
+    function execute(uint256 proposalId) external {
+        _requireState(proposalId, ProposalState.PASSED);
+
+        Proposal storage proposal = _proposals[proposalId];
+        proposal.executed = true;
+
+        if (proposal.action == ProposalAction.ADD_RESOURCE) {
+            proposal.resourceId = resourceToken.createResource(
+                proposal.name,
+                proposal.category,
+                proposal.initialSupply,
+                proposal.recipient,
+                proposal.stake
+            );
+        } else if (proposal.action == ProposalAction.CHANGE_STAKE) {
+            resourceToken.setStake(proposal.resourceId, proposal.stake);
+        } else {
+            resourceToken.retireResource(proposal.resourceId);
+        }
+
+        emit ProposalExecuted(proposalId, proposal.resourceId);
+    }
+
+    /**
+     * @notice Internal function that reverts unless a proposal is in the required state
+     * @param proposalId The ID of the proposal
+     * @param required State the action requires
+     */
+    function _requireState(uint256 proposalId, ProposalState required) internal view {
+        ProposalState current = state(proposalId);
+        if (current != required) {
+            revert InvalidProposalState(proposalId, current, required);
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                            VIEW FUNCTIONS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Gets the current state of a proposal
+     * @dev A proposal passes if at least `quorum` weight voted and more voted for than against
+     * @param proposalId The ID of the proposal
+     * @return Current ProposalState
+     */
+    function state(uint256 proposalId) public view returns (ProposalState) {
+        if (proposalId >= _proposals.length) {
+            revert ProposalDoesNotExist(proposalId);
+        }
+
+        Proposal storage proposal = _proposals[proposalId];
+        if (proposal.executed) {
+            return ProposalState.EXECUTED;
+        }
+        if (block.timestamp < proposal.voteEnd) {
+            return ProposalState.ACTIVE;
+        }
+        if (proposal.forVotes + proposal.againstVotes >= quorum && proposal.forVotes > proposal.againstVotes) {
+            return ProposalState.PASSED;
+        }
+        return ProposalState.REJECTED;
+    }
+
+    /**
+     * @notice Gets an account's current voting weight: its balance summed over every resource token
+     * @dev Proposing requires a non-zero current weight; votes use votingWeightAt the snapshot block
+     * @param account Address to check
+     * @return Voting weight
+     */
+    function votingWeight(address account) public view returns (uint256) {
+        return resourceToken.totalBalanceOf(account);
+    }
+
+    /**
+     * @notice Gets an account's voting weight at the end of a past block
+     * @param account Address to check
+     * @param blockNumber Block to read, e.g. a proposal's snapshotBlock
+     * @return Voting weight at that block
+     */
+    function votingWeightAt(address account, uint256 blockNumber) public view returns (uint256) {
+        return resourceToken.getPastTotalBalance(account, blockNumber);
+    }
+
+    /**
+     * @notice Gets a proposal
+     * @param proposalId The ID of the proposal
+     * @return Proposal struct
+     */
+    function getProposal(uint256 proposalId) external view returns (Proposal memory) {
+        if (proposalId >= _proposals.length) {
+            revert ProposalDoesNotExist(proposalId);
+        }
+        return _proposals[proposalId];
+    }
+
+    /**
+     * @notice Gets every proposal, oldest first
+     * @return Array of Proposal structs
+     */
+    function getProposals() external view returns (Proposal[] memory) {
+        return _proposals;
+    }
+
+    /**
+     * @notice Gets the total number of proposals
+     * @return Number of proposals created
+     */
+    function proposalCount() external view returns (uint256) {
+        return _proposals.length;
+    }
+}
@@ -5,6 +5,9 @@ import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import "./BalanceCheckpoints.sol";
+import "./ResourceSchedule.sol";
 
 /**
  * @title CampusResourceNFT
@@ -15,21 +18,48 @@ import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
  * Features:
  * - Each resource is a unique token ID with metadata
  * - One active reservation per resource at a time
- * - Staking mechanism for reservations
+ * - Staking mechanism for reservations, with a stake amount per resource
+ * - Pre-deposited (and sponsorable) stake balances for gasless reservations
+ * - Advance bookings of future time slots with overlap detection
+ * - Staked waitlists that hand a released resource to the next user in line
+ * - Reservation handovers between wallets, which managers can disable per resource
+ * - Public sweeping of expired reservations, with a keeper reward
+ * - Late-return penalties slashed from the stake into a treasury
  * - Gasless transactions via EIP-2771
  * - Role-based access control for resource management
+ * - Resource retirement, e.g. by a CampusResourceGovernor holding RESOURCE_MANAGER_ROLE
+ * - Per-block checkpoints of each account's combined token balance, for snapshot voting
+ *
+ * Booking/waitlist bookkeeping (ResourceSchedule) and balance checkpointing
+ * (BalanceCheckpoints) live in linked libraries to stay under the EIP-170 size limit.
  */
 contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, ReentrancyGuard {
+    using Checkpoints for Checkpoints.Trace208;
     
     /// @notice Role identifier for resource managers
     bytes32 public constant RESOURCE_MANAGER_ROLE = keccak256("RESOURCE_MANAGER_ROLE");
     
-    /// @notice Minimum stake required to reserve a resource (in wei)
+    /// @notice Default stake for resources created without their own stake amount (in wei)
     uint256 public immutable RESERVATION_STAKE;
     
     /// @notice Maximum reservation duration in seconds (default: 7 days)
     uint256 public constant MAX_RESERVATION_DURATION = 7 days;
     
+    /// @notice How far ahead a booking may start, in seconds (default: 30 days)
+    uint256 public constant MAX_ADVANCE_BOOKING = 30 days;
+    
+    /// @notice Share of an expired reservation's stake paid to whoever sweeps it, in basis points (5%)
+    uint256 public constant KEEPER_REWARD_BPS = 500;
+    
+    /// @notice Upper bound for PenaltyPolicy.penaltyBpsPerHour (100% of the stake per hour)
+    uint256 public constant MAX_PENALTY_BPS_PER_HOUR = 10_000;
+    
+    /// @notice Maximum number of users waiting for one resource
+    uint256 public constant MAX_WAITLIST_LENGTH = 10;
+    
+    /// @notice Maximum number of active bookings that have not ended yet, per resource
+    uint256 public constant MAX_OPEN_BOOKINGS = 20;
+    
     /**
      * @notice Resource category enumeration
      * @dev Categories help organize and filter resources
@@ -57,15 +87,103 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         bool exists;                    // Flag to check if resource exists
     }
     
+    /**
+     * @notice Lifecycle of an advance booking
+     */
+    enum BookingStatus {
+        ACTIVE,        // Slot is held and stake is locked
+        CANCELLED,     // Booker cancelled; stake returned
+        CHECKED_IN     // Booker checked in; booking became the live reservation
+    }
+    
+    /**
+     * @notice Advance booking of a future time slot
+     * @dev Booking IDs are indexes into the resource's booking list
+     */
+    struct Booking {
+        uint256 bookingId;              // Index within the resource's bookings
+        address booker;                 // Address that booked the slot
+        uint256 start;                  // Slot start timestamp
+        uint256 end;                    // Slot end timestamp
+        uint256 stakedAmount;           // Stake locked for the booking
+        BookingStatus status;           // Current booking status
+    }
+    
+    /**
+     * @notice User waiting for a reserved resource
+     * @dev The stake is locked on joining and becomes the reservation stake when promoted
+     */
+    struct WaitlistEntry {
+        address user;                   // Address waiting for the resource
+        uint256 duration;               // Reservation length requested, in seconds
+        uint256 stakedAmount;           // Stake locked while waiting
+    }
+    
+    /**
+     * @notice Reservation handover offered by the current reserver
+     * @dev Tied to one reservation by its start time, so an offer goes stale once that reservation ends
+     */
+    struct TransferOffer {
+        address from;                   // Reserver offering the handover
+        address to;                     // Wallet that may accept it
+        uint256 reservationStart;       // Start of the reservation being handed over
+    }
+    
+    /**
+     * @notice Late-return penalty policy
+     * @dev A reservation released more than gracePeriod after reservationEnd loses
+     *      penaltyBpsPerHour of its stake for every started hour past the grace period,
+     *      capped at the full stake. Penalties are credited to treasury's stakeBalance.
+     */
+    struct PenaltyPolicy {
+        uint256 gracePeriod;            // Seconds after reservationEnd before penalties start
+        uint256 penaltyBpsPerHour;      // Stake share slashed per started hour, in basis points
+        address treasury;               // Account credited with slashed stake
+    }
+    
+    /// @notice Current late-return penalty policy
+    PenaltyPolicy public penaltyPolicy;
+    
     /// @notice Mapping from resource ID to Resource struct
     mapping(uint256 => Resource) public resources;
     
+    /// @notice Mapping from resource ID to the stake required to reserve or book it (in wei)
+    mapping(uint256 => uint256) private _resourceStakes;
+    
     /// @notice Mapping from user address to their staked amounts across all reservations
     mapping(address => uint256) public totalStakedByUser;
     
     /// @notice Mapping from resource ID to reservation history (for tracking)
     mapping(uint256 => address[]) public reservationHistory;
     
+    /// @notice Deposited stake available to each user for balance-funded reservations
+    mapping(address => uint256) public stakeBalance;
+    
+    /// @notice Whether the active reservation on a resource was funded from stakeBalance
+    mapping(uint256 => bool) private _stakedFromBalance;
+    
+    /// @notice Mapping from resource ID to every booking ever made for it
+    mapping(uint256 => Booking[]) private _bookings;
+    
+    /// @notice Mapping from resource ID to the IDs of bookings that may still block a slot
+    /// @dev Bounded by MAX_OPEN_BOOKINGS; cancelled, checked-in and ended bookings are pruned on each new booking
+    mapping(uint256 => uint256[]) private _openBookingIds;
+    
+    /// @notice Mapping from resource ID to its waitlist, first in line first
+    mapping(uint256 => WaitlistEntry[]) private _waitlists;
+    
+    /// @notice Mapping from resource ID to the handover offered for its live reservation
+    mapping(uint256 => TransferOffer) private _transferOffers;
+    
+    /// @notice Resources whose managers have disabled reservation handovers
+    mapping(uint256 => bool) private _transfersDisabled;
+    
+    /// @notice Resources retired from service; they can no longer be reserved, booked or waitlisted
+    mapping(uint256 => bool) public isRetired;
+    
+    /// @notice Mapping from account to its combined balance across all resources, checkpointed by block
+    mapping(address => Checkpoints.Trace208) private _totalBalanceCheckpoints;
+    
     /// @notice Counter for generating unique resource IDs
     uint256 private _resourceIdCounter;
     
@@ -99,6 +217,18 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         uint256 stakeReturned
     );
     
+    /**
+     * @notice Emitted when the current reserver extends a live reservation
+     * @param resourceId The ID of the resource
+     * @param reserver Address of the current reserver
+     * @param newReservationEnd Timestamp when the extended reservation expires
+     */
+    event ReservationExtended(
+        uint256 indexed resourceId,
+        address indexed reserver,
+        uint256 newReservationEnd
+    );
+    
     /**
      * @notice Emitted when a new resource is created
      * @param resourceId The ID of the newly created resource
@@ -111,16 +241,217 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         ResourceCategory category
     );
     
+    /**
+     * @notice Emitted when a resource's stake amount is set or changed
+     * @param resourceId The ID of the resource
+     * @param stake New stake required to reserve or book the resource (in wei)
+     */
+    event ResourceStakeUpdated(
+        uint256 indexed resourceId,
+        uint256 stake
+    );
+    
     /**
      * @notice Emitted when a reservation expires and is auto-released
      * @param resourceId The ID of the resource
      * @param previousReserver Address of the previous reserver
+     * @param stakeReturned Stake credited to the previous reserver's stakeBalance, after the keeper reward and any late penalty
+     * @param keeperReward Part of the stake paid to the keeper (0 unless swept via releaseExpired)
      */
     event ReservationExpired(
         uint256 indexed resourceId,
-        address indexed previousReserver
+        address indexed previousReserver,
+        uint256 stakeReturned,
+        uint256 keeperReward
+    );
+    
+    /**
+     * @notice Emitted when a keeper sweeps expired reservations via releaseExpired
+     * @param keeper Address credited with the reward
+     * @param releasedCount Number of reservations released
+     * @param reward Total reward credited to the keeper's stake balance (in wei)
+     */
+    event ExpiredReservationsSwept(
+        address indexed keeper,
+        uint256 releasedCount,
+        uint256 reward
+    );
+    
+    /**
+     * @notice Emitted when part of a late reservation's stake is slashed
+     * @param resourceId The ID of the resource
+     * @param reserver Address that held the reservation
+     * @param penalty Amount slashed (in wei)
+     * @param treasury Account credited with the penalty
+     */
+    event ReservationPenalized(
+        uint256 indexed resourceId,
+        address indexed reserver,
+        uint256 penalty,
+        address treasury
+    );
+    
+    /**
+     * @notice Emitted when the admin changes the late-return penalty policy
+     * @param gracePeriod Seconds after reservationEnd before penalties start
+     * @param penaltyBpsPerHour Stake share slashed per started hour, in basis points
+     * @param treasury Account credited with slashed stake
+     */
+    event PenaltyPolicyUpdated(
+        uint256 gracePeriod,
+        uint256 penaltyBpsPerHour,
+        address treasury
+    );
+    
+    /**
+     * @notice Emitted when stake is deposited into a user's balance
+     * @param account Address whose stake balance was credited
+     * @param sponsor Address that paid for the deposit (equals account for self-deposits)
+     * @param amount Amount deposited (in wei)
+     */
+    event StakeDeposited(
+        address indexed account,
+        address indexed sponsor,
+        uint256 amount
+    );
+    
+    /**
+     * @notice Emitted when a user withdraws from their stake balance
+     * @param account Address that withdrew
+     * @param amount Amount withdrawn (in wei)
+     */
+    event StakeWithdrawn(
+        address indexed account,
+        uint256 amount
+    );
+    
+    /**
+     * @notice Emitted when a future time slot is booked
+     * @param resourceId The ID of the booked resource
+     * @param bookingId The ID of the booking within the resource
+     * @param booker Address that booked the slot
+     * @param start Slot start timestamp
+     * @param end Slot end timestamp
+     * @param stakeAmount Amount staked for the booking
+     */
+    event BookingCreated(
+        uint256 indexed resourceId,
+        uint256 indexed bookingId,
+        address indexed booker,
+        uint256 start,
+        uint256 end,
+        uint256 stakeAmount
+    );
+    
+    /**
+     * @notice Emitted when a booking is cancelled
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the cancelled booking
+     * @param booker Address that held the booking
+     * @param stakeReturned Amount of stake returned to the booker
+     */
+    event BookingCancelled(
+        uint256 indexed resourceId,
+        uint256 indexed bookingId,
+        address indexed booker,
+        uint256 stakeReturned
+    );
+    
+    /**
+     * @notice Emitted when a booker checks in and the booking becomes the live reservation
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the booking
+     * @param booker Address that checked in
+     */
+    event BookingCheckedIn(
+        uint256 indexed resourceId,
+        uint256 indexed bookingId,
+        address indexed booker
+    );
+    
+    /**
+     * @notice Emitted when a user joins a resource's waitlist
+     * @param resourceId The ID of the resource
+     * @param user Address that joined
+     * @param position 1-based position in the queue
+     * @param duration Reservation length requested, in seconds
+     * @param stakeAmount Stake locked while waiting
+     */
+    event WaitlistJoined(
+        uint256 indexed resourceId,
+        address indexed user,
+        uint256 position,
+        uint256 duration,
+        uint256 stakeAmount
     );
     
+    /**
+     * @notice Emitted when a user leaves a waitlist, or is skipped because their slot is booked
+     * @param resourceId The ID of the resource
+     * @param user Address that left the queue
+     * @param stakeReturned Stake refunded (sent as ETH on leaving, credited to stakeBalance when skipped)
+     * @param skipped Whether the user was skipped during promotion rather than leaving
+     */
+    event WaitlistLeft(
+        uint256 indexed resourceId,
+        address indexed user,
+        uint256 stakeReturned,
+        bool skipped
+    );
+    
+    /**
+     * @notice Emitted when the first user in line is given a released resource
+     * @param resourceId The ID of the resource
+     * @param user Address that now holds the reservation
+     * @param reservationEnd Timestamp when the new reservation expires
+     */
+    event WaitlistPromoted(
+        uint256 indexed resourceId,
+        address indexed user,
+        uint256 reservationEnd
+    );
+    
+    /**
+     * @notice Emitted when a reserver offers (or withdraws, with to = 0) a handover
+     * @param resourceId The ID of the resource
+     * @param from Current reserver
+     * @param to Wallet that may accept, or address(0) when the offer is withdrawn
+     */
+    event ReservationTransferOffered(
+        uint256 indexed resourceId,
+        address indexed from,
+        address indexed to
+    );
+    
+    /**
+     * @notice Emitted when a handover is accepted and the reservation changes hands
+     * @param resourceId The ID of the resource
+     * @param from Previous reserver
+     * @param to New reserver
+     * @param stakeAmount Stake locked by the new reserver
+     * @param stakeReturned Stake refunded to the previous reserver (in full; handovers happen before the reservation ends)
+     */
+    event ReservationTransferred(
+        uint256 indexed resourceId,
+        address indexed from,
+        address indexed to,
+        uint256 stakeAmount,
+        uint256 stakeReturned
+    );
+    
+    /**
+     * @notice Emitted when a manager allows or disables handovers for a resource
+     * @param resourceId The ID of the resource
+     * @param allowed Whether reservations on the resource can be handed over
+     */
+    event TransferPolicyUpdated(uint256 indexed resourceId, bool allowed);
+    
+    /**
+     * @notice Emitted when a resource is retired from service
+     * @param resourceId The ID of the retired resource
+     */
+    event ResourceRetired(uint256 indexed resourceId);
+    
     /*//////////////////////////////////////////////////////////////
                                  ERRORS
     //////////////////////////////////////////////////////////////*/
@@ -140,9 +471,78 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
     /// @notice Thrown when attempting to interact with a non-existent resource
     error ResourceDoesNotExist(uint256 resourceId);
     
+    /// @notice Thrown when reserving, booking or waitlisting a retired resource
+    error ResourceIsRetired(uint256 resourceId);
+    
     /// @notice Thrown when reservation duration exceeds maximum allowed
     error ReservationDurationTooLong(uint256 requested, uint256 maximum);
     
+    /// @notice Thrown when reserving or joining a waitlist for zero seconds
+    error InvalidReservationDuration(uint256 duration);
+    
+    /// @notice Thrown when extending a reservation that has already expired
+    error ReservationAlreadyExpired(uint256 resourceId, uint256 reservationEnd);
+    
+    /// @notice Thrown when extending a reservation by zero seconds
+    error InvalidExtension(uint256 extraSeconds);
+    
+    /// @notice Thrown when reserving a resource that users are waiting for
+    error WaitlistNotEmpty(uint256 resourceId);
+    
+    /// @notice Thrown when a resource's waitlist already holds MAX_WAITLIST_LENGTH users
+    error WaitlistFull(uint256 resourceId);
+    
+    /// @notice Thrown when joining a waitlist the caller is already on (or holds the reservation)
+    error AlreadyOnWaitlist(uint256 resourceId, address user);
+    
+    /// @notice Thrown when leaving a waitlist the caller is not on
+    error NotOnWaitlist(uint256 resourceId, address user);
+    
+    /// @notice Thrown when handing over a reservation on a resource whose manager disabled transfers
+    error TransfersDisabled(uint256 resourceId);
+    
+    /// @notice Thrown when offering a handover to an invalid recipient
+    error InvalidTransferRecipient(address to);
+    
+    /// @notice Thrown when accepting a handover that was not offered to the caller or has gone stale
+    error NoTransferOffer(uint256 resourceId, address caller);
+    
+    /// @notice Thrown when a deposited stake balance cannot cover a reservation or withdrawal
+    error InsufficientStakeBalance(uint256 available, uint256 required);
+    
+    /// @notice Thrown when a booking window is empty or starts in the past
+    error InvalidBookingWindow(uint256 start, uint256 end);
+    
+    /// @notice Thrown when a booking starts later than MAX_ADVANCE_BOOKING from now
+    error BookingTooFarAhead(uint256 start, uint256 latestStart);
+    
+    /// @notice Thrown when a requested time slot overlaps an active booking
+    error SlotAlreadyBooked(uint256 resourceId, uint256 bookingId);
+    
+    /// @notice Thrown when a resource already has MAX_OPEN_BOOKINGS upcoming or ongoing bookings
+    error TooManyOpenBookings(uint256 resourceId);
+    
+    /// @notice Thrown when referencing a booking that does not exist
+    error BookingDoesNotExist(uint256 resourceId, uint256 bookingId);
+    
+    /// @notice Thrown when cancelling or checking in a booking that is no longer active
+    error BookingNotActive(uint256 resourceId, uint256 bookingId);
+    
+    /// @notice Thrown when someone other than the booker manages a booking
+    error NotBooker(uint256 resourceId, uint256 bookingId, address caller);
+    
+    /// @notice Thrown when checking in outside the booked time slot
+    error OutsideBookingWindow(uint256 start, uint256 end);
+    
+    /// @notice Thrown when returning or withdrawing stake to an account that rejects the ETH
+    error StakeTransferFailed(address to, uint256 amount);
+    
+    /// @notice Thrown when a penalty policy has a zero treasury or a rate above MAX_PENALTY_BPS_PER_HOUR
+    error InvalidPenaltyPolicy(uint256 penaltyBpsPerHour, address treasury);
+    
+    /// @notice Thrown when looking up a past balance for the current or a future block
+    error FutureLookup(uint256 blockNumber, uint256 currentBlock);
+    
     /*//////////////////////////////////////////////////////////////
                               CONSTRUCTOR
     //////////////////////////////////////////////////////////////*/
@@ -165,6 +565,9 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         // Grant admin and resource manager roles to deployer
         _grantRole(DEFAULT_ADMIN_ROLE, _msgSender());
         _grantRole(RESOURCE_MANAGER_ROLE, _msgSender());
+        
+        // Default penalty policy: 1 hour grace, then 10% of the stake per started hour
+        _setPenaltyPolicy(1 hours, 1_000, _msgSender());
     }
     
     /*//////////////////////////////////////////////////////////////
@@ -178,13 +581,15 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
      * @param category Category of the resource
      * @param initialSupply Initial supply of tokens to mint
      * @param recipient Address to receive the initial supply
+     * @param stake Stake required to reserve the resource (in wei); 0 uses RESERVATION_STAKE
      * @return resourceId The ID of the newly created resource
      */
     function createResource(
         string calldata name,
         ResourceCategory category,
         uint256 initialSupply,
-        address recipient
+        address recipient,
+        uint256 stake
     ) external onlyRole(RESOURCE_MANAGER_ROLE) returns (uint256 resourceId) {
         require(bytes(name).length > 0, "Name cannot be empty");
         require(initialSupply > 0, "Initial supply must be greater than zero");
@@ -206,6 +611,78 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         _mint(recipient, resourceId, initialSupply, "");
         
         emit ResourceCreated(resourceId, name, category);
+        
+        _setStake(resourceId, stake == 0 ? RESERVATION_STAKE : stake);
+    }
+    
+    /**
+     * @notice Changes the stake required to reserve or book a resource
+     * @dev Only callable by addresses with RESOURCE_MANAGER_ROLE.
+     *      Live reservations and existing bookings keep the stake they locked.
+     * @param resourceId The ID of the resource
+     * @param stake New stake amount (in wei)
+     */
+    function setStake(uint256 resourceId, uint256 stake) external onlyRole(RESOURCE_MANAGER_ROLE) {
+        if (!resources[resourceId].exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        _setStake(resourceId, stake);
+    }
+    
+    /**
+     * @notice Allows or disables reservation handovers on a resource
+     * @dev Only callable by RESOURCE_MANAGER_ROLE; handovers are allowed by default
+     * @param resourceId The ID of the resource
+     * @param allowed Whether reservations can be handed over
+     */
+    function setTransfersAllowed(uint256 resourceId, bool allowed) external onlyRole(RESOURCE_MANAGER_ROLE) {
+        if (!resources[resourceId].exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        
+        _transfersDisabled[resourceId] = !allowed;
+        
+        emit TransferPolicyUpdated(resourceId, allowed);
+    }
+    
+    /**
+     * @notice Retires a resource so it can no longer be reserved, booked or waitlisted
+     * @dev Only callable by RESOURCE_MANAGER_ROLE. Irreversible. The live reservation,
+     *      existing bookings and the waitlist play out, and stakes are returned as usual.
+     * @param resourceId The ID of the resource
+     */
+    function retireResource(uint256 resourceId) external onlyRole(RESOURCE_MANAGER_ROLE) {
+        _requireAvailable(resourceId);
+        
+        isRetired[resourceId] = true;
+        
+        emit ResourceRetired(resourceId);
+    }
+    
+    /**
+     * @notice Internal function to load a resource that is open for new reservations
+     * @param resourceId The ID of the resource
+     * @return resource Storage pointer to the resource
+     */
+    function _requireAvailable(uint256 resourceId) internal view returns (Resource storage resource) {
+        resource = resources[resourceId];
+        if (!resource.exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        if (isRetired[resourceId]) {
+            revert ResourceIsRetired(resourceId);
+        }
+    }
+    
+    /**
+     * @notice Internal function to store a resource's stake amount
+     */
+    function _setStake(uint256 resourceId, uint256 stake) internal {
+        require(stake > 0, "Stake must be greater than zero");
+        
+        _resourceStakes[resourceId] = stake;
+        
+        emit ResourceStakeUpdated(resourceId, stake);
     }
     
     /*//////////////////////////////////////////////////////////////
@@ -214,7 +691,7 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
     
     /**
      * @notice Reserves a resource by staking tokens
-     * @dev Requires exact RESERVATION_STAKE to be sent with transaction
+     * @dev Requires at least the resource's stake (getStake) to be sent with transaction
      * @dev Only one active reservation per resource at a time
      * @param resourceId The ID of the resource to reserve
      * @param duration Duration of the reservation in seconds (max 7 days)
@@ -224,20 +701,97 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         payable 
         nonReentrant 
     {
-        Resource storage resource = resources[resourceId];
+        uint256 required = _resourceStakes[resourceId];
+        if (msg.value < required) {
+            revert InsufficientStake(msg.value, required);
+        }
+        
+        _reserve(resourceId, duration, msg.value, false);
+    }
+    
+    /**
+     * @notice Reserves a resource using the caller's deposited stake balance
+     * @dev Sends no ETH, so it can be relayed through the trusted forwarder (gasless)
+     * @dev Deducts the resource's stake from stakeBalance; the stake is credited back on release
+     * @param resourceId The ID of the resource to reserve
+     * @param duration Duration of the reservation in seconds (max 7 days)
+     */
+    function reserveResourceFromBalance(uint256 resourceId, uint256 duration) 
+        external 
+        nonReentrant 
+    {
+        uint256 required = _resourceStakes[resourceId];
+        uint256 available = stakeBalance[_msgSender()];
+        if (available < required) {
+            revert InsufficientStakeBalance(available, required);
+        }
         
+        stakeBalance[_msgSender()] = available - required;
+        _reserve(resourceId, duration, required, true);
+    }
+    
+    /**
+     * @notice Internal reservation logic shared by both funding paths
+     * @param resourceId The ID of the resource to reserve
+     * @param duration Duration of the reservation in seconds
+     * @param stakeAmount Amount staked for the reservation
+     * @param fromBalance Whether the stake was taken from stakeBalance
+     */
+    function _reserve(
+        uint256 resourceId,
+        uint256 duration,
+        uint256 stakeAmount,
+        bool fromBalance
+    ) internal {
         // Validation checks
-        if (!resource.exists) {
-            revert ResourceDoesNotExist(resourceId);
+        _requireAvailable(resourceId);
+        _requireValidDuration(duration);
+        
+        // Users waiting in line get an expired reservation before walk-ins
+        if (_waitlists[resourceId].length > 0) {
+            revert WaitlistNotEmpty(resourceId);
         }
         
+        // Walk-in reservations must not run into someone's booked slot
+        _requireSlotFree(resourceId, block.timestamp, block.timestamp + duration);
+        
+        _startReservation(resourceId, _msgSender(), block.timestamp + duration, stakeAmount, fromBalance);
+        
+        // Update user's total staked amount
+        totalStakedByUser[_msgSender()] += stakeAmount;
+    }
+    
+    /**
+     * @notice Internal function that reverts unless a reservation length is between 1 second and MAX_RESERVATION_DURATION
+     * @param duration Requested reservation length, in seconds
+     */
+    function _requireValidDuration(uint256 duration) internal pure {
+        if (duration == 0) {
+            revert InvalidReservationDuration(duration);
+        }
         if (duration > MAX_RESERVATION_DURATION) {
             revert ReservationDurationTooLong(duration, MAX_RESERVATION_DURATION);
         }
-        
-        if (msg.value < RESERVATION_STAKE) {
-            revert InsufficientStake(msg.value, RESERVATION_STAKE);
-        }
+    }
+    
+    /**
+     * @notice Internal function that makes an account the live reserver of a resource
+     * @dev Shared by walk-in reservations, booking check-ins and waitlist promotions;
+     *      callers account for totalStakedByUser
+     * @param resourceId The ID of the resource to reserve
+     * @param reserver Address that will hold the reservation
+     * @param reservationEnd Timestamp when the reservation expires
+     * @param stakeAmount Amount staked for the reservation
+     * @param fromBalance Whether the stake was taken from stakeBalance
+     */
+    function _startReservation(
+        uint256 resourceId,
+        address reserver,
+        uint256 reservationEnd,
+        uint256 stakeAmount,
+        bool fromBalance
+    ) internal {
+        Resource storage resource = resources[resourceId];
         
         // Check if resource is currently reserved
         if (resource.isReserved && block.timestamp < resource.reservationEnd) {
@@ -246,28 +800,27 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         
         // If previous reservation expired, auto-release it first
         if (resource.isReserved && block.timestamp >= resource.reservationEnd) {
-            _autoReleaseExpiredReservation(resourceId);
+            _autoReleaseExpiredReservation(resourceId, 0);
         }
         
         // Update resource reservation state
         resource.isReserved = true;
-        resource.currentReserver = _msgSender();
+        resource.currentReserver = reserver;
         resource.reservationStart = block.timestamp;
-        resource.reservationEnd = block.timestamp + duration;
-        resource.stakedAmount = msg.value;
-        
-        // Update user's total staked amount
-        totalStakedByUser[_msgSender()] += msg.value;
+        resource.reservationEnd = reservationEnd;
+        resource.stakedAmount = stakeAmount;
+        _stakedFromBalance[resourceId] = fromBalance;
         
         // Record reservation in history
-        reservationHistory[resourceId].push(_msgSender());
+        reservationHistory[resourceId].push(reserver);
         
-        emit ResourceReserved(resourceId, _msgSender(), msg.value, resource.reservationEnd);
+        emit ResourceReserved(resourceId, reserver, stakeAmount, resource.reservationEnd);
     }
     
     /**
      * @notice Releases a reserved resource and returns the stake
-     * @dev Only the current reserver can call this function
+     * @dev Only the current reserver can call this function; the resource then
+     *      goes to the next user on its waitlist, if any
      * @param resourceId The ID of the resource to release
      */
     function releaseResource(uint256 resourceId) external nonReentrant {
@@ -289,6 +842,7 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         // Store values before resetting
         address reserver = resource.currentReserver;
         uint256 stakeToReturn = resource.stakedAmount;
+        uint256 penalty = _slashLateStake(resourceId, reserver, stakeToReturn);
         
         // Reset reservation state
         resource.isReserved = false;
@@ -300,38 +854,695 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         // Update user's total staked amount
         totalStakedByUser[reserver] -= stakeToReturn;
         
-        // Return stake to reserver
-        (bool success, ) = reserver.call{value: stakeToReturn}("");
-        require(success, "Stake refund failed");
+        // Return stake to reserver, minus any late penalty
+        _returnStake(resourceId, reserver, stakeToReturn - penalty);
+        
+        emit ResourceReleased(resourceId, reserver, stakeToReturn - penalty);
         
-        emit ResourceReleased(resourceId, reserver, stakeToReturn);
+        // Hand the resource to the next user in line
+        _promoteWaitlist(resourceId);
     }
     
     /**
-     * @notice Internal function to auto-release expired reservations
-     * @param resourceId The ID of the resource with expired reservation
+     * @notice Extends the caller's live reservation without releasing it
+     * @dev The whole reservation (reservationStart to the new end) is bounded by
+     *      MAX_RESERVATION_DURATION, and the added time must not run into a booked slot.
+     *      The stake already locked covers the extension.
+     * @param resourceId The ID of the reserved resource
+     * @param extraSeconds Seconds to add to the reservation end
      */
-    function _autoReleaseExpiredReservation(uint256 resourceId) internal {
-        Resource storage resource = resources[resourceId];
+    function extendReservation(uint256 resourceId, uint256 extraSeconds) external nonReentrant {
+        Resource storage resource = _requireLiveReservation(resourceId, _msgSender());
         
-        address previousReserver = resource.currentReserver;
-        uint256 stakeToReturn = resource.stakedAmount;
+        if (extraSeconds == 0) {
+            revert InvalidExtension(extraSeconds);
+        }
         
-        // Reset reservation state
-        resource.isReserved = false;
-        resource.currentReserver = address(0);
-        resource.reservationStart = 0;
-        resource.reservationEnd = 0;
-        resource.stakedAmount = 0;
+        uint256 newEnd = resource.reservationEnd + extraSeconds;
+        uint256 totalDuration = newEnd - resource.reservationStart;
+        if (totalDuration > MAX_RESERVATION_DURATION) {
+            revert ReservationDurationTooLong(totalDuration, MAX_RESERVATION_DURATION);
+        }
+        
+        _requireSlotFree(resourceId, resource.reservationEnd, newEnd);
+        
+        resource.reservationEnd = newEnd;
+        
+        emit ReservationExtended(resourceId, _msgSender(), newEnd);
+    }
+    
+    /**
+     * @notice Releases expired reservations so their resources show as available again
+     * @dev Callable by anyone. IDs that do not exist or are not expired are skipped, so a
+     *      keeper's batch does not revert when someone else released a resource first.
+     *      KEEPER_REWARD_BPS of each released stake is credited to the caller's stakeBalance;
+     *      the rest is credited to the expired reserver's stakeBalance. Resources with a waitlist go
+     *      straight to the next user in line.
+     * @param resourceIds IDs of the resources to check
+     * @return releasedCount Number of reservations released
+     */
+    function releaseExpired(uint256[] calldata resourceIds)
+        external
+        nonReentrant
+        returns (uint256 releasedCount)
+    {
+        uint256 totalReward;
+        
+        for (uint256 i = 0; i < resourceIds.length; i++) {
+            Resource storage resource = resources[resourceIds[i]];
+            if (!resource.exists || !resource.isReserved || block.timestamp < resource.reservationEnd) {
+                continue;
+            }
+            
+            uint256 reward = (resource.stakedAmount * KEEPER_REWARD_BPS) / 10_000;
+            _autoReleaseExpiredReservation(resourceIds[i], reward);
+            _promoteWaitlist(resourceIds[i]);
+            
+            totalReward += reward;
+            releasedCount++;
+        }
+        
+        if (releasedCount > 0) {
+            stakeBalance[_msgSender()] += totalReward;
+            emit ExpiredReservationsSwept(_msgSender(), releasedCount, totalReward);
+        }
+    }
+    
+    /**
+     * @notice Internal function to auto-release expired reservations
+     * @dev The remaining stake is credited to the previous reserver's stakeBalance rather
+     *      than sent: the caller is a keeper or the next reserver, and an account that
+     *      rejects ETH must not make their transaction revert
+     * @param resourceId The ID of the resource with expired reservation
+     * @param keeperReward Part of the stake withheld for the keeper (0 when the next reserver clears it)
+     */
+    function _autoReleaseExpiredReservation(uint256 resourceId, uint256 keeperReward) internal {
+        Resource storage resource = resources[resourceId];
+        
+        address previousReserver = resource.currentReserver;
+        uint256 stakeToReturn = resource.stakedAmount;
+        uint256 penalty = _slashLateStake(resourceId, previousReserver, stakeToReturn - keeperReward);
+        
+        // Reset reservation state
+        resource.isReserved = false;
+        resource.currentReserver = address(0);
+        resource.reservationStart = 0;
+        resource.reservationEnd = 0;
+        resource.stakedAmount = 0;
         
         // Update user's total staked amount
         totalStakedByUser[previousReserver] -= stakeToReturn;
         
-        // Return stake
-        (bool success, ) = previousReserver.call{value: stakeToReturn}("");
-        require(success, "Stake refund failed");
+        // Credit the stake, minus any keeper reward and late penalty, for withdrawStake
+        stakeToReturn -= keeperReward + penalty;
+        _stakedFromBalance[resourceId] = false;
+        stakeBalance[previousReserver] += stakeToReturn;
+        
+        emit ReservationExpired(resourceId, previousReserver, stakeToReturn, keeperReward);
+    }
+    
+    /**
+     * @notice Internal function that slashes the late penalty of the live reservation
+     * @dev Must run before the reservation state is reset; credits the treasury's stakeBalance
+     * @param resourceId The ID of the resource being released
+     * @param reserver Address that held the reservation
+     * @param maxPenalty Most that may be slashed (the stake left after any keeper reward)
+     * @return penalty Amount slashed
+     */
+    function _slashLateStake(uint256 resourceId, address reserver, uint256 maxPenalty)
+        internal
+        returns (uint256 penalty)
+    {
+        penalty = _latePenalty(resources[resourceId]);
+        if (penalty > maxPenalty) {
+            penalty = maxPenalty;
+        }
+        if (penalty == 0) {
+            return 0;
+        }
+        
+        stakeBalance[penaltyPolicy.treasury] += penalty;
+        
+        emit ReservationPenalized(resourceId, reserver, penalty, penaltyPolicy.treasury);
+    }
+    
+    /**
+     * @notice Internal function computing the late penalty owed if a reservation ended now
+     * @param resource The reserved resource
+     * @return Penalty in wei, capped at the staked amount
+     */
+    function _latePenalty(Resource storage resource) internal view returns (uint256) {
+        uint256 penaltyStart = resource.reservationEnd + penaltyPolicy.gracePeriod;
+        if (!resource.isReserved || block.timestamp <= penaltyStart) {
+            return 0;
+        }
+        
+        // Every started hour past the grace period counts
+        uint256 hoursLate = (block.timestamp - penaltyStart + 1 hours - 1) / 1 hours;
+        uint256 penalty = (resource.stakedAmount * penaltyPolicy.penaltyBpsPerHour * hoursLate) / 10_000;
+        
+        return penalty > resource.stakedAmount ? resource.stakedAmount : penalty;
+    }
+    
+    /**
+     * @notice Internal function to return a reservation's stake
+     * @dev Balance-funded stakes are credited back to stakeBalance; ETH stakes are sent to the reserver
+     * @param resourceId The ID of the resource whose reservation ended
+     * @param reserver Address that held the reservation
+     * @param amount Stake amount to return
+     */
+    function _returnStake(uint256 resourceId, address reserver, uint256 amount) internal {
+        if (_stakedFromBalance[resourceId]) {
+            _stakedFromBalance[resourceId] = false;
+            stakeBalance[reserver] += amount;
+            return;
+        }
+        
+        _sendStake(reserver, amount);
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                          ADVANCE BOOKING
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Books a future time slot on a resource by staking tokens
+     * @dev The slot may not overlap an active booking or the live reservation
+     * @param resourceId The ID of the resource to book
+     * @param start Slot start timestamp (not in the past, at most MAX_ADVANCE_BOOKING ahead)
+     * @param duration Slot length in seconds (max 7 days)
+     * @return bookingId The ID of the new booking
+     */
+    function bookResource(uint256 resourceId, uint256 start, uint256 duration)
+        external
+        payable
+        nonReentrant
+        returns (uint256 bookingId)
+    {
+        Resource storage resource = _requireAvailable(resourceId);
+        
+        if (msg.value < _resourceStakes[resourceId]) {
+            revert InsufficientStake(msg.value, _resourceStakes[resourceId]);
+        }
+        
+        if (duration == 0 || start < block.timestamp) {
+            revert InvalidBookingWindow(start, start + duration);
+        }
+        
+        if (duration > MAX_RESERVATION_DURATION) {
+            revert ReservationDurationTooLong(duration, MAX_RESERVATION_DURATION);
+        }
+        
+        if (start > block.timestamp + MAX_ADVANCE_BOOKING) {
+            revert BookingTooFarAhead(start, block.timestamp + MAX_ADVANCE_BOOKING);
+        }
+        
+        uint256 end = start + duration;
+        
+        // The live reservation still occupies the resource until it ends
+        if (resource.isReserved && start < resource.reservationEnd) {
+            revert ResourceAlreadyReserved(resourceId, resource.currentReserver);
+        }
+        
+        bookingId = ResourceSchedule.book(
+            _bookings[resourceId],
+            _openBookingIds[resourceId],
+            resourceId,
+            _msgSender(),
+            start,
+            end,
+            msg.value,
+            MAX_OPEN_BOOKINGS
+        );
+        
+        // Booked stake counts as staked until it is returned
+        totalStakedByUser[_msgSender()] += msg.value;
+        
+        emit BookingCreated(resourceId, bookingId, _msgSender(), start, end, msg.value);
+    }
+    
+    /**
+     * @notice Cancels an active booking and returns the stake
+     * @dev Only the booker can cancel; also used to recover the stake after a missed slot
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the booking to cancel
+     */
+    function cancelBooking(uint256 resourceId, uint256 bookingId) external nonReentrant {
+        Booking storage booking = _getActiveBooking(resourceId, bookingId);
+        
+        uint256 stakeToReturn = booking.stakedAmount;
+        booking.status = BookingStatus.CANCELLED;
+        
+        totalStakedByUser[booking.booker] -= stakeToReturn;
+        
+        _sendStake(booking.booker, stakeToReturn);
+        
+        emit BookingCancelled(resourceId, bookingId, booking.booker, stakeToReturn);
+    }
+    
+    /**
+     * @notice Checks in to a booking, turning it into the live reservation
+     * @dev Callable by the booker between the slot start and end; the reservation ends at the slot end
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the booking to check in to
+     */
+    function checkInBooking(uint256 resourceId, uint256 bookingId) external nonReentrant {
+        Booking storage booking = _getActiveBooking(resourceId, bookingId);
+        
+        if (block.timestamp < booking.start || block.timestamp >= booking.end) {
+            revert OutsideBookingWindow(booking.start, booking.end);
+        }
+        
+        booking.status = BookingStatus.CHECKED_IN;
+        
+        // Stake moves from the booking to the reservation; totalStakedByUser is unchanged
+        _startReservation(resourceId, _msgSender(), booking.end, booking.stakedAmount, false);
+        
+        emit BookingCheckedIn(resourceId, bookingId, _msgSender());
+    }
+    
+    /**
+     * @notice Internal function to load a booking the caller may manage
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the booking
+     * @return booking Storage pointer to the active booking
+     */
+    function _getActiveBooking(uint256 resourceId, uint256 bookingId)
+        internal
+        view
+        returns (Booking storage booking)
+    {
+        if (bookingId >= _bookings[resourceId].length) {
+            revert BookingDoesNotExist(resourceId, bookingId);
+        }
+        
+        booking = _bookings[resourceId][bookingId];
+        
+        if (booking.status != BookingStatus.ACTIVE) {
+            revert BookingNotActive(resourceId, bookingId);
+        }
+        
+        if (booking.booker != _msgSender()) {
+            revert NotBooker(resourceId, bookingId, _msgSender());
+        }
+    }
+    
+    /**
+     * @notice Internal function that reverts if [start, end) overlaps an active booking
+     * @param resourceId The ID of the resource
+     * @param start Window start timestamp
+     * @param end Window end timestamp
+     */
+    function _requireSlotFree(uint256 resourceId, uint256 start, uint256 end) internal view {
+        ResourceSchedule.requireSlotFree(_bookings[resourceId], _openBookingIds[resourceId], resourceId, start, end);
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                              WAITLIST
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Joins the waitlist of a reserved resource by staking
+     * @dev Requires at least the resource's stake (getStake). When the reservation is released
+     *      or swept, the first user in line becomes the reserver for the requested duration.
+     * @param resourceId The ID of the reserved resource
+     * @param duration Reservation length wanted once promoted, in seconds (max 7 days)
+     * @return position 1-based position in the queue
+     */
+    function joinWaitlist(uint256 resourceId, uint256 duration)
+        external
+        payable
+        nonReentrant
+        returns (uint256 position)
+    {
+        Resource storage resource = _requireAvailable(resourceId);
+        
+        // Free resources are reserved directly
+        if (!resource.isReserved) {
+            revert ResourceNotReserved(resourceId);
+        }
+        
+        _requireValidDuration(duration);
+        
+        uint256 required = _resourceStakes[resourceId];
+        if (msg.value < required) {
+            revert InsufficientStake(msg.value, required);
+        }
+        
+        WaitlistEntry[] storage waitlist = _waitlists[resourceId];
+        if (resource.currentReserver == _msgSender() || _waitlistIndex(resourceId, _msgSender()) < waitlist.length) {
+            revert AlreadyOnWaitlist(resourceId, _msgSender());
+        }
+        
+        if (waitlist.length >= MAX_WAITLIST_LENGTH) {
+            revert WaitlistFull(resourceId);
+        }
+        
+        waitlist.push(WaitlistEntry({
+            user: _msgSender(),
+            duration: duration,
+            stakedAmount: msg.value
+        }));
+        position = waitlist.length;
+        
+        // Waitlist stake counts as staked until it is returned
+        totalStakedByUser[_msgSender()] += msg.value;
+        
+        emit WaitlistJoined(resourceId, _msgSender(), position, duration, msg.value);
+    }
+    
+    /**
+     * @notice Leaves a waitlist and returns the stake
+     * @param resourceId The ID of the resource
+     */
+    function leaveWaitlist(uint256 resourceId) external nonReentrant {
+        uint256 index = _waitlistIndex(resourceId, _msgSender());
+        if (index >= _waitlists[resourceId].length) {
+            revert NotOnWaitlist(resourceId, _msgSender());
+        }
+        
+        WaitlistEntry memory entry = _removeWaitlistEntry(resourceId, index);
+        
+        totalStakedByUser[entry.user] -= entry.stakedAmount;
+        
+        _sendStake(entry.user, entry.stakedAmount);
+        
+        emit WaitlistLeft(resourceId, entry.user, entry.stakedAmount, false);
+    }
+    
+    /**
+     * @notice Internal function that gives a released resource to the first user in line
+     * @dev Users whose requested duration runs into a booked slot are skipped and their stake
+     *      is credited to stakeBalance, so one refund cannot block the release.
+     *      Stops at the first user who can be promoted.
+     * @param resourceId The ID of the resource that was just released
+     */
+    function _promoteWaitlist(uint256 resourceId) internal {
+        WaitlistEntry[] storage waitlist = _waitlists[resourceId];
+        
+        while (waitlist.length > 0) {
+            WaitlistEntry memory entry = _removeWaitlistEntry(resourceId, 0);
+            uint256 reservationEnd = block.timestamp + entry.duration;
+            
+            (bool overlaps, ) = ResourceSchedule.findOverlap(
+                _bookings[resourceId],
+                _openBookingIds[resourceId],
+                block.timestamp,
+                reservationEnd
+            );
+            if (overlaps) {
+                totalStakedByUser[entry.user] -= entry.stakedAmount;
+                stakeBalance[entry.user] += entry.stakedAmount;
+                emit WaitlistLeft(resourceId, entry.user, entry.stakedAmount, true);
+                continue;
+            }
+            
+            // Stake moves from the waitlist to the reservation; totalStakedByUser is unchanged
+            _startReservation(resourceId, entry.user, reservationEnd, entry.stakedAmount, false);
+            
+            emit WaitlistPromoted(resourceId, entry.user, reservationEnd);
+            return;
+        }
+    }
+    
+    /**
+     * @notice Internal function to find a user's index in a waitlist
+     * @param resourceId The ID of the resource
+     * @param user Address to look for
+     * @return Index of the user's entry, or the waitlist length if absent
+     */
+    function _waitlistIndex(uint256 resourceId, address user) internal view returns (uint256) {
+        return ResourceSchedule.indexOf(_waitlists[resourceId], user);
+    }
+    
+    /**
+     * @notice Internal function that removes a waitlist entry, keeping the queue order
+     * @param resourceId The ID of the resource
+     * @param index Index of the entry to remove
+     * @return entry The removed entry
+     */
+    function _removeWaitlistEntry(uint256 resourceId, uint256 index)
+        internal
+        returns (WaitlistEntry memory entry)
+    {
+        entry = ResourceSchedule.remove(_waitlists[resourceId], index);
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                         RESERVATION HANDOVER
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Offers the caller's live reservation to another wallet
+     * @dev The reservation only changes hands once the recipient accepts and stakes, so nobody
+     *      can be handed a reservation (and its late penalties) without agreeing to it.
+     *      A new offer replaces the previous one; pass address(0) to withdraw it.
+     * @param resourceId The ID of the reserved resource
+     * @param to Wallet that may accept the handover
+     */
+    function transferReservation(uint256 resourceId, address to) external nonReentrant {
+        Resource storage resource = _requireLiveReservation(resourceId, _msgSender());
+        
+        if (to == address(0)) {
+            delete _transferOffers[resourceId];
+            emit ReservationTransferOffered(resourceId, _msgSender(), address(0));
+            return;
+        }
+        
+        if (_transfersDisabled[resourceId]) {
+            revert TransfersDisabled(resourceId);
+        }
+        
+        if (to == _msgSender()) {
+            revert InvalidTransferRecipient(to);
+        }
+        
+        _transferOffers[resourceId] = TransferOffer({
+            from: _msgSender(),
+            to: to,
+            reservationStart: resource.reservationStart
+        });
+        
+        emit ReservationTransferOffered(resourceId, _msgSender(), to);
+    }
+    
+    /**
+     * @notice Accepts a handover offered to the caller
+     * @dev Requires at least the stake locked by the current reserver. The previous reserver's
+     *      stake is returned the way it was funded; the reservation keeps its start and end.
+     * @param resourceId The ID of the reserved resource
+     */
+    function acceptReservationTransfer(uint256 resourceId) external payable nonReentrant {
+        TransferOffer memory offer = _transferOffers[resourceId];
+        Resource storage resource = resources[resourceId];
+        
+        if (
+            offer.to == address(0) ||
+            offer.to != _msgSender() ||
+            !resource.isReserved ||
+            resource.currentReserver != offer.from ||
+            resource.reservationStart != offer.reservationStart
+        ) {
+            revert NoTransferOffer(resourceId, _msgSender());
+        }
+        
+        if (block.timestamp >= resource.reservationEnd) {
+            revert ReservationAlreadyExpired(resourceId, resource.reservationEnd);
+        }
+        
+        if (_transfersDisabled[resourceId]) {
+            revert TransfersDisabled(resourceId);
+        }
+        
+        if (msg.value < resource.stakedAmount) {
+            revert InsufficientStake(msg.value, resource.stakedAmount);
+        }
+        
+        // A waiting user taking over would otherwise be promoted to their own reservation
+        if (_waitlistIndex(resourceId, _msgSender()) < _waitlists[resourceId].length) {
+            revert AlreadyOnWaitlist(resourceId, _msgSender());
+        }
+        
+        delete _transferOffers[resourceId];
+        
+        // Settle: the recipient's stake is locked, the previous reserver gets theirs back
+        uint256 previousStake = resource.stakedAmount;
+        resource.currentReserver = _msgSender();
+        resource.stakedAmount = msg.value;
+        totalStakedByUser[offer.from] -= previousStake;
+        totalStakedByUser[_msgSender()] += msg.value;
+        reservationHistory[resourceId].push(_msgSender());
+        
+        // Returned the way it was funded; the new stake was sent in ETH
+        _returnStake(resourceId, offer.from, previousStake);
+        
+        emit ReservationTransferred(resourceId, offer.from, _msgSender(), msg.value, previousStake);
+    }
+    
+    /**
+     * @notice Internal function to load a live reservation held by an account
+     * @param resourceId The ID of the resource
+     * @param reserver Address that must hold the reservation
+     * @return resource Storage pointer to the reserved resource
+     */
+    function _requireLiveReservation(uint256 resourceId, address reserver)
+        internal
+        view
+        returns (Resource storage resource)
+    {
+        resource = resources[resourceId];
+        
+        if (!resource.exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        
+        if (!resource.isReserved) {
+            revert ResourceNotReserved(resourceId);
+        }
+        
+        if (resource.currentReserver != reserver) {
+            revert NotResourceReserver(resourceId, reserver);
+        }
+        
+        if (block.timestamp >= resource.reservationEnd) {
+            revert ReservationAlreadyExpired(resourceId, resource.reservationEnd);
+        }
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                          PENALTY POLICY
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Updates the late-return penalty policy
+     * @dev Only callable by DEFAULT_ADMIN_ROLE; applies to reservations released after the change
+     * @param gracePeriod Seconds after reservationEnd before penalties start
+     * @param penaltyBpsPerHour Stake share slashed per started hour (0 disables penalties)
+     * @param treasury Account credited with slashed stake
+     */
+    function setPenaltyPolicy(uint256 gracePeriod, uint256 penaltyBpsPerHour, address treasury)
+        external
+        onlyRole(DEFAULT_ADMIN_ROLE)
+    {
+        _setPenaltyPolicy(gracePeriod, penaltyBpsPerHour, treasury);
+    }
+    
+    /**
+     * @notice Internal function to validate and store the penalty policy
+     */
+    function _setPenaltyPolicy(uint256 gracePeriod, uint256 penaltyBpsPerHour, address treasury) internal {
+        if (treasury == address(0) || penaltyBpsPerHour > MAX_PENALTY_BPS_PER_HOUR) {
+            revert InvalidPenaltyPolicy(penaltyBpsPerHour, treasury);
+        }
+        
+        penaltyPolicy = PenaltyPolicy({
+            gracePeriod: gracePeriod,
+            penaltyBpsPerHour: penaltyBpsPerHour,
+            treasury: treasury
+        });
+        
+        emit PenaltyPolicyUpdated(gracePeriod, penaltyBpsPerHour, treasury);
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                          STAKE BALANCES
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Deposits ETH into the caller's stake balance
+     * @dev The balance funds reserveResourceFromBalance, which works through the forwarder
+     */
+    function depositStake() external payable {
+        _depositStake(_msgSender());
+    }
+    
+    /**
+     * @notice Deposits ETH into another user's stake balance (sponsorship)
+     * @dev Lets a department or relayer operator fund stakes for gasless users
+     * @param account Address whose stake balance is credited
+     */
+    function depositStakeFor(address account) external payable {
+        require(account != address(0), "Invalid account address");
+        _depositStake(account);
+    }
+    
+    /**
+     * @notice Withdraws unused stake balance to the caller
+     * @param amount Amount to withdraw (in wei)
+     */
+    function withdrawStake(uint256 amount) external nonReentrant {
+        uint256 available = stakeBalance[_msgSender()];
+        if (available < amount) {
+            revert InsufficientStakeBalance(available, amount);
+        }
+        
+        stakeBalance[_msgSender()] = available - amount;
+        
+        _sendStake(_msgSender(), amount);
         
-        emit ReservationExpired(resourceId, previousReserver);
+        emit StakeWithdrawn(_msgSender(), amount);
+    }
+    
+    /**
+     * @notice Internal function to credit a stake deposit
+     * @param account Address whose stake balance is credited
+     */
+    function _depositStake(address account) internal {
+        require(msg.value > 0, "Deposit must be greater than zero");
+        
+        stakeBalance[account] += msg.value;
+        
+        emit StakeDeposited(account, _msgSender(), msg.value);
+    }
+    
+    /**
+     * @notice Internal function to pay out stake in ETH
+     * @param to Account receiving the stake
+     * @param amount Amount to send (in wei)
+     */
+    function _sendStake(address to, uint256 amount) internal {
+        (bool success, ) = to.call{value: amount}("");
+        if (!success) {
+            revert StakeTransferFailed(to, amount);
+        }
+    }
+    
+    /*//////////////////////////////////////////////////////////////
+                         BALANCE CHECKPOINTS
+    //////////////////////////////////////////////////////////////*/
+    
+    /**
+     * @notice Records every mint, burn and transfer in the combined-balance checkpoints
+     * @dev Overrides ERC1155; the checkpoints are written by BalanceCheckpoints.record
+     */
+    function _update(address from, address to, uint256[] memory ids, uint256[] memory values)
+        internal
+        virtual
+        override
+    {
+        super._update(from, to, ids, values);
+        
+        BalanceCheckpoints.record(_totalBalanceCheckpoints, from, to, values);
+    }
+    
+    /**
+     * @notice Gets an account's current balance summed over every resource token
+     * @param account Address to check
+     * @return Combined balance
+     */
+    function totalBalanceOf(address account) public view returns (uint256) {
+        return _totalBalanceCheckpoints[account].latest();
+    }
+    
+    /**
+     * @notice Gets an account's combined balance at the end of a past block
+     * @dev Reverts for the current block, whose balances can still change
+     * @param account Address to check
+     * @param blockNumber Block to read; must be before the current block
+     * @return Combined balance once blockNumber was mined
+     */
+    function getPastTotalBalance(address account, uint256 blockNumber) external view returns (uint256) {
+        return BalanceCheckpoints.pastTotal(_totalBalanceCheckpoints, account, blockNumber);
     }
     
     /*//////////////////////////////////////////////////////////////
@@ -350,6 +1561,152 @@ contract CampusResourceNFT is ERC1155, AccessControl, ERC2771Context, Reentrancy
         return resources[resourceId];
     }
     
+    /**
+     * @notice Gets the stake required to reserve or book a resource
+     * @param resourceId The ID of the resource
+     * @return Stake amount (in wei)
+     */
+    function getStake(uint256 resourceId) external view returns (uint256) {
+        if (!resources[resourceId].exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        return _resourceStakes[resourceId];
+    }
+    
+    /**
+     * @notice Gets the current late-return penalty policy
+     * @return PenaltyPolicy struct
+     */
+    function getPenaltyPolicy() external view returns (PenaltyPolicy memory) {
+        return penaltyPolicy;
+    }
+    
+    /**
+     * @notice Gets the penalty the live reservation would incur if released now
+     * @param resourceId The ID of the resource
+     * @return Penalty in wei (0 if not reserved or within the grace period)
+     */
+    function getLatePenalty(uint256 resourceId) external view returns (uint256) {
+        if (!resources[resourceId].exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        return _latePenalty(resources[resourceId]);
+    }
+    
+    /**
+     * @notice Gets the number of resources created so far
+     * @dev Resource IDs are assigned sequentially from 0, so valid IDs are 0..totalResources()-1
+     * @return Total number of resources ever created
+     */
+    function totalResources() external view returns (uint256) {
+        return _resourceIdCounter;
+    }
+    
+    /**
+     * @notice Gets the bookings of a resource that overlap a time window
+     * @dev Returns active and checked-in bookings with start < to and end > from
+     * @param resourceId The ID of the resource
+     * @param from Window start timestamp
+     * @param to Window end timestamp
+     * @return result Bookings overlapping the window, in booking order
+     */
+    function getBookings(uint256 resourceId, uint256 from, uint256 to)
+        external
+        view
+        returns (Booking[] memory result)
+    {
+        if (!resources[resourceId].exists) {
+            revert ResourceDoesNotExist(resourceId);
+        }
+        
+        Booking[] storage bookings = _bookings[resourceId];
+        
+        // First pass: count matches so the result can be sized exactly
+        uint256 count = 0;
+        for (uint256 i = 0; i < bookings.length; i++) {
+            if (_isInWindow(bookings[i], from, to)) {
+                count++;
+            }
+        }
+        
+        result = new Booking[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < bookings.length; i++) {
+            if (_isInWindow(bookings[i], from, to)) {
+                result[index++] = bookings[i];
+            }
+        }
+    }
+    
+    /**
+     * @notice Gets a single booking
+     * @param resourceId The ID of the resource
+     * @param bookingId The ID of the booking
+     * @return Booking struct
+     */
+    function getBooking(uint256 resourceId, uint256 bookingId) external view returns (Booking memory) {
+        if (bookingId >= _bookings[resourceId].length) {
+            revert BookingDoesNotExist(resourceId, bookingId);
+        }
+        return _bookings[resourceId][bookingId];
+    }
+    
+    /**
+     * @notice Internal helper for getBookings window matching
+     */
+    function _isInWindow(Booking storage booking, uint256 from, uint256 to) internal view returns (bool) {
+        return booking.status != BookingStatus.CANCELLED && booking.start < to && from < booking.end;
+    }
+    
+    /**
+     * @notice Gets the wallet a resource's live reservation is offered to
+     * @param resourceId The ID of the resource
+     * @return Recipient of the pending handover, or address(0) if none is open
+     */
+    function getTransferOffer(uint256 resourceId) external view returns (address) {
+        TransferOffer memory offer = _transferOffers[resourceId];
+        Resource storage resource = resources[resourceId];
+        
+        if (
+            !resource.isReserved ||
+            resource.currentReserver != offer.from ||
+            resource.reservationStart != offer.reservationStart ||
+            block.timestamp >= resource.reservationEnd
+        ) {
+            return address(0);
+        }
+        return offer.to;
+    }
+    
+    /**
+     * @notice Checks whether reservations on a resource can be handed over
+     * @param resourceId The ID of the resource
+     * @return True unless a manager disabled handovers
+     */
+    function isTransferAllowed(uint256 resourceId) external view returns (bool) {
+        return !_transfersDisabled[resourceId];
+    }
+    
+    /**
+     * @notice Gets a resource's waitlist
+     * @param resourceId The ID of the resource
+     * @return Entries in queue order, first in line first
+     */
+    function getWaitlist(uint256 resourceId) external view returns (WaitlistEntry[] memory) {
+        return _waitlists[resourceId];
+    }
+    
+    /**
+     * @notice Gets a user's position on a resource's waitlist
+     * @param resourceId The ID of the resource
+     * @param user Address to look up
+     * @return 1-based position, or 0 if the user is not waiting
+     */
+    function getWaitlistPosition(uint256 resourceId, address user) external view returns (uint256) {
+        uint256 index = _waitlistIndex(resourceId, user);
+        return index < _waitlists[resourceId].length ? index + 1 : 0;
+    }
+    
     /**
      * @notice Checks if a resource is currently reserved
      * @param resourceId The ID of the resource
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./CampusResourceNFT.sol";
+
+/**
+ * @title ResourceSchedule
+ * @author Campus Resources Team
+ * @notice Booking and waitlist bookkeeping for CampusResourceNFT
+ * @dev Linked library: its external functions run through DELEGATECALL on the
+ *      NFT's own storage, which keeps the NFT under the EIP-170 size limit.
+ *      Stakes, events and reservations stay in CampusResourceNFT; this library only
+ *      reads and rewrites a resource's booking and waitlist arrays, and reverts
+ *      with the NFT's custom errors so callers see the same revert data.
+ */
+library ResourceSchedule {
+
+    /*//////////////////////////////////////////////////////////////
+                              BOOKINGS
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Stores a new active booking for a free slot
+     * @dev Prunes the open list first, so bookings that ended no longer count towards
+     *      MAX_OPEN_BOOKINGS or block the slot
+     * @param bookings Every booking made for the resource
+     * @param openIds IDs of the resource's bookings that may still block a slot
+     * @param resourceId The ID of the resource (for revert data)
+     * @param booker Address that books the slot
+     * @param start Slot start timestamp
+     * @param end Slot end timestamp
+     * @param stakeAmount Stake locked for the booking
+     * @param maxOpen Most open bookings the resource may have (MAX_OPEN_BOOKINGS)
+     * @return bookingId The ID of the new booking
+     */
+    function book(
+        CampusResourceNFT.Booking[] storage bookings,
+        uint256[] storage openIds,
+        uint256 resourceId,
+        address booker,
+        uint256 start,
+        uint256 end,
+        uint256 stakeAmount,
+        uint256 maxOpen
+    ) external returns (uint256 bookingId) {
+        _prune(bookings, openIds);
+        requireSlotFree(bookings, openIds, resourceId, start, end);
+
+        if (openIds.length >= maxOpen) {
+            revert CampusResourceNFT.TooManyOpenBookings(resourceId);
+        }
+
+        bookingId = bookings.length;
+        openIds.push(bookingId);
+        bookings.push(CampusResourceNFT.Booking({
+            bookingId: bookingId,
+            booker: booker,
+            start: start,
+            end: end,
+            stakedAmount: stakeAmount,
+            status: CampusResourceNFT.BookingStatus.ACTIVE
+        }));
+    }
+
+    /**
+     * @notice Reverts if [start, end) overlaps an active booking
+     * @param bookings Every booking made for the resource
+     * @param openIds IDs of the resource's bookings that may still block a slot
+     * @param resourceId The ID of the resource (for revert data)
+     * @param start Window start timestamp
+     * @param end Window end timestamp
+     */
+    function requireSlotFree(
+        CampusResourceNFT.Booking[] storage bookings,
+        uint256[] storage openIds,
+        uint256 resourceId,
+        uint256 start,
+        uint256 end
+    ) public view {
+        (bool overlaps, uint256 bookingId) = findOverlap(bookings, openIds, start, end);
+        if (overlaps) {
+            revert CampusResourceNFT.SlotAlreadyBooked(resourceId, bookingId);
+        }
+    }
+
+    /**
+     * @notice Finds an active booking overlapping [start, end)
+     * @dev Only scans the open bookings, so the cost is bounded by MAX_OPEN_BOOKINGS
+     * @param bookings Every booking made for the resource
+     * @param openIds IDs of the resource's bookings that may still block a slot
+     * @param start Window start timestamp
+     * @param end Window end timestamp
+     * @return overlaps Whether an active booking overlaps the window
+     * @return bookingId ID of the overlapping booking (0 if none)
+     */
+    function findOverlap(
+        CampusResourceNFT.Booking[] storage bookings,
+        uint256[] storage openIds,
+        uint256 start,
+        uint256 end
+    ) public view returns (bool overlaps, uint256 bookingId) {
+        for (uint256 i = 0; i < openIds.length; i++) {
+            CampusResourceNFT.Booking storage booking = bookings[openIds[i]];
+            if (
+                booking.status == CampusResourceNFT.BookingStatus.ACTIVE &&
+                booking.start < end &&
+                start < booking.end
+            ) {
+                return (true, openIds[i]);
+            }
+        }
+        return (false, 0);
+    }
+
+    /**
+     * @notice Drops bookings which can no longer block a slot from the open list
+     * @dev Cancelled, checked-in and ended bookings are removed; a missed booking's stake can
+     *      still be recovered with cancelBooking, which reads the full booking list
+     */
+    function _prune(CampusResourceNFT.Booking[] storage bookings, uint256[] storage openIds) private {
+        uint256 i = 0;
+        while (i < openIds.length) {
+            CampusResourceNFT.Booking storage booking = bookings[openIds[i]];
+            if (booking.status != CampusResourceNFT.BookingStatus.ACTIVE || booking.end <= block.timestamp) {
+                openIds[i] = openIds[openIds.length - 1];
+                openIds.pop();
+            } else {
+                i++;
+            }
+        }
+    }
+
+    /*//////////////////////////////////////////////////////////////
+                              WAITLIST
+    //////////////////////////////////////////////////////////////*/
+
+    /**
+     * @notice Finds a user's index in a waitlist
+     * @param waitlist The resource's waitlist, first in line first
+     * @param user Address to look for
+     * @return Index of the user's entry, or the waitlist length if absent
+     */
+    function indexOf(CampusResourceNFT.WaitlistEntry[] storage waitlist, address user)
+        external
+        view
+        returns (uint256)
+    {
+        for (uint256 i = 0; i < waitlist.length; i++) {
+            if (waitlist[i].user == user) {
+                return i;
+            }
+        }
+        return waitlist.length;
+    }
+
+    /**
+     * @notice Removes a waitlist entry, keeping the queue order
+     * @param waitlist The resource's waitlist, first in line first
+     * @param index Index of the entry to remove
+     * @return entry The removed entry
+     */
+    function remove(CampusResourceNFT.WaitlistEntry[] storage waitlist, uint256 index)
+        external
+        returns (CampusResourceNFT.WaitlistEntry memory entry)
+    {
+        entry = waitlist[index];
+
+        for (uint256 i = index; i + 1 < waitlist.length; i++) {
+            waitlist[i] = waitlist[i + 1];
+        }
+        waitlist.pop();
+    }
+}
@@ -0,0 +1,26 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../CampusResourceNFT.sol";
+
+/**
+ * @title RejectingReserver
+ * @notice Test helper: a reserver whose receive() always reverts, so any stake
+ *         sent back to it as ETH fails
+ */
+contract RejectingReserver {
+    CampusResourceNFT public immutable resourceToken;
+
+    constructor(CampusResourceNFT token) {
+        resourceToken = token;
+    }
+
+    /// @notice Reserves a resource, staking the ETH sent with the call
+    function reserve(uint256 resourceId, uint256 duration) external payable {
+        resourceToken.reserveResource{value: msg.value}(resourceId, duration);
+    }
+
+    receive() external payable {
+        revert("RejectingReserver: ETH rejected");
+    }
+}
@@ -14,8 +14,13 @@ module.exports = {
     },
   },
   networks: {
+    // 31337 matches the wagmi `hardhat` chain the dApp connects to
     hardhat: {
-      chainId: 1337,
+      chainId: 31337,
+    },
+    localhost: {
+      url: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337,
     },
     polygon: {
       url: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
@@ -5,21 +5,69 @@
  * using Wagmi v3 hooks. All hooks include proper error handling and loading states.
  */
 
-import { useState, useEffect } from 'react';
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId } from 'wagmi';
-import { parseEther, formatEther, Address } from 'viem';
+import { useState, useEffect, useMemo } from 'react';
+import { Config, useAccount, useConfig, useReadContract, useWriteContract, useWaitForTransactionReceipt, useChainId, usePublicClient, useWalletClient, useWatchContractEvent } from 'wagmi';
+import { readContract, readContracts } from 'wagmi/actions';
+import { readContractQueryKey } from 'wagmi/query';
+import { keepPreviousData, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { parseEther, formatEther, zeroAddress, Address, Hex, PublicClient, WalletClient } from 'viem';
 import { 
   CAMPUS_RESOURCE_NFT_ABI, 
   CONTRACT_ADDRESSES, 
+  DEFAULT_ADMIN_ROLE,
+  RESOURCE_MANAGER_ROLE,
+  ResourceCategory,
+  Booking,
+  PenaltyPolicy,
   Resource, 
   ResourceWithId,
   UserReservation,
+  WaitlistEntry,
+  MAX_RESERVATION_DURATION,
   getCategoryName,
   formatRemainingTime
 } from '@/config/contract';
+import {
+  ContractEventScan,
+  indexIncomingTransfers,
+  indexResourceTimeline,
+  indexUsageHistory,
+  indexUserReservations,
+  IncomingTransfer,
+  IndexerOptions,
+  ReservationTimelineEntry,
+  ResourceUsageHistory,
+  replayRoleEvents,
+  scanContractEvents
+} from '@/utils/indexer';
+import { computeUsageAnalytics } from '@/utils/analytics';
+import { computeAvailabilityForecast } from '@/utils/forecast';
+import { recommendAlternatives, recommendForWallet } from '@/utils/recommendations';
+import { fetchResourceMetadata, ResourceMetadata } from '@/utils/metadata';
+import { gaslessReleaseResource, gaslessReserveResource, gaslessWithdrawStake, RelayResponse } from '@/utils/gasless';
 
 // ==================== Helper Functions ====================
 
+/**
+ * Convert raw getResource output into a ResourceWithId with computed fields
+ * @param resourceData - Struct returned by getResource
+ * @param resourceId - The ID of the resource
+ */
+export const toResourceWithId = (resourceData: Resource, resourceId: number): ResourceWithId => {
+  const now = Math.floor(Date.now() / 1000);
+  const remainingTime = resourceData.isReserved 
+    ? Number(resourceData.reservationEnd) - now 
+    : 0;
+
+  return {
+    ...resourceData,
+    id: resourceId,
+    remainingTime: Math.max(0, remainingTime),
+    isExpired: remainingTime <= 0,
+    categoryName: getCategoryName(resourceData.category)
+  };
+};
+
 /**
  * Get contract address for current chain
  */
@@ -28,26 +76,257 @@ export const useContractAddress = (): Address | undefined => {
   return CONTRACT_ADDRESSES[chainId];
 };
 
+// ==================== Event Sync ====================
+
+/**
+ * What an event makes stale
+ * @property reads - Contract reads (by function name) to refetch
+ * @property queries - Batch queries (by query key prefix) to refetch; the indexer's
+ *   shared log scan is extended on every event instead (see useContractEvents)
+ */
+interface StaleData {
+  reads: string[];
+  queries: string[];
+}
+
+/**
+ * Contract reads whose first argument is a resource ID
+ * Only the entries for the resource an event names are refetched.
+ */
+const RESOURCE_READS = new Set([
+  'getResource',
+  'getReservationHistory',
+  'isResourceReserved',
+  'getCurrentReserver',
+  'getRemainingReservationTime',
+  'getStake',
+  'isRetired',
+  'getBookings',
+  'getWaitlist',
+  'getTransferOffer',
+  'isTransferAllowed',
+]);
+
+/**
+ * A reservation starting, moving or ending
+ */
+const RESERVATION_CHANGE: StaleData = {
+  reads: [
+    'getResource',
+    'getReservationHistory',
+    'isResourceReserved',
+    'getCurrentReserver',
+    'getRemainingReservationTime',
+    'getTransferOffer',
+    'stakeBalance',
+  ],
+  queries: ['resources'],
+};
+
+/**
+ * Data each contract event makes stale (events not listed change nothing the app reads)
+ */
+const EVENT_STALE_DATA: Record<string, StaleData> = {
+  ResourceCreated: { reads: ['totalResources'], queries: ['resources'] },
+  ResourceRetired: { reads: ['isRetired'], queries: [] },
+  ResourceStakeUpdated: { reads: ['getStake'], queries: [] },
+  ResourceReserved: RESERVATION_CHANGE,
+  ReservationExtended: RESERVATION_CHANGE,
+  ReservationTransferred: RESERVATION_CHANGE,
+  ResourceReleased: RESERVATION_CHANGE,
+  ReservationExpired: RESERVATION_CHANGE,
+  ReservationPenalized: { reads: ['stakeBalance'], queries: [] },
+  ExpiredReservationsSwept: { reads: ['stakeBalance'], queries: [] },
+  PenaltyPolicyUpdated: { reads: ['getPenaltyPolicy'], queries: [] },
+  StakeDeposited: { reads: ['stakeBalance'], queries: [] },
+  StakeWithdrawn: { reads: ['stakeBalance'], queries: [] },
+  BookingCreated: { reads: ['getBookings'], queries: [] },
+  BookingCancelled: { reads: ['getBookings'], queries: [] },
+  BookingCheckedIn: { reads: ['getBookings'], queries: [] },
+  WaitlistJoined: { reads: ['getWaitlist'], queries: [] },
+  WaitlistLeft: { reads: ['getWaitlist', 'stakeBalance'], queries: [] },
+  WaitlistPromoted: { reads: ['getWaitlist'], queries: [] },
+  ReservationTransferOffered: { reads: ['getTransferOffer'], queries: [] },
+  TransferPolicyUpdated: { reads: ['getTransferOffer', 'isTransferAllowed'], queries: [] },
+  RoleGranted: { reads: ['hasRole'], queries: [] },
+  RoleRevoked: { reads: ['hasRole'], queries: [] },
+};
+
+/**
+ * Whether a cached query is made stale by an event
+ * @param queryKey - Key of the cached query
+ * @param stale - What the event makes stale
+ * @param contractAddress - Contract that emitted the event
+ * @param resourceId - Resource the event names, if any
+ */
+const isStaleQuery = (
+  queryKey: readonly unknown[],
+  stale: StaleData,
+  contractAddress: Address,
+  resourceId: bigint | undefined
+): boolean => {
+  const [kind, params] = queryKey as [unknown, Record<string, unknown> | undefined];
+  if (typeof kind !== 'string' || !params) {
+    return false;
+  }
+
+  if (kind === 'readContract') {
+    const { address, functionName, args } = params as { address?: string; functionName?: string; args?: readonly unknown[] };
+    if (address?.toLowerCase() !== contractAddress.toLowerCase() || !stale.reads.includes(functionName ?? '')) {
+      return false;
+    }
+    return resourceId === undefined || !RESOURCE_READS.has(functionName ?? '') || args?.[0] === resourceId;
+  }
+
+  if (!stale.queries.includes(kind) || params.address !== contractAddress) {
+    return false;
+  }
+  return resourceId === undefined || params.resourceId === undefined || params.resourceId === Number(resourceId);
+};
+
+/**
+ * Hook that keeps every cached contract read and indexer query in step with the chain
+ * 
+ * Runs the app's only CampusResourceNFT event subscription and refetches the
+ * cached data each event makes stale (see EVENT_STALE_DATA), so read hooks
+ * do not open filters of their own. Indexer views follow the shared log
+ * scan, which is extended with the new blocks on every event. Mount it once (see ContractEventSync).
+ */
+export const useContractEventSync = () => {
+  const contractAddress = useContractAddress();
+  const queryClient = useQueryClient();
+
+  useWatchContractEvent({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    enabled: !!contractAddress,
+    onLogs: (logs) => {
+      if (!contractAddress) {
+        return;
+      }
+
+      // Every log lands in the indexer's scan; refetching it only requests the new blocks
+      queryClient.invalidateQueries({
+        queryKey: ['contractEvents'],
+        predicate: (query) => (query.queryKey[1] as { address?: Address } | undefined)?.address === contractAddress,
+      });
+
+      const changes = logs.flatMap((log) => {
+        const stale = log.eventName ? EVENT_STALE_DATA[log.eventName] : undefined;
+        if (!stale) {
+          return [];
+        }
+        const resourceId = 'resourceId' in log.args && typeof log.args.resourceId === 'bigint'
+          ? log.args.resourceId
+          : undefined;
+        return [{ stale, resourceId }];
+      });
+      if (changes.length === 0) {
+        return;
+      }
+
+      // One invalidation per batch, so a query several events touch is refetched once
+      queryClient.invalidateQueries({
+        predicate: (query) => changes.some(({ stale, resourceId }) =>
+          isStaleQuery(query.queryKey, stale, contractAddress, resourceId)
+        ),
+      });
+    },
+  });
+};
+
 // ==================== Read Hooks ====================
 
 /**
- * Hook to get reservation stake amount
+ * Hook to get the stake required to reserve or book a resource
+ * Each resource has its own stake (getStake); refreshes when a manager changes it
+ * 
+ * @param resourceId - The ID of the resource
  * @returns The required stake amount in ETH
  */
-export const useReservationStake = () => {
+export const useReservationStake = (resourceId: number) => {
   const contractAddress = useContractAddress();
   
-  const { data, isLoading, error } = useReadContract({
+  const { data, isLoading, error, refetch } = useReadContract({
     address: contractAddress,
     abi: CAMPUS_RESOURCE_NFT_ABI,
-    functionName: 'RESERVATION_STAKE',
+    functionName: 'getStake',
+    args: [BigInt(resourceId)],
   });
 
   return {
     stake: data ? formatEther(data as bigint) : '0',
     stakeWei: data as bigint | undefined,
     isLoading,
-    error
+    error,
+    refetch
+  };
+};
+
+/**
+ * Read a resource's current stake when submitting a transaction
+ * Write hooks serve any resource, so they read the stake at call time
+ * rather than holding one resource's value.
+ */
+const fetchResourceStake = (config: Config, contractAddress: Address, resourceId: number) => {
+  return readContract(config, {
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'getStake',
+    args: [BigInt(resourceId)],
+  });
+};
+
+/**
+ * Hook to get a user's deposited stake balance
+ * This balance funds gasless reservations (reserveResourceFromBalance) and is
+ * refreshed whenever stake is deposited, withdrawn, locked or returned.
+ * 
+ * @param userAddress - The user's wallet address
+ * @returns Deposited stake balance in ETH and wei
+ */
+export const useStakeBalance = (userAddress: Address | undefined) => {
+  const contractAddress = useContractAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'stakeBalance',
+    args: userAddress ? [userAddress] : undefined,
+    query: {
+      enabled: !!userAddress && !!contractAddress,
+    },
+  });
+
+  return {
+    balance: data !== undefined ? formatEther(data) : '0',
+    balanceWei: data,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get the late-return penalty policy
+ * Refreshes when the admin updates it (PenaltyPolicyUpdated)
+ * 
+ * @returns Grace period, hourly penalty rate and treasury
+ */
+export const usePenaltyPolicy = () => {
+  const contractAddress = useContractAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'getPenaltyPolicy',
+  });
+
+  return {
+    policy: data as PenaltyPolicy | undefined,
+    isLoading,
+    error,
+    refetch
   };
 };
 
@@ -71,6 +350,37 @@ export const useMaxReservationDuration = () => {
   };
 };
 
+/**
+ * Hook to discover every resource created on the contract
+ * Resource IDs are sequential from 0, so the ID list is derived from
+ * totalResources() and refreshed whenever a ResourceCreated event is emitted.
+ * 
+ * @returns All known resource IDs and the total count
+ */
+export const useAllResources = () => {
+  const contractAddress = useContractAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'totalResources',
+  });
+
+  const totalResources = data ? Number(data) : 0;
+  const resourceIds = useMemo(
+    () => Array.from({ length: totalResources }, (_, index) => index),
+    [totalResources]
+  );
+
+  return {
+    resourceIds,
+    totalResources,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
 /**
  * Hook to get resource details
  * @param resourceId - The ID of the resource
@@ -90,19 +400,7 @@ export const useResource = (resourceId: number) => {
   // Compute derived fields
   useEffect(() => {
     if (data) {
-      const resourceData = data as Resource;
-      const now = Math.floor(Date.now() / 1000);
-      const remainingTime = resourceData.isReserved 
-        ? Number(resourceData.reservationEnd) - now 
-        : 0;
-
-      setResource({
-        ...resourceData,
-        id: resourceId,
-        remainingTime: Math.max(0, remainingTime),
-        isExpired: remainingTime <= 0,
-        categoryName: getCategoryName(resourceData.category)
-      });
+      setResource(toResourceWithId(data as Resource, resourceId));
     }
   }, [data, resourceId]);
 
@@ -137,6 +435,31 @@ export const useIsResourceReserved = (resourceId: number) => {
   };
 };
 
+/**
+ * Hook to check if a resource has been retired (e.g. by a governance proposal)
+ * Retired resources can no longer be reserved, booked or waitlisted
+ * 
+ * @param resourceId - The ID of the resource
+ * @returns Boolean indicating retirement
+ */
+export const useIsRetired = (resourceId: number) => {
+  const contractAddress = useContractAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'isRetired',
+    args: [BigInt(resourceId)],
+  });
+
+  return {
+    isRetired: !!data,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
 /**
  * Hook to get current reserver of a resource
  * @param resourceId - The ID of the resource
@@ -205,129 +528,1513 @@ export const useReservationHistory = (resourceId: number) => {
   };
 };
 
-// ==================== Write Hooks ====================
-
 /**
- * Hook to reserve a resource
- * Handles transaction submission and provides loading/error states
+ * Hook to check whether an account holds an AccessControl role
+ * Refreshes whenever a role is granted or revoked on the contract.
+ * 
+ * @param role - Role identifier (e.g. RESOURCE_MANAGER_ROLE)
+ * @param account - Account to check
+ * @returns Whether the account holds the role
  */
-export const useReserveResource = () => {
-  const { stakeWei } = useReservationStake();
-  const { writeContract, data: hash, isPending, error } = useWriteContract();
+export const useHasRole = (role: Hex, account: Address | undefined) => {
   const contractAddress = useContractAddress();
 
-  // Wait for transaction confirmation
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash,
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'hasRole',
+    args: account ? [role, account] : undefined,
+    query: {
+      enabled: !!account && !!contractAddress,
+    },
   });
 
-  /**
-   * Reserve a resource with specified duration
-   * @param resourceId - The ID of the resource to reserve
-   * @param durationInSeconds - Duration of reservation in seconds
-   */
-  const reserve = async (resourceId: number, durationInSeconds: number) => {
-    if (!stakeWei || !contractAddress) {
-      throw new Error('Contract not configured or stake amount not loaded');
-    }
-
-    return writeContract({
-      address: contractAddress,
-      abi: CAMPUS_RESOURCE_NFT_ABI,
-      functionName: 'reserveResource',
-      args: [BigInt(resourceId), BigInt(durationInSeconds)],
-      value: stakeWei, // Send ETH stake
-    });
+  return {
+    hasRole: !!data,
+    isLoading: !!account && isLoading,
+    error,
+    refetch
   };
+};
+
+/**
+ * Hook to get the bookings of a resource within a time window
+ * Active and checked-in bookings are returned; the list refreshes whenever
+ * a booking for this resource is created, cancelled or checked in.
+ * 
+ * @param resourceId - The ID of the resource
+ * @param from - Window start (unix seconds)
+ * @param to - Window end (unix seconds)
+ * @returns Bookings overlapping the window
+ */
+export const useBookings = (resourceId: number, from: number, to: number) => {
+  const contractAddress = useContractAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'getBookings',
+    args: [BigInt(resourceId), BigInt(from), BigInt(to)],
+  });
 
   return {
-    reserve,
-    isPending: isPending || isConfirming,
-    isSuccess,
+    bookings: (data ?? []) as readonly Booking[],
+    isLoading,
     error,
-    hash
+    refetch
   };
 };
 
 /**
- * Hook to release a reserved resource
- * Returns staked ETH to the user
+ * Hook to get a resource's waitlist and the connected user's place in it
+ * Refreshes whenever someone joins, leaves or is promoted from this waitlist
+ * 
+ * @param resourceId - The ID of the resource
+ * @returns Queue entries (first in line first) and the user's 1-based position (0 if not waiting)
  */
-export const useReleaseResource = () => {
-  const { writeContract, data: hash, isPending, error } = useWriteContract();
+export const useWaitlist = (resourceId: number) => {
+  const { address: userAddress } = useAccount();
   const contractAddress = useContractAddress();
 
-  // Wait for transaction confirmation
-  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
-    hash,
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'getWaitlist',
+    args: [BigInt(resourceId)],
   });
 
-  /**
-   * Release a reserved resource
-   * @param resourceId - The ID of the resource to release
-   */
-  const release = async (resourceId: number) => {
-    if (!contractAddress) {
-      throw new Error('Contract not configured');
-    }
-
-    return writeContract({
-      address: contractAddress,
-      abi: CAMPUS_RESOURCE_NFT_ABI,
-      functionName: 'releaseResource',
-      args: [BigInt(resourceId)],
-    });
-  };
+  const entries = (data ?? []) as readonly WaitlistEntry[];
+  const index = userAddress
+    ? entries.findIndex((entry) => entry.user.toLowerCase() === userAddress.toLowerCase())
+    : -1;
 
   return {
-    release,
-    isPending: isPending || isConfirming,
-    isSuccess,
+    entries,
+    position: index + 1,
+    isLoading,
     error,
-    hash
+    refetch
   };
 };
 
-// ==================== Composite Hooks ====================
+/**
+ * Hook to get a resource's handover state
+ * Refreshes when a handover is offered, accepted or the policy changes
+ * 
+ * @param resourceId - The ID of the resource
+ * @returns Wallet the live reservation is offered to (undefined if none) and whether handovers are allowed
+ */
+export const useReservationTransfer = (resourceId: number) => {
+  const contractAddress = useContractAddress();
+
+  const { data: offeredTo, isLoading: offerLoading, error: offerError } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'getTransferOffer',
+    args: [BigInt(resourceId)],
+  });
+
+  const { data: transfersAllowed, isLoading: policyLoading, error: policyError } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'isTransferAllowed',
+    args: [BigInt(resourceId)],
+  });
+
+  return {
+    offeredTo: offeredTo && offeredTo !== zeroAddress ? offeredTo : undefined,
+    transfersAllowed: transfersAllowed ?? true,
+    isLoading: offerLoading || policyLoading,
+    error: offerError || policyError
+  };
+};
 
 /**
- * Hook to get all user's active reservations
- * This is a client-side aggregation - in production, use subgraph or indexer
+ * Hook to load many resources in a single batched request
  * 
- * @param userAddress - The user's wallet address
- * @param totalResources - Total number of resources to check (default: 100)
- * @returns Array of user's active reservations
+ * Fetches getResource, getReservationHistory, uri, getStake and isRetired for
+ * every ID through one multicall (falling back to parallel reads on chains
+ * without Multicall3). Each result is written into the same query cache entries
+ * that useResource, useReservationHistory, useResourceMetadata,
+ * useReservationStake and useIsRetired read from, so cards rendered after this
+ * hook resolves do not issue their own requests.
+ * 
+ * @param resourceIds - IDs of the resources to load
+ * @returns Resources and reservation histories keyed by position in resourceIds
  */
-export const useUserReservations = (userAddress: Address | undefined, totalResources: number = 100) => {
-  const [reservations, setReservations] = useState<UserReservation[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+export const useResources = (resourceIds: number[]) => {
+  const config = useConfig();
+  const chainId = useChainId();
   const contractAddress = useContractAddress();
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    if (!userAddress || !contractAddress) {
-      setIsLoading(false);
-      return;
-    }
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['resources', { chainId, address: contractAddress, resourceIds }],
+    enabled: !!contractAddress && resourceIds.length > 0,
+    placeholderData: keepPreviousData, // Keep the grid on screen while newly created IDs load
+    queryFn: async () => {
+      const address = contractAddress as Address;
+      const calls = resourceIds.flatMap((resourceId) => [
+        {
+          address,
+          abi: CAMPUS_RESOURCE_NFT_ABI,
+          functionName: 'getResource' as const,
+          args: [BigInt(resourceId)] as const,
+          chainId,
+        },
+        {
+          address,
+          abi: CAMPUS_RESOURCE_NFT_ABI,
+          functionName: 'getReservationHistory' as const,
+          args: [BigInt(resourceId)] as const,
+          chainId,
+        },
+        {
+          address,
+          abi: CAMPUS_RESOURCE_NFT_ABI,
+          functionName: 'uri' as const,
+          args: [BigInt(resourceId)] as const,
+          chainId,
+        },
+        {
+          address,
+          abi: CAMPUS_RESOURCE_NFT_ABI,
+          functionName: 'getStake' as const,
+          args: [BigInt(resourceId)] as const,
+          chainId,
+        },
+        {
+          address,
+          abi: CAMPUS_RESOURCE_NFT_ABI,
+          functionName: 'isRetired' as const,
+          args: [BigInt(resourceId)] as const,
+          chainId,
+        },
+      ]);
+      const callsPerResource = calls.length / resourceIds.length;
 
-    // Note: This is inefficient for large numbers of resources
-    // In production, use event logs or a subgraph
-    const fetchReservations = async () => {
-      setIsLoading(true);
-      const userReservations: UserReservation[] = [];
-
-      // This would need to be implemented with event logs in production
-      // For now, we'll return empty array and rely on event listeners
-      
-      setReservations(userReservations);
-      setIsLoading(false);
-    };
+      const results = await readContracts(config, { contracts: calls });
+
+      // Seed the per-resource read caches the resource cards read from
+      results.forEach((result, index) => {
+        if (result.status === 'success') {
+          const { address, functionName, args } = calls[index];
+          queryClient.setQueryData(
+            readContractQueryKey({ address, functionName, args, chainId }),
+            result.result
+          );
+        }
+      });
 
-    fetchReservations();
-  }, [userAddress, contractAddress]);
+      return resourceIds.map((resourceId, index) => {
+        const resourceResult = results[index * callsPerResource];
+        const historyResult = results[index * callsPerResource + 1];
+        return {
+          resource: resourceResult.status === 'success'
+            ? toResourceWithId(resourceResult.result as Resource, resourceId)
+            : null,
+          history: historyResult.status === 'success'
+            ? (historyResult.result as readonly Address[])
+            : undefined,
+        };
+      });
+    },
+  });
 
   return {
-    reservations,
-    isLoading
+    resources: data?.map(({ resource }) => resource).filter((resource): resource is ResourceWithId => resource !== null) ?? [],
+    histories: data?.map(({ history }) => history) ?? [],
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to find reservations that have expired but were never released
+ * 
+ * Reads every resource through useResources (sharing its cache with the
+ * dashboard grid), re-checks expiry every 15 seconds and reloads when a
+ * reservation changes on-chain. The keeper reward is KEEPER_REWARD_BPS of
+ * each expired stake, paid by releaseExpired.
+ * 
+ * @returns Expired resource IDs and the reward for sweeping them (in ETH)
+ */
+export const useExpiredReservations = () => {
+  const contractAddress = useContractAddress();
+  const { resourceIds } = useAllResources();
+  const { resources, isLoading, error, refetch } = useResources(resourceIds);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const { data: rewardBps } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'KEEPER_REWARD_BPS',
+  });
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 15000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const expired = resources.filter(
+    (resource) => resource.isReserved && Number(resource.reservationEnd) <= now
+  );
+  const rewardWei = expired.reduce(
+    (total, resource) => total + (resource.stakedAmount * (rewardBps ?? BigInt(0))) / BigInt(10000),
+    BigInt(0)
+  );
+
+  return {
+    expiredIds: expired.map((resource) => resource.id),
+    reward: formatEther(rewardWei),
+    rewardWei,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+// ==================== Write Hooks ====================
+
+/**
+ * Options shared by reserve/release write hooks
+ * @property gasless - Sign an EIP-2771 ForwardRequest and submit it through the relayer
+ */
+export interface WriteOptions {
+  gasless?: boolean;
+}
+
+/**
+ * Internal hook that signs a meta-transaction and tracks the relayed tx hash
+ * Used by the write hooks when `gasless` is requested
+ */
+const useGaslessTransaction = () => {
+  const { address: userAddress } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const [hash, setHash] = useState<Hex | undefined>();
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Run a gasless action from utils/gasless with the connected wallet
+   * @param send - Signs and relays the request, returning the relayer response
+   */
+  const submit = async (
+    send: (walletClient: WalletClient, publicClient: PublicClient, userAddress: Address, chainId: number) => Promise<RelayResponse>
+  ) => {
+    if (!walletClient || !publicClient || !userAddress) {
+      throw new Error('Wallet not connected');
+    }
+
+    setIsPending(true);
+    setError(null);
+    setHash(undefined);
+    try {
+      const result = await send(walletClient, publicClient, userAddress, chainId);
+      if (!result.success || !result.txHash) {
+        throw new Error(result.error || 'Gasless transaction failed');
+      }
+      setHash(result.txHash);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Gasless transaction failed'));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return { submit, hash, isPending, error };
+};
+
+/**
+ * Hook to reserve a resource
+ * Handles transaction submission and provides loading/error states
+ * Supports gasless submission through the EIP-2771 relayer
+ */
+export const useReserveResource = () => {
+  const config = useConfig();
+  const { writeContract, data: writeHash, isPending, error: writeError } = useWriteContract();
+  const gasless = useGaslessTransaction();
+  const contractAddress = useContractAddress();
+  const [isGasless, setIsGasless] = useState(false);
+
+  const hash = isGasless ? gasless.hash : writeHash;
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Reserve a resource with specified duration
+   * @param resourceId - The ID of the resource to reserve
+   * @param durationInSeconds - Duration of reservation in seconds
+   * @param options - Set `gasless` to relay through the trusted forwarder
+   */
+  const reserve = async (resourceId: number, durationInSeconds: number, options: WriteOptions = {}) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    setIsGasless(!!options.gasless);
+
+    // Gasless reservations draw the stake from the deposited stake balance
+    if (options.gasless) {
+      return gasless.submit((walletClient, publicClient, userAddress, chainId) =>
+        gaslessReserveResource(walletClient, publicClient, userAddress, resourceId, durationInSeconds, chainId)
+      );
+    }
+
+    const stakeWei = await fetchResourceStake(config, contractAddress, resourceId);
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'reserveResource',
+      args: [BigInt(resourceId), BigInt(durationInSeconds)],
+      value: stakeWei, // Send ETH stake
+    });
+  };
+
+  return {
+    reserve,
+    isPending: isPending || gasless.isPending || isConfirming,
+    isSuccess,
+    error: isGasless ? gasless.error : writeError,
+    hash
+  };
+};
+
+/**
+ * Hook to release a reserved resource
+ * Returns staked ETH to the user
+ * Supports gasless submission through the EIP-2771 relayer
+ */
+export const useReleaseResource = () => {
+  const { writeContract, data: writeHash, isPending, error: writeError } = useWriteContract();
+  const gasless = useGaslessTransaction();
+  const contractAddress = useContractAddress();
+  const [isGasless, setIsGasless] = useState(false);
+
+  const hash = isGasless ? gasless.hash : writeHash;
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Release a reserved resource
+   * @param resourceId - The ID of the resource to release
+   * @param options - Set `gasless` to relay through the trusted forwarder
+   */
+  const release = async (resourceId: number, options: WriteOptions = {}) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    setIsGasless(!!options.gasless);
+
+    if (options.gasless) {
+      return gasless.submit((walletClient, publicClient, userAddress, chainId) =>
+        gaslessReleaseResource(walletClient, publicClient, userAddress, resourceId, chainId)
+      );
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'releaseResource',
+      args: [BigInt(resourceId)],
+    });
+  };
+
+  return {
+    release,
+    isPending: isPending || gasless.isPending || isConfirming,
+    isSuccess,
+    error: isGasless ? gasless.error : writeError,
+    hash
+  };
+};
+
+/**
+ * Hook to extend the user's live reservation
+ * Keeps the resource and its stake; the whole reservation stays within MAX_RESERVATION_DURATION
+ */
+export const useExtendReservation = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Extend a reservation
+   * @param resourceId - The ID of the reserved resource
+   * @param extraSeconds - Seconds to add to the reservation end
+   */
+  const extend = async (resourceId: number, extraSeconds: number) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'extendReservation',
+      args: [BigInt(resourceId), BigInt(extraSeconds)],
+    });
+  };
+
+  return {
+    extend,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to join the waitlist of a reserved resource
+ * Stakes the resource's stake, which becomes the reservation stake when the user is promoted
+ */
+export const useJoinWaitlist = () => {
+  const config = useConfig();
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Join a waitlist
+   * @param resourceId - The ID of the reserved resource
+   * @param durationInSeconds - Reservation length wanted once promoted
+   */
+  const join = async (resourceId: number, durationInSeconds: number) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    const stakeWei = await fetchResourceStake(config, contractAddress, resourceId);
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'joinWaitlist',
+      args: [BigInt(resourceId), BigInt(durationInSeconds)],
+      value: stakeWei,
+    });
+  };
+
+  return {
+    join,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to leave a waitlist
+ * Returns the waitlist stake to the user
+ */
+export const useLeaveWaitlist = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Leave a waitlist
+   * @param resourceId - The ID of the resource
+   */
+  const leave = async (resourceId: number) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'leaveWaitlist',
+      args: [BigInt(resourceId)],
+    });
+  };
+
+  return {
+    leave,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to offer the user's live reservation to another wallet
+ * The reservation only changes hands once the recipient accepts (see useAcceptReservationTransfer)
+ */
+export const useTransferReservation = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Offer a reservation, or withdraw the offer with the zero address
+   * @param resourceId - The ID of the reserved resource
+   * @param to - Wallet that may accept the handover
+   */
+  const offer = async (resourceId: number, to: Address) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'transferReservation',
+      args: [BigInt(resourceId), to],
+    });
+  };
+
+  return {
+    offer,
+    withdraw: (resourceId: number) => offer(resourceId, zeroAddress),
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to accept a reservation handover offered to the user
+ * Stakes the same amount as the current reserver, who is refunded
+ */
+export const useAcceptReservationTransfer = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Accept a handover
+   * @param resourceId - The ID of the reserved resource
+   * @param stakeWei - Stake locked by the current reserver
+   */
+  const accept = async (resourceId: number, stakeWei: bigint) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'acceptReservationTransfer',
+      args: [BigInt(resourceId)],
+      value: stakeWei,
+    });
+  };
+
+  return {
+    accept,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to deposit ETH into a stake balance
+ * Deposits fund gasless reservations; passing a beneficiary sponsors another user
+ */
+export const useDepositStake = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Deposit stake
+   * @param amountInEth - Amount to deposit in ETH (e.g. "0.03")
+   * @param beneficiary - Optional address to sponsor instead of the connected wallet
+   */
+  const deposit = async (amountInEth: string, beneficiary?: Address) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    const value = parseEther(amountInEth);
+
+    if (beneficiary) {
+      return writeContract({
+        address: contractAddress,
+        abi: CAMPUS_RESOURCE_NFT_ABI,
+        functionName: 'depositStakeFor',
+        args: [beneficiary],
+        value,
+      });
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'depositStake',
+      value,
+    });
+  };
+
+  return {
+    deposit,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to withdraw unused stake balance back to the wallet
+ * Supports gasless submission through the EIP-2771 relayer
+ */
+export const useWithdrawStake = () => {
+  const { writeContract, data: writeHash, isPending, error: writeError } = useWriteContract();
+  const gasless = useGaslessTransaction();
+  const contractAddress = useContractAddress();
+  const [isGasless, setIsGasless] = useState(false);
+
+  const hash = isGasless ? gasless.hash : writeHash;
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Withdraw stake balance
+   * @param amountWei - Amount to withdraw in wei
+   * @param options - Set `gasless` to relay through the trusted forwarder
+   */
+  const withdraw = async (amountWei: bigint, options: WriteOptions = {}) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    setIsGasless(!!options.gasless);
+
+    if (options.gasless) {
+      return gasless.submit((walletClient, publicClient, userAddress, chainId) =>
+        gaslessWithdrawStake(walletClient, publicClient, userAddress, amountWei, chainId)
+      );
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'withdrawStake',
+      args: [amountWei],
+    });
+  };
+
+  return {
+    withdraw,
+    isPending: isPending || gasless.isPending || isConfirming,
+    isSuccess,
+    error: isGasless ? gasless.error : writeError,
+    hash
+  };
+};
+
+/**
+ * Hook to book a future time slot on a resource
+ * Stakes the resource's stake, which is returned on cancellation or after the reservation
+ */
+export const useBookResource = () => {
+  const config = useConfig();
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Book a time slot
+   * @param resourceId - The ID of the resource to book
+   * @param start - Slot start (unix seconds)
+   * @param durationInSeconds - Slot length in seconds
+   */
+  const book = async (resourceId: number, start: number, durationInSeconds: number) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    const stakeWei = await fetchResourceStake(config, contractAddress, resourceId);
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'bookResource',
+      args: [BigInt(resourceId), BigInt(start), BigInt(durationInSeconds)],
+      value: stakeWei,
+    });
+  };
+
+  return {
+    book,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to cancel one of the user's bookings
+ * Returns the booking stake to the user
+ */
+export const useCancelBooking = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Cancel a booking
+   * @param resourceId - The ID of the resource
+   * @param bookingId - The ID of the booking
+   */
+  const cancel = async (resourceId: number, bookingId: bigint) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'cancelBooking',
+      args: [BigInt(resourceId), bookingId],
+    });
+  };
+
+  return {
+    cancel,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to check in to a booking once its slot has started
+ * The booking becomes the resource's live reservation until the slot ends
+ */
+export const useCheckInBooking = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Check in to a booking
+   * @param resourceId - The ID of the resource
+   * @param bookingId - The ID of the booking
+   */
+  const checkIn = async (resourceId: number, bookingId: bigint) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'checkInBooking',
+      args: [BigInt(resourceId), bookingId],
+    });
+  };
+
+  return {
+    checkIn,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to sweep expired reservations
+ * Anyone may call releaseExpired; the caller's stake balance is credited
+ * with the keeper reward
+ */
+export const useReleaseExpired = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Release the expired reservations among the given resources
+   * @param resourceIds - Resources to check; ones that are not expired are skipped on-chain
+   */
+  const releaseExpired = async (resourceIds: number[]) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'releaseExpired',
+      args: [resourceIds.map((resourceId) => BigInt(resourceId))],
+    });
+  };
+
+  return {
+    releaseExpired,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to create a new resource token
+ * Requires RESOURCE_MANAGER_ROLE
+ */
+export const useCreateResource = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Create a resource
+   * @param name - Resource name
+   * @param category - On-chain category
+   * @param initialSupply - Number of tokens to mint
+   * @param recipient - Address receiving the minted tokens
+   * @param stakeEth - Stake required to reserve it, in ETH (empty uses the contract default)
+   */
+  const create = async (
+    name: string,
+    category: ResourceCategory,
+    initialSupply: number,
+    recipient: Address,
+    stakeEth: string = ''
+  ) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'createResource',
+      args: [name, category, BigInt(initialSupply), recipient, stakeEth ? parseEther(stakeEth) : BigInt(0)],
+    });
+  };
+
+  return {
+    create,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to change the stake required to reserve or book a resource
+ * Requires RESOURCE_MANAGER_ROLE; live reservations keep the stake they locked
+ */
+export const useSetStake = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Set a resource's stake
+   * @param resourceId - The ID of the resource
+   * @param stakeEth - New stake in ETH
+   */
+  const setStake = async (resourceId: number, stakeEth: string) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'setStake',
+      args: [BigInt(resourceId), parseEther(stakeEth)],
+    });
+  };
+
+  return {
+    setStake,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to allow or disable reservation handovers on a resource
+ * Requires RESOURCE_MANAGER_ROLE
+ */
+export const useSetTransfersAllowed = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Set a resource's transfer policy
+   * @param resourceId - The ID of the resource
+   * @param allowed - Whether reservations can be handed over
+   */
+  const setTransfersAllowed = async (resourceId: number, allowed: boolean) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'setTransfersAllowed',
+      args: [BigInt(resourceId), allowed],
+    });
+  };
+
+  return {
+    setTransfersAllowed,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to grant an AccessControl role
+ * Requires the role's admin role (DEFAULT_ADMIN_ROLE for all roles on this contract)
+ */
+export const useGrantRole = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Grant a role
+   * @param role - Role identifier
+   * @param account - Account receiving the role
+   */
+  const grant = async (role: Hex, account: Address) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'grantRole',
+      args: [role, account],
+    });
+  };
+
+  return {
+    grant,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to revoke an AccessControl role
+ * Requires the role's admin role (DEFAULT_ADMIN_ROLE for all roles on this contract)
+ */
+export const useRevokeRole = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const contractAddress = useContractAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Revoke a role
+   * @param role - Role identifier
+   * @param account - Account losing the role
+   */
+  const revoke = async (role: Hex, account: Address) => {
+    if (!contractAddress) {
+      throw new Error('Contract not configured');
+    }
+
+    return writeContract({
+      address: contractAddress,
+      abi: CAMPUS_RESOURCE_NFT_ABI,
+      functionName: 'revokeRole',
+      args: [role, account],
+    });
+  };
+
+  return {
+    revoke,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+// ==================== Composite Hooks ====================
+
+/**
+ * Internal hook holding the shared CampusResourceNFT log scan
+ * Every indexer hook reads this one query, so the logs are fetched once per
+ * block range however many views use them. useContractEventSync invalidates
+ * it on each event, and the refetch only requests blocks after the last scan
+ * (see scanContractEvents in utils/indexer).
+ * 
+ * @param options - Block range options for the log scan
+ * @param enabled - Whether to scan at all
+ * @returns The scan and its query state
+ */
+const useContractEvents = (options: IndexerOptions, enabled: boolean) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+  const publicClient = usePublicClient();
+  const queryClient = useQueryClient();
+  const { fromBlock, toBlock, blockRange } = options;
+  const queryKey = ['contractEvents', { chainId, address: contractAddress, fromBlock, toBlock, blockRange }];
+
+  return useQuery({
+    queryKey,
+    enabled: enabled && !!contractAddress && !!publicClient,
+    structuralSharing: false, // Logs are only ever appended; skip deep-comparing them
+    queryFn: () => scanContractEvents(
+      publicClient as PublicClient,
+      contractAddress as Address,
+      { fromBlock, toBlock, blockRange },
+      queryClient.getQueryData<ContractEventScan>(queryKey)
+    ),
+  });
+};
+
+/**
+ * Hook to get all user's active reservations
+ * Rebuilt client-side from the shared log scan (see utils/indexer), so it
+ * follows every reservation change useContractEventSync picks up.
+ * 
+ * @param userAddress - The user's wallet address
+ * @param options - Block range options for the log scan
+ * @returns Array of user's active reservations
+ */
+export const useUserReservations = (userAddress: Address | undefined, options: IndexerOptions = {}) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+  const publicClient = usePublicClient();
+  const { data: scan, isLoading: scanLoading, error: scanError, refetch } = useContractEvents(options, !!userAddress);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['userReservations', { chainId, address: contractAddress, userAddress, scannedTo: scan?.toBlock, logCount: scan?.logs.length }],
+    enabled: !!userAddress && !!scan && !!publicClient,
+    placeholderData: keepPreviousData,
+    queryFn: () => indexUserReservations(
+      publicClient as PublicClient,
+      (scan as ContractEventScan).logs,
+      userAddress as Address
+    ),
+  });
+
+  const reservations = useMemo<UserReservation[]>(() => data ?? [], [data]);
+
+  return {
+    reservations,
+    isLoading: scanLoading || isLoading,
+    error: scanError || error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get the reservation handovers offered to a wallet
+ * Rebuilt from handover events in the shared log scan (see utils/indexer).
+ * 
+ * @param userAddress - The user's wallet address
+ * @param options - Block range options for the log scan
+ * @returns Open handovers the user can accept
+ */
+export const useIncomingTransfers = (userAddress: Address | undefined, options: IndexerOptions = {}) => {
+  const { data: scan, isLoading, error, refetch } = useContractEvents(options, !!userAddress);
+
+  const transfers = useMemo<IncomingTransfer[]>(
+    () => (scan && userAddress ? indexIncomingTransfers(scan.logs, userAddress) : []),
+    [scan, userAddress]
+  );
+
+  return {
+    transfers,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get the reservation timeline of a single resource
+ * Entries are rebuilt from reserve/release/expiry events in the shared log
+ * scan (see utils/indexer) and checked against getReservationHistory:
+ * reservations older than the scanned block range are reported as
+ * `unindexedReservers`.
+ * 
+ * @param resourceId - The ID of the resource
+ * @param options - Block range options for the log scan
+ * @returns Timeline entries (newest first) and on-chain history coverage
+ */
+export const useResourceTimeline = (resourceId: number, options: IndexerOptions = {}) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+  const publicClient = usePublicClient();
+  const { history, isLoading: historyLoading } = useReservationHistory(resourceId);
+  const { data: scan, isLoading: scanLoading, error: scanError, refetch } = useContractEvents(options, true);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['resourceTimeline', { chainId, address: contractAddress, resourceId, scannedTo: scan?.toBlock, logCount: scan?.logs.length }],
+    enabled: !!scan && !!publicClient,
+    placeholderData: keepPreviousData,
+    queryFn: () => indexResourceTimeline(
+      publicClient as PublicClient,
+      (scan as ContractEventScan).logs,
+      resourceId
+    ),
+  });
+
+  const timeline = useMemo<ReservationTimelineEntry[]>(() => data ?? [], [data]);
+
+  // getReservationHistory lists every reserver oldest-first; events cover the newest ones
+  const unindexedReservers = useMemo(
+    () => (history ? history.slice(0, Math.max(0, history.length - timeline.length)) : []),
+    [history, timeline.length]
+  );
+
+  return {
+    timeline,
+    unindexedReservers,
+    totalReservations: history?.length ?? timeline.length,
+    isLoading: scanLoading || isLoading || historyLoading,
+    error: scanError || error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get every resource's reservation timeline, bookings and waitlist length
+ * Rebuilt from the shared log scan (see indexUsageHistory in utils/indexer)
+ * each time it grows, and shared through the query cache by every caller.
+ * 
+ * @param options - Block range options for the log scan
+ * @param enabled - Whether to scan at all (default: true)
+ * @returns Usage history of every resource, in creation order
+ */
+export const useUsageHistory = (options: IndexerOptions = {}, enabled: boolean = true) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+  const publicClient = usePublicClient();
+  const { data: scan, isLoading: scanLoading, error: scanError, refetch } = useContractEvents(options, enabled);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['usageHistory', { chainId, address: contractAddress, scannedTo: scan?.toBlock, logCount: scan?.logs.length }],
+    enabled: enabled && !!scan && !!publicClient,
+    placeholderData: keepPreviousData,
+    queryFn: () => indexUsageHistory(publicClient as PublicClient, (scan as ContractEventScan).logs),
+  });
+
+  const histories = useMemo<ResourceUsageHistory[]>(() => data ?? [], [data]);
+
+  return {
+    histories,
+    isLoading: scanLoading || isLoading,
+    error: scanError || error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get usage analytics and availability forecasts for every resource
+ * Reads the shared usage history (useUsageHistory); switching the window
+ * only recomputes the figures (see utils/analytics). Forecasts (see
+ * utils/forecast) are redone every minute so recommended slots never start
+ * in the past.
+ * 
+ * @param windowDays - Length of the analysis window in days (null = all time)
+ * @param options - Block range options for the log scan
+ * @returns Per-resource and campus-wide usage analytics, plus availability forecasts
+ */
+export const useResourceAnalytics = (windowDays: number | null = null, options: IndexerOptions = {}) => {
+  const { histories, isLoading, error, refetch } = useUsageHistory(options);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  const { maxDuration: onChainMaxDuration } = useMaxReservationDuration();
+  const maxDuration = onChainMaxDuration || MAX_RESERVATION_DURATION;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const analytics = useMemo(
+    () => computeUsageAnalytics(histories, windowDays),
+    [histories, windowDays]
+  );
+
+  const forecast = useMemo(
+    () => computeAvailabilityForecast(histories, { now, maxDuration }),
+    [histories, now, maxDuration]
+  );
+
+  return {
+    analytics,
+    forecast,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to suggest available alternatives to a resource for the connected wallet
+ * Used for the "Try instead" hint on reserved cards, which mount it only
+ * while the resource is reserved.
+ * 
+ * @param resourceId - Resource the user wanted
+ * @returns Best available alternatives, best first (see utils/recommendations)
+ */
+export const useSimilarResources = (resourceId: number) => {
+  const { address } = useAccount();
+  const { histories, isLoading, error } = useUsageHistory();
+
+  const suggestions = useMemo(
+    () => recommendAlternatives(histories, resourceId, address),
+    [histories, resourceId, address]
+  );
+
+  return {
+    suggestions,
+    isLoading,
+    error
+  };
+};
+
+/**
+ * Hook to get personalized resource recommendations for a wallet
+ * Built from the wallet's own reservations and co-usage across all wallets
+ * in the shared usage history (see utils/recommendations).
+ * 
+ * @param userAddress - Wallet to recommend for
+ * @returns The wallet's favorites (with alternatives while unavailable) and new suggestions
+ */
+export const useWalletRecommendations = (userAddress: Address | undefined) => {
+  const { histories, isLoading, error } = useUsageHistory({}, !!userAddress);
+
+  const recommendations = useMemo(
+    () => (userAddress ? recommendForWallet(histories, userAddress) : { favorites: [], suggestions: [] }),
+    [histories, userAddress]
+  );
+
+  return {
+    recommendations,
+    isLoading,
+    error
+  };
+};
+
+/**
+ * Hook to check the connected wallet's admin console access
+ * The console is available to RESOURCE_MANAGER_ROLE or DEFAULT_ADMIN_ROLE holders
+ * 
+ * @returns Role flags for the connected wallet
+ */
+export const useAdminAccess = () => {
+  const { address } = useAccount();
+  const { hasRole: isResourceManager, isLoading: managerLoading } = useHasRole(RESOURCE_MANAGER_ROLE, address);
+  const { hasRole: isAdmin, isLoading: adminLoading } = useHasRole(DEFAULT_ADMIN_ROLE, address);
+
+  return {
+    isResourceManager,
+    isAdmin,
+    canAccess: isResourceManager || isAdmin,
+    isLoading: managerLoading || adminLoading
+  };
+};
+
+/**
+ * Hook to list the current members of every AccessControl role
+ * Rebuilt from RoleGranted/RoleRevoked events in the shared log scan
+ * (see utils/indexer).
+ * 
+ * @param options - Block range options for the log scan
+ * @returns Map of role identifier to member addresses
+ */
+export const useRoleMembers = (options: IndexerOptions = {}) => {
+  const { data: scan, isLoading, error, refetch } = useContractEvents(options, true);
+
+  const members = useMemo<Map<Hex, Address[]>>(
+    () => (scan ? replayRoleEvents(scan.logs) : new Map()),
+    [scan]
+  );
+
+  return {
+    members,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to load a resource's off-chain ERC1155 metadata and merge it into the resource
+ * The metadata URI is read from the contract's `uri(id)`; if that host cannot
+ * be reached, the app's own /api/metadata route is used instead.
+ * 
+ * @param resourceId - The ID of the resource
+ * @param resource - On-chain resource to merge the metadata into
+ * @returns Metadata JSON (null if none is published) and the merged resource
+ */
+export const useResourceMetadata = (resourceId: number, resource?: ResourceWithId | null) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+
+  const { data: uriTemplate, isLoading: uriLoading } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'uri',
+    args: [BigInt(resourceId)],
+  });
+
+  const { data: metadata, isLoading: metadataLoading, error } = useQuery({
+    queryKey: ['resourceMetadata', { chainId, address: contractAddress, resourceId, uriTemplate }],
+    enabled: !uriLoading,
+    staleTime: 5 * 60 * 1000,
+    queryFn: () => fetchResourceMetadata(resourceId, uriTemplate),
+  });
+
+  const merged = useMemo<ResourceWithId | null | undefined>(() => {
+    if (!resource || !metadata) {
+      return resource;
+    }
+    return {
+      ...resource,
+      description: metadata.description || undefined,
+      location: metadata.properties?.location,
+      image: metadata.image,
+    };
+  }, [resource, metadata]);
+
+  return {
+    metadata: metadata ?? null,
+    resource: merged,
+    isLoading: uriLoading || metadataLoading,
+    error
+  };
+};
+
+/**
+ * Hook to load the off-chain metadata of many resources
+ * Shares its query cache with useResourceMetadata (keyed by chain, contract
+ * and resource), so cards rendered alongside it do not fetch again. ERC1155 uses one URI template for every
+ * token, so it is read once.
+ * 
+ * @param resourceIds - IDs of the resources to load
+ * @returns Metadata keyed by resource ID (null if none is published)
+ */
+export const useResourcesMetadata = (resourceIds: number[]) => {
+  const chainId = useChainId();
+  const contractAddress = useContractAddress();
+
+  const { data: uriTemplate, isLoading: uriLoading } = useReadContract({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'uri',
+    args: [BigInt(resourceIds[0] ?? 0)],
+    query: {
+      enabled: resourceIds.length > 0,
+    },
+  });
+
+  const { metadata, isLoading: metadataLoading } = useQueries({
+    queries: resourceIds.map((resourceId) => ({
+      queryKey: ['resourceMetadata', { chainId, address: contractAddress, resourceId, uriTemplate }],
+      enabled: !uriLoading,
+      staleTime: 5 * 60 * 1000,
+      queryFn: () => fetchResourceMetadata(resourceId, uriTemplate),
+    })),
+    combine: (results) => ({
+      metadata: new Map<number, ResourceMetadata | null>(
+        resourceIds.map((resourceId, index) => [resourceId, results[index]?.data ?? null])
+      ),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+
+  return {
+    metadata,
+    isLoading: uriLoading || metadataLoading,
   };
 };
 
@@ -0,0 +1,509 @@
+/**
+ * Custom React hooks for interacting with the CampusResourceGovernor contract
+ *
+ * Token holders create proposals, vote with their combined resource token
+ * balance and execute passed proposals (see utils/governance.ts). Follows the
+ * same Wagmi v3 read/write patterns as hooks/useContract.ts.
+ *
+ * Off-chain voting hooks sign gas-free ballots and recompute their tally from
+ * the signatures (see utils/offchainVoting.ts).
+ */
+
+import { useState } from 'react';
+import { useAccount, useChainId, usePublicClient, useReadContract, useWalletClient, useWriteContract, useWaitForTransactionReceipt, useWatchContractEvent } from 'wagmi';
+import { useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { parseEther, zeroAddress, Address, PublicClient } from 'viem';
+import { ResourceCategory } from '@/config/contract';
+import { CAMPUS_RESOURCE_GOVERNOR_ABI, GOVERNOR_ADDRESSES, Proposal } from '@/utils/governance';
+import { fetchBallots, OffchainTally, signBallot, submitBallot, tallyBallots } from '@/utils/offchainVoting';
+
+// ==================== Helper Functions ====================
+
+/**
+ * Get governor address for current chain
+ */
+export const useGovernorAddress = (): Address | undefined => {
+  const chainId = useChainId();
+  return GOVERNOR_ADDRESSES[chainId];
+};
+
+/**
+ * Whether a governor is deployed on the current chain
+ */
+export const useIsGovernanceConfigured = (): boolean => {
+  const governorAddress = useGovernorAddress();
+  return !!governorAddress && governorAddress !== zeroAddress;
+};
+
+/**
+ * Refetch whenever the governor emits a proposal or vote event
+ * @param refetch - Query refetch to run
+ * @param proposalId - Only react to this proposal, if given
+ */
+const useWatchGovernor = (refetch: () => void, proposalId?: number) => {
+  const governorAddress = useGovernorAddress();
+
+  useWatchContractEvent({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    enabled: !!governorAddress,
+    onLogs: (logs) => {
+      const affectsProposals = logs.some((log) =>
+        (log.eventName === 'ProposalCreated' ||
+          log.eventName === 'VoteCast' ||
+          log.eventName === 'ProposalExecuted') &&
+        (proposalId === undefined || log.args.proposalId === BigInt(proposalId))
+      );
+      if (affectsProposals) {
+        refetch();
+      }
+    },
+  });
+};
+
+// ==================== Read Hooks ====================
+
+/**
+ * Hook to get the governor's voting period and quorum
+ * @returns Voting period in seconds and quorum in voting weight
+ */
+export const useGovernanceSettings = () => {
+  const governorAddress = useGovernorAddress();
+
+  const { data: votingPeriod, isLoading: periodLoading } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'votingPeriod',
+  });
+
+  const { data: quorum, isLoading: quorumLoading } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'quorum',
+  });
+
+  return {
+    votingPeriod: votingPeriod ? Number(votingPeriod) : 0,
+    quorum: (quorum as bigint | undefined) ?? BigInt(0),
+    isLoading: periodLoading || quorumLoading
+  };
+};
+
+/**
+ * Hook to get a wallet's voting weight (its balance across all resource tokens)
+ * @param userAddress - Wallet to check
+ */
+export const useVotingWeight = (userAddress: Address | undefined) => {
+  const governorAddress = useGovernorAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'votingWeight',
+    args: userAddress ? [userAddress] : undefined,
+    query: {
+      enabled: !!userAddress,
+    },
+  });
+
+  return {
+    weight: (data as bigint | undefined) ?? BigInt(0),
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to list every proposal, newest first
+ * Refreshes when a proposal is created, voted on or executed
+ */
+export const useProposals = () => {
+  const governorAddress = useGovernorAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'getProposals',
+  });
+
+  useWatchGovernor(refetch);
+
+  const proposals = ((data ?? []) as readonly Proposal[]).slice().reverse();
+
+  return {
+    proposals,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get a single proposal and whether the connected wallet has voted on it
+ * @param proposalId - The ID of the proposal
+ */
+export const useProposal = (proposalId: number) => {
+  const { address: userAddress } = useAccount();
+  const governorAddress = useGovernorAddress();
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'getProposal',
+    args: [BigInt(proposalId)],
+  });
+
+  const { data: hasVoted, refetch: refetchHasVoted } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'hasVoted',
+    args: userAddress ? [BigInt(proposalId), userAddress] : undefined,
+    query: {
+      enabled: !!userAddress,
+    },
+  });
+
+  useWatchGovernor(() => {
+    refetch();
+    refetchHasVoted();
+  }, proposalId);
+
+  return {
+    proposal: data as Proposal | undefined,
+    hasVoted: !!hasVoted,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+// ==================== Write Hooks ====================
+
+/**
+ * Parameters of an ADD_RESOURCE proposal, mirroring createResource
+ */
+export interface AddResourceProposal {
+  name: string;
+  category: ResourceCategory;
+  initialSupply: number;
+  recipient: Address;
+  stakeEth: string; // empty uses the contract's default stake
+  description: string;
+}
+
+/**
+ * Hook to create proposals
+ * Requires a non-zero voting weight
+ */
+export const useCreateProposal = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const governorAddress = useGovernorAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  const requireGovernor = () => {
+    if (!governorAddress) {
+      throw new Error('Governor not configured');
+    }
+    return governorAddress;
+  };
+
+  /**
+   * Propose creating a resource
+   */
+  const proposeAddResource = async (params: AddResourceProposal) => {
+    return writeContract({
+      address: requireGovernor(),
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'proposeAddResource',
+      args: [
+        params.name,
+        params.category,
+        BigInt(params.initialSupply),
+        params.recipient,
+        params.stakeEth ? parseEther(params.stakeEth) : BigInt(0),
+        params.description,
+      ],
+    });
+  };
+
+  /**
+   * Propose changing a resource's stake
+   * @param resourceId - The ID of the resource
+   * @param stakeEth - New stake in ETH
+   * @param description - Rationale shown to voters
+   */
+  const proposeStakeChange = async (resourceId: number, stakeEth: string, description: string) => {
+    return writeContract({
+      address: requireGovernor(),
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'proposeStakeChange',
+      args: [BigInt(resourceId), parseEther(stakeEth), description],
+    });
+  };
+
+  /**
+   * Propose retiring a resource
+   * @param resourceId - The ID of the resource
+   * @param description - Rationale shown to voters
+   */
+  const proposeRetirement = async (resourceId: number, description: string) => {
+    return writeContract({
+      address: requireGovernor(),
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'proposeRetirement',
+      args: [BigInt(resourceId), description],
+    });
+  };
+
+  return {
+    proposeAddResource,
+    proposeStakeChange,
+    proposeRetirement,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to vote on an active proposal with the connected wallet's voting weight
+ */
+export const useCastVote = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const governorAddress = useGovernorAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Cast a vote
+   * @param proposalId - The ID of the proposal
+   * @param support - Whether to vote in favour
+   */
+  const vote = async (proposalId: number, support: boolean) => {
+    if (!governorAddress) {
+      throw new Error('Governor not configured');
+    }
+
+    return writeContract({
+      address: governorAddress,
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'castVote',
+      args: [BigInt(proposalId), support],
+    });
+  };
+
+  return {
+    vote,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+/**
+ * Hook to execute a passed proposal
+ * Anyone may execute; the governor applies it through RESOURCE_MANAGER_ROLE
+ */
+export const useExecuteProposal = () => {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const governorAddress = useGovernorAddress();
+
+  // Wait for transaction confirmation
+  const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
+    hash,
+  });
+
+  /**
+   * Execute a proposal
+   * @param proposalId - The ID of the proposal
+   */
+  const execute = async (proposalId: number) => {
+    if (!governorAddress) {
+      throw new Error('Governor not configured');
+    }
+
+    return writeContract({
+      address: governorAddress,
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'execute',
+      args: [BigInt(proposalId)],
+    });
+  };
+
+  return {
+    execute,
+    isPending: isPending || isConfirming,
+    isSuccess,
+    error,
+    hash
+  };
+};
+
+// ==================== Off-chain Voting Hooks ====================
+
+/**
+ * How often off-chain tallies are reloaded (signed ballots emit no events)
+ */
+const TALLY_REFRESH_INTERVAL = 30000; // 30 seconds
+
+/**
+ * Query options that recompute a proposal's off-chain tally from its signed ballots
+ * Shared by useOffchainTally and useOffchainTallies so they use one cache entry per proposal
+ */
+const offchainTallyQuery = (
+  publicClient: PublicClient | undefined,
+  chainId: number,
+  governorAddress: Address | undefined,
+  proposal: Proposal | undefined
+) => ({
+  queryKey: [
+    'offchainTally',
+    { chainId, governorAddress, proposalId: proposal?.proposalId.toString(), snapshotBlock: proposal?.snapshotBlock.toString() },
+  ],
+  enabled: !!publicClient && !!governorAddress && !!proposal,
+  refetchInterval: TALLY_REFRESH_INTERVAL,
+  queryFn: async (): Promise<OffchainTally> => {
+    const target = proposal as Proposal;
+    const ballots = await fetchBallots(chainId, target.proposalId);
+    return tallyBallots(publicClient as PublicClient, chainId, governorAddress as Address, target, ballots);
+  },
+});
+
+/**
+ * Hook to get a wallet's voting weight at a proposal's snapshot block
+ * This is the weight both its on-chain vote and its signed ballot count with.
+ * @param userAddress - Wallet to check
+ * @param snapshotBlock - Proposal snapshot block
+ */
+export const useSnapshotVotingWeight = (userAddress: Address | undefined, snapshotBlock: bigint | undefined) => {
+  const governorAddress = useGovernorAddress();
+
+  const { data, isLoading, error } = useReadContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'votingWeightAt',
+    args: userAddress && snapshotBlock !== undefined ? [userAddress, snapshotBlock] : undefined,
+    query: {
+      enabled: !!userAddress && snapshotBlock !== undefined,
+    },
+  });
+
+  return {
+    weight: (data as bigint | undefined) ?? BigInt(0),
+    isLoading,
+    error
+  };
+};
+
+/**
+ * Hook to get a proposal's off-chain result, verified in the browser
+ * @param proposal - Proposal to tally
+ * @returns Tally and whether the connected wallet's ballot was counted
+ */
+export const useOffchainTally = (proposal: Proposal | undefined) => {
+  const { address: userAddress } = useAccount();
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const governorAddress = useGovernorAddress();
+
+  const { data, isLoading, error, refetch } = useQuery(
+    offchainTallyQuery(publicClient, chainId, governorAddress, proposal)
+  );
+
+  const hasSigned = !!userAddress && !!data?.counted.some(
+    (ballot) => ballot.voter.toLowerCase() === userAddress.toLowerCase()
+  );
+
+  return {
+    tally: data,
+    hasSigned,
+    isLoading,
+    error,
+    refetch
+  };
+};
+
+/**
+ * Hook to get the off-chain results of many proposals
+ * @param proposals - Proposals to tally
+ * @param enabled - Set false to skip loading, e.g. while the page shows on-chain votes
+ * @returns Tallies keyed by proposal ID (missing while loading)
+ */
+export const useOffchainTallies = (proposals: Proposal[], enabled: boolean = true) => {
+  const publicClient = usePublicClient();
+  const chainId = useChainId();
+  const governorAddress = useGovernorAddress();
+
+  return useQueries({
+    queries: proposals.map((proposal) => ({
+      ...offchainTallyQuery(publicClient, chainId, governorAddress, proposal),
+      enabled: enabled && !!publicClient && !!governorAddress,
+    })),
+    combine: (results) => ({
+      tallies: new Map<bigint, OffchainTally>(
+        results.flatMap((result, index) => (result.data ? [[proposals[index].proposalId, result.data]] : []))
+      ),
+      isLoading: results.some((result) => result.isLoading),
+    }),
+  });
+};
+
+/**
+ * Hook to sign and submit an off-chain ballot
+ * Costs no gas; reloads the proposal's tally once the ballot is stored
+ */
+export const useSignBallot = () => {
+  const { address: userAddress } = useAccount();
+  const { data: walletClient } = useWalletClient();
+  const chainId = useChainId();
+  const governorAddress = useGovernorAddress();
+  const queryClient = useQueryClient();
+  const [isPending, setIsPending] = useState(false);
+  const [isSuccess, setIsSuccess] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  /**
+   * Sign a ballot and send it to the ballots route
+   * @param proposal - Proposal to vote on
+   * @param support - Whether to vote in favour
+   */
+  const signVote = async (proposal: Proposal, support: boolean) => {
+    if (!walletClient || !userAddress) {
+      throw new Error('Wallet not connected');
+    }
+    if (!governorAddress) {
+      throw new Error('Governor not configured');
+    }
+
+    setIsPending(true);
+    setIsSuccess(false);
+    setError(null);
+    try {
+      const ballot = await signBallot(walletClient, chainId, governorAddress, userAddress, proposal, support);
+      await submitBallot(chainId, ballot);
+      await queryClient.invalidateQueries({ queryKey: ['offchainTally'] });
+      setIsSuccess(true);
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to sign ballot'));
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return {
+    signVote,
+    isPending,
+    isSuccess,
+    error
+  };
+};
@@ -1,23 +1,102 @@
 const hre = require("hardhat");
 const { ethers } = require("hardhat");
+const path = require("path");
+const { REGISTRY_PATH, computeAbiHash, recordDeployment } = require("./deployment-registry");
+const { deployNFTLibraries, getCampusResourceNFTFactory } = require("./nft-libraries");
+
+// stake "0" uses the default RESERVATION_STAKE
+const SAMPLE_RESOURCES = [
+  { name: "Physics Lab A", category: 0, supply: 1, stake: "0" },
+  { name: "Quantum Mechanics Textbook", category: 1, supply: 5, stake: "0.01" },
+  { name: "Grand Piano", category: 2, supply: 1, stake: "0.25" },
+  { name: "Oscilloscope", category: 3, supply: 3, stake: "0.05" },
+  { name: "Conference Room 101", category: 4, supply: 1, stake: "0" },
+];
 
 async function main() {
   console.log("🚀 Deploying CampusResourceNFT contract...\n");
 
   // Configuration
-  const TRUSTED_FORWARDER = process.env.TRUSTED_FORWARDER || ethers.ZeroAddress;
+  // Leave TRUSTED_FORWARDER unset to deploy a fresh CampusResourceForwarder
+  let TRUSTED_FORWARDER = process.env.TRUSTED_FORWARDER;
   const RESERVATION_STAKE = ethers.parseEther(process.env.RESERVATION_STAKE || "0.1");
-  const METADATA_URI = process.env.METADATA_URI || "https://api.campusresources.com/metadata/{id}.json";
+  const METADATA_URI = process.env.METADATA_URI || "http://localhost:3000/api/metadata/{id}.json";
+  const VOTING_PERIOD = Number(process.env.GOVERNANCE_VOTING_PERIOD || 3 * 24 * 60 * 60);
+  const CREATE_SAMPLES = process.env.CREATE_SAMPLES === "true";
+  const isLocal = hre.network.name === "hardhat" || hre.network.name === "localhost";
+
+  const [deployer, ...otherSigners] = await ethers.getSigners();
+
+  // Sample resources are spread over several holders (the node's funded accounts,
+  // or SAMPLE_RECIPIENTS) so no single wallet starts out with a majority
+  const sampleRecipients = process.env.SAMPLE_RECIPIENTS
+    ? process.env.SAMPLE_RECIPIENTS.split(",").map((address) => ethers.getAddress(address.trim()))
+    : [deployer.address, ...otherSigners.map((signer) => signer.address)];
+  const samples = CREATE_SAMPLES
+    ? SAMPLE_RESOURCES.map((sample, i) => ({ ...sample, recipient: sampleRecipients[i % sampleRecipients.length] }))
+    : [];
+
+  // Voting weight each holder starts with
+  const initialWeights = new Map([[deployer.address, 0n]]);
+  for (const { recipient, supply } of samples) {
+    initialWeights.set(recipient, (initialWeights.get(recipient) ?? 0n) + BigInt(supply));
+  }
+  const initialSupply = [...initialWeights.values()].reduce((total, weight) => total + weight, 0n);
+
+  // The governor holds RESOURCE_MANAGER_ROLE, so a quorum a single holder can meet
+  // would let them pass any proposal alone. Local and sample deploys default to a
+  // majority of the initial supply; other deploys must set GOVERNANCE_QUORUM.
+  if (!process.env.GOVERNANCE_QUORUM && !isLocal && !CREATE_SAMPLES) {
+    throw new Error("Set GOVERNANCE_QUORUM to the total voting weight a proposal needs to pass");
+  }
+  const QUORUM = process.env.GOVERNANCE_QUORUM
+    ? BigInt(process.env.GOVERNANCE_QUORUM)
+    : initialSupply / 2n + 1n;
+  if (QUORUM <= 0n) {
+    throw new Error("GOVERNANCE_QUORUM must be greater than zero");
+  }
+  for (const [holder, weight] of initialWeights) {
+    if (weight >= QUORUM) {
+      throw new Error(
+        `${holder} would start with ${weight} of ${initialSupply} tokens and could meet the quorum of ${QUORUM} alone; ` +
+          "raise GOVERNANCE_QUORUM or spread the samples over more SAMPLE_RECIPIENTS"
+      );
+    }
+  }
 
   console.log("Configuration:");
   console.log("- Network:", hre.network.name);
-  console.log("- Trusted Forwarder:", TRUSTED_FORWARDER);
+  console.log("- Trusted Forwarder:", TRUSTED_FORWARDER || "(deploy new CampusResourceForwarder)");
   console.log("- Reservation Stake:", ethers.formatEther(RESERVATION_STAKE), "ETH");
   console.log("- Metadata URI:", METADATA_URI);
+  console.log("- Governance Voting Period:", VOTING_PERIOD, "seconds");
+  console.log("- Governance Quorum:", QUORUM.toString(), process.env.GOVERNANCE_QUORUM ? "tokens" : `tokens (majority of ${initialSupply})`);
+  console.log();
+  if (!process.env.GOVERNANCE_QUORUM && initialSupply === 0n) {
+    console.log("⚠️  No tokens are minted yet, so any holder can meet the default quorum; set GOVERNANCE_QUORUM outside local testing");
+    console.log();
+  }
+
+  // Deploy EIP-2771 forwarder for gasless transactions
+  if (!TRUSTED_FORWARDER) {
+    const Forwarder = await ethers.getContractFactory("CampusResourceForwarder");
+    const forwarder = await Forwarder.deploy();
+    await forwarder.waitForDeployment();
+    TRUSTED_FORWARDER = await forwarder.getAddress();
+
+    console.log("✅ CampusResourceForwarder deployed to:", TRUSTED_FORWARDER);
+    console.log();
+  }
+
+  // Deploy the libraries CampusResourceNFT links against
+  const libraries = await deployNFTLibraries();
+  for (const [name, address] of Object.entries(libraries)) {
+    console.log(`✅ ${name} library deployed to:`, address);
+  }
   console.log();
 
   // Deploy contract
-  const CampusResourceNFT = await ethers.getContractFactory("CampusResourceNFT");
+  const CampusResourceNFT = await getCampusResourceNFTFactory(libraries);
   const contract = await CampusResourceNFT.deploy(
     TRUSTED_FORWARDER,
     RESERVATION_STAKE,
@@ -26,12 +105,12 @@ async function main() {
 
   await contract.waitForDeployment();
   const contractAddress = await contract.getAddress();
+  const deployReceipt = await contract.deploymentTransaction().wait();
 
   console.log("✅ CampusResourceNFT deployed to:", contractAddress);
   console.log();
 
   // Get deployer info
-  const [deployer] = await ethers.getSigners();
   console.log("Deployer address:", deployer.address);
   console.log("Deployer balance:", ethers.formatEther(await ethers.provider.getBalance(deployer.address)), "ETH");
   console.log();
@@ -45,47 +124,68 @@ async function main() {
   console.log("- Resource Manager role granted to:", deployer.address);
   console.log();
 
-  // Create sample resources (optional)
-  if (process.env.CREATE_SAMPLES === "true") {
+  // Create sample resources (optional), before the governor can manage them
+  if (CREATE_SAMPLES) {
     console.log("📝 Creating sample resources...");
-    
-    const samples = [
-      { name: "Physics Lab A", category: 0, supply: 1 },
-      { name: "Quantum Mechanics Textbook", category: 1, supply: 5 },
-      { name: "Grand Piano", category: 2, supply: 1 },
-      { name: "Oscilloscope", category: 3, supply: 3 },
-      { name: "Conference Room 101", category: 4, supply: 1 },
-    ];
 
     for (let i = 0; i < samples.length; i++) {
-      const { name, category, supply } = samples[i];
-      const tx = await contract.createResource(name, category, supply, deployer.address);
+      const { name, category, supply, stake, recipient } = samples[i];
+      const tx = await contract.createResource(name, category, supply, recipient, ethers.parseEther(stake));
       await tx.wait();
-      console.log(`  ✓ Created: ${name} (ID: ${i}, Category: ${category}, Supply: ${supply})`);
+      const actualStake = ethers.formatEther(await contract.getStake(i));
+      console.log(`  ✓ Created: ${name} (ID: ${i}, Category: ${category}, Supply: ${supply}, Stake: ${actualStake} ETH, Holder: ${recipient})`);
     }
     console.log();
   }
 
+  // Deploy token-holder governance and let it manage resources
+  const CampusResourceGovernor = await ethers.getContractFactory("CampusResourceGovernor");
+  const governor = await CampusResourceGovernor.deploy(contractAddress, VOTING_PERIOD, QUORUM);
+  await governor.waitForDeployment();
+  const governorAddress = await governor.getAddress();
+  await (await contract.grantRole(RESOURCE_MANAGER_ROLE, governorAddress)).wait();
+
+  console.log("✅ CampusResourceGovernor deployed to:", governorAddress);
+  console.log("- Resource Manager role granted to:", governorAddress);
+  console.log();
+
   // Save deployment info
+  const { chainId } = await ethers.provider.getNetwork();
+  const artifact = await hre.artifacts.readArtifact("CampusResourceNFT");
   const deploymentInfo = {
     network: hre.network.name,
+    chainId: Number(chainId),
     contractAddress: contractAddress,
+    forwarderAddress: TRUSTED_FORWARDER,
+    governorAddress,
+    libraries,
     deployer: deployer.address,
-    trustedForwarder: TRUSTED_FORWARDER,
-    reservationStake: ethers.formatEther(RESERVATION_STAKE),
+    blockNumber: deployReceipt.blockNumber,
+    reservationStake: RESERVATION_STAKE.toString(),
     metadataURI: METADATA_URI,
+    abiHash: computeAbiHash(artifact.abi),
     timestamp: new Date().toISOString(),
-    blockNumber: await ethers.provider.getBlockNumber(),
   };
 
   console.log("📄 Deployment Summary:");
   console.log(JSON.stringify(deploymentInfo, null, 2));
   console.log();
 
+  // The in-process hardhat network disappears when this script exits
+  if (hre.network.name !== "hardhat") {
+    recordDeployment(deploymentInfo);
+    console.log("🗂️  Recorded in", path.relative(process.cwd(), REGISTRY_PATH));
+    console.log();
+  }
+
   // Verification instructions
   if (hre.network.name !== "hardhat" && hre.network.name !== "localhost") {
     console.log("🔍 To verify contract on block explorer:");
+    for (const address of Object.values(libraries)) {
+      console.log(`npx hardhat verify --network ${hre.network.name} ${address}`);
+    }
     console.log(`npx hardhat verify --network ${hre.network.name} ${contractAddress} "${TRUSTED_FORWARDER}" "${RESERVATION_STAKE}" "${METADATA_URI}"`);
+    console.log(`npx hardhat verify --network ${hre.network.name} ${governorAddress} "${contractAddress}" "${VOTING_PERIOD}" "${QUORUM}"`);
     console.log();
   }
 
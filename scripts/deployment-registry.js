@@ -0,0 +1,72 @@
+const fs = require("fs");
+const path = require("path");
+const { ethers } = require("hardhat");
+
+/**
+ * Deployment registry: deployments/registry.json
+ *
+ * scripts/deploy.js records every deployment here, keyed by chain ID, and
+ * config/contract.ts reads it so the frontend picks up the contract address
+ * and deploy block without copying them into env vars.
+ *
+ *   {
+ *     "31337": {
+ *       "network": "localhost",
+ *       "chainId": 31337,
+ *       "contractAddress": "0x...",
+ *       "forwarderAddress": "0x...",
+ *       "governorAddress": "0x...",
+ *       "libraries": { "BalanceCheckpoints": "0x...", "ResourceSchedule": "0x..." },
+ *       "blockNumber": 2,
+ *       "reservationStake": "100000000000000000",
+ *       "abiHash": "0x...",
+ *       ...
+ *     }
+ *   }
+ *
+ * A later deployment to the same chain replaces the earlier entry.
+ */
+
+const REGISTRY_PATH = path.join(__dirname, "..", "deployments", "registry.json");
+
+/**
+ * Hash of a contract ABI, used to spot a registry entry deployed from a
+ * different version of the contract than the one the frontend was built with
+ * @param abi - ABI array from the compiled artifact
+ * @returns keccak256 of the ABI's JSON encoding
+ */
+function computeAbiHash(abi) {
+  return ethers.id(JSON.stringify(abi));
+}
+
+/**
+ * Read the registry (a missing file is treated as empty)
+ * @param registryPath - Registry file, defaults to deployments/registry.json
+ */
+function readRegistry(registryPath = REGISTRY_PATH) {
+  if (!fs.existsSync(registryPath)) {
+    return {};
+  }
+  return JSON.parse(fs.readFileSync(registryPath, "utf8"));
+}
+
+/**
+ * Record a deployment, replacing any earlier entry for the same chain
+ * @param deployment - Entry to store; must include chainId
+ * @param registryPath - Registry file, defaults to deployments/registry.json
+ * @returns The updated registry
+ */
+function recordDeployment(deployment, registryPath = REGISTRY_PATH) {
+  if (deployment.chainId === undefined) {
+    throw new Error("Deployment entry is missing chainId");
+  }
+
+  const registry = readRegistry(registryPath);
+  registry[String(deployment.chainId)] = deployment;
+
+  fs.mkdirSync(path.dirname(registryPath), { recursive: true });
+  fs.writeFileSync(registryPath, `${JSON.stringify(registry, null, 2)}\n`);
+  return registry;
+}
+
+module.exports = { REGISTRY_PATH, computeAbiHash, readRegistry, recordDeployment };
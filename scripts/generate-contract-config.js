@@ -0,0 +1,148 @@
+const fs = require("fs");
+const path = require("path");
+const hre = require("hardhat");
+const { computeAbiHash } = require("./deployment-registry");
+
+/**
+ * Generates config/generated/<Contract>.ts from the compiled artifacts
+ *
+ * ABIs (and the enums each contract declares) are read from
+ * Hardhat's build output, so the frontend can never disagree with the
+ * deployed contracts. Each ABI is exported with its hash (computeAbiHash),
+ * which config/contract.ts compares with deployments/registry.json.
+ * Run after every contract change:
+ *
+ *   npm run generate:contract
+ *
+ * test/ContractConfig.test.js fails if a committed file is out of date.
+ */
+
+/**
+ * Contracts exported to the frontend, with the name of the ABI constant
+ */
+const CONTRACTS = [
+  { name: "CampusResourceNFT", abiExport: "CAMPUS_RESOURCE_NFT_ABI", includeEnums: true },
+  { name: "CampusResourceForwarder", abiExport: "CAMPUS_RESOURCE_FORWARDER_ABI", includeEnums: false },
+  { name: "CampusResourceGovernor", abiExport: "CAMPUS_RESOURCE_GOVERNOR_ABI", includeEnums: true },
+];
+
+/**
+ * Path of the generated module for a contract
+ */
+function getOutputPath(contractName) {
+  return path.join(__dirname, "..", "config", "generated", `${contractName}.ts`);
+}
+
+/**
+ * Collect every enum declared inside the contract from the solc AST
+ * @returns Map of enum name to ordered member names
+ */
+function findEnums(node, enums = {}) {
+  if (!node || typeof node !== "object") {
+    return enums;
+  }
+  if (node.nodeType === "EnumDefinition") {
+    enums[node.name] = node.members.map((member) => member.name);
+  }
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) {
+      value.forEach((child) => findEnums(child, enums));
+    } else if (typeof value === "object") {
+      findEnums(value, enums);
+    }
+  }
+  return enums;
+}
+
+/**
+ * Render every enum declared in the contract (ResourceCategory, BookingStatus, ...)
+ */
+function renderEnums(buildInfo, sourceName) {
+  const enums = findEnums(buildInfo.output.sources[sourceName].ast);
+  if (Object.keys(enums).length === 0) {
+    throw new Error(`No enums found in ${sourceName}`);
+  }
+
+  return Object.entries(enums)
+    .map(([enumName, members]) => {
+      const enumBody = members
+        .map((name, index) => `  ${name} = ${index}`)
+        .join(",\n");
+
+      return `/**
+ * Values of the Solidity ${enumName} enum, in declaration order
+ */
+export enum ${enumName} {
+${enumBody}
+}
+
+`;
+    })
+    .join("");
+}
+
+/**
+ * Render the TypeScript module for a contract's current compilation output
+ * @param contractName - One of the names in CONTRACTS
+ * @returns File contents as a string
+ */
+async function renderContractConfig(contractName = "CampusResourceNFT") {
+  const contract = CONTRACTS.find((entry) => entry.name === contractName);
+  if (!contract) {
+    throw new Error(`Unknown contract ${contractName}`);
+  }
+
+  const fullyQualifiedName = `contracts/${contract.name}.sol:${contract.name}`;
+  const artifact = await hre.artifacts.readArtifact(fullyQualifiedName);
+  const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+  if (!buildInfo) {
+    throw new Error(`No build info found for ${fullyQualifiedName}. Run "npx hardhat compile" first.`);
+  }
+
+  const enums = contract.includeEnums ? renderEnums(buildInfo, artifact.sourceName) : "";
+
+  return `/**
+ * GENERATED FILE - DO NOT EDIT
+ *
+ * Generated by scripts/generate-contract-config.js from the compiled
+ * ${contract.name} artifact. Run \`npm run generate:contract\` after changing
+ * contracts/${contract.name}.sol.
+ */
+
+${enums}/**
+ * Full ${contract.name} ABI
+ */
+export const ${contract.abiExport} = ${JSON.stringify(artifact.abi, null, 2)} as const;
+
+/**
+ * keccak256 of the ABI's JSON encoding, as recorded by scripts/deploy.js
+ */
+export const ${contract.abiExport}_HASH = "${computeAbiHash(artifact.abi)}" as const;
+`;
+}
+
+async function main() {
+  await hre.run("compile", { quiet: true });
+
+  for (const { name } of CONTRACTS) {
+    const outputPath = getOutputPath(name);
+    const contents = await renderContractConfig(name);
+
+    fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+    fs.writeFileSync(outputPath, contents);
+
+    console.log("✅ Wrote", path.relative(process.cwd(), outputPath));
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Contract config generation failed:");
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+module.exports = { CONTRACTS, renderContractConfig, getOutputPath };
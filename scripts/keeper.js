@@ -0,0 +1,120 @@
+const hre = require("hardhat");
+const { ethers } = require("hardhat");
+const { readRegistry } = require("./deployment-registry");
+
+/**
+ * Expired-reservation keeper
+ *
+ * Finds reservations whose period has ended from on-chain state and clears
+ * them with CampusResourceNFT.releaseExpired. The keeper earns
+ * KEEPER_REWARD_BPS of each swept stake, credited to its stake balance
+ * (withdraw with withdrawStake).
+ *
+ *   npx hardhat run scripts/keeper.js --network localhost
+ *
+ * Environment:
+ * - CONTRACT_ADDRESS: contract to sweep (default: deployments/registry.json entry for the network)
+ * - KEEPER_INTERVAL: seconds between sweeps; unset runs a single sweep
+ * - KEEPER_BATCH_SIZE: max resources per transaction (default: 50)
+ */
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * IDs of resources whose reservation has expired but not been released
+ * Expiry is judged against the latest block timestamp, as the contract does
+ * @param contract - CampusResourceNFT instance
+ * @returns Resource IDs in ascending order
+ */
+async function findExpiredResourceIds(contract) {
+  const total = Number(await contract.totalResources());
+  const latestBlock = await contract.runner.provider.getBlock("latest");
+  const now = BigInt(latestBlock.timestamp);
+
+  const resources = await Promise.all(
+    Array.from({ length: total }, (_, resourceId) => contract.getResource(resourceId))
+  );
+
+  return resources
+    .map((resource, resourceId) => ({ resource, resourceId }))
+    .filter(({ resource }) => resource.isReserved && resource.reservationEnd <= now)
+    .map(({ resourceId }) => resourceId);
+}
+
+/**
+ * Release every expired reservation in batches
+ * @param contract - CampusResourceNFT instance connected to the keeper's signer
+ * @param batchSize - Max resources per releaseExpired call
+ * @param logger - Receives one progress line per batch (default: silent)
+ * @returns Number of reservations released
+ */
+async function sweepExpired(contract, batchSize = DEFAULT_BATCH_SIZE, logger = () => {}) {
+  const expiredIds = await findExpiredResourceIds(contract);
+  let released = 0;
+
+  for (let i = 0; i < expiredIds.length; i += batchSize) {
+    const batch = expiredIds.slice(i, i + batchSize);
+    const receipt = await (await contract.releaseExpired(batch)).wait();
+
+    for (const log of receipt.logs) {
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "ExpiredReservationsSwept") {
+        released += Number(parsed.args.releasedCount);
+        logger(
+          `  ✓ Released ${parsed.args.releasedCount} of [${batch.join(", ")}], reward ${ethers.formatEther(parsed.args.reward)} ETH`
+        );
+      }
+    }
+  }
+  return released;
+}
+
+/**
+ * Resolve the contract address for the current network
+ */
+async function getContractAddress() {
+  if (process.env.CONTRACT_ADDRESS) {
+    return process.env.CONTRACT_ADDRESS;
+  }
+  const { chainId } = await ethers.provider.getNetwork();
+  const deployment = readRegistry()[chainId.toString()];
+  if (!deployment) {
+    throw new Error(`No deployment recorded for chain ${chainId}. Set CONTRACT_ADDRESS.`);
+  }
+  return deployment.contractAddress;
+}
+
+async function main() {
+  const [keeper] = await ethers.getSigners();
+  const contract = await ethers.getContractAt("CampusResourceNFT", await getContractAddress(), keeper);
+  const interval = Number(process.env.KEEPER_INTERVAL || 0);
+  const batchSize = Number(process.env.KEEPER_BATCH_SIZE || DEFAULT_BATCH_SIZE);
+
+  console.log("🧹 Expired-reservation keeper");
+  console.log("- Network:", hre.network.name);
+  console.log("- Contract:", await contract.getAddress());
+  console.log("- Keeper:", keeper.address);
+  console.log();
+
+  for (;;) {
+    const released = await sweepExpired(contract, batchSize, console.log);
+    console.log(released > 0 ? `Released ${released} expired reservation(s)` : "No expired reservations");
+
+    if (!interval) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+  }
+}
+
+if (require.main === module) {
+  main()
+    .then(() => process.exit(0))
+    .catch((error) => {
+      console.error("❌ Keeper failed:");
+      console.error(error);
+      process.exit(1);
+    });
+}
+
+module.exports = { findExpiredResourceIds, sweepExpired };
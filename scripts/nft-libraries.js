@@ -0,0 +1,39 @@
+const { ethers } = require("hardhat");
+
+/**
+ * Linked libraries of CampusResourceNFT
+ *
+ * CampusResourceNFT keeps its booking/waitlist bookkeeping (ResourceSchedule)
+ * and balance checkpointing (BalanceCheckpoints) in external libraries so its
+ * bytecode stays under the EIP-170 size limit. Its factory has to be linked
+ * against deployed copies of them, so scripts/deploy.js and the tests create
+ * the NFT through getCampusResourceNFTFactory instead of getContractFactory.
+ */
+
+const NFT_LIBRARIES = ["BalanceCheckpoints", "ResourceSchedule"];
+
+/**
+ * Deploy every library CampusResourceNFT links against
+ * @returns Library addresses keyed by library name
+ */
+async function deployNFTLibraries() {
+  const libraries = {};
+  for (const name of NFT_LIBRARIES) {
+    const library = await (await ethers.getContractFactory(name)).deploy();
+    await library.waitForDeployment();
+    libraries[name] = await library.getAddress();
+  }
+  return libraries;
+}
+
+/**
+ * CampusResourceNFT factory linked against its libraries
+ * @param libraries - Library addresses keyed by name; deploys fresh copies when omitted
+ */
+async function getCampusResourceNFTFactory(libraries) {
+  return ethers.getContractFactory("CampusResourceNFT", {
+    libraries: libraries ?? (await deployNFTLibraries()),
+  });
+}
+
+module.exports = { NFT_LIBRARIES, deployNFTLibraries, getCampusResourceNFTFactory };
@@ -0,0 +1,142 @@
+const { expect } = require("chai");
+require("./helpers/typescript");
+const { computeUsageAnalytics } = require("../utils/analytics");
+
+describe("Usage analytics", function () {
+  const HOUR = 3600;
+  const DAY = 24 * HOUR;
+  const NOW = 1_700_000_000;
+  const ALICE = "0x00000000000000000000000000000000000A11CE";
+
+  // Usage history as fetchUsageHistory returns it
+  const history = (resourceId, timeline = [], overrides = {}) => ({
+    resourceId,
+    name: `Resource ${resourceId}`,
+    category: 0,
+    createdAt: BigInt(NOW - 10 * DAY),
+    timeline,
+    retired: false,
+    waitlistLength: 0,
+    bookings: [],
+    ...overrides,
+  });
+
+  const reservation = (start, end, outcome = "released", overrides = {}) => ({
+    resourceId: 0,
+    reserver: ALICE,
+    reservationStart: BigInt(start),
+    reservationEnd: BigInt(end),
+    endedAt: outcome === "active" ? undefined : BigInt(end),
+    stakeAmount: 10n ** 17n,
+    outcome,
+    transactionHash: "0x",
+    ...overrides,
+  });
+
+  const sum = (buckets) => buckets.reduce((total, seconds) => total + seconds, 0);
+
+  const expectNoUsage = (stats) => {
+    expect(stats.reservationCount).to.equal(0);
+    expect(stats.uniqueReservers).to.equal(0);
+    expect(stats.reservedSeconds).to.equal(0);
+    expect(stats.utilization).to.equal(0);
+    expect(stats.averageDuration).to.equal(0);
+    expect(stats.turnoverPerWeek).to.equal(0);
+    expect(stats.peakHour).to.be.null;
+    expect(stats.peakWeekday).to.be.null;
+    expect(stats.hourlyUsage).to.have.lengthOf(24);
+    expect(stats.weekdayUsage).to.have.lengthOf(7);
+  };
+
+  describe("Empty history", function () {
+    it("Should report zeros rather than NaN without any resources", function () {
+      const analytics = computeUsageAnalytics([], null, NOW);
+
+      expect(analytics.resources).to.be.empty;
+      expectNoUsage(analytics.overall);
+      expect(analytics.overall.observedSeconds).to.equal(0);
+      expect(analytics.windowStart).to.equal(0);
+      expect(analytics.generatedAt).to.equal(NOW);
+    });
+
+    it("Should report zeros for a resource created after the window ends", function () {
+      const [stats] = computeUsageAnalytics([history(0, [], { createdAt: BigInt(NOW + DAY) })], 7, NOW).resources;
+
+      expectNoUsage(stats);
+      expect(stats.observedSeconds).to.equal(0);
+    });
+  });
+
+  describe("Never-reserved resources", function () {
+    it("Should observe the resource without any usage", function () {
+      const [stats] = computeUsageAnalytics([history(0)], null, NOW).resources;
+
+      expectNoUsage(stats);
+      expect(stats.observedSeconds).to.equal(10 * DAY);
+    });
+
+    it("Should rank never-reserved resources after used ones and keep them in the totals", function () {
+      const used = history(1, [reservation(NOW - 2 * DAY, NOW - 2 * DAY + 6 * HOUR)]);
+      const analytics = computeUsageAnalytics([history(0), used], null, NOW);
+
+      expect(analytics.resources.map((stats) => stats.resourceId)).to.deep.equal([1, 0]);
+      expect(analytics.overall.observedSeconds).to.equal(20 * DAY);
+      expect(analytics.overall.utilization).to.equal((6 * HOUR) / (20 * DAY));
+    });
+
+    it("Should clip the observed time to the window", function () {
+      const [stats] = computeUsageAnalytics([history(0)], 7, NOW).resources;
+
+      expect(stats.observedSeconds).to.equal(7 * DAY);
+    });
+  });
+
+  describe("Single reservation", function () {
+    it("Should describe one released reservation", function () {
+      const start = NOW - 3 * DAY;
+      const [stats] = computeUsageAnalytics([history(0, [reservation(start, start + 4 * HOUR)])], null, NOW).resources;
+
+      expect(stats.reservationCount).to.equal(1);
+      expect(stats.uniqueReservers).to.equal(1);
+      expect(stats.reservedSeconds).to.equal(4 * HOUR);
+      expect(stats.averageDuration).to.equal(4 * HOUR);
+      expect(stats.utilization).to.equal((4 * HOUR) / (10 * DAY));
+      expect(stats.turnoverPerWeek).to.equal(7 / 10);
+      expect(sum(stats.hourlyUsage)).to.equal(4 * HOUR);
+      expect(sum(stats.weekdayUsage)).to.equal(4 * HOUR);
+      expect(stats.peakHour).to.be.a("number");
+      expect(stats.peakWeekday).to.be.a("number");
+    });
+
+    it("Should count an active reservation up to now but not in the average duration", function () {
+      const [stats] = computeUsageAnalytics(
+        [history(0, [reservation(NOW - 2 * HOUR, NOW + 2 * HOUR, "active")])],
+        null,
+        NOW
+      ).resources;
+
+      expect(stats.reservationCount).to.equal(1);
+      expect(stats.reservedSeconds).to.equal(2 * HOUR);
+      expect(stats.averageDuration).to.equal(0);
+    });
+
+    it("Should count an uncleared expired reservation up to its scheduled end", function () {
+      const start = NOW - DAY;
+      const expired = reservation(start, start + HOUR, "expired", { endedAt: undefined });
+      const [stats] = computeUsageAnalytics([history(0, [expired])], null, NOW).resources;
+
+      expect(stats.reservedSeconds).to.equal(HOUR);
+      expect(stats.averageDuration).to.equal(HOUR);
+    });
+
+    it("Should count only the part of a reservation inside the window", function () {
+      const start = NOW - 7 * DAY - 2 * HOUR;
+      const [stats] = computeUsageAnalytics([history(0, [reservation(start, start + 5 * HOUR)])], 7, NOW).resources;
+
+      // Started before the window: its time counts, the reservation itself does not
+      expect(stats.reservedSeconds).to.equal(3 * HOUR);
+      expect(stats.reservationCount).to.equal(0);
+      expect(stats.averageDuration).to.equal(0);
+    });
+  });
+});
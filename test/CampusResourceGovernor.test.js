@@ -0,0 +1,263 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { getCampusResourceNFTFactory } = require("../scripts/nft-libraries");
+
+describe("CampusResourceGovernor", function () {
+  const VOTING_PERIOD = 3 * 24 * 60 * 60;
+  const QUORUM = 3;
+
+  // ProposalState enum values
+  const ACTIVE = 0;
+  const PASSED = 1;
+  const REJECTED = 2;
+  const EXECUTED = 3;
+
+  // Deployment fixture: holder1 owns 3 tokens, holder2 owns 2, outsider none
+  async function deployGovernorFixture() {
+    const [owner, holder1, holder2, outsider, trustedForwarder] = await ethers.getSigners();
+
+    const reservationStake = ethers.parseEther("0.1");
+    const CampusResourceNFT = await getCampusResourceNFTFactory();
+    const token = await CampusResourceNFT.deploy(
+      trustedForwarder.address,
+      reservationStake,
+      "https://api.campusresources.com/metadata/{id}.json"
+    );
+
+    const CampusResourceGovernor = await ethers.getContractFactory("CampusResourceGovernor");
+    const governor = await CampusResourceGovernor.deploy(await token.getAddress(), VOTING_PERIOD, QUORUM);
+
+    const RESOURCE_MANAGER_ROLE = await token.RESOURCE_MANAGER_ROLE();
+    await token.grantRole(RESOURCE_MANAGER_ROLE, await governor.getAddress());
+
+    await token.createResource("Physics Lab A", 0, 1, holder1.address, 0);
+    await token.createResource("Textbook", 1, 4, holder1.address, 0);
+    await token.connect(holder1).safeTransferFrom(holder1.address, holder2.address, 1, 2, "0x");
+
+    return { token, governor, owner, holder1, holder2, outsider };
+  }
+
+  describe("Deployment", function () {
+    it("Should store the token, voting period and quorum", async function () {
+      const { token, governor } = await loadFixture(deployGovernorFixture);
+
+      expect(await governor.resourceToken()).to.equal(await token.getAddress());
+      expect(await governor.votingPeriod()).to.equal(VOTING_PERIOD);
+      expect(await governor.quorum()).to.equal(QUORUM);
+    });
+
+    it("Should weight votes by the combined balance across resources", async function () {
+      const { governor, holder1, holder2, outsider } = await loadFixture(deployGovernorFixture);
+
+      expect(await governor.votingWeight(holder1.address)).to.equal(3);
+      expect(await governor.votingWeight(holder2.address)).to.equal(2);
+      expect(await governor.votingWeight(outsider.address)).to.equal(0);
+    });
+  });
+
+  describe("Proposals", function () {
+    it("Should create proposals for each action", async function () {
+      const { governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      const newStake = ethers.parseEther("0.2");
+
+      await expect(governor.connect(holder1).proposeAddResource("Campus Van", 3, 1, holder2.address, 0, "For field trips"))
+        .to.emit(governor, "ProposalCreated")
+        .withArgs(0, holder1.address, 0, 0, (await time.latest()) + 1 + VOTING_PERIOD);
+      await governor.connect(holder2).proposeStakeChange(1, newStake, "Books keep coming back late");
+      await governor.connect(holder2).proposeRetirement(0, "Lab is being renovated");
+
+      expect(await governor.proposalCount()).to.equal(3);
+      const proposals = await governor.getProposals();
+      expect(proposals[0].name).to.equal("Campus Van");
+      expect(proposals[0].recipient).to.equal(holder2.address);
+      expect(proposals[1].stake).to.equal(newStake);
+      expect(proposals[2].action).to.equal(2);
+      expect(proposals[2].description).to.equal("Lab is being renovated");
+      expect(await governor.state(2)).to.equal(ACTIVE);
+    });
+
+    it("Should reject proposers without tokens and unexecutable proposals", async function () {
+      const { token, governor, holder1, outsider } = await loadFixture(deployGovernorFixture);
+
+      await expect(governor.connect(outsider).proposeRetirement(0, ""))
+        .to.be.revertedWithCustomError(governor, "NoVotingPower")
+        .withArgs(outsider.address);
+      await expect(governor.connect(holder1).proposeAddResource("", 0, 1, holder1.address, 0, ""))
+        .to.be.revertedWithCustomError(governor, "InvalidProposal");
+      await expect(governor.connect(holder1).proposeStakeChange(0, 0, ""))
+        .to.be.revertedWithCustomError(governor, "InvalidProposal");
+      await expect(governor.connect(holder1).proposeRetirement(9, ""))
+        .to.be.revertedWithCustomError(token, "ResourceDoesNotExist");
+      await expect(governor.getProposal(0))
+        .to.be.revertedWithCustomError(governor, "ProposalDoesNotExist");
+    });
+
+    it("Should snapshot voting weight at the block before the proposal", async function () {
+      const { token, governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+
+      const tx = await governor.connect(holder1).proposeRetirement(0, "");
+      const { blockNumber } = await tx.wait();
+      expect((await governor.getProposal(0)).snapshotBlock).to.equal(blockNumber - 1);
+
+      // Tokens moved after the snapshot do not change the weight at the snapshot block
+      await token.connect(holder1).safeTransferFrom(holder1.address, holder2.address, 1, 2, "0x");
+      expect(await governor.votingWeight(holder1.address)).to.equal(1);
+      expect(await governor.votingWeightAt(holder1.address, blockNumber - 1)).to.equal(3);
+      expect(await governor.votingWeightAt(holder2.address, blockNumber - 1)).to.equal(2);
+      expect(await governor.votingWeightAt(holder2.address, blockNumber)).to.equal(2);
+    });
+
+    it("Should not read voting weight for the current block", async function () {
+      const { token, governor, holder1 } = await loadFixture(deployGovernorFixture);
+      const current = await ethers.provider.getBlockNumber();
+
+      await expect(governor.votingWeightAt(holder1.address, current + 1))
+        .to.be.revertedWithCustomError(token, "FutureLookup");
+    });
+  });
+
+  describe("Voting", function () {
+    it("Should tally weighted votes once per holder", async function () {
+      const { governor, holder1, holder2, outsider } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+
+      await expect(governor.connect(holder1).castVote(0, true))
+        .to.emit(governor, "VoteCast")
+        .withArgs(0, holder1.address, true, 3);
+      await governor.connect(holder2).castVote(0, false);
+
+      await expect(governor.connect(holder1).castVote(0, false))
+        .to.be.revertedWithCustomError(governor, "AlreadyVoted");
+      await expect(governor.connect(outsider).castVote(0, true))
+        .to.be.revertedWithCustomError(governor, "NoVotingPower");
+
+      const proposal = await governor.getProposal(0);
+      expect(proposal.forVotes).to.equal(3);
+      expect(proposal.againstVotes).to.equal(2);
+      expect(await governor.hasVoted(0, holder1.address)).to.be.true;
+    });
+
+    it("Should not count tokens moved to another wallet during the vote", async function () {
+      const { token, governor, holder1, outsider } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+
+      await governor.connect(holder1).castVote(0, true);
+      await token.connect(holder1).safeTransferFrom(holder1.address, outsider.address, 1, 2, "0x");
+
+      await expect(governor.connect(outsider).castVote(0, true))
+        .to.be.revertedWithCustomError(governor, "NoVotingPower")
+        .withArgs(outsider.address);
+      expect((await governor.getProposal(0)).forVotes).to.equal(3);
+    });
+
+    it("Should count tokens sold after the snapshot for the seller", async function () {
+      const { token, governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+      await token.connect(holder2).safeTransferFrom(holder2.address, holder1.address, 1, 2, "0x");
+
+      await expect(governor.connect(holder2).castVote(0, false))
+        .to.emit(governor, "VoteCast")
+        .withArgs(0, holder2.address, false, 2);
+      await expect(governor.connect(holder1).castVote(0, true))
+        .to.emit(governor, "VoteCast")
+        .withArgs(0, holder1.address, true, 3);
+    });
+
+    it("Should close voting after the voting period", async function () {
+      const { governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+      await time.increase(VOTING_PERIOD);
+
+      await expect(governor.connect(holder2).castVote(0, true))
+        .to.be.revertedWithCustomError(governor, "InvalidProposalState")
+        .withArgs(0, REJECTED, ACTIVE);
+    });
+
+    it("Should pass proposals only with quorum and a majority for", async function () {
+      const { governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "Below quorum");
+      await governor.connect(holder1).proposeRetirement(0, "Majority for");
+      await governor.connect(holder1).proposeRetirement(0, "Majority against");
+
+      await governor.connect(holder2).castVote(0, true);
+      await governor.connect(holder1).castVote(1, true);
+      await governor.connect(holder2).castVote(1, false);
+      await governor.connect(holder1).castVote(2, false);
+      await governor.connect(holder2).castVote(2, true);
+      await time.increase(VOTING_PERIOD);
+
+      expect(await governor.state(0)).to.equal(REJECTED);
+      expect(await governor.state(1)).to.equal(PASSED);
+      expect(await governor.state(2)).to.equal(REJECTED);
+    });
+  });
+
+  describe("Execution", function () {
+    async function passProposal(governor, holder1, holder2, proposalId) {
+      await governor.connect(holder1).castVote(proposalId, true);
+      await governor.connect(holder2).castVote(proposalId, true);
+      await time.increase(VOTING_PERIOD);
+    }
+
+    it("Should create a resource from a passed proposal", async function () {
+      const { token, governor, holder1, holder2, outsider } = await loadFixture(deployGovernorFixture);
+      const vanStake = ethers.parseEther("0.5");
+      await governor.connect(holder1).proposeAddResource("Campus Van", 3, 2, holder2.address, vanStake, "");
+      await passProposal(governor, holder1, holder2, 0);
+
+      await expect(governor.connect(outsider).execute(0))
+        .to.emit(governor, "ProposalExecuted")
+        .withArgs(0, 2);
+
+      expect((await token.getResource(2)).name).to.equal("Campus Van");
+      expect(await token.getStake(2)).to.equal(vanStake);
+      expect(await token.balanceOf(holder2.address, 2)).to.equal(2);
+      expect((await governor.getProposal(0)).resourceId).to.equal(2);
+      expect(await governor.state(0)).to.equal(EXECUTED);
+    });
+
+    it("Should change a stake and retire a resource", async function () {
+      const { token, governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      const newStake = ethers.parseEther("0.2");
+      await governor.connect(holder1).proposeStakeChange(1, newStake, "");
+      await governor.connect(holder1).proposeRetirement(0, "");
+      await governor.connect(holder1).castVote(0, true);
+      await passProposal(governor, holder1, holder2, 1);
+
+      await governor.execute(0);
+      await governor.execute(1);
+
+      expect(await token.getStake(1)).to.equal(newStake);
+      expect(await token.isRetired(0)).to.be.true;
+    });
+
+    it("Should only execute passed proposals once", async function () {
+      const { governor, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+
+      await expect(governor.execute(0))
+        .to.be.revertedWithCustomError(governor, "InvalidProposalState")
+        .withArgs(0, ACTIVE, PASSED);
+
+      await passProposal(governor, holder1, holder2, 0);
+      await governor.execute(0);
+
+      await expect(governor.execute(0))
+        .to.be.revertedWithCustomError(governor, "InvalidProposalState")
+        .withArgs(0, EXECUTED, PASSED);
+    });
+
+    it("Should revert execution without RESOURCE_MANAGER_ROLE", async function () {
+      const { token, governor, owner, holder1, holder2 } = await loadFixture(deployGovernorFixture);
+      await governor.connect(holder1).proposeRetirement(0, "");
+      await passProposal(governor, holder1, holder2, 0);
+
+      await token.connect(owner).revokeRole(await token.RESOURCE_MANAGER_ROLE(), await governor.getAddress());
+
+      await expect(governor.execute(0))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount");
+      expect(await governor.state(0)).to.equal(PASSED);
+    });
+  });
+});
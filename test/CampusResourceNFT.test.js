@@ -1,6 +1,7 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
-const { time, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { time, mine, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { getCampusResourceNFTFactory } = require("../scripts/nft-libraries");
 
 describe("CampusResourceNFT", function () {
   // Deployment fixture
@@ -10,7 +11,7 @@ describe("CampusResourceNFT", function () {
     const reservationStake = ethers.parseEther("0.1"); // 0.1 ETH stake
     const uri = "https://api.campusresources.com/metadata/{id}.json";
 
-    const CampusResourceNFT = await ethers.getContractFactory("CampusResourceNFT");
+    const CampusResourceNFT = await getCampusResourceNFTFactory();
     const contract = await CampusResourceNFT.deploy(
       trustedForwarder.address,
       reservationStake,
@@ -62,7 +63,8 @@ describe("CampusResourceNFT", function () {
         "Physics Lab A",
         0, // LAB category
         1, // initial supply
-        user1.address
+        user1.address,
+        0 // default stake
       );
 
       await expect(tx)
@@ -83,7 +85,8 @@ describe("CampusResourceNFT", function () {
         "Chemistry Book",
         1, // BOOK category
         5, // initial supply
-        user1.address
+        user1.address,
+        0 // default stake
       );
 
       expect(await contract.balanceOf(user1.address, 0)).to.equal(5);
@@ -97,7 +100,8 @@ describe("CampusResourceNFT", function () {
           "Piano",
           2, // INSTRUMENT category
           1,
-          user1.address
+          user1.address,
+          0 // default stake
         )
       ).to.be.reverted;
     });
@@ -110,7 +114,8 @@ describe("CampusResourceNFT", function () {
           "",
           0,
           1,
-          user1.address
+          user1.address,
+          0 // default stake
         )
       ).to.be.revertedWith("Name cannot be empty");
     });
@@ -118,13 +123,24 @@ describe("CampusResourceNFT", function () {
     it("Should increment resource ID counter", async function () {
       const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab 1", 0, 1, user1.address);
-      await contract.connect(resourceManager).createResource("Lab 2", 0, 1, user1.address);
-      await contract.connect(resourceManager).createResource("Lab 3", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab 1", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab 2", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab 3", 0, 1, user1.address, 0);
 
       const resource3 = await contract.getResource(2);
       expect(resource3.name).to.equal("Lab 3");
     });
+
+    it("Should report the total number of resources created", async function () {
+      const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      expect(await contract.totalResources()).to.equal(0);
+
+      await contract.connect(resourceManager).createResource("Lab 1", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab 2", 0, 1, user1.address, 0);
+
+      expect(await contract.totalResources()).to.equal(2);
+    });
   });
 
   describe("Resource Reservation", function () {
@@ -132,7 +148,7 @@ describe("CampusResourceNFT", function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
       // Create a resource
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       const duration = 3600; // 1 hour
       const tx = await contract.connect(user1).reserveResource(0, duration, {
@@ -154,7 +170,7 @@ describe("CampusResourceNFT", function () {
     it("Should update user's total staked amount", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       await contract.connect(user1).reserveResource(0, 3600, {
         value: reservationStake
@@ -166,7 +182,7 @@ describe("CampusResourceNFT", function () {
     it("Should add to reservation history", async function () {
       const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       await contract.connect(user1).reserveResource(0, 3600, {
         value: ethers.parseEther("0.1")
@@ -190,7 +206,7 @@ describe("CampusResourceNFT", function () {
     it("Should fail if insufficient stake provided", async function () {
       const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       await expect(
         contract.connect(user1).reserveResource(0, 3600, {
@@ -202,7 +218,7 @@ describe("CampusResourceNFT", function () {
     it("Should fail if resource is already reserved", async function () {
       const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       // User1 reserves first
       await contract.connect(user1).reserveResource(0, 3600, {
@@ -220,7 +236,7 @@ describe("CampusResourceNFT", function () {
     it("Should fail if duration exceeds maximum", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       const tooLongDuration = 8 * 24 * 60 * 60; // 8 days
       
@@ -231,10 +247,24 @@ describe("CampusResourceNFT", function () {
       ).to.be.revertedWithCustomError(contract, "ReservationDurationTooLong");
     });
 
+    it("Should fail if duration is zero", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).depositStake({ value: reservationStake });
+
+      await expect(contract.connect(user1).reserveResource(0, 0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "InvalidReservationDuration")
+        .withArgs(0);
+      await expect(contract.connect(user1).reserveResourceFromBalance(0, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidReservationDuration")
+        .withArgs(0);
+    });
+
     it("Should auto-release expired reservation when new user reserves", async function () {
       const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       // User1 reserves for 1 hour
       await contract.connect(user1).reserveResource(0, 3600, {
@@ -251,7 +281,7 @@ describe("CampusResourceNFT", function () {
 
       await expect(tx)
         .to.emit(contract, "ReservationExpired")
-        .withArgs(0, user1.address);
+        .withArgs(0, user1.address, reservationStake, 0);
 
       const resource = await contract.getResource(0);
       expect(resource.currentReserver).to.equal(user2.address);
@@ -262,7 +292,7 @@ describe("CampusResourceNFT", function () {
     it("Should release a reserved resource successfully", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       await contract.connect(user1).reserveResource(0, 3600, {
         value: reservationStake
       });
@@ -293,7 +323,7 @@ describe("CampusResourceNFT", function () {
     it("Should update user's total staked amount on release", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       await contract.connect(user1).reserveResource(0, 3600, {
         value: reservationStake
       });
@@ -306,7 +336,7 @@ describe("CampusResourceNFT", function () {
     it("Should fail if resource is not reserved", async function () {
       const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
 
       await expect(
         contract.connect(user1).releaseResource(0)
@@ -316,7 +346,7 @@ describe("CampusResourceNFT", function () {
     it("Should fail if caller is not the reserver", async function () {
       const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       await contract.connect(user1).reserveResource(0, 3600, {
         value: reservationStake
       });
@@ -339,7 +369,7 @@ describe("CampusResourceNFT", function () {
     it("Should check if resource is reserved correctly", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       expect(await contract.isResourceReserved(0)).to.be.false;
 
@@ -357,7 +387,7 @@ describe("CampusResourceNFT", function () {
     it("Should return correct current reserver", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       expect(await contract.getCurrentReserver(0)).to.equal(ethers.ZeroAddress);
 
@@ -371,7 +401,7 @@ describe("CampusResourceNFT", function () {
     it("Should calculate remaining reservation time correctly", async function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       const duration = 7200; // 2 hours
       await contract.connect(user1).reserveResource(0, duration, {
@@ -391,7 +421,7 @@ describe("CampusResourceNFT", function () {
     it("Should return full reservation history", async function () {
       const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
       
       // User1 reserves and releases
       await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
@@ -406,6 +436,26 @@ describe("CampusResourceNFT", function () {
       expect(history[0]).to.equal(user1.address);
       expect(history[1]).to.equal(user2.address);
     });
+
+    it("Should expose the resources and reservationHistory getters", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+
+      const resource = await contract.resources(0);
+      expect(resource.name).to.equal("Lab A");
+      expect(resource.currentReserver).to.equal(user1.address);
+      expect(resource.stakedAmount).to.equal(reservationStake);
+      expect(await contract.reservationHistory(0, 0)).to.equal(user1.address);
+    });
+
+    it("Should fit under the EIP-170 contract size limit", async function () {
+      const { contract } = await loadFixture(deployCampusResourceNFTFixture);
+      const code = await ethers.provider.getCode(await contract.getAddress());
+
+      expect((code.length - 2) / 2).to.be.at.most(24576);
+    });
   });
 
   describe("Multiple Reservations", function () {
@@ -413,9 +463,9 @@ describe("CampusResourceNFT", function () {
       const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
       
       // Create multiple resources
-      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address);
-      await contract.connect(resourceManager).createResource("Book B", 1, 1, user1.address);
-      await contract.connect(resourceManager).createResource("Piano C", 2, 1, user1.address);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Book B", 1, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Piano C", 2, 1, user1.address, 0);
 
       // Reserve all three
       await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
@@ -434,6 +484,936 @@ describe("CampusResourceNFT", function () {
     });
   });
 
+  describe("Reservation Extension", function () {
+    const HOUR = 3600;
+
+    async function reserveLabFixture() {
+      const fixture = await deployCampusResourceNFTFixture();
+      const { contract, resourceManager, user1, reservationStake } = fixture;
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      return fixture;
+    }
+
+    it("Should extend a live reservation without changing the stake", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(reserveLabFixture);
+      const { reservationEnd } = await contract.getResource(0);
+
+      await expect(contract.connect(user1).extendReservation(0, 2 * HOUR))
+        .to.emit(contract, "ReservationExtended")
+        .withArgs(0, user1.address, reservationEnd + BigInt(2 * HOUR));
+
+      const resource = await contract.getResource(0);
+      expect(resource.reservationEnd).to.equal(reservationEnd + BigInt(2 * HOUR));
+      expect(resource.currentReserver).to.equal(user1.address);
+      expect(resource.stakedAmount).to.equal(reservationStake);
+      expect(await contract.getReservationHistory(0)).to.have.lengthOf(1);
+    });
+
+    it("Should bound the whole reservation by MAX_RESERVATION_DURATION", async function () {
+      const { contract, user1 } = await loadFixture(reserveLabFixture);
+      const maxDuration = await contract.MAX_RESERVATION_DURATION();
+
+      await expect(contract.connect(user1).extendReservation(0, maxDuration))
+        .to.be.revertedWithCustomError(contract, "ReservationDurationTooLong")
+        .withArgs(maxDuration + BigInt(HOUR), maxDuration);
+
+      await contract.connect(user1).extendReservation(0, maxDuration - BigInt(HOUR));
+      const { reservationStart, reservationEnd } = await contract.getResource(0);
+      expect(reservationEnd - reservationStart).to.equal(maxDuration);
+    });
+
+    it("Should only let the current reserver extend an unexpired reservation", async function () {
+      const { contract, resourceManager, user1, user2 } = await loadFixture(reserveLabFixture);
+
+      await expect(contract.connect(user2).extendReservation(0, HOUR))
+        .to.be.revertedWithCustomError(contract, "NotResourceReserver")
+        .withArgs(0, user2.address);
+      await expect(contract.connect(user1).extendReservation(0, 0))
+        .to.be.revertedWithCustomError(contract, "InvalidExtension");
+
+      await contract.connect(resourceManager).createResource("Book B", 1, 1, user1.address, 0);
+      await expect(contract.connect(user1).extendReservation(1, HOUR))
+        .to.be.revertedWithCustomError(contract, "ResourceNotReserved");
+
+      await time.increase(HOUR + 1);
+      await expect(contract.connect(user1).extendReservation(0, HOUR))
+        .to.be.revertedWithCustomError(contract, "ReservationAlreadyExpired");
+    });
+
+    it("Should not extend into a booked slot", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(reserveLabFixture);
+      const { reservationEnd } = await contract.getResource(0);
+
+      await contract.connect(user2).bookResource(0, reservationEnd + BigInt(HOUR), HOUR, { value: reservationStake });
+
+      await expect(contract.connect(user1).extendReservation(0, 2 * HOUR))
+        .to.be.revertedWithCustomError(contract, "SlotAlreadyBooked")
+        .withArgs(0, 0);
+      await contract.connect(user1).extendReservation(0, HOUR);
+      expect((await contract.getResource(0)).reservationEnd).to.equal(reservationEnd + BigInt(HOUR));
+    });
+  });
+
+  describe("Waitlist", function () {
+    const HOUR = 3600;
+
+    async function reservedLabFixture() {
+      const fixture = await deployCampusResourceNFTFixture();
+      const { contract, resourceManager, owner, reservationStake } = fixture;
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, owner.address, 0);
+      await contract.connect(owner).reserveResource(0, HOUR, { value: reservationStake });
+      return fixture;
+    }
+
+    it("Should queue users with a stake and report their positions", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+
+      await expect(contract.connect(user1).joinWaitlist(0, 2 * HOUR, { value: reservationStake }))
+        .to.emit(contract, "WaitlistJoined")
+        .withArgs(0, user1.address, 1, 2 * HOUR, reservationStake);
+      await contract.connect(user2).joinWaitlist(0, HOUR, { value: reservationStake });
+
+      const waitlist = await contract.getWaitlist(0);
+      expect(waitlist.map((entry) => entry.user)).to.deep.equal([user1.address, user2.address]);
+      expect(await contract.getWaitlistPosition(0, user2.address)).to.equal(2);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+    });
+
+    it("Should reject invalid joins", async function () {
+      const { contract, owner, resourceManager, user1, reservationStake } = await loadFixture(reservedLabFixture);
+
+      await expect(contract.connect(user1).joinWaitlist(0, HOUR, { value: reservationStake / 2n }))
+        .to.be.revertedWithCustomError(contract, "InsufficientStake");
+      await expect(contract.connect(owner).joinWaitlist(0, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "AlreadyOnWaitlist");
+
+      await contract.connect(user1).joinWaitlist(0, HOUR, { value: reservationStake });
+      await expect(contract.connect(user1).joinWaitlist(0, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "AlreadyOnWaitlist");
+
+      await contract.connect(resourceManager).createResource("Book B", 1, 1, owner.address, 0);
+      await expect(contract.connect(user1).joinWaitlist(1, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ResourceNotReserved");
+    });
+
+    it("Should reject a zero-length or too long waitlist request", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(reservedLabFixture);
+
+      await expect(contract.connect(user1).joinWaitlist(0, 0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "InvalidReservationDuration")
+        .withArgs(0);
+      await expect(contract.connect(user1).joinWaitlist(0, 8 * 24 * HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ReservationDurationTooLong");
+      expect(await contract.getWaitlistPosition(0, user1.address)).to.equal(0);
+    });
+
+    it("Should cap the waitlist at MAX_WAITLIST_LENGTH", async function () {
+      const { contract, reservationStake } = await loadFixture(reservedLabFixture);
+      const maxLength = Number(await contract.MAX_WAITLIST_LENGTH());
+      const signers = (await ethers.getSigners()).slice(5, 6 + maxLength);
+
+      for (const signer of signers.slice(0, maxLength)) {
+        await contract.connect(signer).joinWaitlist(0, HOUR, { value: reservationStake });
+      }
+      await expect(contract.connect(signers[maxLength]).joinWaitlist(0, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "WaitlistFull");
+    });
+
+    it("Should hand a released resource to the first user in line", async function () {
+      const { contract, owner, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      await contract.connect(user1).joinWaitlist(0, 2 * HOUR, { value: reservationStake });
+      await contract.connect(user2).joinWaitlist(0, HOUR, { value: reservationStake });
+
+      const tx = contract.connect(owner).releaseResource(0);
+      await expect(tx).to.emit(contract, "ResourceReleased").withArgs(0, owner.address, reservationStake);
+      await expect(tx).to.emit(contract, "WaitlistPromoted");
+
+      const resource = await contract.getResource(0);
+      expect(resource.currentReserver).to.equal(user1.address);
+      expect(resource.reservationEnd - resource.reservationStart).to.equal(2 * HOUR);
+      expect(resource.stakedAmount).to.equal(reservationStake);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+      expect(await contract.getWaitlistPosition(0, user2.address)).to.equal(1);
+    });
+
+    it("Should promote from the waitlist when an expired reservation is swept", async function () {
+      const { contract, owner, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      await contract.connect(user1).joinWaitlist(0, HOUR, { value: reservationStake });
+      await time.increase(HOUR + 1);
+
+      await expect(contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "WaitlistNotEmpty");
+
+      await expect(contract.connect(user2).releaseExpired([0]))
+        .to.emit(contract, "ReservationExpired").withArgs(0, owner.address, reservationStake * 95n / 100n, reservationStake * 5n / 100n)
+        .and.to.emit(contract, "WaitlistPromoted");
+      expect(await contract.getCurrentReserver(0)).to.equal(user1.address);
+      expect(await contract.getWaitlist(0)).to.have.lengthOf(0);
+    });
+
+    it("Should skip users whose slot is booked and credit their stake balance", async function () {
+      const { contract, owner, user1, user2, resourceManager, reservationStake } = await loadFixture(reservedLabFixture);
+      const { reservationEnd } = await contract.getResource(0);
+      await contract.connect(resourceManager).bookResource(0, reservationEnd + BigInt(2 * HOUR), HOUR, { value: reservationStake });
+
+      await contract.connect(user1).joinWaitlist(0, 4 * HOUR, { value: reservationStake });
+      await contract.connect(user2).joinWaitlist(0, HOUR, { value: reservationStake });
+
+      await expect(contract.connect(owner).releaseResource(0))
+        .to.emit(contract, "WaitlistLeft")
+        .withArgs(0, user1.address, reservationStake, true);
+
+      expect(await contract.getCurrentReserver(0)).to.equal(user2.address);
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+    });
+
+    it("Should let users leave the waitlist and get their stake back", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      await contract.connect(user1).joinWaitlist(0, HOUR, { value: reservationStake });
+      await contract.connect(user2).joinWaitlist(0, HOUR, { value: reservationStake });
+
+      const tx = contract.connect(user1).leaveWaitlist(0);
+      await expect(tx).to.emit(contract, "WaitlistLeft").withArgs(0, user1.address, reservationStake, false);
+      await expect(tx).to.changeEtherBalance(user1, reservationStake);
+
+      expect(await contract.getWaitlistPosition(0, user1.address)).to.equal(0);
+      expect(await contract.getWaitlistPosition(0, user2.address)).to.equal(1);
+      await expect(contract.connect(user1).leaveWaitlist(0))
+        .to.be.revertedWithCustomError(contract, "NotOnWaitlist");
+    });
+  });
+
+  describe("Reservation Handover", function () {
+    const HOUR = 3600;
+
+    async function reservedLabFixture() {
+      const fixture = await deployCampusResourceNFTFixture();
+      const { contract, resourceManager, user1, reservationStake } = fixture;
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, 2 * HOUR, { value: reservationStake });
+      return fixture;
+    }
+
+    it("Should hand the reservation over once the recipient accepts and stakes", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      const before = await contract.getResource(0);
+
+      await expect(contract.connect(user1).transferReservation(0, user2.address))
+        .to.emit(contract, "ReservationTransferOffered")
+        .withArgs(0, user1.address, user2.address);
+      expect(await contract.getTransferOffer(0)).to.equal(user2.address);
+      expect(await contract.getCurrentReserver(0)).to.equal(user1.address);
+
+      const tx = contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake });
+      await expect(tx)
+        .to.emit(contract, "ReservationTransferred")
+        .withArgs(0, user1.address, user2.address, reservationStake, reservationStake);
+      await expect(tx).to.changeEtherBalance(user1, reservationStake);
+
+      const after = await contract.getResource(0);
+      expect(after.currentReserver).to.equal(user2.address);
+      expect(after.reservationStart).to.equal(before.reservationStart);
+      expect(after.reservationEnd).to.equal(before.reservationEnd);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+      expect(await contract.totalStakedByUser(user2.address)).to.equal(reservationStake);
+      expect(await contract.getTransferOffer(0)).to.equal(ethers.ZeroAddress);
+      expect(await contract.getReservationHistory(0)).to.deep.equal([user1.address, user2.address]);
+    });
+
+    it("Should return a balance-funded stake to the previous reserver's stake balance", async function () {
+      const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).depositStake({ value: reservationStake });
+      await contract.connect(user1).reserveResourceFromBalance(0, HOUR);
+
+      await contract.connect(user1).transferReservation(0, user2.address);
+      await contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake });
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+
+      // The recipient paid in ETH, so their stake comes back as ETH
+      await expect(contract.connect(user2).releaseResource(0)).to.changeEtherBalance(user2, reservationStake);
+    });
+
+    it("Should only let the offered wallet accept a live offer with enough stake", async function () {
+      const { contract, owner, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      await contract.connect(user1).transferReservation(0, user2.address);
+
+      await expect(contract.connect(owner).acceptReservationTransfer(0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "NoTransferOffer");
+      await expect(contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake / 2n }))
+        .to.be.revertedWithCustomError(contract, "InsufficientStake");
+
+      // Withdrawing the offer, or the reservation ending, leaves nothing to accept
+      await contract.connect(user1).transferReservation(0, ethers.ZeroAddress);
+      await expect(contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "NoTransferOffer");
+
+      await contract.connect(user1).transferReservation(0, user2.address);
+      await contract.connect(user1).releaseResource(0);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      expect(await contract.getTransferOffer(0)).to.equal(ethers.ZeroAddress);
+      await expect(contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "NoTransferOffer");
+    });
+
+    it("Should only let the current reserver offer a live reservation", async function () {
+      const { contract, user1, user2 } = await loadFixture(reservedLabFixture);
+
+      await expect(contract.connect(user2).transferReservation(0, user2.address))
+        .to.be.revertedWithCustomError(contract, "NotResourceReserver");
+      await expect(contract.connect(user1).transferReservation(0, user1.address))
+        .to.be.revertedWithCustomError(contract, "InvalidTransferRecipient");
+
+      await time.increase(2 * HOUR + 1);
+      await expect(contract.connect(user1).transferReservation(0, user2.address))
+        .to.be.revertedWithCustomError(contract, "ReservationAlreadyExpired");
+    });
+
+    it("Should respect the manager's transfer policy", async function () {
+      const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(reservedLabFixture);
+      await contract.connect(user1).transferReservation(0, user2.address);
+
+      await expect(contract.connect(user1).setTransfersAllowed(0, false))
+        .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(contract.connect(resourceManager).setTransfersAllowed(0, false))
+        .to.emit(contract, "TransferPolicyUpdated")
+        .withArgs(0, false);
+      expect(await contract.isTransferAllowed(0)).to.be.false;
+
+      await expect(contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "TransfersDisabled");
+      await expect(contract.connect(user1).transferReservation(0, user2.address))
+        .to.be.revertedWithCustomError(contract, "TransfersDisabled");
+
+      await contract.connect(resourceManager).setTransfersAllowed(0, true);
+      await contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake });
+      expect(await contract.getCurrentReserver(0)).to.equal(user2.address);
+    });
+  });
+
+  describe("Advance Booking", function () {
+    const HOUR = 3600;
+    const DAY = 24 * HOUR;
+
+    async function deployWithResourceFixture() {
+      const fixture = await deployCampusResourceNFTFixture();
+      await fixture.contract.connect(fixture.resourceManager).createResource("Lab A", 0, 1, fixture.user1.address, 0);
+      return fixture;
+    }
+
+    it("Should book a future slot", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const start = (await time.latest()) + DAY;
+
+      await expect(contract.connect(user1).bookResource(0, start, 2 * HOUR, { value: reservationStake }))
+        .to.emit(contract, "BookingCreated")
+        .withArgs(0, 0, user1.address, start, start + 2 * HOUR, reservationStake);
+
+      const booking = await contract.getBooking(0, 0);
+      expect(booking.booker).to.equal(user1.address);
+      expect(booking.status).to.equal(0); // ACTIVE
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+      expect(await contract.isResourceReserved(0)).to.be.false;
+    });
+
+    it("Should reject overlapping bookings", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const start = (await time.latest()) + DAY;
+
+      await contract.connect(user1).bookResource(0, start, 2 * HOUR, { value: reservationStake });
+
+      await expect(contract.connect(user2).bookResource(0, start + HOUR, 2 * HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "SlotAlreadyBooked")
+        .withArgs(0, 0);
+
+      // Back-to-back slots do not overlap
+      await expect(contract.connect(user2).bookResource(0, start + 2 * HOUR, HOUR, { value: reservationStake }))
+        .to.not.be.reverted;
+    });
+
+    it("Should reject bookings in the past or too far ahead", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const now = await time.latest();
+      const maxAdvance = await contract.MAX_ADVANCE_BOOKING();
+
+      await expect(contract.connect(user1).bookResource(0, now - HOUR, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "InvalidBookingWindow");
+
+      await expect(contract.connect(user1).bookResource(0, BigInt(now) + maxAdvance + BigInt(DAY), HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "BookingTooFarAhead");
+    });
+
+    it("Should reject bookings that overlap the live reservation", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      
+      await contract.connect(user1).reserveResource(0, DAY, { value: reservationStake });
+      const now = await time.latest();
+
+      await expect(contract.connect(user2).bookResource(0, now + HOUR, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ResourceAlreadyReserved");
+
+      await expect(contract.connect(user2).bookResource(0, now + 2 * DAY, HOUR, { value: reservationStake }))
+        .to.not.be.reverted;
+    });
+
+    it("Should block walk-in reservations that run into a booking", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const start = (await time.latest()) + 2 * HOUR;
+
+      await contract.connect(user1).bookResource(0, start, HOUR, { value: reservationStake });
+
+      await expect(contract.connect(user2).reserveResource(0, DAY, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "SlotAlreadyBooked");
+
+      await expect(contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake }))
+        .to.not.be.reverted;
+    });
+
+    it("Should return bookings overlapping a window", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const now = await time.latest();
+
+      await contract.connect(user1).bookResource(0, now + DAY, HOUR, { value: reservationStake });
+      await contract.connect(user2).bookResource(0, now + 3 * DAY, HOUR, { value: reservationStake });
+      await contract.connect(user1).bookResource(0, now + 5 * DAY, HOUR, { value: reservationStake });
+      await contract.connect(user1).cancelBooking(0, 2);
+
+      const bookings = await contract.getBookings(0, now, now + 4 * DAY);
+      expect(bookings.map((booking) => booking.booker)).to.deep.equal([user1.address, user2.address]);
+
+      expect(await contract.getBookings(0, now + 4 * DAY, now + 6 * DAY)).to.have.lengthOf(0);
+    });
+
+    it("Should refund the stake when a booking is cancelled", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const start = (await time.latest()) + DAY;
+
+      await contract.connect(user1).bookResource(0, start, HOUR, { value: reservationStake });
+
+      await expect(contract.connect(user2).cancelBooking(0, 0))
+        .to.be.revertedWithCustomError(contract, "NotBooker");
+
+      const tx = contract.connect(user1).cancelBooking(0, 0);
+      await expect(tx)
+        .to.emit(contract, "BookingCancelled")
+        .withArgs(0, 0, user1.address, reservationStake);
+      await expect(tx).to.changeEtherBalance(user1, reservationStake);
+
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+      await expect(contract.connect(user1).cancelBooking(0, 0))
+        .to.be.revertedWithCustomError(contract, "BookingNotActive");
+    });
+
+    it("Should cap open bookings and free slots once bookings end or are cancelled", async function () {
+      const { contract, user1, user2, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const maxOpen = Number(await contract.MAX_OPEN_BOOKINGS());
+      const start = (await time.latest()) + DAY;
+
+      for (let i = 0; i < maxOpen; i++) {
+        await contract.connect(user1).bookResource(0, start + i * HOUR, HOUR, { value: reservationStake });
+      }
+      const nextStart = start + maxOpen * HOUR;
+      await expect(contract.connect(user2).bookResource(0, nextStart, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "TooManyOpenBookings")
+        .withArgs(0);
+
+      // A cancelled booking frees its place
+      await contract.connect(user1).cancelBooking(0, 0);
+      await contract.connect(user2).bookResource(0, nextStart, HOUR, { value: reservationStake });
+
+      // So do bookings that have ended, even if nobody checked in
+      await time.increaseTo(start + 3 * HOUR);
+      await contract.connect(user2).bookResource(0, nextStart + HOUR, HOUR, { value: reservationStake });
+      await contract.connect(user2).bookResource(0, nextStart + 2 * HOUR, HOUR, { value: reservationStake });
+
+      // Ended bookings no longer block a slot, but their stake can still be recovered
+      await expect(contract.connect(user1).cancelBooking(0, 1))
+        .to.changeEtherBalance(user1, reservationStake);
+      await expect(contract.connect(user2).bookResource(0, start + 3 * HOUR + HOUR / 2, HOUR, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "SlotAlreadyBooked")
+        .withArgs(0, 3);
+    });
+
+    it("Should turn a booking into the live reservation on check-in", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployWithResourceFixture);
+      const start = (await time.latest()) + DAY;
+
+      await contract.connect(user1).bookResource(0, start, 2 * HOUR, { value: reservationStake });
+
+      await expect(contract.connect(user1).checkInBooking(0, 0))
+        .to.be.revertedWithCustomError(contract, "OutsideBookingWindow");
+
+      await time.increaseTo(start);
+      await expect(contract.connect(user1).checkInBooking(0, 0))
+        .to.emit(contract, "BookingCheckedIn")
+        .withArgs(0, 0, user1.address)
+        .and.to.emit(contract, "ResourceReserved")
+        .withArgs(0, user1.address, reservationStake, start + 2 * HOUR);
+
+      const resource = await contract.getResource(0);
+      expect(resource.currentReserver).to.equal(user1.address);
+      expect(resource.reservationEnd).to.equal(start + 2 * HOUR);
+      expect((await contract.getBooking(0, 0)).status).to.equal(2); // CHECKED_IN
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+
+      // Releasing the checked-in reservation returns the booking stake
+      await expect(contract.connect(user1).releaseResource(0))
+        .to.changeEtherBalance(user1, reservationStake);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+    });
+  });
+
+  describe("Stake Balances", function () {
+    async function createResource(contract, resourceManager, user1) {
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+    }
+
+    it("Should credit deposits to the sender's stake balance", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(contract.connect(user1).depositStake({ value: reservationStake }))
+        .to.emit(contract, "StakeDeposited")
+        .withArgs(user1.address, user1.address, reservationStake);
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+    });
+
+    it("Should let a sponsor deposit stake for another user", async function () {
+      const { contract, owner, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(contract.connect(owner).depositStakeFor(user1.address, { value: reservationStake }))
+        .to.emit(contract, "StakeDeposited")
+        .withArgs(user1.address, owner.address, reservationStake);
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+      expect(await contract.stakeBalance(owner.address)).to.equal(0);
+    });
+
+    it("Should fail to deposit zero", async function () {
+      const { contract, user1 } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(contract.connect(user1).depositStake())
+        .to.be.revertedWith("Deposit must be greater than zero");
+    });
+
+    it("Should reserve from the deposited balance without sending ETH", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await createResource(contract, resourceManager, user1);
+      await contract.connect(user1).depositStake({ value: reservationStake });
+
+      await expect(contract.connect(user1).reserveResourceFromBalance(0, 3600))
+        .to.emit(contract, "ResourceReserved");
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(0);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+    });
+
+    it("Should fail to reserve from an insufficient balance", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await createResource(contract, resourceManager, user1);
+
+      await expect(contract.connect(user1).reserveResourceFromBalance(0, 3600))
+        .to.be.revertedWithCustomError(contract, "InsufficientStakeBalance")
+        .withArgs(0, reservationStake);
+    });
+
+    it("Should return balance-funded stakes to the balance on release", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await createResource(contract, resourceManager, user1);
+      await contract.connect(user1).depositStake({ value: reservationStake });
+      await contract.connect(user1).reserveResourceFromBalance(0, 3600);
+
+      await contract.connect(user1).releaseResource(0);
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+    });
+
+    it("Should return balance-funded stakes to the balance when expired", async function () {
+      const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await createResource(contract, resourceManager, user1);
+      await contract.connect(user1).depositStake({ value: reservationStake });
+      await contract.connect(user1).reserveResourceFromBalance(0, 3600);
+
+      await time.increase(3601);
+      await contract.connect(user2).reserveResource(0, 3600, { value: reservationStake });
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake);
+      expect(await contract.stakeBalance(user2.address)).to.equal(0);
+    });
+
+    it("Should withdraw unused stake balance", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await contract.connect(user1).depositStake({ value: reservationStake });
+
+      const tx = contract.connect(user1).withdrawStake(reservationStake);
+
+      await expect(tx)
+        .to.emit(contract, "StakeWithdrawn")
+        .withArgs(user1.address, reservationStake);
+      await expect(tx).to.changeEtherBalance(user1, reservationStake);
+
+      expect(await contract.stakeBalance(user1.address)).to.equal(0);
+    });
+
+    it("Should fail to withdraw more than the balance", async function () {
+      const { contract, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(contract.connect(user1).withdrawStake(reservationStake))
+        .to.be.revertedWithCustomError(contract, "InsufficientStakeBalance")
+        .withArgs(0, reservationStake);
+    });
+  });
+
+  describe("Expired Reservation Sweeps", function () {
+    async function reserveAndExpire(contract, resourceManager, user1, user2, reservationStake) {
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab B", 0, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab C", 0, 1, user1.address, 0);
+
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+      await contract.connect(user2).depositStake({ value: reservationStake });
+      await contract.connect(user2).reserveResourceFromBalance(1, 3600);
+      await contract.connect(user1).reserveResource(2, 7200, { value: reservationStake });
+
+      await time.increase(3601);
+    }
+
+    it("Should release expired reservations and reward the keeper", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await reserveAndExpire(contract, resourceManager, user1, user2, reservationStake);
+
+      const reward = (reservationStake * 500n) / 10_000n;
+      const tx = contract.connect(owner).releaseExpired([0, 1, 2]);
+
+      await expect(tx)
+        .to.emit(contract, "ExpiredReservationsSwept")
+        .withArgs(owner.address, 2, reward * 2n);
+      await expect(tx).to.changeEtherBalance(user1, 0);
+
+      expect((await contract.getResource(0)).isReserved).to.be.false;
+      expect((await contract.getResource(1)).isReserved).to.be.false;
+      expect((await contract.getResource(2)).isReserved).to.be.true;
+      expect(await contract.stakeBalance(owner.address)).to.equal(reward * 2n);
+      expect(await contract.stakeBalance(user1.address)).to.equal(reservationStake - reward);
+      expect(await contract.stakeBalance(user2.address)).to.equal(reservationStake - reward);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(reservationStake);
+      expect(await contract.totalStakedByUser(user2.address)).to.equal(0);
+    });
+
+    it("Should emit ReservationExpired for each released resource", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await reserveAndExpire(contract, resourceManager, user1, user2, reservationStake);
+
+      const reward = (reservationStake * 500n) / 10_000n;
+      const tx = contract.connect(owner).releaseExpired([0, 1]);
+
+      await expect(tx).to.emit(contract, "ReservationExpired").withArgs(0, user1.address, reservationStake - reward, reward);
+      await expect(tx).to.emit(contract, "ReservationExpired").withArgs(1, user2.address, reservationStake - reward, reward);
+    });
+
+    it("Should not let a reserver that rejects ETH block the sweep", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await reserveAndExpire(contract, resourceManager, user1, user2, reservationStake);
+      await contract.connect(resourceManager).createResource("Lab D", 0, 1, user1.address, 0);
+      const RejectingReserver = await ethers.getContractFactory("RejectingReserver");
+      const rejecter = await RejectingReserver.deploy(await contract.getAddress());
+      await rejecter.reserve(3, 60, { value: reservationStake });
+      await time.increase(61);
+
+      const reward = (reservationStake * 500n) / 10_000n;
+      await expect(contract.connect(owner).releaseExpired([3, 0]))
+        .to.emit(contract, "ExpiredReservationsSwept")
+        .withArgs(owner.address, 2, reward * 2n);
+
+      expect((await contract.getResource(3)).isReserved).to.be.false;
+      expect((await contract.getResource(0)).isReserved).to.be.false;
+      expect(await contract.stakeBalance(await rejecter.getAddress())).to.equal(reservationStake - reward);
+    });
+
+    it("Should skip active, released and unknown resources", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await reserveAndExpire(contract, resourceManager, user1, user2, reservationStake);
+      await contract.connect(owner).releaseExpired([0]);
+
+      await expect(contract.connect(owner).releaseExpired([0, 2, 99]))
+        .to.not.emit(contract, "ExpiredReservationsSwept");
+      expect(await contract.connect(owner).releaseExpired.staticCall([0, 2, 99])).to.equal(0);
+      expect((await contract.getResource(2)).currentReserver).to.equal(user1.address);
+    });
+
+    it("Should let the keeper script find and sweep expired reservations", async function () {
+      const { findExpiredResourceIds, sweepExpired } = require("../scripts/keeper");
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await reserveAndExpire(contract, resourceManager, user1, user2, reservationStake);
+
+      expect(await findExpiredResourceIds(contract)).to.deep.equal([0, 1]);
+      expect(await sweepExpired(contract.connect(owner), 1)).to.equal(2);
+      expect(await findExpiredResourceIds(contract)).to.deep.equal([]);
+    });
+  });
+
+  describe("Balance Checkpoints", function () {
+    it("Should track each account's combined balance across resources", async function () {
+      const { contract, user1, user2 } = await loadFixture(deployCampusResourceNFTFixture);
+      await contract.createResource("Physics Lab A", 0, 2, user1.address, 0);
+      await contract.createResource("Textbook", 1, 5, user1.address, 0);
+
+      expect(await contract.totalBalanceOf(user1.address)).to.equal(7);
+
+      await contract.connect(user1).safeBatchTransferFrom(user1.address, user2.address, [0, 1], [1, 3], "0x");
+      expect(await contract.totalBalanceOf(user1.address)).to.equal(3);
+      expect(await contract.totalBalanceOf(user2.address)).to.equal(4);
+
+      // Self-transfers leave the total unchanged
+      await contract.connect(user2).safeTransferFrom(user2.address, user2.address, 1, 3, "0x");
+      expect(await contract.totalBalanceOf(user2.address)).to.equal(4);
+    });
+
+    it("Should return the combined balance at the end of a past block", async function () {
+      const { contract, user1, user2 } = await loadFixture(deployCampusResourceNFTFixture);
+      const mint = await (await contract.createResource("Textbook", 1, 5, user1.address, 0)).wait();
+      const transfer = await (
+        await contract.connect(user1).safeTransferFrom(user1.address, user2.address, 0, 2, "0x")
+      ).wait();
+
+      // The latest block only becomes readable once another block is mined
+      await expect(contract.getPastTotalBalance(user1.address, transfer.blockNumber))
+        .to.be.revertedWithCustomError(contract, "FutureLookup");
+      await mine();
+
+      expect(await contract.getPastTotalBalance(user1.address, mint.blockNumber - 1)).to.equal(0);
+      expect(await contract.getPastTotalBalance(user1.address, mint.blockNumber)).to.equal(5);
+      expect(await contract.getPastTotalBalance(user1.address, transfer.blockNumber)).to.equal(3);
+      expect(await contract.getPastTotalBalance(user2.address, transfer.blockNumber)).to.equal(2);
+
+    });
+  });
+
+  describe("Per-Resource Stakes", function () {
+    it("Should default to RESERVATION_STAKE and accept a custom stake", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const vanStake = ethers.parseEther("0.5");
+
+      await contract.connect(resourceManager).createResource("Textbook", 1, 5, user1.address, 0);
+      await expect(contract.connect(resourceManager).createResource("Campus Van", 3, 1, user1.address, vanStake))
+        .to.emit(contract, "ResourceStakeUpdated")
+        .withArgs(1, vanStake);
+
+      expect(await contract.getStake(0)).to.equal(reservationStake);
+      expect(await contract.getStake(1)).to.equal(vanStake);
+    });
+
+    it("Should require each resource's own stake", async function () {
+      const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const vanStake = ethers.parseEther("0.5");
+      await contract.connect(resourceManager).createResource("Campus Van", 3, 1, user1.address, vanStake);
+
+      await expect(contract.connect(user1).reserveResource(0, 3600, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "InsufficientStake")
+        .withArgs(reservationStake, vanStake);
+      await expect(contract.connect(user1).bookResource(0, (await time.latest()) + 7200, 3600, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "InsufficientStake");
+
+      await contract.connect(user2).depositStake({ value: vanStake });
+      await contract.connect(user2).reserveResourceFromBalance(0, 3600);
+
+      expect((await contract.getResource(0)).stakedAmount).to.equal(vanStake);
+      expect(await contract.stakeBalance(user2.address)).to.equal(0);
+    });
+
+    it("Should let managers change a stake without touching live reservations", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const newStake = ethers.parseEther("0.3");
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+
+      await expect(contract.connect(resourceManager).setStake(0, newStake))
+        .to.emit(contract, "ResourceStakeUpdated")
+        .withArgs(0, newStake);
+
+      expect(await contract.getStake(0)).to.equal(newStake);
+      expect((await contract.getResource(0)).stakedAmount).to.equal(reservationStake);
+      await expect(contract.connect(user1).releaseResource(0)).to.changeEtherBalance(user1, reservationStake);
+    });
+
+    it("Should reject zero stakes, unknown resources and non-managers", async function () {
+      const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+
+      await expect(contract.connect(resourceManager).setStake(0, 0))
+        .to.be.revertedWith("Stake must be greater than zero");
+      await expect(contract.connect(resourceManager).setStake(9, 1))
+        .to.be.revertedWithCustomError(contract, "ResourceDoesNotExist");
+      await expect(contract.getStake(9))
+        .to.be.revertedWithCustomError(contract, "ResourceDoesNotExist");
+      await expect(contract.connect(user1).setStake(0, 1))
+        .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
+  describe("Resource Retirement", function () {
+    it("Should block new reservations, bookings and waitlist joins", async function () {
+      const { contract, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      await contract.connect(resourceManager).createResource("Old Projector", 3, 1, user1.address, 0);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(1, 3600, { value: reservationStake });
+
+      await expect(contract.connect(resourceManager).retireResource(0))
+        .to.emit(contract, "ResourceRetired")
+        .withArgs(0);
+      await contract.connect(resourceManager).retireResource(1);
+      expect(await contract.isRetired(0)).to.be.true;
+
+      await expect(contract.connect(user1).reserveResource(0, 3600, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ResourceIsRetired")
+        .withArgs(0);
+      await expect(contract.connect(user1).bookResource(0, (await time.latest()) + 7200, 3600, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ResourceIsRetired");
+      await expect(contract.connect(user2).joinWaitlist(1, 3600, { value: reservationStake }))
+        .to.be.revertedWithCustomError(contract, "ResourceIsRetired");
+
+      // The live reservation plays out and its stake is returned
+      await expect(contract.connect(user1).releaseResource(1)).to.changeEtherBalance(user1, reservationStake);
+    });
+
+    it("Should reject retiring twice, unknown resources and non-managers", async function () {
+      const { contract, resourceManager, user1 } = await loadFixture(deployCampusResourceNFTFixture);
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+
+      await expect(contract.connect(user1).retireResource(0))
+        .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+      await expect(contract.connect(resourceManager).retireResource(9))
+        .to.be.revertedWithCustomError(contract, "ResourceDoesNotExist");
+
+      await contract.connect(resourceManager).retireResource(0);
+      await expect(contract.connect(resourceManager).retireResource(0))
+        .to.be.revertedWithCustomError(contract, "ResourceIsRetired");
+    });
+  });
+
+  describe("Late Penalties", function () {
+    async function reserveLab(contract, resourceManager, user1, reservationStake) {
+      await contract.connect(resourceManager).createResource("Lab A", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+      return (await contract.getResource(0)).reservationEnd;
+    }
+
+    it("Should default to a 1 hour grace period and 10% per hour", async function () {
+      const { contract, owner } = await loadFixture(deployCampusResourceNFTFixture);
+      const policy = await contract.getPenaltyPolicy();
+
+      expect(policy.gracePeriod).to.equal(3600);
+      expect(policy.penaltyBpsPerHour).to.equal(1000);
+      expect(policy.treasury).to.equal(owner.address);
+    });
+
+    it("Should refund the full stake within the grace period", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+
+      await time.increaseTo(reservationEnd + 3500n);
+      const tx = contract.connect(user1).releaseResource(0);
+
+      await expect(tx).to.not.emit(contract, "ReservationPenalized");
+      await expect(tx).to.changeEtherBalance(user1, reservationStake);
+    });
+
+    it("Should slash each started hour past the grace period into the treasury", async function () {
+      const { contract, owner, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+
+      // 1 hour and a bit past the grace period: two started hours
+      await time.increaseTo(reservationEnd + 3600n + 3700n);
+      const penalty = (reservationStake * 2000n) / 10_000n;
+      const tx = contract.connect(user1).releaseResource(0);
+
+      await expect(tx)
+        .to.emit(contract, "ReservationPenalized")
+        .withArgs(0, user1.address, penalty, owner.address);
+      await expect(tx)
+        .to.emit(contract, "ResourceReleased")
+        .withArgs(0, user1.address, reservationStake - penalty);
+      await expect(tx).to.changeEtherBalance(user1, reservationStake - penalty);
+
+      expect(await contract.stakeBalance(owner.address)).to.equal(penalty);
+      expect(await contract.totalStakedByUser(user1.address)).to.equal(0);
+    });
+
+    it("Should report the projected penalty", async function () {
+      const { contract, resourceManager, user1, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+
+      expect(await contract.getLatePenalty(0)).to.equal(0);
+      await time.increaseTo(reservationEnd + 3601n);
+      expect(await contract.getLatePenalty(0)).to.equal(reservationStake / 10n);
+      await time.increaseTo(reservationEnd + 3600n * 30n);
+      expect(await contract.getLatePenalty(0)).to.equal(reservationStake);
+    });
+
+    it("Should keep the keeper reward when a sweep slashes the whole stake", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+
+      await time.increaseTo(reservationEnd + 3600n * 30n);
+      const reward = (reservationStake * 500n) / 10_000n;
+      const tx = contract.connect(user2).releaseExpired([0]);
+
+      await expect(tx)
+        .to.emit(contract, "ReservationPenalized")
+        .withArgs(0, user1.address, reservationStake - reward, owner.address);
+      await expect(tx)
+        .to.emit(contract, "ReservationExpired")
+        .withArgs(0, user1.address, 0, reward);
+      await expect(tx).to.changeEtherBalance(user1, 0);
+
+      expect(await contract.stakeBalance(user2.address)).to.equal(reward);
+      expect(await contract.stakeBalance(owner.address)).to.equal(reservationStake - reward);
+    });
+
+    it("Should penalize an expired reservation cleared by the next reserver", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+
+      await time.increaseTo(reservationEnd + 3601n);
+      await expect(contract.connect(user2).reserveResource(0, 3600, { value: reservationStake }))
+        .to.emit(contract, "ReservationPenalized")
+        .withArgs(0, user1.address, reservationStake / 10n, owner.address);
+    });
+
+    it("Should let the admin update or disable the policy", async function () {
+      const { contract, owner, resourceManager, user1, user2, reservationStake } = await loadFixture(deployCampusResourceNFTFixture);
+
+      await expect(contract.connect(owner).setPenaltyPolicy(0, 0, user2.address))
+        .to.emit(contract, "PenaltyPolicyUpdated")
+        .withArgs(0, 0, user2.address);
+
+      const reservationEnd = await reserveLab(contract, resourceManager, user1, reservationStake);
+      await time.increaseTo(reservationEnd + 3600n * 5n);
+      await expect(contract.connect(user1).releaseResource(0))
+        .to.not.emit(contract, "ReservationPenalized");
+    });
+
+    it("Should reject invalid policies and non-admin callers", async function () {
+      const { contract, owner, user1 } = await loadFixture(deployCampusResourceNFTFixture);
+
+      await expect(contract.connect(owner).setPenaltyPolicy(3600, 10_001, owner.address))
+        .to.be.revertedWithCustomError(contract, "InvalidPenaltyPolicy")
+        .withArgs(10_001, owner.address);
+      await expect(contract.connect(owner).setPenaltyPolicy(3600, 1000, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(contract, "InvalidPenaltyPolicy");
+      await expect(contract.connect(user1).setPenaltyPolicy(3600, 1000, user1.address))
+        .to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+  });
+
   describe("EIP-2771 Compatibility", function () {
     it("Should support meta-transactions through trusted forwarder", async function () {
       const { contract, trustedForwarder } = await loadFixture(deployCampusResourceNFTFixture);
@@ -443,6 +1423,121 @@ describe("CampusResourceNFT", function () {
     });
   });
 
+  describe("Meta-transactions via ERC2771Forwarder", function () {
+    async function deployWithForwarderFixture() {
+      const [owner, user1, relayer] = await ethers.getSigners();
+      const reservationStake = ethers.parseEther("0.1");
+
+      const Forwarder = await ethers.getContractFactory("CampusResourceForwarder");
+      const forwarder = await Forwarder.deploy();
+
+      const CampusResourceNFT = await getCampusResourceNFTFactory();
+      const contract = await CampusResourceNFT.deploy(
+        await forwarder.getAddress(),
+        reservationStake,
+        "https://api.campusresources.com/metadata/{id}.json"
+      );
+
+      await contract.createResource("Lab A", 0, 1, owner.address, 0);
+
+      return { contract, forwarder, owner, user1, relayer, reservationStake };
+    }
+
+    // Builds and signs an EIP-712 ForwardRequest the same way utils/gasless.ts does
+    async function signForwardRequest(forwarder, signer, to, data, value = 0n) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const request = {
+        from: signer.address,
+        to,
+        value,
+        gas: 300000n,
+        nonce: await forwarder.nonces(signer.address),
+        deadline: BigInt(await time.latest()) + 3600n,
+        data,
+      };
+      const signature = await signer.signTypedData(
+        {
+          name: "CampusResourceForwarder",
+          version: "1",
+          chainId,
+          verifyingContract: await forwarder.getAddress(),
+        },
+        {
+          ForwardRequest: [
+            { name: "from", type: "address" },
+            { name: "to", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "gas", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint48" },
+            { name: "data", type: "bytes" },
+          ],
+        },
+        request
+      );
+      const { nonce, ...requestData } = request;
+      return { ...requestData, signature };
+    }
+
+    it("Should reserve on behalf of the signer when relayed", async function () {
+      const { contract, forwarder, user1, relayer, reservationStake } = await loadFixture(deployWithForwarderFixture);
+      
+      const data = contract.interface.encodeFunctionData("reserveResource", [0, 3600]);
+      const request = await signForwardRequest(forwarder, user1, await contract.getAddress(), data, reservationStake);
+
+      expect(await forwarder.verify(request)).to.be.true;
+
+      await expect(forwarder.connect(relayer).execute(request, { value: reservationStake }))
+        .to.emit(contract, "ResourceReserved");
+
+      expect(await contract.getCurrentReserver(0)).to.equal(user1.address);
+    });
+
+    it("Should release without the reserver paying gas", async function () {
+      const { contract, forwarder, user1, relayer, reservationStake } = await loadFixture(deployWithForwarderFixture);
+      
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+
+      const data = contract.interface.encodeFunctionData("releaseResource", [0]);
+      const request = await signForwardRequest(forwarder, user1, await contract.getAddress(), data);
+
+      const balanceBefore = await ethers.provider.getBalance(user1.address);
+      await forwarder.connect(relayer).execute(request);
+
+      expect(await contract.isResourceReserved(0)).to.be.false;
+      expect(await ethers.provider.getBalance(user1.address)).to.equal(balanceBefore + reservationStake);
+    });
+
+    it("Should reserve from a sponsored balance with no value attached", async function () {
+      const { contract, forwarder, owner, user1, relayer, reservationStake } = await loadFixture(deployWithForwarderFixture);
+      
+      await contract.connect(owner).depositStakeFor(user1.address, { value: reservationStake });
+
+      const data = contract.interface.encodeFunctionData("reserveResourceFromBalance", [0, 3600]);
+      const request = await signForwardRequest(forwarder, user1, await contract.getAddress(), data);
+
+      const balanceBefore = await ethers.provider.getBalance(user1.address);
+      await expect(forwarder.connect(relayer).execute(request))
+        .to.emit(contract, "ResourceReserved");
+
+      expect(await contract.getCurrentReserver(0)).to.equal(user1.address);
+      expect(await contract.stakeBalance(user1.address)).to.equal(0);
+      expect(await ethers.provider.getBalance(user1.address)).to.equal(balanceBefore);
+    });
+
+    it("Should reject a request signed by someone else", async function () {
+      const { contract, forwarder, user1, relayer, reservationStake } = await loadFixture(deployWithForwarderFixture);
+      
+      await contract.connect(user1).reserveResource(0, 3600, { value: reservationStake });
+
+      const data = contract.interface.encodeFunctionData("releaseResource", [0]);
+      const request = await signForwardRequest(forwarder, relayer, await contract.getAddress(), data);
+
+      await expect(forwarder.connect(relayer).execute({ ...request, from: user1.address }))
+        .to.be.revertedWithCustomError(forwarder, "ERC2771ForwarderInvalidSigner");
+    });
+  });
+
   describe("Access Control", function () {
     it("Should allow admin to grant resource manager role", async function () {
       const { contract, owner, user1, RESOURCE_MANAGER_ROLE } = await loadFixture(deployCampusResourceNFTFixture);
@@ -452,13 +1547,33 @@ describe("CampusResourceNFT", function () {
       expect(await contract.hasRole(RESOURCE_MANAGER_ROLE, user1.address)).to.be.true;
     });
 
+    it("Should allow admin to revoke resource manager role", async function () {
+      const { contract, owner, resourceManager, user1, RESOURCE_MANAGER_ROLE } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(contract.connect(owner).revokeRole(RESOURCE_MANAGER_ROLE, resourceManager.address))
+        .to.emit(contract, "RoleRevoked")
+        .withArgs(RESOURCE_MANAGER_ROLE, resourceManager.address, owner.address);
+      
+      await expect(
+        contract.connect(resourceManager).createResource("New Lab", 0, 1, user1.address, 0)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
+    it("Should not allow non-admins to grant roles", async function () {
+      const { contract, resourceManager, user1, RESOURCE_MANAGER_ROLE } = await loadFixture(deployCampusResourceNFTFixture);
+      
+      await expect(
+        contract.connect(resourceManager).grantRole(RESOURCE_MANAGER_ROLE, user1.address)
+      ).to.be.revertedWithCustomError(contract, "AccessControlUnauthorizedAccount");
+    });
+
     it("Should allow resource manager to create resources", async function () {
       const { contract, owner, user1, user2, RESOURCE_MANAGER_ROLE } = await loadFixture(deployCampusResourceNFTFixture);
       
       await contract.connect(owner).grantRole(RESOURCE_MANAGER_ROLE, user1.address);
       
       await expect(
-        contract.connect(user1).createResource("New Lab", 0, 1, user2.address)
+        contract.connect(user1).createResource("New Lab", 0, 1, user2.address, 0)
       ).to.not.be.reverted;
     });
   });
@@ -0,0 +1,29 @@
+const fs = require("fs");
+const { expect } = require("chai");
+const { CONTRACTS, renderContractConfig, getOutputPath } = require("../scripts/generate-contract-config");
+
+describe("Generated contract config", function () {
+  for (const { name } of CONTRACTS) {
+    it(`Should match the compiled ${name} artifact`, async function () {
+      const expected = await renderContractConfig(name);
+      const actual = fs.readFileSync(getOutputPath(name), "utf8");
+
+      expect(actual).to.equal(
+        expected,
+        `config/generated/${name}.ts is out of date. Run \`npm run generate:contract\`.`
+      );
+    });
+  }
+
+  it("Should name every ResourceCategory in config/contract.ts", async function () {
+    const contents = await renderContractConfig("CampusResourceNFT");
+    const [, enumBody] = contents.match(/export enum ResourceCategory \{\n([^}]*)\}/);
+    const categories = [...enumBody.matchAll(/^  (\w+) = \d+,?$/gm)].map((match) => match[1]);
+    const contractConfig = fs.readFileSync(`${__dirname}/../config/contract.ts`, "utf8");
+
+    expect(categories).to.not.be.empty;
+    for (const category of categories) {
+      expect(contractConfig).to.include(`[ResourceCategory.${category}]:`);
+    }
+  });
+});
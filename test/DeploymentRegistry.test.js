@@ -0,0 +1,104 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { expect } = require("chai");
+const hre = require("hardhat");
+const { computeAbiHash, readRegistry, recordDeployment } = require("../scripts/deployment-registry");
+require("./helpers/typescript");
+const { CONTRACT_ADDRESSES, DEPLOYMENTS, getOutdatedDeployment, getOutdatedDeployments } = require("../config/contract");
+const { CAMPUS_RESOURCE_NFT_ABI_HASH } = require("../config/generated/CampusResourceNFT");
+
+describe("Deployment registry", function () {
+  let registryPath;
+
+  beforeEach(function () {
+    registryPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "registry-")), "registry.json");
+  });
+
+  afterEach(function () {
+    fs.rmSync(path.dirname(registryPath), { recursive: true, force: true });
+  });
+
+  it("Should treat a missing registry as empty", function () {
+    expect(readRegistry(registryPath)).to.deep.equal({});
+  });
+
+  it("Should key entries by chain ID and replace earlier deployments", function () {
+    recordDeployment({ chainId: 31337, contractAddress: "0x01", blockNumber: 2 }, registryPath);
+    recordDeployment({ chainId: 11155111, contractAddress: "0x02", blockNumber: 50 }, registryPath);
+    recordDeployment({ chainId: 31337, contractAddress: "0x03", blockNumber: 9 }, registryPath);
+
+    const registry = readRegistry(registryPath);
+    expect(Object.keys(registry)).to.have.members(["31337", "11155111"]);
+    expect(registry["31337"]).to.deep.equal({ chainId: 31337, contractAddress: "0x03", blockNumber: 9 });
+    expect(registry["11155111"].contractAddress).to.equal("0x02");
+  });
+
+  it("Should reject entries without a chain ID", function () {
+    expect(() => recordDeployment({ contractAddress: "0x01" }, registryPath)).to.throw("chainId");
+  });
+
+  it("Should hash the ABI deterministically", async function () {
+    const { abi } = await hre.artifacts.readArtifact("CampusResourceNFT");
+    const { abi: forwarderAbi } = await hre.artifacts.readArtifact("CampusResourceForwarder");
+
+    expect(computeAbiHash(abi)).to.match(/^0x[0-9a-f]{64}$/);
+    expect(computeAbiHash(abi)).to.equal(computeAbiHash(JSON.parse(JSON.stringify(abi))));
+    expect(computeAbiHash(abi)).to.not.equal(computeAbiHash(forwarderAbi));
+  });
+
+  it("Should generate the ABI hash that deployments record", async function () {
+    const { abi } = await hre.artifacts.readArtifact("CampusResourceNFT");
+
+    expect(CAMPUS_RESOURCE_NFT_ABI_HASH).to.equal(computeAbiHash(abi));
+  });
+
+  it("Should flag deployments built from a different ABI", function () {
+    const saved = { ...DEPLOYMENTS };
+    try {
+      DEPLOYMENTS["1"] = { network: "mainnet", chainId: 1, abiHash: CAMPUS_RESOURCE_NFT_ABI_HASH };
+      DEPLOYMENTS["2"] = { network: "old", chainId: 2, abiHash: hre.ethers.id("[]") };
+
+      const outdated = getOutdatedDeployments().map((deployment) => deployment.chainId);
+      expect(outdated).to.include(2);
+      expect(outdated).to.not.include(1);
+    } finally {
+      delete DEPLOYMENTS["1"];
+      delete DEPLOYMENTS["2"];
+      Object.assign(DEPLOYMENTS, saved);
+    }
+  });
+
+  it("Should flag the connected chain only when the app uses its outdated entry", function () {
+    const saved = { entry: DEPLOYMENTS["31337"], address: CONTRACT_ADDRESSES[31337] };
+    const contractAddress = hre.ethers.Wallet.createRandom().address;
+    try {
+      DEPLOYMENTS["31337"] = { network: "localhost", chainId: 31337, contractAddress, abiHash: hre.ethers.id("[]") };
+      CONTRACT_ADDRESSES[31337] = contractAddress;
+      expect(getOutdatedDeployment(31337)?.contractAddress).to.equal(contractAddress);
+
+      // An env override points the app at another contract than the registry's
+      CONTRACT_ADDRESSES[31337] = hre.ethers.ZeroAddress;
+      expect(getOutdatedDeployment(31337)).to.be.undefined;
+
+      DEPLOYMENTS["31337"].abiHash = CAMPUS_RESOURCE_NFT_ABI_HASH;
+      CONTRACT_ADDRESSES[31337] = contractAddress;
+      expect(getOutdatedDeployment(31337)).to.be.undefined;
+    } finally {
+      if (saved.entry === undefined) {
+        delete DEPLOYMENTS["31337"];
+      } else {
+        DEPLOYMENTS["31337"] = saved.entry;
+      }
+      CONTRACT_ADDRESSES[31337] = saved.address;
+    }
+  });
+
+  it("Should only contain valid entries in the committed registry", function () {
+    for (const [chainId, deployment] of Object.entries(readRegistry())) {
+      expect(deployment.chainId).to.equal(Number(chainId));
+      expect(hre.ethers.isAddress(deployment.contractAddress)).to.be.true;
+      expect(deployment.blockNumber).to.be.a("number");
+    }
+  });
+});
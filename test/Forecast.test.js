@@ -0,0 +1,134 @@
+const { expect } = require("chai");
+require("./helpers/typescript");
+const { computeAvailabilityForecast } = require("../utils/forecast");
+const { DEFAULT_RESERVATION_DURATION } = require("../config/contract");
+
+describe("Availability forecast", function () {
+  const HOUR = 3600;
+  const DAY = 24 * HOUR;
+  const NOW = 1_700_000_000;
+  const ALICE = "0x00000000000000000000000000000000000A11CE";
+
+  // Usage history as fetchUsageHistory returns it
+  const history = (resourceId, timeline = [], overrides = {}) => ({
+    resourceId,
+    name: `Resource ${resourceId}`,
+    category: 0,
+    createdAt: BigInt(NOW - 30 * DAY),
+    timeline,
+    retired: false,
+    waitlistLength: 0,
+    bookings: [],
+    ...overrides,
+  });
+
+  const reservation = (start, end, outcome = "released", overrides = {}) => ({
+    resourceId: 0,
+    reserver: ALICE,
+    reservationStart: BigInt(start),
+    reservationEnd: BigInt(end),
+    endedAt: outcome === "active" ? undefined : BigInt(end),
+    stakeAmount: 10n ** 17n,
+    outcome,
+    transactionHash: "0x",
+    ...overrides,
+  });
+
+  // First slot a recommendation can start at: the next local clock hour
+  const nextLocalHour = (now) => {
+    const date = new Date(now * 1000);
+    date.setMinutes(0, 0, 0);
+    date.setHours(date.getHours() + 1);
+    return Math.floor(date.getTime() / 1000);
+  };
+
+  describe("Empty history", function () {
+    it("Should forecast nothing without any resources", function () {
+      const forecast = computeAvailabilityForecast([], { now: NOW });
+
+      expect(forecast.freeUp).to.be.empty;
+      expect(forecast.recommendations).to.be.empty;
+      expect(forecast.contention.size).to.equal(0);
+      expect(forecast.overallContention).to.have.lengthOf(7 * 24);
+      expect(forecast.overallContention.every((chance) => chance === 0)).to.be.true;
+      expect(forecast.generatedAt).to.equal(NOW);
+    });
+
+    it("Should leave out retired resources", function () {
+      const forecast = computeAvailabilityForecast([history(0, [], { retired: true })], { now: NOW });
+
+      expect(forecast.contention.has(0)).to.be.false;
+      expect(forecast.recommendations).to.be.empty;
+    });
+  });
+
+  describe("Never-reserved resources", function () {
+    it("Should recommend the next hour for the default duration with low confidence", function () {
+      const forecast = computeAvailabilityForecast([history(0)], { now: NOW });
+      const [recommendation] = forecast.recommendations;
+
+      expect(forecast.freeUp).to.be.empty;
+      expect(forecast.contention.get(0).every((chance) => chance === 0)).to.be.true;
+      expect(recommendation.start).to.equal(nextLocalHour(NOW));
+      expect(recommendation.duration).to.equal(DEFAULT_RESERVATION_DURATION);
+      expect(recommendation.contention).to.equal(0);
+      expect(recommendation.nextSlotContention).to.equal(0);
+      expect(recommendation.confidence).to.equal("low");
+    });
+
+    it("Should cap the recommended duration at the maximum", function () {
+      const [recommendation] = computeAvailabilityForecast([history(0)], { now: NOW, maxDuration: 4 * HOUR }).recommendations;
+
+      expect(recommendation.duration).to.equal(4 * HOUR);
+    });
+
+    it("Should recommend a slot clear of an active booking", function () {
+      const booking = { bookingId: 0n, booker: ALICE, start: BigInt(NOW), end: BigInt(NOW + 2 * DAY) };
+      const [recommendation] = computeAvailabilityForecast([history(0, [], { bookings: [booking] })], { now: NOW }).recommendations;
+
+      expect(recommendation.start).to.be.at.least(NOW + 2 * DAY);
+    });
+  });
+
+  describe("Single reservation", function () {
+    it("Should expect a live reservation to run its full term without past reservations", function () {
+      const start = NOW - HOUR;
+      const live = history(0, [reservation(start, start + 4 * HOUR, "active")], { waitlistLength: 2 });
+      const forecast = computeAvailabilityForecast([live], { now: NOW });
+      const [freeUp] = forecast.freeUp;
+
+      expect(freeUp.holdRatio).to.equal(1);
+      expect(freeUp.expectedReleaseAt).to.equal(start + 4 * HOUR);
+      expect(freeUp.expectedFreeAt).to.equal(start + 4 * HOUR + 2 * DEFAULT_RESERVATION_DURATION);
+      expect(freeUp.sampleSize).to.equal(0);
+      expect(freeUp.confidence).to.equal("low");
+      expect(forecast.recommendations[0].start).to.be.at.least(start + 4 * HOUR);
+    });
+
+    it("Should size the recommendation to one ended reservation's hold", function () {
+      const start = NOW - 3 * DAY;
+      const released = reservation(start, start + 4 * HOUR, "released", { endedAt: BigInt(start + 90 * 60) });
+      const forecast = computeAvailabilityForecast([history(0, [released])], { now: NOW });
+      const [recommendation] = forecast.recommendations;
+
+      expect(forecast.freeUp).to.be.empty;
+      expect(recommendation.duration).to.equal(2 * HOUR);
+      expect(recommendation.confidence).to.equal("low");
+      expect(forecast.contention.get(0).some((chance) => chance > 0)).to.be.true;
+    });
+
+    it("Should expect a live reservation to be held as long as the one ended before it", function () {
+      const past = NOW - 3 * DAY;
+      const start = NOW - 30 * 60;
+      const timeline = [
+        reservation(start, start + 4 * HOUR, "active"),
+        reservation(past, past + 4 * HOUR, "released", { endedAt: BigInt(past + 2 * HOUR) }),
+      ];
+      const [freeUp] = computeAvailabilityForecast([history(0, timeline)], { now: NOW }).freeUp;
+
+      expect(freeUp.holdRatio).to.equal(0.5);
+      expect(freeUp.expectedReleaseAt).to.equal(start + 2 * HOUR);
+      expect(freeUp.sampleSize).to.equal(1);
+    });
+  });
+});
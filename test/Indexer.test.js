@@ -0,0 +1,345 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { time, mine, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { createPublicClient, custom } = require("viem");
+const { hardhat, sepolia } = require("viem/chains");
+const { getCampusResourceNFTFactory } = require("../scripts/nft-libraries");
+require("./helpers/typescript");
+const {
+  fetchContractEvents,
+  fetchIncomingTransfers,
+  fetchResourceTimeline,
+  fetchUserReservations,
+  RESCAN_BLOCKS,
+  scanContractEvents
+} = require("../utils/indexer");
+const { CONTRACT_ADDRESSES, DEPLOYMENTS } = require("../config/contract");
+
+describe("Event indexer", function () {
+  const HOUR = 3600;
+
+  // One lab owned by user1; the indexer reads the chain through a viem client
+  async function deployIndexerFixture() {
+    const [owner, user1, user2, keeper, trustedForwarder] = await ethers.getSigners();
+
+    const reservationStake = ethers.parseEther("0.1");
+    const CampusResourceNFT = await getCampusResourceNFTFactory();
+    const contract = await CampusResourceNFT.deploy(
+      trustedForwarder.address,
+      reservationStake,
+      "https://api.campusresources.com/metadata/{id}.json"
+    );
+    await contract.createResource("Lab A", 0, 1, user1.address, 0);
+
+    // No block number caching: tests mine blocks between scans
+    const client = createPublicClient({ chain: hardhat, transport: custom(network.provider), cacheTime: 0 });
+    const address = await contract.getAddress();
+    const timeline = (resourceId = 0) => fetchResourceTimeline(client, address, resourceId, { fromBlock: 0n });
+
+    return { contract, client, address, timeline, owner, user1, user2, keeper, reservationStake };
+  }
+
+  describe("Expired reservations", function () {
+    it("Should report the refund and keeper reward of a swept reservation", async function () {
+      const { contract, timeline, user1, keeper, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await time.increase(HOUR + 1);
+      await contract.connect(keeper).releaseExpired([0]);
+
+      const reward = (reservationStake * 500n) / 10_000n;
+      const [entry] = await timeline();
+      expect(entry.outcome).to.equal("expired");
+      expect(entry.stakeReturned).to.equal(reservationStake - reward);
+      expect(entry.keeperReward).to.equal(reward);
+    });
+
+    it("Should report no keeper reward when the next reserver clears it", async function () {
+      const { contract, timeline, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await time.increase(HOUR + 1);
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+
+      const [current, expired] = await timeline();
+      expect(current.reserver).to.equal(user2.address);
+      expect(current.outcome).to.equal("active");
+      expect(expired.outcome).to.equal("expired");
+      expect(expired.stakeReturned).to.equal(reservationStake);
+      expect(expired.keeperReward).to.equal(0n);
+    });
+
+    it("Should report the late penalty slashed from a swept reservation", async function () {
+      const { contract, timeline, user1, keeper, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      // Default policy: one hour of grace, then 10% per started hour
+      await time.increase(HOUR + HOUR + HOUR + 100);
+      await contract.connect(keeper).releaseExpired([0]);
+
+      const reward = (reservationStake * 500n) / 10_000n;
+      const penalty = (reservationStake * 2_000n) / 10_000n;
+      const [entry] = await timeline();
+      expect(entry.outcome).to.equal("expired");
+      expect(entry.penalty).to.equal(penalty);
+      expect(entry.keeperReward).to.equal(reward);
+      expect(entry.stakeReturned).to.equal(reservationStake - reward - penalty);
+    });
+  });
+
+  describe("Released reservations", function () {
+    it("Should report no penalty for an on-time release", async function () {
+      const { contract, timeline, user1, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).releaseResource(0);
+
+      const [entry] = await timeline();
+      expect(entry.outcome).to.equal("released");
+      expect(entry.penalty).to.be.undefined;
+      expect(entry.stakeReturned).to.equal(reservationStake);
+    });
+
+    it("Should report the late penalty and the reduced refund of a late release", async function () {
+      const { contract, timeline, user1, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await time.increase(HOUR + HOUR + HOUR + 100);
+      await contract.connect(user1).releaseResource(0);
+
+      const penalty = (reservationStake * 2_000n) / 10_000n;
+      const [entry] = await timeline();
+      expect(entry.outcome).to.equal("released");
+      expect(entry.penalty).to.equal(penalty);
+      expect(entry.stakeReturned).to.equal(reservationStake - penalty);
+    });
+  });
+
+  describe("Handovers", function () {
+    it("Should report the previous reserver's refund and the recipient's stake", async function () {
+      const { contract, timeline, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).transferReservation(0, user2.address);
+      await contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake * 2n });
+
+      const [current, handedOver] = await timeline();
+      expect(current.reserver).to.equal(user2.address);
+      expect(current.outcome).to.equal("active");
+      expect(current.stakeAmount).to.equal(reservationStake * 2n);
+      expect(handedOver.reserver).to.equal(user1.address);
+      expect(handedOver.outcome).to.equal("transferred");
+      expect(handedOver.stakeReturned).to.equal(reservationStake);
+    });
+  });
+
+  describe("Log ordering", function () {
+    // Client whose getLogs pages come back newest first
+    const reversingClient = (client) => ({
+      ...client,
+      getContractEvents: async (args) => (await client.getContractEvents(args)).reverse(),
+    });
+
+    it("Should return logs in chain order across block range pages", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.createResource("Lab B", 0, 1, user1.address, 0);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user2).reserveResource(1, HOUR, { value: reservationStake });
+
+      const logs = await fetchContractEvents(reversingClient(client), address, { fromBlock: 0n, blockRange: 2n });
+      const positions = logs.map((log) => [log.blockNumber, log.logIndex]);
+      const sorted = [...positions].sort(([blockA, indexA], [blockB, indexB]) =>
+        blockA === blockB ? indexA - indexB : blockA < blockB ? -1 : 1
+      );
+      expect(positions).to.deep.equal(sorted);
+      expect(logs.map((log) => log.eventName)).to.include.members(["ResourceCreated", "ResourceReserved"]);
+    });
+
+    it("Should rebuild the same timeline from out-of-order pages", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await time.increase(HOUR + 1);
+      // Clearing the expired reservation and reserving again happen in one transaction
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user2).releaseResource(0);
+
+      const options = { fromBlock: 0n, blockRange: 1n };
+      const ordered = await fetchResourceTimeline(client, address, 0, options);
+      const shuffled = await fetchResourceTimeline(reversingClient(client), address, 0, options);
+      expect(shuffled).to.deep.equal(ordered);
+      expect(shuffled.map((entry) => entry.outcome)).to.deep.equal(["released", "expired"]);
+    });
+
+    it("Should extend an earlier scan with only its last blocks and the ones after it", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await mine(Number(RESCAN_BLOCKS));
+      const first = await scanContractEvents(client, address, { fromBlock: 0n });
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).releaseResource(0);
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+
+      const requested = [];
+      const recordingClient = {
+        ...client,
+        getContractEvents: (args) => {
+          requested.push(args.fromBlock);
+          return client.getContractEvents(args);
+        },
+      };
+      const extended = await scanContractEvents(recordingClient, address, { fromBlock: 0n }, first);
+      const full = await fetchContractEvents(client, address, { fromBlock: 0n });
+
+      expect(requested).to.deep.equal([first.toBlock + 1n - RESCAN_BLOCKS]);
+      expect(extended.toBlock).to.equal(BigInt(await ethers.provider.getBlockNumber()));
+      expect(extended.logs.map((log) => log.transactionHash)).to.deep.equal(full.map((log) => log.transactionHash));
+    });
+
+    it("Should drop logs from reverted blocks when extending a scan", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      const snapshot = await network.provider.send("evm_snapshot");
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      const first = await scanContractEvents(client, address, { fromBlock: 0n });
+
+      await network.provider.send("evm_revert", [snapshot]);
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+      const extended = await scanContractEvents(client, address, { fromBlock: 0n }, first);
+
+      const reservers = extended.logs
+        .filter((log) => log.eventName === "ResourceReserved")
+        .map((log) => log.args.reserver);
+      expect(reservers).to.deep.equal([user2.address]);
+    });
+
+    it("Should rescan when the earlier scan started at another block", async function () {
+      const { contract, client, address, user1, reservationStake } = await loadFixture(deployIndexerFixture);
+      const first = await scanContractEvents(client, address, { fromBlock: 1n });
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+
+      const rescanned = await scanContractEvents(client, address, { fromBlock: 0n }, first);
+      expect(rescanned.fromBlock).to.equal(0n);
+      expect(rescanned.logs.map((log) => log.eventName)).to.include.members(["ResourceCreated", "ResourceReserved"]);
+    });
+
+    it("Should reject an empty block range", async function () {
+      const { client, address } = await loadFixture(deployIndexerFixture);
+      let error;
+      try {
+        await fetchContractEvents(client, address, { fromBlock: 0n, blockRange: 0n });
+      } catch (err) {
+        error = err;
+      }
+      expect(error?.message).to.equal("blockRange must be greater than zero");
+    });
+  });
+
+  describe("Handover replay", function () {
+    it("Should list an offer for the recipient until it is accepted", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).transferReservation(0, user2.address);
+
+      const offered = await fetchIncomingTransfers(client, address, user2.address, { fromBlock: 0n });
+      expect(offered).to.have.lengthOf(1);
+      expect(offered[0].from).to.equal(user1.address);
+      expect(offered[0].stakeAmount).to.equal(reservationStake);
+
+      await contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake });
+      expect(await fetchIncomingTransfers(client, address, user2.address, { fromBlock: 0n })).to.be.empty;
+    });
+
+    it("Should move the open reservation to the recipient", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).transferReservation(0, user2.address);
+      await contract.connect(user2).acceptReservationTransfer(0, { value: reservationStake });
+
+      const [reservation] = await fetchUserReservations(client, address, user2.address, { fromBlock: 0n });
+      expect(reservation.resourceId).to.equal(0);
+      expect(reservation.resourceName).to.equal("Lab A");
+      expect(reservation.reservationEnd).to.equal((await contract.getResource(0)).reservationEnd);
+      expect(await fetchUserReservations(client, address, user1.address, { fromBlock: 0n })).to.be.empty;
+    });
+
+    it("Should drop an offer once the reservation is released", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).transferReservation(0, user2.address);
+      await contract.connect(user1).releaseResource(0);
+
+      expect(await fetchIncomingTransfers(client, address, user2.address, { fromBlock: 0n })).to.be.empty;
+    });
+  });
+
+  describe("Reorgs", function () {
+    it("Should drop reservations from reverted blocks when re-indexed", async function () {
+      const { contract, client, address, timeline, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      const snapshot = await network.provider.send("evm_snapshot");
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      expect(await fetchUserReservations(client, address, user1.address, { fromBlock: 0n })).to.have.lengthOf(1);
+
+      // The reservation is replaced by another wallet's on the new chain
+      await network.provider.send("evm_revert", [snapshot]);
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+
+      expect(await fetchUserReservations(client, address, user1.address, { fromBlock: 0n })).to.be.empty;
+      const entries = await timeline();
+      expect(entries).to.have.lengthOf(1);
+      expect(entries[0].reserver).to.equal(user2.address);
+    });
+  });
+
+  describe("Deploy block", function () {
+    // Point the registry and address book at the fixture's contract, restoring them afterwards
+    let savedDeployment;
+    let savedAddress;
+
+    beforeEach(function () {
+      savedDeployment = DEPLOYMENTS["31337"];
+      savedAddress = CONTRACT_ADDRESSES[31337];
+    });
+
+    afterEach(function () {
+      if (savedDeployment === undefined) {
+        delete DEPLOYMENTS["31337"];
+      } else {
+        DEPLOYMENTS["31337"] = savedDeployment;
+      }
+      CONTRACT_ADDRESSES[31337] = savedAddress;
+    });
+
+    const register = (contractAddress, blockNumber) => {
+      DEPLOYMENTS["31337"] = { ...savedDeployment, chainId: 31337, contractAddress, blockNumber };
+      CONTRACT_ADDRESSES[31337] = contractAddress;
+    };
+
+    it("Should start scanning at the registry's deploy block", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await contract.connect(user1).releaseResource(0);
+      await mine();
+      register(address, await ethers.provider.getBlockNumber());
+      await contract.connect(user2).reserveResource(0, HOUR, { value: reservationStake });
+
+      const logs = await fetchContractEvents(client, address);
+      expect(logs.map((log) => log.eventName)).to.deep.equal(["ResourceReserved"]);
+      expect(logs[0].args.reserver).to.equal(user2.address);
+    });
+
+    it("Should scan from genesis when the registry describes another contract", async function () {
+      const { contract, client, address, user1, user2, reservationStake } = await loadFixture(deployIndexerFixture);
+      await contract.connect(user1).reserveResource(0, HOUR, { value: reservationStake });
+      await mine();
+      register(user2.address, await ethers.provider.getBlockNumber());
+      CONTRACT_ADDRESSES[31337] = address;
+
+      const logs = await fetchContractEvents(client, address);
+      expect(logs.map((log) => log.eventName)).to.include.members(["ResourceCreated", "ResourceReserved"]);
+    });
+
+    it("Should refuse to scan a public chain from genesis", async function () {
+      const { client, address } = await loadFixture(deployIndexerFixture);
+      const sepoliaClient = { ...client, chain: sepolia };
+      let error;
+      try {
+        await fetchContractEvents(sepoliaClient, address);
+      } catch (err) {
+        error = err;
+      }
+      expect(error?.message).to.match(/No deploy block known .* on chain 11155111/);
+    });
+  });
+});
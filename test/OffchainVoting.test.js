@@ -0,0 +1,255 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { mine, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { JsonRpcServer } = require("hardhat/internal/hardhat-network/jsonrpc/server");
+const { createPublicClient, custom } = require("viem");
+const { hardhat } = require("viem/chains");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { getCampusResourceNFTFactory } = require("../scripts/nft-libraries");
+require("./helpers/typescript");
+const { BALLOT_TYPES, getBallotDomain, tallyBallots, verifyBallotSignature } = require("../utils/offchainVoting");
+const { BallotError, getStoredBallots, recordBallot } = require("../utils/ballotStore");
+const { GOVERNOR_ADDRESSES } = require("../utils/governance");
+
+describe("Off-chain voting", function () {
+  const VOTING_PERIOD = 3 * 24 * 60 * 60;
+  const CHAIN_ID = 31337;
+
+  // holder1 owns 3 tokens, holder2 owns 2, outsider none; proposal 0 retires the lab
+  async function deployVotingFixture() {
+    const [owner, holder1, holder2, outsider, trustedForwarder] = await ethers.getSigners();
+
+    const CampusResourceNFT = await getCampusResourceNFTFactory();
+    const token = await CampusResourceNFT.deploy(
+      trustedForwarder.address,
+      ethers.parseEther("0.1"),
+      "https://api.campusresources.com/metadata/{id}.json"
+    );
+    const CampusResourceGovernor = await ethers.getContractFactory("CampusResourceGovernor");
+    const governor = await CampusResourceGovernor.deploy(await token.getAddress(), VOTING_PERIOD, 3);
+
+    await token.createResource("Physics Lab A", 0, 1, holder1.address, 0);
+    await token.createResource("Textbook", 1, 4, holder1.address, 0);
+    await token.connect(holder1).safeTransferFrom(holder1.address, holder2.address, 1, 2, "0x");
+    await governor.connect(holder1).proposeRetirement(0, "Lab is being renovated");
+    await governor.connect(holder2).proposeRetirement(1, "Textbook is out of print");
+    await mine();
+
+    const client = createPublicClient({ chain: hardhat, transport: custom(network.provider), cacheTime: 0 });
+    const governorAddress = await governor.getAddress();
+    const proposal = await governor.getProposal(0);
+
+    // Sign a ballot the way the browser does (utils/offchainVoting signBallot)
+    const sign = async (signer, support, overrides = {}) => {
+      const message = {
+        proposalId: proposal.proposalId,
+        support,
+        snapshotBlock: proposal.snapshotBlock,
+        ...overrides.message,
+      };
+      const domain = getBallotDomain(overrides.chainId ?? CHAIN_ID, governorAddress);
+      const signature = await signer.signTypedData(domain, { Ballot: [...BALLOT_TYPES.Ballot] }, message);
+      return { voter: overrides.voter ?? signer.address, ...message, signature };
+    };
+
+    const tally = (ballots) => tallyBallots(client, CHAIN_ID, governorAddress, toProposal(proposal), ballots);
+
+    return { token, governor, governorAddress, client, proposal, sign, tally, owner, holder1, holder2, outsider };
+  }
+
+  // getProposal result as the plain object utils/offchainVoting expects
+  const toProposal = (proposal) => ({
+    proposalId: proposal.proposalId,
+    snapshotBlock: proposal.snapshotBlock,
+    voteEnd: proposal.voteEnd,
+  });
+
+  describe("Signature verification", function () {
+    it("Should accept a ballot signed by the voter", async function () {
+      const { client, governorAddress, sign, holder1 } = await loadFixture(deployVotingFixture);
+      const ballot = await sign(holder1, true);
+
+      expect(await verifyBallotSignature(client, CHAIN_ID, governorAddress, ballot)).to.equal(true);
+    });
+
+    it("Should reject a ballot signed by someone else or altered after signing", async function () {
+      const { client, governorAddress, sign, holder1, outsider } = await loadFixture(deployVotingFixture);
+      const forged = await sign(outsider, true, { voter: holder1.address });
+      const altered = { ...(await sign(holder1, true)), support: false };
+
+      expect(await verifyBallotSignature(client, CHAIN_ID, governorAddress, forged)).to.equal(false);
+      expect(await verifyBallotSignature(client, CHAIN_ID, governorAddress, altered)).to.equal(false);
+    });
+
+    it("Should reject a ballot signed for another chain or governor", async function () {
+      const { client, governorAddress, sign, holder1, outsider } = await loadFixture(deployVotingFixture);
+      const otherChain = await sign(holder1, true, { chainId: 1 });
+      const ballot = await sign(holder1, true);
+
+      expect(await verifyBallotSignature(client, CHAIN_ID, governorAddress, otherChain)).to.equal(false);
+      expect(await verifyBallotSignature(client, CHAIN_ID, outsider.address, ballot)).to.equal(false);
+    });
+  });
+
+  describe("Tally", function () {
+    it("Should weight valid ballots by the voters' balances", async function () {
+      const { sign, tally, holder1, holder2 } = await loadFixture(deployVotingFixture);
+      const result = await tally([await sign(holder1, true), await sign(holder2, false)]);
+
+      expect(result.forVotes).to.equal(3n);
+      expect(result.againstVotes).to.equal(2n);
+      expect(result.counted.map((ballot) => ballot.weight)).to.deep.equal([3n, 2n]);
+      expect(result.rejected).to.equal(0);
+    });
+
+    it("Should leave out bad signatures and ballots for another proposal, snapshot or chain", async function () {
+      const { proposal, sign, tally, holder1, holder2, outsider } = await loadFixture(deployVotingFixture);
+      const result = await tally([
+        await sign(outsider, true, { voter: holder1.address }),
+        await sign(holder1, true, { message: { proposalId: 1n } }),
+        await sign(holder1, true, { message: { snapshotBlock: proposal.snapshotBlock - 1n } }),
+        await sign(holder2, true, { chainId: 1 }),
+      ]);
+
+      expect(result.forVotes).to.equal(0n);
+      expect(result.counted).to.be.empty;
+      expect(result.rejected).to.equal(4);
+    });
+
+    it("Should count only the first ballot of each voter", async function () {
+      const { sign, tally, holder1 } = await loadFixture(deployVotingFixture);
+      const result = await tally([await sign(holder1, false), await sign(holder1, true)]);
+
+      expect(result.forVotes).to.equal(0n);
+      expect(result.againstVotes).to.equal(3n);
+      expect(result.rejected).to.equal(1);
+    });
+
+    it("Should count a voter's valid ballot when a forged one was submitted first", async function () {
+      const { sign, tally, holder1, outsider } = await loadFixture(deployVotingFixture);
+      const forged = await sign(outsider, false, { voter: holder1.address });
+      const result = await tally([forged, await sign(holder1, true)]);
+
+      expect(result.forVotes).to.equal(3n);
+      expect(result.againstVotes).to.equal(0n);
+      expect(result.counted.map((ballot) => ballot.voter)).to.deep.equal([holder1.address]);
+      expect(result.rejected).to.equal(1);
+    });
+
+    it("Should weight ballots at the snapshot block, not the current balance", async function () {
+      const { token, sign, tally, holder1, outsider } = await loadFixture(deployVotingFixture);
+      await token.connect(holder1).safeTransferFrom(holder1.address, outsider.address, 1, 2, "0x");
+      const result = await tally([await sign(holder1, true), await sign(outsider, true)]);
+
+      // holder1 keeps the weight it had; outsider held nothing at the snapshot
+      expect(result.forVotes).to.equal(3n);
+      expect(result.counted.map((ballot) => ballot.voter)).to.deep.equal([holder1.address]);
+      expect(result.rejected).to.equal(1);
+    });
+  });
+
+  describe("Ballot store", function () {
+    let server;
+    let storePath;
+    let savedGovernor;
+    const savedEnv = {};
+    const ENV_KEYS = [`SERVER_RPC_URL_${CHAIN_ID}`, "BALLOT_STORE_PATH", "BALLOT_STORE_MAX_BALLOTS"];
+
+    // recordBallot talks to the chain over HTTP, so serve the in-process network
+    before(async function () {
+      server = new JsonRpcServer({ hostname: "127.0.0.1", port: 0, provider: network.provider });
+      const { port } = await server.listen();
+      ENV_KEYS.forEach((key) => (savedEnv[key] = process.env[key]));
+      process.env[`SERVER_RPC_URL_${CHAIN_ID}`] = `http://127.0.0.1:${port}`;
+    });
+
+    after(async function () {
+      await server.close();
+      ENV_KEYS.forEach((key) => {
+        if (savedEnv[key] === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = savedEnv[key];
+        }
+      });
+    });
+
+    beforeEach(function () {
+      storePath = path.join(os.tmpdir(), `ballots-${process.pid}-${Date.now()}.json`);
+      process.env.BALLOT_STORE_PATH = storePath;
+      delete process.env.BALLOT_STORE_MAX_BALLOTS;
+      savedGovernor = GOVERNOR_ADDRESSES[CHAIN_ID];
+    });
+
+    afterEach(function () {
+      fs.rmSync(storePath, { force: true });
+      GOVERNOR_ADDRESSES[CHAIN_ID] = savedGovernor;
+    });
+
+    // Deploy the fixture and point the store's governor lookup at it
+    const deployStoreFixture = async () => {
+      const fixture = await loadFixture(deployVotingFixture);
+      GOVERNOR_ADDRESSES[CHAIN_ID] = fixture.governorAddress;
+      return fixture;
+    };
+
+    const rejection = async (promise) => {
+      try {
+        await promise;
+      } catch (error) {
+        return error;
+      }
+      throw new Error("Expected the ballot to be rejected");
+    };
+
+    it("Should store a valid ballot", async function () {
+      const { sign, holder1 } = await deployStoreFixture();
+      await recordBallot(CHAIN_ID, await sign(holder1, true));
+
+      const stored = await getStoredBallots(CHAIN_ID, 0n);
+      expect(stored).to.have.lengthOf(1);
+      expect(stored[0].voter).to.equal(holder1.address);
+      expect(stored[0].snapshotBlock).to.be.a("string");
+    });
+
+    it("Should reject a second ballot from the same voter", async function () {
+      const { sign, holder1 } = await deployStoreFixture();
+      await recordBallot(CHAIN_ID, await sign(holder1, true));
+
+      const error = await rejection(recordBallot(CHAIN_ID, await sign(holder1, false)));
+      expect(error).to.be.instanceOf(BallotError);
+      expect(error.status).to.equal(409);
+      expect(await getStoredBallots(CHAIN_ID, 0n)).to.have.lengthOf(1);
+    });
+
+    it("Should reject bad signatures and voters without weight before writing", async function () {
+      const { sign, holder1, outsider } = await deployStoreFixture();
+
+      const forged = await rejection(recordBallot(CHAIN_ID, await sign(outsider, true, { voter: holder1.address })));
+      expect(forged.message).to.equal("Invalid ballot signature");
+      const weightless = await rejection(recordBallot(CHAIN_ID, await sign(outsider, true)));
+      expect(weightless.message).to.equal("Voter held no resource tokens at the snapshot block");
+      expect(fs.existsSync(storePath)).to.equal(false);
+    });
+
+    it("Should reject ballots that do not use the proposal's snapshot block", async function () {
+      const { proposal, sign, holder1 } = await deployStoreFixture();
+      const ballot = await sign(holder1, true, { message: { snapshotBlock: proposal.snapshotBlock - 1n } });
+
+      const error = await rejection(recordBallot(CHAIN_ID, ballot));
+      expect(error.message).to.equal("Ballot does not use the proposal's snapshot block");
+    });
+
+    it("Should reject ballots once the store is full", async function () {
+      const { sign, holder1, holder2 } = await deployStoreFixture();
+      process.env.BALLOT_STORE_MAX_BALLOTS = "1";
+      await recordBallot(CHAIN_ID, await sign(holder1, true));
+
+      const error = await rejection(recordBallot(CHAIN_ID, await sign(holder2, true)));
+      expect(error.status).to.equal(507);
+      expect(await getStoredBallots(CHAIN_ID, 0n)).to.have.lengthOf(1);
+    });
+  });
+});
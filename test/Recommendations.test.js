@@ -0,0 +1,110 @@
+const { expect } = require("chai");
+require("./helpers/typescript");
+const { recommendAlternatives, recommendForWallet } = require("../utils/recommendations");
+
+describe("Recommendations", function () {
+  const HOUR = 3600;
+  const DAY = 24 * HOUR;
+  const NOW = 1_700_000_000;
+  const LAB = 0;
+  const BOOK = 1;
+  const ALICE = "0x00000000000000000000000000000000000A11CE";
+  const BOB = "0x0000000000000000000000000000000000000B0B";
+
+  // Usage history as fetchUsageHistory returns it
+  const history = (resourceId, category, timeline = [], overrides = {}) => ({
+    resourceId,
+    name: `Resource ${resourceId}`,
+    category,
+    createdAt: BigInt(NOW - 30 * DAY),
+    timeline,
+    retired: false,
+    waitlistLength: 0,
+    bookings: [],
+    ...overrides,
+  });
+
+  const reservation = (reserver, start, end, outcome = "released") => ({
+    resourceId: 0,
+    reserver,
+    reservationStart: BigInt(start),
+    reservationEnd: BigInt(end),
+    endedAt: outcome === "active" ? undefined : BigInt(end),
+    stakeAmount: 10n ** 17n,
+    outcome,
+    transactionHash: "0x",
+  });
+
+  // Lab 0 and lab 1 plus book 2; only lab 0 carries the given timeline
+  const campus = (timeline = []) => [history(0, LAB, timeline), history(1, LAB), history(2, BOOK)];
+
+  describe("Empty history", function () {
+    it("Should recommend nothing without any resources", function () {
+      expect(recommendAlternatives([], 0, ALICE, { now: NOW })).to.be.empty;
+      expect(recommendForWallet([], ALICE, { now: NOW })).to.deep.equal({ favorites: [], suggestions: [] });
+    });
+
+    it("Should offer no alternatives to an unknown resource", function () {
+      expect(recommendAlternatives(campus(), 7, ALICE, { now: NOW })).to.be.empty;
+    });
+  });
+
+  describe("Never-reserved resources", function () {
+    it("Should fall back to the category when nobody has reserved anything", function () {
+      const [suggestion, ...rest] = recommendAlternatives(campus(), 0, ALICE, { now: NOW });
+
+      expect(rest).to.be.empty;
+      expect(suggestion.resourceId).to.equal(1);
+      expect(suggestion.reason).to.equal("category");
+      expect(suggestion.score).to.be.closeTo(0.35, 1e-9);
+      expect(suggestion.basedOn).to.equal(0);
+    });
+
+    it("Should have nothing to base a wallet's recommendations on", function () {
+      expect(recommendForWallet(campus(), ALICE, { now: NOW })).to.deep.equal({ favorites: [], suggestions: [] });
+    });
+
+    it("Should never suggest retired resources", function () {
+      const histories = [history(0, LAB), history(1, LAB, [], { retired: true })];
+
+      expect(recommendAlternatives(histories, 0, ALICE, { now: NOW })).to.be.empty;
+    });
+  });
+
+  describe("Single reservation", function () {
+    it("Should list the reserved resource as an available favorite", function () {
+      const start = NOW - DAY;
+      const { favorites } = recommendForWallet(campus([reservation(ALICE, start, start + HOUR)]), ALICE, { now: NOW });
+
+      expect(favorites).to.have.lengthOf(1);
+      expect(favorites[0]).to.include({ resourceId: 0, reservations: 1, isAvailable: true });
+      expect(favorites[0].alternatives).to.be.empty;
+    });
+
+    it("Should suggest a never-reserved resource of the same category only", function () {
+      const start = NOW - DAY;
+      const { suggestions } = recommendForWallet(campus([reservation(ALICE, start, start + HOUR)]), ALICE, { now: NOW });
+
+      expect(suggestions.map((suggestion) => suggestion.resourceId)).to.deep.equal([1]);
+      expect(suggestions[0].reason).to.equal("category");
+      expect(suggestions[0].basedOn).to.equal(0);
+      // Category match plus half the wallet's share of labs
+      expect(suggestions[0].score).to.be.closeTo(0.35 + 0.2 * 0.5, 1e-9);
+    });
+
+    it("Should offer alternatives while the favorite is reserved", function () {
+      const live = reservation(ALICE, NOW - HOUR, NOW + HOUR, "active");
+      const { favorites } = recommendForWallet(campus([live]), ALICE, { now: NOW });
+
+      expect(favorites[0].isAvailable).to.be.false;
+      expect(favorites[0].alternatives.map((suggestion) => suggestion.resourceId)).to.deep.equal([1]);
+    });
+
+    it("Should give another wallet nothing from someone else's reservation", function () {
+      const start = NOW - DAY;
+
+      expect(recommendForWallet(campus([reservation(ALICE, start, start + HOUR)]), BOB, { now: NOW }))
+        .to.deep.equal({ favorites: [], suggestions: [] });
+    });
+  });
+});
@@ -0,0 +1,221 @@
+const { expect } = require("chai");
+const { ethers, network } = require("hardhat");
+const { time, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { JsonRpcServer } = require("hardhat/internal/hardhat-network/jsonrpc/server");
+const { getCampusResourceNFTFactory } = require("../scripts/nft-libraries");
+require("./helpers/typescript");
+const { POST } = require("../app/api/relay/route");
+const {
+  FORWARDER_ADDRESSES,
+  FORWARDER_DOMAIN_NAME,
+  FORWARD_REQUEST_TYPES,
+  serializeForwardRequest,
+} = require("../utils/gasless");
+const { CONTRACT_ADDRESSES } = require("../config/contract");
+
+describe("Relay route", function () {
+  const CHAIN_ID = 31337;
+
+  let server;
+  let saved;
+  const savedEnv = {};
+  const ENV_KEYS = [`SERVER_RPC_URL_${CHAIN_ID}`, "RELAYER_PRIVATE_KEY", "RELAYER_QUOTA_PER_HOUR"];
+
+  // The relayer talks to the chain over HTTP, so serve the in-process network
+  before(async function () {
+    server = new JsonRpcServer({ hostname: "127.0.0.1", port: 0, provider: network.provider });
+    const { port } = await server.listen();
+    ENV_KEYS.forEach((key) => (savedEnv[key] = process.env[key]));
+    process.env[`SERVER_RPC_URL_${CHAIN_ID}`] = `http://127.0.0.1:${port}`;
+  });
+
+  after(async function () {
+    await server.close();
+    ENV_KEYS.forEach((key) => {
+      if (savedEnv[key] === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = savedEnv[key];
+      }
+    });
+  });
+
+  beforeEach(function () {
+    saved = { contract: CONTRACT_ADDRESSES[CHAIN_ID], forwarder: FORWARDER_ADDRESSES[CHAIN_ID] };
+    delete process.env.RELAYER_QUOTA_PER_HOUR;
+  });
+
+  afterEach(function () {
+    CONTRACT_ADDRESSES[CHAIN_ID] = saved.contract;
+    FORWARDER_ADDRESSES[CHAIN_ID] = saved.forwarder;
+  });
+
+  // user1 and user2 each hold a deposited stake; the relayer is a fresh funded wallet
+  async function deployRelayFixture() {
+    const [owner, user1, user2] = await ethers.getSigners();
+    const reservationStake = ethers.parseEther("0.1");
+
+    const Forwarder = await ethers.getContractFactory("CampusResourceForwarder");
+    const forwarder = await Forwarder.deploy();
+    const CampusResourceNFT = await getCampusResourceNFTFactory();
+    const contract = await CampusResourceNFT.deploy(
+      await forwarder.getAddress(),
+      reservationStake,
+      "https://api.campusresources.com/metadata/{id}.json"
+    );
+
+    await contract.createResource("Lab A", 0, 1, owner.address, 0);
+    await contract.createResource("Lab B", 0, 1, owner.address, 0);
+    await contract.connect(user1).depositStake({ value: reservationStake });
+    await contract.connect(user2).depositStake({ value: reservationStake });
+
+    const relayer = ethers.Wallet.createRandom();
+    await network.provider.send("hardhat_setBalance", [relayer.address, "0x56BC75E2D63100000"]);
+
+    return {
+      contract,
+      forwarder,
+      contractAddress: await contract.getAddress(),
+      forwarderAddress: await forwarder.getAddress(),
+      relayerKey: relayer.privateKey,
+      user1,
+      user2,
+    };
+  }
+
+  // Deploy the fixture and point the relayer's address lookups at it
+  const deployConfiguredFixture = async () => {
+    const fixture = await loadFixture(deployRelayFixture);
+    CONTRACT_ADDRESSES[CHAIN_ID] = fixture.contractAddress;
+    FORWARDER_ADDRESSES[CHAIN_ID] = fixture.forwarderAddress;
+    process.env.RELAYER_PRIVATE_KEY = fixture.relayerKey;
+    return fixture;
+  };
+
+  // Sign a ForwardRequest the way utils/gasless signForwardRequest does
+  async function signRequest(forwarder, signer, to, data, value = 0n) {
+    const message = {
+      from: signer.address,
+      to,
+      value,
+      gas: 300000n,
+      nonce: await forwarder.nonces(signer.address),
+      deadline: (await time.latest()) + 3600,
+      data,
+    };
+    const domain = {
+      name: FORWARDER_DOMAIN_NAME,
+      version: "1",
+      chainId: CHAIN_ID,
+      verifyingContract: await forwarder.getAddress(),
+    };
+    const signature = await signer.signTypedData(
+      domain,
+      { ForwardRequest: [...FORWARD_REQUEST_TYPES.ForwardRequest] },
+      message
+    );
+    const { nonce, ...request } = message;
+    return { ...request, signature };
+  }
+
+  const relay = async (body) => {
+    const response = await POST(
+      new Request("http://localhost/api/relay", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: typeof body === "string" ? body : JSON.stringify(body),
+      })
+    );
+    return { status: response.status, ...(await response.json()) };
+  };
+
+  const reserveBody = async ({ contract, forwarder, contractAddress }, signer, resourceId = 0) => {
+    const data = contract.interface.encodeFunctionData("reserveResourceFromBalance", [resourceId, 3600]);
+    return serializeForwardRequest(CHAIN_ID, await signRequest(forwarder, signer, contractAddress, data));
+  };
+
+  describe("Request parsing", function () {
+    it("Should answer 400 for bodies that are not JSON or lack a request", async function () {
+      expect((await relay("not json")).status).to.equal(400);
+      expect((await relay({ request: {} })).status).to.equal(400);
+      expect((await relay({ chainId: CHAIN_ID })).status).to.equal(400);
+    });
+
+    it("Should answer 400 rather than 500 for malformed numbers", async function () {
+      const fixture = await deployConfiguredFixture();
+      const body = await reserveBody(fixture, fixture.user1);
+
+      for (const override of [{ value: "abc" }, { gas: "1.5" }, { gas: "-1" }, { deadline: "soon" }, { deadline: -1 }]) {
+        const result = await relay({ ...body, request: { ...body.request, ...override } });
+        expect(result.status, JSON.stringify(override)).to.equal(400);
+        expect(result.error).to.equal("Malformed relay request");
+      }
+    });
+
+    it("Should answer 400 for malformed addresses and hex fields", async function () {
+      const fixture = await deployConfiguredFixture();
+      const body = await reserveBody(fixture, fixture.user1);
+
+      for (const override of [{ from: "0x1234" }, { to: 42 }, { data: "reserve" }, { signature: undefined }]) {
+        const result = await relay({ ...body, request: { ...body.request, ...override } });
+        expect(result.status, JSON.stringify(override)).to.equal(400);
+      }
+    });
+  });
+
+  describe("Relaying", function () {
+    it("Should submit a signed request and reserve for the signer", async function () {
+      const fixture = await deployConfiguredFixture();
+      const result = await relay(await reserveBody(fixture, fixture.user1));
+
+      expect(result.status).to.equal(200);
+      expect(result.success).to.equal(true);
+      expect(result.txHash).to.match(/^0x[0-9a-f]{64}$/);
+      expect(await fixture.contract.getCurrentReserver(0)).to.equal(fixture.user1.address);
+    });
+
+    it("Should answer 503 when the relayer has no private key", async function () {
+      const fixture = await deployConfiguredFixture();
+      delete process.env.RELAYER_PRIVATE_KEY;
+
+      const result = await relay(await reserveBody(fixture, fixture.user1));
+      expect(result.status).to.equal(503);
+    });
+
+    it("Should reject calls to other contracts, unrelayable functions and ETH", async function () {
+      const fixture = await deployConfiguredFixture();
+      const { contract, forwarder, contractAddress, forwarderAddress, user1 } = fixture;
+      const reserve = contract.interface.encodeFunctionData("reserveResourceFromBalance", [0, 3600]);
+      const deposit = contract.interface.encodeFunctionData("depositStake");
+
+      const otherTarget = await relay(serializeForwardRequest(CHAIN_ID, await signRequest(forwarder, user1, forwarderAddress, reserve)));
+      expect(otherTarget.error).to.equal("Request target is not the CampusResourceNFT contract");
+      const unrelayable = await relay(serializeForwardRequest(CHAIN_ID, await signRequest(forwarder, user1, contractAddress, deposit)));
+      expect(unrelayable.error).to.equal("depositStake cannot be relayed");
+      const withValue = await relay(serializeForwardRequest(CHAIN_ID, await signRequest(forwarder, user1, contractAddress, reserve, 1n)));
+      expect(withValue.error).to.equal("Relayed requests cannot carry ETH");
+
+      expect([otherTarget.status, unrelayable.status, withValue.status]).to.deep.equal([400, 400, 400]);
+    });
+
+    it("Should reject requests whose signature does not match", async function () {
+      const fixture = await deployConfiguredFixture();
+      const body = await reserveBody(fixture, fixture.user1);
+      const result = await relay({ ...body, request: { ...body.request, from: fixture.user2.address } });
+
+      expect(result.status).to.equal(400);
+      expect(result.error).to.equal("Invalid signature, nonce or expired request");
+      expect(await fixture.contract.getCurrentReserver(0)).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should answer 429 once the signer's quota is used up", async function () {
+      const fixture = await deployConfiguredFixture();
+      process.env.RELAYER_QUOTA_PER_HOUR = "1";
+
+      expect((await relay(await reserveBody(fixture, fixture.user2, 0))).status).to.equal(200);
+      const result = await relay(await reserveBody(fixture, fixture.user2, 1));
+      expect(result.status).to.equal(429);
+      expect(await fixture.contract.getCurrentReserver(1)).to.equal(ethers.ZeroAddress);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+const { expect } = require("chai");
+require("./helpers/typescript");
+const {
+  DEFAULT_RESOURCE_FILTERS,
+  applyResourceFilters,
+  hasActiveFilters,
+  parseResourceFilters,
+  serializeResourceFilters
+} = require("../utils/resourceFilters");
+const { ResourceCategory } = require("../config/contract");
+
+describe("Resource filters", function () {
+  const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+  const ALICE = "0x00000000000000000000000000000000000A11CE";
+  const BOB = "0x0000000000000000000000000000000000000B0B";
+
+  // Resource as the dashboard grid holds it (see toResourceWithId)
+  const resource = (id, overrides = {}) => ({
+    id,
+    name: `Resource ${id}`,
+    category: ResourceCategory.LAB,
+    isReserved: false,
+    currentReserver: ZERO_ADDRESS,
+    reservationStart: 0n,
+    reservationEnd: 0n,
+    stakedAmount: 0n,
+    exists: true,
+    remainingTime: 0,
+    isExpired: false,
+    ...overrides,
+  });
+
+  const reserved = (id, reserver, remainingTime, overrides = {}) =>
+    resource(id, { isReserved: true, currentReserver: reserver, remainingTime, isExpired: remainingTime <= 0, ...overrides });
+
+  // Free lab, Alice's live book reservation, Bob's live lab reservation, Alice's expired space
+  const grid = [
+    resource(0, { location: "Science Building" }),
+    reserved(1, ALICE, 3600, { category: ResourceCategory.BOOK }),
+    reserved(2, BOB, 600),
+    reserved(3, ALICE, 0, { category: ResourceCategory.SPACE }),
+  ];
+
+  const filter = (overrides, userAddress = ALICE) =>
+    applyResourceFilters(grid, { ...DEFAULT_RESOURCE_FILTERS, ...overrides }, userAddress).map((item) => item.id);
+
+  describe("URL query", function () {
+    it("Should round-trip every filter through the query string", function () {
+      const filters = { query: "lab a", category: ResourceCategory.SPACE, status: "expired", sort: "availability" };
+      const query = serializeResourceFilters(filters);
+
+      expect(query).to.equal("q=lab+a&category=space&status=expired&sort=availability");
+      expect(parseResourceFilters(new URLSearchParams(query))).to.deep.equal(filters);
+    });
+
+    it("Should round-trip each status and category", function () {
+      for (const status of ["all", "available", "reserved", "mine", "expired"]) {
+        for (const category of ["all", ...Object.values(ResourceCategory).filter((value) => typeof value === "number")]) {
+          const filters = { ...DEFAULT_RESOURCE_FILTERS, status, category };
+          const parsed = parseResourceFilters(new URLSearchParams(serializeResourceFilters(filters)));
+          expect(parsed, JSON.stringify(filters)).to.deep.equal(filters);
+        }
+      }
+    });
+
+    it("Should leave defaults out of the URL", function () {
+      expect(serializeResourceFilters(DEFAULT_RESOURCE_FILTERS)).to.equal("");
+      expect(serializeResourceFilters({ ...DEFAULT_RESOURCE_FILTERS, query: "   " })).to.equal("");
+      expect(hasActiveFilters(DEFAULT_RESOURCE_FILTERS)).to.be.false;
+      expect(hasActiveFilters({ ...DEFAULT_RESOURCE_FILTERS, status: "mine" })).to.be.true;
+    });
+
+    it("Should fall back to the defaults for unknown values", function () {
+      const parsed = parseResourceFilters(new URLSearchParams("category=moon&status=borrowed&sort=price"));
+
+      expect(parsed).to.deep.equal(DEFAULT_RESOURCE_FILTERS);
+    });
+
+    it("Should read category names case-insensitively", function () {
+      expect(parseResourceFilters(new URLSearchParams("category=LAB")).category).to.equal(ResourceCategory.LAB);
+    });
+  });
+
+  describe("Status filters", function () {
+    it("Should keep everything for any status", function () {
+      expect(filter({ status: "all" })).to.deep.equal([0, 1, 2, 3]);
+    });
+
+    it("Should treat free and expired resources as available", function () {
+      expect(filter({ status: "available" })).to.deep.equal([0, 3]);
+    });
+
+    it("Should treat only live reservations as reserved", function () {
+      expect(filter({ status: "reserved" })).to.deep.equal([1, 2]);
+    });
+
+    it("Should list only expired reservations as expired", function () {
+      expect(filter({ status: "expired" })).to.deep.equal([3]);
+    });
+
+    it("Should list the connected wallet's reservations, expired ones included, as mine", function () {
+      expect(filter({ status: "mine" }, ALICE.toLowerCase())).to.deep.equal([1, 3]);
+      expect(filter({ status: "mine" }, BOB)).to.deep.equal([2]);
+    });
+
+    it("Should list nothing as mine without a connected wallet", function () {
+      const filters = { ...DEFAULT_RESOURCE_FILTERS, status: "mine" };
+      expect(applyResourceFilters(grid, filters, undefined)).to.be.empty;
+    });
+
+    it("Should combine the status with the text and category filters", function () {
+      expect(filter({ status: "available", query: "science" })).to.deep.equal([0]);
+      expect(filter({ status: "mine", category: ResourceCategory.BOOK })).to.deep.equal([1]);
+    });
+  });
+
+  describe("Availability sort", function () {
+    it("Should order resources by time until they are free", function () {
+      expect(filter({ sort: "availability" })).to.deep.equal([0, 3, 2, 1]);
+    });
+
+    it("Should keep creation order between resources free at the same time", function () {
+      const tied = [reserved(5, BOB, 600), resource(4), reserved(6, ALICE, 600), resource(7)];
+      const sorted = applyResourceFilters(tied, { ...DEFAULT_RESOURCE_FILTERS, sort: "availability" }, ALICE);
+
+      expect(sorted.map((item) => item.id)).to.deep.equal([4, 7, 5, 6]);
+    });
+
+    it("Should not reorder the input", function () {
+      const before = grid.map((item) => item.id);
+      filter({ sort: "availability" });
+
+      expect(grid.map((item) => item.id)).to.deep.equal(before);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Lets mocha tests require the app's TypeScript modules (utils/, config/)
+ *
+ * Compiles on the fly with ts-node (transpile only, as CommonJS) and maps the
+ * `@/` import alias from tsconfig.json to the repository root.
+ */
+
+const Module = require("module");
+const path = require("path");
+
+const ROOT = path.join(__dirname, "..", "..");
+
+require("ts-node").register({
+  transpileOnly: true,
+  compilerOptions: { module: "commonjs", moduleResolution: "node" },
+});
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...rest) {
+  const target = request.startsWith("@/") ? path.join(ROOT, request.slice(2)) : request;
+  return resolveFilename.call(this, target, ...rest);
+};
@@ -5,6 +5,8 @@
  * Includes both resource management types and Web3/wallet integration types.
  */
 
+import type { ResourceCategoryName } from '@/config/contract';
+
 /**
  * Resource Status - Indicates availability of a campus resource
  */
@@ -12,8 +14,9 @@ export type ResourceStatus = 'available' | 'reserved';
 
 /**
  * Resource Category - Classification of campus resources
+ * Derived from the on-chain ResourceCategory enum (see config/contract.ts)
  */
-export type ResourceCategory = 'Lab' | 'Equipment' | 'Room' | 'Vehicle' | 'Other';
+export type ResourceCategory = ResourceCategoryName;
 
 /**
  * Resource Interface - Represents a campus resource
@@ -34,6 +37,38 @@ export interface Resource {
   location?: string;
 }
 
+/**
+ * Status filter for the resources grid
+ * - available: not reserved, or the reservation has expired
+ * - reserved: an active (unexpired) reservation
+ * - mine: reserved by the connected wallet
+ * - expired: reservation period over but not yet released
+ */
+export type ResourceStatusFilter = 'all' | 'available' | 'reserved' | 'mine' | 'expired';
+
+/**
+ * Sort order for the resources grid
+ * - id: creation order
+ * - availability: soonest available first
+ */
+export type ResourceSort = 'id' | 'availability';
+
+/**
+ * Resources grid filter state, mirrored in the dashboard URL query
+ * (?q=&category=&status=&sort=)
+ * 
+ * @property query - Case-insensitive text matched against name and location
+ * @property category - On-chain category, or 'all'
+ * @property status - Availability filter
+ * @property sort - Sort order
+ */
+export interface ResourceFilters {
+  query: string;
+  category: number | 'all';
+  status: ResourceStatusFilter;
+  sort: ResourceSort;
+}
+
 /**
  * Navigation Item Interface - Represents a sidebar navigation link
  * 
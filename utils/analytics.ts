@@ -0,0 +1,267 @@
+/**
+ * Resource Usage Analytics
+ *
+ * Pure calculations over reservation timelines rebuilt from contract events
+ * (see fetchUsageHistory in utils/indexer.ts):
+ * - Utilization: share of time a resource was reserved since it was created
+ *   (or since the start of the analysis window)
+ * - Average duration of reservations that have ended
+ * - Turnover: reservations started per week, and distinct reservers
+ * - Peak hours and weekdays: reserved time bucketed by local hour of day and
+ *   day of week
+ *
+ * Reserved time runs from a reservation's start until it was released,
+ * handed over or reached its end; an expired reservation counts up to its
+ * scheduled end even if nobody cleared it.
+ */
+
+import { ResourceCategory } from '@/config/contract';
+import type { ResourceUsageHistory, ReservationTimelineEntry } from '@/utils/indexer';
+
+// ==================== Types ====================
+
+/**
+ * Usage figures for one resource, or for all resources combined
+ *
+ * @property reservationCount - Reservations started in the window (a handover starts a new one)
+ * @property uniqueReservers - Distinct wallets among those reservations
+ * @property reservedSeconds - Time reserved within the window
+ * @property observedSeconds - Time the resource existed within the window
+ * @property utilization - reservedSeconds / observedSeconds, from 0 to 1
+ * @property averageDuration - Mean length of ended reservations, in seconds (0 if none)
+ * @property turnoverPerWeek - Reservations started per 7 days observed
+ * @property hourlyUsage - Seconds reserved per local hour of day (0-23)
+ * @property weekdayUsage - Seconds reserved per local day of week (0 = Sunday)
+ * @property peakHour - Busiest hour of day, or null without usage
+ * @property peakWeekday - Busiest day of week, or null without usage
+ */
+export interface UsageStats {
+  reservationCount: number;
+  uniqueReservers: number;
+  reservedSeconds: number;
+  observedSeconds: number;
+  utilization: number;
+  averageDuration: number;
+  turnoverPerWeek: number;
+  hourlyUsage: number[];
+  weekdayUsage: number[];
+  peakHour: number | null;
+  peakWeekday: number | null;
+}
+
+/**
+ * Usage figures for a single resource
+ */
+export interface ResourceAnalytics extends UsageStats {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+}
+
+/**
+ * Analytics for every resource plus campus-wide totals
+ *
+ * @property resources - Per-resource figures, busiest (highest utilization) first
+ * @property overall - All resources combined; utilization and turnover are
+ *   averages per resource, weighted by how long each resource existed
+ * @property windowStart - Start of the analysis window (unix seconds)
+ * @property generatedAt - End of the analysis window (unix seconds)
+ */
+export interface UsageAnalytics {
+  resources: ResourceAnalytics[];
+  overall: UsageStats;
+  windowStart: number;
+  generatedAt: number;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Analysis window options, in days (null = all time)
+ */
+export const ANALYTICS_WINDOWS: { value: number | null; label: string }[] = [
+  { value: 7, label: 'Last 7 days' },
+  { value: 30, label: 'Last 30 days' },
+  { value: 90, label: 'Last 90 days' },
+  { value: null, label: 'All time' },
+];
+
+/**
+ * Short weekday names, indexed like Date.getDay()
+ */
+export const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const SECONDS_PER_WEEK = 7 * 24 * 60 * 60;
+
+// ==================== Helper Functions ====================
+
+/**
+ * Format an hour of day for chart labels, e.g. 0 -> "12 AM", 13 -> "1 PM"
+ */
+export const formatHour = (hour: number): string => {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12} ${suffix}`;
+};
+
+/**
+ * Index of the largest bucket, or null if every bucket is empty
+ */
+const peakOf = (buckets: number[]): number | null => {
+  const max = Math.max(...buckets);
+  return max > 0 ? buckets.indexOf(max) : null;
+};
+
+/**
+ * When a reservation stopped holding the resource, as of `now`
+ */
+export const reservationStop = (entry: ReservationTimelineEntry, now: number): number => {
+  if (entry.outcome === 'active') {
+    return Math.min(Number(entry.reservationEnd), now);
+  }
+  return Number(entry.endedAt ?? entry.reservationEnd);
+};
+
+/**
+ * Split the interval [start, end) at local clock hours
+ * Walks local clock hours, so time zones with half-hour offsets split correctly.
+ *
+ * @param visit - Called with each piece's start (as a Date) and length in seconds
+ */
+export const forEachLocalHour = (start: number, end: number, visit: (date: Date, seconds: number) => void) => {
+  let cursor = start;
+  while (cursor < end) {
+    const date = new Date(cursor * 1000);
+    const nextHour = new Date(date);
+    nextHour.setMinutes(0, 0, 0);
+    nextHour.setHours(date.getHours() + 1);
+
+    // Fall back to a plain hour if a DST change confuses the local clock
+    const nextHourStart = Math.floor(nextHour.getTime() / 1000);
+    const stop = Math.min(end, nextHourStart > cursor ? nextHourStart : cursor + 3600);
+    visit(date, stop - cursor);
+    cursor = stop;
+  }
+};
+
+/**
+ * Add the reserved interval [start, end) to the hour-of-day and weekday buckets
+ */
+const addToBuckets = (start: number, end: number, hourly: number[], weekday: number[]) => {
+  forEachLocalHour(start, end, (date, seconds) => {
+    hourly[date.getHours()] += seconds;
+    weekday[date.getDay()] += seconds;
+  });
+};
+
+/**
+ * Finish a stats object from its raw sums
+ */
+const toStats = (
+  sums: {
+    reservationCount: number;
+    reservers: Set<string>;
+    reservedSeconds: number;
+    observedSeconds: number;
+    endedCount: number;
+    endedSeconds: number;
+    hourlyUsage: number[];
+    weekdayUsage: number[];
+  }
+): UsageStats => ({
+  reservationCount: sums.reservationCount,
+  uniqueReservers: sums.reservers.size,
+  reservedSeconds: sums.reservedSeconds,
+  observedSeconds: sums.observedSeconds,
+  utilization: sums.observedSeconds > 0 ? Math.min(1, sums.reservedSeconds / sums.observedSeconds) : 0,
+  averageDuration: sums.endedCount > 0 ? sums.endedSeconds / sums.endedCount : 0,
+  turnoverPerWeek: sums.observedSeconds > 0 ? (sums.reservationCount * SECONDS_PER_WEEK) / sums.observedSeconds : 0,
+  hourlyUsage: sums.hourlyUsage,
+  weekdayUsage: sums.weekdayUsage,
+  peakHour: peakOf(sums.hourlyUsage),
+  peakWeekday: peakOf(sums.weekdayUsage),
+});
+
+/**
+ * Empty raw sums
+ */
+const emptySums = () => ({
+  reservationCount: 0,
+  reservers: new Set<string>(),
+  reservedSeconds: 0,
+  observedSeconds: 0,
+  endedCount: 0,
+  endedSeconds: 0,
+  hourlyUsage: new Array<number>(24).fill(0),
+  weekdayUsage: new Array<number>(7).fill(0),
+});
+
+// ==================== Analytics ====================
+
+/**
+ * Compute usage analytics from reservation timelines
+ *
+ * Only time inside the window counts: a reservation that started before the
+ * window contributes its reserved time after `windowStart`, but is not
+ * counted as a reservation started in the window or in the average duration.
+ *
+ * @param histories - Every resource's timeline (fetchUsageHistory)
+ * @param windowDays - Length of the analysis window in days (null = all time)
+ * @param now - End of the window (unix seconds)
+ */
+export const computeUsageAnalytics = (
+  histories: ResourceUsageHistory[],
+  windowDays: number | null = null,
+  now: number = Math.floor(Date.now() / 1000)
+): UsageAnalytics => {
+  const windowStart = windowDays === null ? 0 : now - windowDays * 24 * 60 * 60;
+  const overall = emptySums();
+
+  const resources = histories.map((history): ResourceAnalytics => {
+    const sums = emptySums();
+    sums.observedSeconds = Math.max(0, now - Math.max(Number(history.createdAt), windowStart));
+
+    for (const entry of history.timeline) {
+      const reservationStart = Number(entry.reservationStart);
+      const start = Math.max(reservationStart, windowStart);
+      const end = Math.min(reservationStop(entry, now), now);
+      if (end <= start) {
+        continue;
+      }
+
+      sums.reservedSeconds += end - start;
+      addToBuckets(start, end, sums.hourlyUsage, sums.weekdayUsage);
+
+      if (reservationStart >= windowStart) {
+        sums.reservationCount += 1;
+        sums.reservers.add(entry.reserver.toLowerCase());
+        if (entry.outcome !== 'active') {
+          sums.endedCount += 1;
+          sums.endedSeconds += end - reservationStart;
+        }
+      }
+    }
+
+    overall.reservationCount += sums.reservationCount;
+    sums.reservers.forEach((reserver) => overall.reservers.add(reserver));
+    overall.reservedSeconds += sums.reservedSeconds;
+    overall.observedSeconds += sums.observedSeconds;
+    overall.endedCount += sums.endedCount;
+    overall.endedSeconds += sums.endedSeconds;
+    sums.hourlyUsage.forEach((seconds, hour) => { overall.hourlyUsage[hour] += seconds; });
+    sums.weekdayUsage.forEach((seconds, day) => { overall.weekdayUsage[day] += seconds; });
+
+    return {
+      resourceId: history.resourceId,
+      name: history.name,
+      category: history.category,
+      ...toStats(sums),
+    };
+  });
+
+  return {
+    resources: resources.sort((a, b) => b.utilization - a.utilization || a.resourceId - b.resourceId),
+    overall: toStats(overall),
+    windowStart,
+    generatedAt: now,
+  };
+};
@@ -0,0 +1,205 @@
+/**
+ * Off-chain Ballot Store (server-side only)
+ *
+ * Keeps signed ballots (utils/offchainVoting.ts) in a local JSON file keyed
+ * by chain ID, then proposal ID, in submission order:
+ *
+ *   { "31337": { "0": [{ "voter": "0x...", "proposalId": "0", "support": true, "snapshotBlock": "42", "signature": "0x..." }] } }
+ *
+ * Ballots are only stored when:
+ * - The chain has a governor and an RPC URL
+ * - The proposal exists, voting is still open and the ballot names its snapshot block
+ * - The signature is valid for the voter
+ * - The voter had voting weight at the snapshot block and has not signed a ballot yet
+ * - The store holds fewer ballots than its limit, so the file cannot grow without bound
+ *
+ * The store is only a mailbox: readers recompute the result from the
+ * signatures themselves (tallyBallots).
+ *
+ * Environment:
+ * - BALLOT_STORE_PATH: path to the JSON store (default: data/offchain-ballots.json)
+ * - BALLOT_STORE_MAX_BALLOTS: most ballots kept across every chain and proposal (default: 10000)
+ * - SERVER_RPC_URL_<chainId>: RPC endpoint per chain, resolved by config/rpc.ts
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createPublicClient, http, zeroAddress } from 'viem';
+import { getServerRpcUrl } from '@/config/rpc';
+import { CAMPUS_RESOURCE_GOVERNOR_ABI, GOVERNOR_ADDRESSES, Proposal } from '@/utils/governance';
+import {
+  getSnapshotWeight,
+  SerializedBallot,
+  serializeBallot,
+  SignedBallot,
+  verifyBallotSignature,
+} from '@/utils/offchainVoting';
+
+// ==================== Configuration ====================
+
+/**
+ * Default limit on the number of stored ballots
+ */
+export const DEFAULT_MAX_STORED_BALLOTS = 10000;
+
+/**
+ * Most ballots the store may hold
+ */
+const getMaxStoredBallots = (): number => {
+  const limit = Number(process.env.BALLOT_STORE_MAX_BALLOTS);
+  return Number.isInteger(limit) && limit > 0 ? limit : DEFAULT_MAX_STORED_BALLOTS;
+};
+
+// ==================== Types ====================
+
+/**
+ * Stored ballots, keyed by chain ID, then proposal ID
+ */
+type BallotStore = Record<string, Record<string, SerializedBallot[]>>;
+
+/**
+ * Error raised when a ballot is rejected before it is stored
+ */
+export class BallotError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'BallotError';
+  }
+}
+
+// ==================== Store ====================
+
+/**
+ * Writes run one at a time so concurrent submissions do not overwrite each other
+ */
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Resolve the store file path
+ */
+const getStorePath = (): string => {
+  return path.resolve(process.cwd(), process.env.BALLOT_STORE_PATH || 'data/offchain-ballots.json');
+};
+
+/**
+ * Read the whole ballot store
+ * A missing store file is treated as empty
+ */
+const readBallotStore = async (): Promise<BallotStore> => {
+  try {
+    const contents = await fs.readFile(getStorePath(), 'utf8');
+    return JSON.parse(contents) as BallotStore;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+};
+
+/**
+ * Replace the ballot store
+ * Written to a temporary file first so readers never see a partial file
+ */
+const writeBallotStore = async (store: BallotStore): Promise<void> => {
+  const storePath = getStorePath();
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  await fs.writeFile(`${storePath}.tmp`, `${JSON.stringify(store, null, 2)}\n`);
+  await fs.rename(`${storePath}.tmp`, storePath);
+};
+
+/**
+ * Get the ballots stored for a proposal
+ * @param chainId - Chain the proposal is on
+ * @param proposalId - The ID of the proposal
+ * @returns Ballots in submission order
+ */
+export const getStoredBallots = async (chainId: number, proposalId: bigint): Promise<SerializedBallot[]> => {
+  const store = await readBallotStore();
+  return store[chainId]?.[proposalId.toString()] ?? [];
+};
+
+// ==================== Submission ====================
+
+/**
+ * Validate a signed ballot against the chain and append it to the store
+ *
+ * @param chainId - Chain the ballot was signed for
+ * @param ballot - Signed ballot from the browser
+ * @throws BallotError if the ballot is rejected
+ */
+export const recordBallot = async (chainId: number, ballot: SignedBallot): Promise<void> => {
+  const governorAddress = GOVERNOR_ADDRESSES[chainId];
+  const rpcUrl = getServerRpcUrl(chainId);
+  if (!governorAddress || governorAddress === zeroAddress || !rpcUrl) {
+    throw new BallotError(`Off-chain voting is not available on chain ${chainId}`, 503);
+  }
+
+  const publicClient = createPublicClient({ transport: http(rpcUrl) });
+  const remoteChainId = await publicClient.getChainId();
+  if (remoteChainId !== chainId) {
+    throw new BallotError(`Ballot RPC is on chain ${remoteChainId}, ballot is for ${chainId}`, 503);
+  }
+
+  const [proposalCount, latestBlock] = await Promise.all([
+    publicClient.readContract({
+      address: governorAddress,
+      abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+      functionName: 'proposalCount',
+    }),
+    publicClient.getBlock(),
+  ]);
+  if (ballot.proposalId >= proposalCount) {
+    throw new BallotError(`Proposal ${ballot.proposalId} does not exist`, 404);
+  }
+
+  const proposal = (await publicClient.readContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'getProposal',
+    args: [ballot.proposalId],
+  })) as Proposal;
+
+  // Voting closes at the same timestamp as on-chain voting
+  if (latestBlock.timestamp >= proposal.voteEnd) {
+    throw new BallotError('Voting on this proposal has closed');
+  }
+  if (ballot.snapshotBlock !== proposal.snapshotBlock) {
+    throw new BallotError('Ballot does not use the proposal\'s snapshot block');
+  }
+
+  const isValid = await verifyBallotSignature(publicClient, chainId, governorAddress, ballot);
+  if (!isValid) {
+    throw new BallotError('Invalid ballot signature');
+  }
+
+  const weight = await getSnapshotWeight(publicClient, governorAddress, ballot.voter, proposal.snapshotBlock);
+  if (weight === BigInt(0)) {
+    throw new BallotError('Voter held no resource tokens at the snapshot block');
+  }
+
+  const append = async () => {
+    const store = await readBallotStore();
+    const chainBallots = (store[chainId] ??= {});
+    const proposalBallots = (chainBallots[ballot.proposalId.toString()] ??= []);
+
+    const voter = ballot.voter.toLowerCase();
+    if (proposalBallots.some((stored) => stored.voter.toLowerCase() === voter)) {
+      throw new BallotError('This wallet has already signed a ballot for the proposal', 409);
+    }
+
+    const storedCount = Object.values(store)
+      .flatMap((proposals) => Object.values(proposals))
+      .reduce((total, ballots) => total + ballots.length, 0);
+    if (storedCount >= getMaxStoredBallots()) {
+      throw new BallotError('The ballot store is full', 507);
+    }
+
+    proposalBallots.push(serializeBallot(ballot));
+    await writeBallotStore(store);
+  };
+
+  const write = writeQueue.then(append, append);
+  writeQueue = write.catch(() => undefined);
+  await write;
+};
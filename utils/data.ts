@@ -31,7 +31,7 @@ export const SAMPLE_RESOURCES: Resource[] = [
   {
     id: '3',
     name: 'Conference Room 101',
-    category: 'Room',
+    category: 'Space',
     status: 'available',
     description: 'Meeting room with video conferencing, seats 20',
     location: 'Administration Building, Floor 1'
@@ -47,7 +47,7 @@ export const SAMPLE_RESOURCES: Resource[] = [
   {
     id: '5',
     name: 'Campus Van',
-    category: 'Vehicle',
+    category: 'Equipment',
     status: 'reserved',
     description: '12-passenger van for campus trips',
     location: 'Parking Lot B'
@@ -55,7 +55,7 @@ export const SAMPLE_RESOURCES: Resource[] = [
   {
     id: '6',
     name: 'Recording Studio',
-    category: 'Room',
+    category: 'Space',
     status: 'available',
     description: 'Professional audio recording studio',
     location: 'Arts Building, Basement'
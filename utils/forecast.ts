@@ -0,0 +1,387 @@
+/**
+ * Availability Forecasting
+ *
+ * Local, dependency-free forecasts over the reservation timelines used by the
+ * usage analytics (see fetchUsageHistory in utils/indexer.ts):
+ * - Free-up forecast: when each reserved resource is likely to become free,
+ *   from an exponentially smoothed share of their booked time that past
+ *   reservers actually used, plus the usual hold of everyone on the waitlist
+ * - Contention: how likely a resource is to be reserved in each local hour of
+ *   the week, from a seasonal (hour-of-week) histogram of recent usage in
+ *   which older weeks count for less
+ * - Recommendations: the least contended slot in the coming week on each
+ *   resource, sized to how long it is usually held, that an advance booking
+ *   can still take (after the live reservation, clear of active bookings)
+ *
+ * Retired resources are left out, since they can no longer be reserved.
+ */
+
+import { Address } from 'viem';
+import {
+  DEFAULT_RESERVATION_DURATION,
+  MAX_RESERVATION_DURATION,
+  ResourceCategory,
+} from '@/config/contract';
+import { forEachLocalHour, reservationStop } from '@/utils/analytics';
+import type { ResourceUsageHistory } from '@/utils/indexer';
+
+// ==================== Types ====================
+
+/**
+ * How much history a forecast rests on
+ * - low: fewer than 3 ended reservations
+ * - medium: fewer than 10
+ * - high: 10 or more
+ */
+export type ForecastConfidence = 'low' | 'medium' | 'high';
+
+/**
+ * When a reserved resource is expected to become free
+ *
+ * @property reservationEnd - Scheduled end of the live reservation (unix seconds)
+ * @property expectedReleaseAt - When the current reserver is expected to release it
+ * @property expectedFreeAt - When it is expected to be free for anyone, after
+ *   everyone on the waitlist has had their turn
+ * @property holdRatio - Expected share of the booked time the reserver will use (0-1)
+ * @property sampleSize - Ended reservations the forecast is based on
+ */
+export interface FreeUpForecast {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+  reserver: Address;
+  reservationEnd: number;
+  expectedReleaseAt: number;
+  expectedFreeAt: number;
+  waitlistLength: number;
+  holdRatio: number;
+  sampleSize: number;
+  confidence: ForecastConfidence;
+}
+
+/**
+ * Suggested advance booking on one resource
+ *
+ * @property start - Slot start (unix seconds, on a local hour)
+ * @property duration - Slot length in seconds: how long the resource is usually held
+ * @property contention - Chance the resource is reserved during the slot, by past weeks (0-1)
+ * @property nextSlotContention - The same for the earliest slot that could be booked,
+ *   to show what waiting gains
+ */
+export interface ReservationRecommendation {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+  start: number;
+  duration: number;
+  contention: number;
+  nextSlotContention: number;
+  confidence: ForecastConfidence;
+}
+
+/**
+ * Forecasts for every resource that can still be reserved
+ *
+ * @property freeUp - Reserved resources, soonest expected to be free first
+ * @property recommendations - One slot per resource, least contended first
+ * @property contention - Chance of being reserved per hour of week (see
+ *   hourOfWeekIndex), by resource ID
+ * @property overallContention - The same for all resources combined
+ * @property generatedAt - Time the forecast was made (unix seconds)
+ */
+export interface AvailabilityForecast {
+  freeUp: FreeUpForecast[];
+  recommendations: ReservationRecommendation[];
+  contention: Map<number, number[]>;
+  overallContention: number[];
+  generatedAt: number;
+}
+
+/**
+ * Forecast options
+ *
+ * @property now - Time to forecast from (unix seconds)
+ * @property maxDuration - Longest slot to recommend, in seconds
+ */
+export interface ForecastOptions {
+  now?: number;
+  maxDuration?: number;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Weeks of history the contention histogram looks back over
+ */
+export const FORECAST_LOOKBACK_WEEKS = 12;
+
+/**
+ * How far ahead recommended slots may start, in seconds
+ */
+export const RECOMMENDATION_HORIZON = 7 * 24 * 60 * 60;
+
+const HOURS_PER_WEEK = 7 * 24;
+const SECONDS_PER_WEEK = HOURS_PER_WEEK * 60 * 60;
+
+/**
+ * Usage this old counts half as much toward contention
+ */
+const CONTENTION_HALF_LIFE = 4 * SECONDS_PER_WEEK;
+
+/**
+ * Weight of the newest reservation in the smoothed averages
+ */
+const SMOOTHING_FACTOR = 0.3;
+
+// ==================== Helper Functions ====================
+
+/**
+ * Bucket index of a local time in an hour-of-week array: weekday * 24 + hour,
+ * with weekdays numbered like Date.getDay() (0 = Sunday)
+ */
+export const hourOfWeekIndex = (date: Date): number => date.getDay() * 24 + date.getHours();
+
+/**
+ * Exponentially smoothed average of values in chronological order
+ */
+const smooth = (values: number[]): number =>
+  values.reduce((average, value) => SMOOTHING_FACTOR * value + (1 - SMOOTHING_FACTOR) * average);
+
+/**
+ * Confidence label for a number of ended reservations
+ */
+const confidenceFor = (sampleSize: number): ForecastConfidence => {
+  if (sampleSize >= 10) return 'high';
+  if (sampleSize >= 3) return 'medium';
+  return 'low';
+};
+
+/**
+ * Start of the next local clock hour after `now`
+ */
+const nextLocalHour = (now: number): number => {
+  const date = new Date(now * 1000);
+  date.setMinutes(0, 0, 0);
+  date.setHours(date.getHours() + 1);
+  return Math.floor(date.getTime() / 1000);
+};
+
+/**
+ * Held and booked time of a resource's ended reservations, oldest first
+ * Handovers are skipped: the resource stayed reserved, so they say nothing
+ * about when it frees up.
+ */
+const endedReservations = (history: ResourceUsageHistory, now: number) =>
+  history.timeline
+    .filter((entry) => entry.outcome === 'released' || entry.outcome === 'expired')
+    .map((entry) => {
+      const start = Number(entry.reservationStart);
+      const booked = Number(entry.reservationEnd) - start;
+      return { booked, held: Math.min(booked, Math.max(0, reservationStop(entry, now) - start)) };
+    })
+    .filter((sample) => sample.booked > 0)
+    .reverse();
+
+/**
+ * Recent reserved time per hour of week, divided by the time the resource
+ * existed in that hour, with older time decayed by CONTENTION_HALF_LIFE
+ */
+const buildContention = (history: ResourceUsageHistory, now: number) => {
+  const reserved = new Array<number>(HOURS_PER_WEEK).fill(0);
+  const observed = new Array<number>(HOURS_PER_WEEK).fill(0);
+  const lookbackStart = Math.max(Number(history.createdAt), now - FORECAST_LOOKBACK_WEEKS * SECONDS_PER_WEEK);
+
+  const addDecayed = (start: number, end: number, buckets: number[]) => {
+    forEachLocalHour(start, end, (date, seconds) => {
+      const age = now - date.getTime() / 1000;
+      buckets[hourOfWeekIndex(date)] += seconds * Math.pow(0.5, age / CONTENTION_HALF_LIFE);
+    });
+  };
+
+  addDecayed(lookbackStart, now, observed);
+  for (const entry of history.timeline) {
+    const start = Math.max(Number(entry.reservationStart), lookbackStart);
+    const end = Math.min(reservationStop(entry, now), now);
+    if (end > start) {
+      addDecayed(start, end, reserved);
+    }
+  }
+
+  return { reserved, observed };
+};
+
+/**
+ * Duration-weighted mean contention over the slot [start, end)
+ */
+const slotContention = (start: number, end: number, contention: number[]): number => {
+  let total = 0;
+  forEachLocalHour(start, end, (date, seconds) => {
+    total += contention[hourOfWeekIndex(date)] * seconds;
+  });
+  return total / (end - start);
+};
+
+// ==================== Forecasting ====================
+
+/**
+ * Forecast when a resource's live reservation will end and the resource free up
+ *
+ * The current reserver is expected to use the smoothed share of their booked
+ * time that past reservers used. If they have already held it longer than
+ * that, only past reservations that ran at least as long are considered, and
+ * without any the full term is assumed.
+ */
+const forecastFreeUp = (
+  history: ResourceUsageHistory,
+  samples: { booked: number; held: number }[],
+  now: number
+): FreeUpForecast | null => {
+  const current = history.timeline[0];
+  if (!current || current.outcome !== 'active' || Number(current.reservationEnd) <= now) {
+    return null;
+  }
+
+  const start = Number(current.reservationStart);
+  const reservationEnd = Number(current.reservationEnd);
+  const booked = reservationEnd - start;
+  const elapsed = booked > 0 ? (now - start) / booked : 1;
+
+  const ratios = samples.map((sample) => sample.held / sample.booked);
+  let holdRatio = ratios.length > 0 ? smooth(ratios) : 1;
+  if (holdRatio <= elapsed) {
+    const longer = ratios.filter((ratio) => ratio > elapsed);
+    holdRatio = longer.length > 0 ? longer.reduce((sum, ratio) => sum + ratio, 0) / longer.length : 1;
+  }
+
+  const expectedReleaseAt = Math.min(reservationEnd, Math.max(now, Math.round(start + holdRatio * booked)));
+  const typicalHold = samples.length > 0
+    ? smooth(samples.map((sample) => sample.held))
+    : DEFAULT_RESERVATION_DURATION;
+
+  return {
+    resourceId: history.resourceId,
+    name: history.name,
+    category: history.category,
+    reserver: current.reserver,
+    reservationEnd,
+    expectedReleaseAt,
+    expectedFreeAt: expectedReleaseAt + Math.round(history.waitlistLength * typicalHold),
+    waitlistLength: history.waitlistLength,
+    holdRatio,
+    sampleSize: samples.length,
+    confidence: confidenceFor(samples.length),
+  };
+};
+
+/**
+ * Find the least contended bookable slot on a resource in the coming week
+ *
+ * Candidate slots start on each local hour from the next one onward; ties go
+ * to the earliest slot. Returns null if every candidate is blocked.
+ */
+const recommendSlot = (
+  history: ResourceUsageHistory,
+  samples: { booked: number; held: number }[],
+  contention: number[],
+  now: number,
+  maxDuration: number
+): ReservationRecommendation | null => {
+  const typicalHold = samples.length > 0
+    ? Math.ceil(smooth(samples.map((sample) => sample.held)) / 3600) * 3600
+    : DEFAULT_RESERVATION_DURATION;
+  const duration = Math.min(maxDuration, Math.max(3600, typicalHold));
+
+  // Bookings may not start before the live reservation ends or overlap another booking
+  const current = history.timeline[0];
+  const busyUntil = current?.outcome === 'active' ? Number(current.reservationEnd) : 0;
+  const bookings = history.bookings
+    .map((booking) => ({ start: Number(booking.start), end: Number(booking.end) }))
+    .filter((booking) => booking.end > now);
+
+  const firstStart = nextLocalHour(now);
+  let best: { start: number; contention: number } | null = null;
+  let nextSlotContention: number | null = null;
+
+  for (let start = firstStart; start < firstStart + RECOMMENDATION_HORIZON; start += 3600) {
+    const end = start + duration;
+    if (start < busyUntil || bookings.some((booking) => booking.start < end && start < booking.end)) {
+      continue;
+    }
+
+    const score = slotContention(start, end, contention);
+    nextSlotContention = nextSlotContention ?? score;
+    if (!best || score < best.contention - 1e-9) {
+      best = { start, contention: score };
+    }
+  }
+
+  if (!best || nextSlotContention === null) {
+    return null;
+  }
+
+  return {
+    resourceId: history.resourceId,
+    name: history.name,
+    category: history.category,
+    start: best.start,
+    duration,
+    contention: best.contention,
+    nextSlotContention,
+    confidence: confidenceFor(samples.length),
+  };
+};
+
+/**
+ * Compute availability forecasts and booking recommendations
+ *
+ * @param histories - Every resource's timeline (fetchUsageHistory)
+ * @param options - Forecast time and longest slot to recommend
+ */
+export const computeAvailabilityForecast = (
+  histories: ResourceUsageHistory[],
+  options: ForecastOptions = {}
+): AvailabilityForecast => {
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const maxDuration = options.maxDuration ?? MAX_RESERVATION_DURATION;
+
+  const freeUp: FreeUpForecast[] = [];
+  const recommendations: ReservationRecommendation[] = [];
+  const contentionByResource = new Map<number, number[]>();
+  const overallReserved = new Array<number>(HOURS_PER_WEEK).fill(0);
+  const overallObserved = new Array<number>(HOURS_PER_WEEK).fill(0);
+
+  for (const history of histories) {
+    if (history.retired) {
+      continue;
+    }
+
+    const samples = endedReservations(history, now);
+    const { reserved, observed } = buildContention(history, now);
+    const contention = reserved.map((seconds, index) => (observed[index] > 0 ? Math.min(1, seconds / observed[index]) : 0));
+    contentionByResource.set(history.resourceId, contention);
+    reserved.forEach((seconds, index) => { overallReserved[index] += seconds; });
+    observed.forEach((seconds, index) => { overallObserved[index] += seconds; });
+
+    const forecast = forecastFreeUp(history, samples, now);
+    if (forecast) {
+      freeUp.push(forecast);
+    }
+
+    const recommendation = recommendSlot(history, samples, contention, now, maxDuration);
+    if (recommendation) {
+      recommendations.push(recommendation);
+    }
+  }
+
+  return {
+    freeUp: freeUp.sort((a, b) => a.expectedFreeAt - b.expectedFreeAt || a.resourceId - b.resourceId),
+    recommendations: recommendations.sort(
+      (a, b) => a.contention - b.contention || a.start - b.start || a.resourceId - b.resourceId
+    ),
+    contention: contentionByResource,
+    overallContention: overallReserved.map((seconds, index) =>
+      overallObserved[index] > 0 ? Math.min(1, seconds / overallObserved[index]) : 0
+    ),
+    generatedAt: now,
+  };
+};
@@ -0,0 +1,428 @@
+/**
+ * Gasless Transactions via EIP-2771 Trusted Forwarder
+ *
+ * Users sign an EIP-712 ForwardRequest in their wallet (no gas, no transaction).
+ * The signed request is POSTed to the relayer API route (app/api/relay), which
+ * submits it through the CampusResourceForwarder contract and pays the gas.
+ * CampusResourceNFT trusts the forwarder, so `_msgSender()` resolves to the
+ * user who signed the request.
+ *
+ * Works on any chain where CampusResourceForwarder is deployed, including a
+ * local Hardhat node. No third-party relayer account is required.
+ *
+ * Gasless reservations never carry ETH: the stake is taken from the user's
+ * deposited stake balance (`depositStake` / `depositStakeFor`) via
+ * `reserveResourceFromBalance`, so the relayer does not have to front it.
+ */
+
+import { Address, encodeFunctionData, Hex, PublicClient, WalletClient, zeroAddress } from 'viem';
+import { CAMPUS_RESOURCE_NFT_ABI, CONTRACT_ADDRESSES, getDeployment } from '@/config/contract';
+import { CAMPUS_RESOURCE_FORWARDER_ABI } from '@/config/generated/CampusResourceForwarder';
+
+// ==================== Configuration ====================
+
+/**
+ * CampusResourceForwarder addresses for different networks
+ * An env var overrides the deployment registry (deployments/registry.json)
+ */
+export const FORWARDER_ADDRESSES: Record<number, Address> = {
+  // Hardhat local network
+  31337: (process.env.NEXT_PUBLIC_FORWARDER_ADDRESS_LOCALHOST || getDeployment(31337)?.forwarderAddress || zeroAddress) as Address,
+
+  // Polygon Mainnet
+  137: (process.env.NEXT_PUBLIC_FORWARDER_ADDRESS_POLYGON || getDeployment(137)?.forwarderAddress || zeroAddress) as Address,
+
+  // Sepolia Testnet
+  11155111: (process.env.NEXT_PUBLIC_FORWARDER_ADDRESS_SEPOLIA || getDeployment(11155111)?.forwarderAddress || zeroAddress) as Address,
+};
+
+/**
+ * EIP-712 domain name of CampusResourceForwarder (see contracts/CampusResourceForwarder.sol)
+ */
+export const FORWARDER_DOMAIN_NAME = 'CampusResourceForwarder';
+
+/**
+ * EIP-712 types for OpenZeppelin's ERC2771Forwarder ForwardRequest
+ */
+export const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint48' },
+    { name: 'data', type: 'bytes' },
+  ],
+} as const;
+
+/**
+ * Gas forwarded to the target call (reserve/release use well under this)
+ */
+export const DEFAULT_FORWARD_GAS = BigInt(300000);
+
+/**
+ * How long a signed request stays valid (in seconds)
+ */
+export const FORWARD_REQUEST_TTL = 3600; // 1 hour
+
+/**
+ * Relayer API route
+ */
+export const RELAY_ENDPOINT = '/api/relay';
+
+// ==================== Types ====================
+
+/**
+ * Signed request accepted by ERC2771Forwarder.execute
+ */
+export interface ForwardRequestData {
+  from: Address;
+  to: Address;
+  value: bigint;
+  gas: bigint;
+  deadline: number;
+  data: Hex;
+  signature: Hex;
+}
+
+/**
+ * JSON body sent to the relayer (bigints encoded as decimal strings)
+ */
+export interface RelayRequestBody {
+  chainId: number;
+  request: Omit<ForwardRequestData, 'value' | 'gas'> & {
+    value: string;
+    gas: string;
+  };
+}
+
+/**
+ * Relayer response
+ */
+export interface RelayResponse {
+  success: boolean;
+  txHash?: Hex;
+  error?: string;
+}
+
+interface MetaTransactionRequest {
+  from: Address;
+  to: Address;
+  data: Hex;
+  value?: bigint;
+  chainId: number;
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * Get the forwarder address for a chain, or undefined if none is deployed
+ */
+export const getForwarderAddress = (chainId: number): Address | undefined => {
+  const address = FORWARDER_ADDRESSES[chainId];
+  return address && address !== zeroAddress ? address : undefined;
+};
+
+/**
+ * Check if gasless transactions are available on the current chain
+ */
+export const isGaslessEnabled = (chainId: number): boolean => {
+  return !!getForwarderAddress(chainId);
+};
+
+/**
+ * Convert a signed request into the JSON body expected by the relayer
+ */
+export const serializeForwardRequest = (
+  chainId: number,
+  request: ForwardRequestData
+): RelayRequestBody => ({
+  chainId,
+  request: {
+    ...request,
+    value: request.value.toString(),
+    gas: request.gas.toString(),
+  },
+});
+
+/**
+ * Parse a relayer JSON body back into a signed request
+ */
+export const deserializeForwardRequest = (body: RelayRequestBody): ForwardRequestData => ({
+  ...body.request,
+  value: BigInt(body.request.value),
+  gas: BigInt(body.request.gas),
+});
+
+// ==================== Meta-Transaction Functions ====================
+
+/**
+ * Encode reserve resource function call (stake paid from the deposited balance)
+ * @param resourceId - The ID of the resource to reserve
+ * @param duration - Duration in seconds
+ * @returns Encoded function data
+ */
+export const encodeReserveResource = (resourceId: number, duration: number): Hex => {
+  return encodeFunctionData({
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'reserveResourceFromBalance',
+    args: [BigInt(resourceId), BigInt(duration)],
+  });
+};
+
+/**
+ * Encode withdraw stake function call
+ * @param amount - Amount to withdraw in wei
+ * @returns Encoded function data
+ */
+export const encodeWithdrawStake = (amount: bigint): Hex => {
+  return encodeFunctionData({
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'withdrawStake',
+    args: [amount],
+  });
+};
+
+/**
+ * Encode release resource function call
+ * @param resourceId - The ID of the resource to release
+ * @returns Encoded function data
+ */
+export const encodeReleaseResource = (resourceId: number): Hex => {
+  return encodeFunctionData({
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    functionName: 'releaseResource',
+    args: [BigInt(resourceId)],
+  });
+};
+
+/**
+ * Build and sign an EIP-712 ForwardRequest with the user's wallet
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param publicClient - Client used to read the forwarder nonce
+ * @param request - Call to forward
+ * @returns Signed request ready for the relayer
+ */
+export const signForwardRequest = async (
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  request: MetaTransactionRequest
+): Promise<ForwardRequestData> => {
+  const forwarderAddress = getForwarderAddress(request.chainId);
+  if (!forwarderAddress) {
+    throw new Error('Gasless transactions are not configured for this network');
+  }
+
+  const nonce = await publicClient.readContract({
+    address: forwarderAddress,
+    abi: CAMPUS_RESOURCE_FORWARDER_ABI,
+    functionName: 'nonces',
+    args: [request.from],
+  });
+
+  const message = {
+    from: request.from,
+    to: request.to,
+    value: request.value ?? BigInt(0),
+    gas: DEFAULT_FORWARD_GAS,
+    nonce,
+    deadline: Math.floor(Date.now() / 1000) + FORWARD_REQUEST_TTL,
+    data: request.data,
+  };
+
+  const signature = await walletClient.signTypedData({
+    account: request.from,
+    domain: {
+      name: FORWARDER_DOMAIN_NAME,
+      version: '1',
+      chainId: request.chainId,
+      verifyingContract: forwarderAddress,
+    },
+    types: FORWARD_REQUEST_TYPES,
+    primaryType: 'ForwardRequest',
+    message,
+  });
+
+  // ERC2771Forwarder.execute reads the nonce on-chain, so it is not sent
+  return {
+    from: message.from,
+    to: message.to,
+    value: message.value,
+    gas: message.gas,
+    deadline: message.deadline,
+    data: message.data,
+    signature,
+  };
+};
+
+/**
+ * Sign a meta-transaction and submit it through the relayer
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param publicClient - Client used to read the forwarder nonce
+ * @param request - The meta-transaction request
+ * @returns Transaction hash if successful
+ */
+export const sendMetaTransaction = async (
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  request: MetaTransactionRequest
+): Promise<RelayResponse> => {
+  try {
+    const signed = await signForwardRequest(walletClient, publicClient, request);
+
+    const response = await fetch(RELAY_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(serializeForwardRequest(request.chainId, signed)),
+    });
+
+    const result = (await response.json()) as RelayResponse;
+    if (!response.ok || !result.success) {
+      return {
+        success: false,
+        error: result.error || `Relayer responded with status ${response.status}`
+      };
+    }
+
+    return result;
+  } catch (error) {
+    console.error('Meta-transaction error:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+};
+
+/**
+ * Reserve resource using gasless transaction
+ *
+ * The stake comes from the user's deposited stake balance, so no ETH is attached.
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param publicClient - Client used to read the forwarder nonce
+ * @param userAddress - User's wallet address
+ * @param resourceId - Resource to reserve
+ * @param duration - Duration in seconds
+ * @param chainId - Current chain ID
+ * @returns Transaction result
+ */
+export const gaslessReserveResource = async (
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  userAddress: Address,
+  resourceId: number,
+  duration: number,
+  chainId: number
+): Promise<RelayResponse> => {
+  const contractAddress = CONTRACT_ADDRESSES[chainId];
+
+  if (!contractAddress) {
+    return {
+      success: false,
+      error: 'Contract not deployed on this network'
+    };
+  }
+
+  const data = encodeReserveResource(resourceId, duration);
+
+  return sendMetaTransaction(walletClient, publicClient, {
+    from: userAddress,
+    to: contractAddress,
+    data,
+    chainId
+  });
+};
+
+/**
+ * Release resource using gasless transaction
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param publicClient - Client used to read the forwarder nonce
+ * @param userAddress - User's wallet address
+ * @param resourceId - Resource to release
+ * @param chainId - Current chain ID
+ * @returns Transaction result
+ */
+export const gaslessReleaseResource = async (
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  userAddress: Address,
+  resourceId: number,
+  chainId: number
+): Promise<RelayResponse> => {
+  const contractAddress = CONTRACT_ADDRESSES[chainId];
+
+  if (!contractAddress) {
+    return {
+      success: false,
+      error: 'Contract not deployed on this network'
+    };
+  }
+
+  const data = encodeReleaseResource(resourceId);
+
+  return sendMetaTransaction(walletClient, publicClient, {
+    from: userAddress,
+    to: contractAddress,
+    data,
+    chainId
+  });
+};
+
+/**
+ * Withdraw deposited stake using gasless transaction
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param publicClient - Client used to read the forwarder nonce
+ * @param userAddress - User's wallet address
+ * @param amount - Amount to withdraw in wei
+ * @param chainId - Current chain ID
+ * @returns Transaction result
+ */
+export const gaslessWithdrawStake = async (
+  walletClient: WalletClient,
+  publicClient: PublicClient,
+  userAddress: Address,
+  amount: bigint,
+  chainId: number
+): Promise<RelayResponse> => {
+  const contractAddress = CONTRACT_ADDRESSES[chainId];
+
+  if (!contractAddress) {
+    return {
+      success: false,
+      error: 'Contract not deployed on this network'
+    };
+  }
+
+  return sendMetaTransaction(walletClient, publicClient, {
+    from: userAddress,
+    to: contractAddress,
+    data: encodeWithdrawStake(amount),
+    chainId
+  });
+};
+
+// ==================== Setup ====================
+
+/**
+ * TO ENABLE GASLESS TRANSACTIONS:
+ *
+ * 1. Deploy with scripts/deploy.js and leave TRUSTED_FORWARDER unset, so a
+ *    CampusResourceForwarder is deployed and trusted by CampusResourceNFT.
+ *
+ * 2. The forwarder address is recorded in deployments/registry.json; to
+ *    override it, set in .env.local:
+ *    NEXT_PUBLIC_FORWARDER_ADDRESS_LOCALHOST=0x...
+ *
+ * 3. Configure the relayer (server-side only, see app/api/relay/route.ts):
+ *    RELAYER_PRIVATE_KEY=0x...   (funded account that pays gas)
+ *    SERVER_RPC_URL_31337=http://127.0.0.1:8545   (config/rpc.ts; this is the default)
+ *
+ * 4. Users (or a sponsor via depositStakeFor) deposit stake once; gasless
+ *    reservations then draw from that balance and never attach ETH.
+ */
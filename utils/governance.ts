@@ -0,0 +1,169 @@
+/**
+ * Token-Holder Governance
+ *
+ * Holders of CampusResourceNFT tokens propose resource changes through the
+ * CampusResourceGovernor contract and vote on them with their combined ERC1155
+ * balance across all resources. A proposal passes when at least `quorum`
+ * weight voted and more voted for than against; anyone can then execute it,
+ * and the governor applies it through RESOURCE_MANAGER_ROLE.
+ *
+ * Proposal actions:
+ * - ADD_RESOURCE: createResource
+ * - CHANGE_STAKE: setStake
+ * - RETIRE_RESOURCE: retireResource
+ */
+
+import { Address, zeroAddress } from 'viem';
+import { getDeployment, ResourceCategory } from '@/config/contract';
+import { ProposalAction, ProposalState } from '@/config/generated/CampusResourceGovernor';
+
+export { CAMPUS_RESOURCE_GOVERNOR_ABI, ProposalAction, ProposalState } from '@/config/generated/CampusResourceGovernor';
+
+// ==================== Configuration ====================
+
+/**
+ * CampusResourceGovernor addresses for different networks
+ * An env var overrides the deployment registry (deployments/registry.json)
+ */
+export const GOVERNOR_ADDRESSES: Record<number, Address> = {
+  // Hardhat local network
+  31337: (process.env.NEXT_PUBLIC_GOVERNOR_ADDRESS_LOCALHOST || getDeployment(31337)?.governorAddress || zeroAddress) as Address,
+
+  // Polygon Mainnet
+  137: (process.env.NEXT_PUBLIC_GOVERNOR_ADDRESS_POLYGON || getDeployment(137)?.governorAddress || zeroAddress) as Address,
+
+  // Sepolia Testnet
+  11155111: (process.env.NEXT_PUBLIC_GOVERNOR_ADDRESS_SEPOLIA || getDeployment(11155111)?.governorAddress || zeroAddress) as Address,
+};
+
+// ==================== Types ====================
+
+/**
+ * Proposal and its running tally (from getProposals / getProposal)
+ * Fields the action does not use are zero
+ */
+export interface Proposal {
+  proposalId: bigint;
+  proposer: Address;
+  action: ProposalAction;
+  resourceId: bigint;
+  name: string;
+  category: ResourceCategory;
+  initialSupply: bigint;
+  recipient: Address;
+  stake: bigint;
+  description: string;
+  voteEnd: bigint;
+  snapshotBlock: bigint;
+  forVotes: bigint;
+  againstVotes: bigint;
+  executed: boolean;
+}
+
+/**
+ * Status filters offered on the proposals page
+ * 'passed' includes executed proposals
+ */
+export type ProposalFilter = 'all' | 'active' | 'passed' | 'rejected';
+
+// ==================== Constants ====================
+
+/**
+ * Display names for each proposal action
+ */
+export const PROPOSAL_ACTION_NAMES: Record<ProposalAction, string> = {
+  [ProposalAction.ADD_RESOURCE]: 'Add Resource',
+  [ProposalAction.CHANGE_STAKE]: 'Change Stake',
+  [ProposalAction.RETIRE_RESOURCE]: 'Retire Resource',
+};
+
+/**
+ * Display names for each proposal state
+ */
+export const PROPOSAL_STATE_NAMES: Record<ProposalState, string> = {
+  [ProposalState.ACTIVE]: 'Active',
+  [ProposalState.PASSED]: 'Passed',
+  [ProposalState.REJECTED]: 'Rejected',
+  [ProposalState.EXECUTED]: 'Executed',
+};
+
+/**
+ * Chakra color scheme for each proposal state
+ */
+export const PROPOSAL_STATE_COLORS: Record<ProposalState, string> = {
+  [ProposalState.ACTIVE]: 'blue',
+  [ProposalState.PASSED]: 'green',
+  [ProposalState.REJECTED]: 'red',
+  [ProposalState.EXECUTED]: 'purple',
+};
+
+/**
+ * Filter tabs on the proposals page, in display order
+ */
+export const PROPOSAL_FILTERS: { value: ProposalFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'active', label: 'Active' },
+  { value: 'passed', label: 'Passed' },
+  { value: 'rejected', label: 'Rejected' },
+];
+
+// ==================== Helper Functions ====================
+
+/**
+ * State of a proposal at `now`
+ * Mirrors CampusResourceGovernor.state so the UI flips to passed/rejected
+ * the moment voting closes, without waiting for a block.
+ *
+ * @param proposal - Proposal from the governor
+ * @param quorum - Governor quorum (minimum total voting weight)
+ * @param now - Current time (unix seconds)
+ */
+export const getProposalState = (
+  proposal: Proposal,
+  quorum: bigint,
+  now: number = Math.floor(Date.now() / 1000)
+): ProposalState => {
+  if (proposal.executed) {
+    return ProposalState.EXECUTED;
+  }
+  if (BigInt(now) < proposal.voteEnd) {
+    return ProposalState.ACTIVE;
+  }
+  if (proposal.forVotes + proposal.againstVotes >= quorum && proposal.forVotes > proposal.againstVotes) {
+    return ProposalState.PASSED;
+  }
+  return ProposalState.REJECTED;
+};
+
+/**
+ * Whether a proposal state belongs under a status filter
+ */
+export const matchesProposalFilter = (state: ProposalState, filter: ProposalFilter): boolean => {
+  switch (filter) {
+    case 'active':
+      return state === ProposalState.ACTIVE;
+    case 'passed':
+      return state === ProposalState.PASSED || state === ProposalState.EXECUTED;
+    case 'rejected':
+      return state === ProposalState.REJECTED;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Short title for a proposal, e.g. "Retire resource #3"
+ * @param proposal - Proposal from the governor
+ * @param resourceName - Name of the target resource, if known
+ */
+export const getProposalTitle = (proposal: Proposal, resourceName?: string): string => {
+  const target = resourceName ?? `resource #${proposal.resourceId}`;
+  switch (proposal.action) {
+    case ProposalAction.ADD_RESOURCE:
+      return `Add ${proposal.name}`;
+    case ProposalAction.CHANGE_STAKE:
+      return `Change the stake of ${target}`;
+    default:
+      return `Retire ${target}`;
+  }
+};
@@ -0,0 +1,833 @@
+/**
+ * Client-side Event Indexer for CampusResourceNFT
+ *
+ * Rebuilds reservation state from contract event logs so the UI can answer
+ * questions the contract has no view function for (e.g. "which resources
+ * does this wallet currently hold?").
+ *
+ * Events consumed:
+ * - ResourceCreated: resource name and category
+ * - ResourceReserved: a wallet took a reservation
+ * - ReservationExtended: the reserver pushed back the reservation end
+ * - ResourceReleased: the reserver released early and got the stake back
+ * - ReservationExpired: an expired reservation was cleared by the next reserver
+ *   or swept by a keeper, with the stake returned and the keeper reward
+ * - WaitlistJoined / WaitlistLeft / WaitlistPromoted: users queueing for a reserved resource
+ * - ReservationPenalized: late-return penalty slashed from a reservation's stake
+ * - ReservationTransferOffered / ReservationTransferred: handovers between wallets
+ * - RoleGranted / RoleRevoked: current AccessControl role members
+ *
+ * Logs are fetched in fixed-size block ranges so public RPC endpoints that
+ * cap eth_getLogs ranges still work. Everything runs against any viem
+ * PublicClient, including a local Hardhat node (`npm run node`).
+ *
+ * Each fetch* function scans the logs itself. The app instead keeps one
+ * ContractEventScan per contract (see scanContractEvents), extends it with
+ * new blocks only, and derives every view from it with the index* functions.
+ */
+
+import { Address, Hash, Hex, PublicClient, zeroAddress } from 'viem';
+import {
+  CAMPUS_RESOURCE_NFT_ABI,
+  ResourceCategory,
+  getDeployBlock,
+  UserReservation
+} from '@/config/contract';
+
+// ==================== Configuration ====================
+
+/**
+ * Default number of blocks requested per eth_getLogs call
+ * Most hosted RPC providers accept ranges of at least this size
+ */
+export const DEFAULT_BLOCK_RANGE = BigInt(5000);
+
+/**
+ * Trailing blocks an extended scan fetches again
+ * Logs from these blocks are replaced rather than kept, so a reorg no deeper
+ * than this cannot leave logs from reverted blocks in the scan.
+ */
+export const RESCAN_BLOCKS = BigInt(64);
+
+// ==================== Types ====================
+
+/**
+ * Options controlling which block range is scanned
+ *
+ * @property fromBlock - First block to scan (default: the contract's deploy block, see getDeployBlock;
+ *   public chains without one are refused rather than scanned from genesis)
+ * @property toBlock - Last block to scan (default: latest block)
+ * @property blockRange - Maximum number of blocks per getLogs request
+ */
+export interface IndexerOptions {
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  blockRange?: bigint;
+}
+
+/**
+ * Decoded CampusResourceNFT event log
+ */
+export type ContractEventLog = Awaited<
+  ReturnType<typeof getContractEventsTyped>
+>[number];
+
+/**
+ * Logs of one contract collected so far
+ *
+ * @property fromBlock - First block scanned
+ * @property toBlock - Last block scanned; the next scan starts after it
+ * @property logs - Decoded logs in chain order
+ */
+export interface ContractEventScan {
+  fromBlock: bigint;
+  toBlock: bigint;
+  logs: ContractEventLog[];
+}
+
+/**
+ * Resource metadata recovered from ResourceCreated events
+ */
+export interface IndexedResource {
+  name: string;
+  category: ResourceCategory;
+}
+
+/**
+ * Active reservation recovered from ResourceReserved events
+ *
+ * @property blockNumber - Block that contains the ResourceReserved event
+ */
+export interface IndexedReservation {
+  resourceId: number;
+  reserver: Address;
+  stakeAmount: bigint;
+  reservationEnd: bigint;
+  blockNumber: bigint;
+}
+
+/**
+ * Handover offered by a reserver, recovered from ReservationTransferOffered events
+ */
+export interface IndexedTransferOffer {
+  from: Address;
+  to: Address;
+}
+
+/**
+ * Handover offered to a wallet, with the reservation it would take over
+ *
+ * @property stakeAmount - Stake locked by the current reserver (the recipient must match it)
+ */
+export interface IncomingTransfer {
+  resourceId: number;
+  resourceName: string;
+  category: ResourceCategory;
+  from: Address;
+  stakeAmount: bigint;
+  reservationEnd: bigint;
+}
+
+/**
+ * How a past reservation ended
+ * - active: still running
+ * - released: the reserver released it (stake returned)
+ * - expired: ran past its end time (cleared by the next reserver, or not yet cleared)
+ * - transferred: handed over to another wallet (stake returned)
+ */
+export type ReservationOutcome = 'active' | 'released' | 'expired' | 'transferred';
+
+/**
+ * One reservation in a resource's history, rebuilt from events
+ *
+ * @property reservationStart - Timestamp of the block containing ResourceReserved
+ * @property reservationEnd - Scheduled end emitted with ResourceReserved
+ * @property endedAt - When the reservation actually ended (release block, or scheduled end if expired)
+ * @property stakeReturned - Stake refunded when the reservation ended
+ * @property keeperReward - Stake paid to the keeper that swept the expired reservation
+ * @property penalty - Late-return penalty slashed to the treasury
+ * @property fromWaitlist - Whether the reserver was promoted from the waitlist
+ */
+export interface ReservationTimelineEntry {
+  resourceId: number;
+  reserver: Address;
+  reservationStart: bigint;
+  reservationEnd: bigint;
+  endedAt?: bigint;
+  stakeAmount: bigint;
+  stakeReturned?: bigint;
+  keeperReward?: bigint;
+  penalty?: bigint;
+  outcome: ReservationOutcome;
+  fromWaitlist?: boolean;
+  transactionHash: Hash;
+}
+
+/**
+ * Advance booking that still holds its slot (neither cancelled nor checked in)
+ */
+export interface IndexedBooking {
+  bookingId: bigint;
+  booker: Address;
+  start: bigint;
+  end: bigint;
+}
+
+/**
+ * A resource and every reservation made on it, rebuilt from events
+ *
+ * @property createdAt - Timestamp of the block containing ResourceCreated
+ * @property timeline - Reservations, most recent first
+ * @property retired - Whether governance has retired the resource
+ * @property waitlistLength - Users currently waiting for the resource
+ * @property bookings - Active bookings, in booking order
+ */
+export interface ResourceUsageHistory {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+  createdAt: bigint;
+  timeline: ReservationTimelineEntry[];
+  retired: boolean;
+  waitlistLength: number;
+  bookings: IndexedBooking[];
+}
+
+/**
+ * Reservation state rebuilt from the full event history
+ *
+ * @property waitlists - Users waiting for each resource, first in line first
+ * @property transferOffers - Open handover offer on each resource's live reservation
+ */
+export interface IndexedState {
+  resources: Map<number, IndexedResource>;
+  activeReservations: Map<number, IndexedReservation>;
+  waitlists: Map<number, Address[]>;
+  transferOffers: Map<number, IndexedTransferOffer>;
+}
+
+// ==================== Log Fetching ====================
+
+/**
+ * Typed wrapper around getContractEvents for a single block range
+ */
+const getContractEventsTyped = (
+  client: PublicClient,
+  contractAddress: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+) => {
+  return client.getContractEvents({
+    address: contractAddress,
+    abi: CAMPUS_RESOURCE_NFT_ABI,
+    fromBlock,
+    toBlock,
+    strict: true,
+  });
+};
+
+/**
+ * Fetch all CampusResourceNFT event logs, paging through block ranges
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param options - Block range options
+ * @returns Decoded logs in chain order (block number, then log index)
+ */
+export const fetchContractEvents = async (
+  client: PublicClient,
+  contractAddress: Address,
+  options: IndexerOptions = {}
+): Promise<ContractEventLog[]> => {
+  const fromBlock = options.fromBlock ?? getDeployBlock(client.chain?.id);
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+
+  if (blockRange <= BigInt(0)) {
+    throw new Error('blockRange must be greater than zero');
+  }
+
+  const logs: ContractEventLog[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += blockRange) {
+    const end = start + blockRange - BigInt(1) < toBlock ? start + blockRange - BigInt(1) : toBlock;
+    const page = await getContractEventsTyped(client, contractAddress, start, end);
+    logs.push(...page);
+  }
+
+  return logs.sort((a, b) => {
+    if (a.blockNumber !== b.blockNumber) {
+      return a.blockNumber < b.blockNumber ? -1 : 1;
+    }
+    return a.logIndex - b.logIndex;
+  });
+};
+
+/**
+ * Scan a contract's logs, or extend an earlier scan with the blocks since
+ *
+ * An earlier scan of the same start block is reused: only its last
+ * RESCAN_BLOCKS blocks (to pick up reorgs) and the blocks after it are
+ * requested, so refreshing after a new event costs one small getLogs call
+ * instead of a rescan from the deploy block. A fixed options.toBlock, or a
+ * chain that fell further behind the earlier scan, always rescans.
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param options - Block range options
+ * @param previous - Earlier scan of the same contract, if any
+ * @returns Every log from the start block to the latest (or requested) block
+ */
+export const scanContractEvents = async (
+  client: PublicClient,
+  contractAddress: Address,
+  options: IndexerOptions = {},
+  previous?: ContractEventScan
+): Promise<ContractEventScan> => {
+  const fromBlock = options.fromBlock ?? getDeployBlock(client.chain?.id);
+  const toBlock = options.toBlock ?? (await client.getBlockNumber());
+  const blockRange = options.blockRange;
+  const rescanFrom = previous ? previous.toBlock + BigInt(1) - RESCAN_BLOCKS : fromBlock;
+
+  if (!previous || previous.fromBlock !== fromBlock || options.toBlock !== undefined || toBlock < rescanFrom) {
+    const logs = await fetchContractEvents(client, contractAddress, { fromBlock, toBlock, blockRange });
+    return { fromBlock, toBlock, logs };
+  }
+
+  const start = rescanFrom > fromBlock ? rescanFrom : fromBlock;
+  const newLogs = await fetchContractEvents(client, contractAddress, { fromBlock: start, toBlock, blockRange });
+  const kept = previous.logs.filter((log) => log.blockNumber < start);
+  return { fromBlock, toBlock, logs: [...kept, ...newLogs] };
+};
+
+// ==================== State Reconstruction ====================
+
+/**
+ * Replay event logs to rebuild resource metadata and active reservations
+ *
+ * A ResourceReserved event opens a reservation; ReservationExtended moves its
+ * end, and ResourceReleased or ReservationExpired for the same resource
+ * closes it. ReservationTransferred hands it to a new reserver. WaitlistJoined
+ * appends to a resource's queue; WaitlistLeft and WaitlistPromoted remove the
+ * user. A handover offer lasts until it is withdrawn or accepted, or the
+ * reservation changes. Logs must be in chain order (as returned by
+ * fetchContractEvents).
+ *
+ * @param logs - Decoded contract logs in chain order
+ * @returns Indexed resources and currently open reservations
+ */
+export const replayEvents = (logs: ContractEventLog[]): IndexedState => {
+  const resources = new Map<number, IndexedResource>();
+  const activeReservations = new Map<number, IndexedReservation>();
+  const waitlists = new Map<number, Address[]>();
+  const transferOffers = new Map<number, IndexedTransferOffer>();
+
+  const removeFromWaitlist = (resourceId: number, user: Address) => {
+    const queue = waitlists.get(resourceId) ?? [];
+    waitlists.set(resourceId, queue.filter((queued) => queued.toLowerCase() !== user.toLowerCase()));
+  };
+
+  for (const log of logs) {
+    switch (log.eventName) {
+      case 'ResourceCreated': {
+        resources.set(Number(log.args.resourceId), {
+          name: log.args.name,
+          category: log.args.category as ResourceCategory,
+        });
+        break;
+      }
+      case 'ResourceReserved': {
+        const resourceId = Number(log.args.resourceId);
+        transferOffers.delete(resourceId);
+        activeReservations.set(resourceId, {
+          resourceId,
+          reserver: log.args.reserver,
+          stakeAmount: log.args.stakeAmount,
+          reservationEnd: log.args.reservationEnd,
+          blockNumber: log.blockNumber,
+        });
+        break;
+      }
+      case 'ReservationExtended': {
+        const reservation = activeReservations.get(Number(log.args.resourceId));
+        if (reservation) {
+          reservation.reservationEnd = log.args.newReservationEnd;
+        }
+        break;
+      }
+      case 'ResourceReleased':
+      case 'ReservationExpired': {
+        activeReservations.delete(Number(log.args.resourceId));
+        transferOffers.delete(Number(log.args.resourceId));
+        break;
+      }
+      case 'ReservationTransferOffered': {
+        const resourceId = Number(log.args.resourceId);
+        if (log.args.to === zeroAddress) {
+          transferOffers.delete(resourceId);
+        } else {
+          transferOffers.set(resourceId, { from: log.args.from, to: log.args.to });
+        }
+        break;
+      }
+      case 'ReservationTransferred': {
+        const resourceId = Number(log.args.resourceId);
+        const reservation = activeReservations.get(resourceId);
+        if (reservation) {
+          reservation.reserver = log.args.to;
+          reservation.stakeAmount = log.args.stakeAmount;
+        }
+        transferOffers.delete(resourceId);
+        break;
+      }
+      case 'WaitlistJoined': {
+        const resourceId = Number(log.args.resourceId);
+        waitlists.set(resourceId, [...(waitlists.get(resourceId) ?? []), log.args.user]);
+        break;
+      }
+      case 'WaitlistLeft':
+      case 'WaitlistPromoted': {
+        removeFromWaitlist(Number(log.args.resourceId), log.args.user);
+        break;
+      }
+    }
+  }
+
+  return { resources, activeReservations, waitlists, transferOffers };
+};
+
+/**
+ * Fetch the active reservations held by a wallet
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param userAddress - Wallet whose reservations should be returned
+ * @param options - Block range options
+ * @returns The wallet's open reservations, soonest-ending first
+ */
+export const fetchUserReservations = async (
+  client: PublicClient,
+  contractAddress: Address,
+  userAddress: Address,
+  options: IndexerOptions = {}
+): Promise<UserReservation[]> => {
+  const logs = await fetchContractEvents(client, contractAddress, options);
+  return indexUserReservations(client, logs, userAddress);
+};
+
+/**
+ * Rebuild the active reservations held by a wallet from scanned logs
+ *
+ * Reservation start times are taken from the timestamp of the block that
+ * contains the ResourceReserved event.
+ *
+ * @param client - viem public client, used for block timestamps
+ * @param logs - Decoded contract logs in chain order
+ * @param userAddress - Wallet whose reservations should be returned
+ * @returns The wallet's open reservations, soonest-ending first
+ */
+export const indexUserReservations = async (
+  client: PublicClient,
+  logs: ContractEventLog[],
+  userAddress: Address
+): Promise<UserReservation[]> => {
+  const { resources, activeReservations } = replayEvents(logs);
+
+  const owned = Array.from(activeReservations.values()).filter(
+    (reservation) => reservation.reserver.toLowerCase() === userAddress.toLowerCase()
+  );
+
+  const now = Math.floor(Date.now() / 1000);
+
+  const reservations = await Promise.all(
+    owned.map(async (reservation): Promise<UserReservation> => {
+      const block = await client.getBlock({ blockNumber: reservation.blockNumber });
+      const metadata = resources.get(reservation.resourceId);
+      const remainingTime = Math.max(0, Number(reservation.reservationEnd) - now);
+
+      return {
+        resourceId: reservation.resourceId,
+        resourceName: metadata?.name ?? `Resource #${reservation.resourceId}`,
+        category: metadata?.category ?? ResourceCategory.LAB,
+        reservationStart: block.timestamp,
+        reservationEnd: reservation.reservationEnd,
+        stakedAmount: reservation.stakeAmount,
+        remainingTime,
+        isExpired: remainingTime <= 0,
+      };
+    })
+  );
+
+  return reservations.sort((a, b) => Number(a.reservationEnd - b.reservationEnd));
+};
+
+/**
+ * Fetch the timestamps of the blocks that contain the given logs
+ * @returns Lookup from block number to timestamp (0 for unknown blocks)
+ */
+const fetchBlockTimestamps = async (
+  client: PublicClient,
+  logs: ContractEventLog[]
+): Promise<(blockNumber: bigint) => bigint> => {
+  const blockNumbers = Array.from(new Set(logs.map((log) => log.blockNumber)));
+  const blocks = await Promise.all(
+    blockNumbers.map((blockNumber) => client.getBlock({ blockNumber }))
+  );
+  const timestamps = new Map(blocks.map((block) => [block.number, block.timestamp]));
+  return (blockNumber: bigint) => timestamps.get(blockNumber) ?? BigInt(0);
+};
+
+/**
+ * Rebuild one resource's reservation timeline from its logs
+ *
+ * @param resourceId - Resource the logs belong to
+ * @param resourceLogs - The resource's logs in chain order
+ * @param timestampOf - Block timestamp lookup (see fetchBlockTimestamps)
+ * @returns Reservation timeline, most recent reservation first
+ */
+const buildTimeline = (
+  resourceId: number,
+  resourceLogs: ContractEventLog[],
+  timestampOf: (blockNumber: bigint) => bigint
+): ReservationTimelineEntry[] => {
+  const entries: ReservationTimelineEntry[] = [];
+  let open: ReservationTimelineEntry | undefined;
+
+  for (const log of resourceLogs) {
+    switch (log.eventName) {
+      case 'ResourceReserved': {
+        open = {
+          resourceId,
+          reserver: log.args.reserver,
+          reservationStart: timestampOf(log.blockNumber),
+          reservationEnd: log.args.reservationEnd,
+          stakeAmount: log.args.stakeAmount,
+          outcome: 'active',
+          transactionHash: log.transactionHash,
+        };
+        entries.push(open);
+        break;
+      }
+      case 'ReservationExtended': {
+        if (open) {
+          open.reservationEnd = log.args.newReservationEnd;
+        }
+        break;
+      }
+      case 'WaitlistPromoted': {
+        if (open) {
+          open.fromWaitlist = true;
+        }
+        break;
+      }
+      case 'ReservationTransferred': {
+        if (open) {
+          open.outcome = 'transferred';
+          open.endedAt = timestampOf(log.blockNumber);
+          open.stakeReturned = log.args.stakeReturned;
+
+          // The new reserver's entry runs from the handover to the same end
+          open = {
+            resourceId,
+            reserver: log.args.to,
+            reservationStart: timestampOf(log.blockNumber),
+            reservationEnd: open.reservationEnd,
+            stakeAmount: log.args.stakeAmount,
+            outcome: 'active',
+            transactionHash: log.transactionHash,
+          };
+          entries.push(open);
+        }
+        break;
+      }
+      case 'ReservationPenalized': {
+        // Emitted just before the ResourceReleased or ReservationExpired that ends the reservation
+        if (open) {
+          open.penalty = log.args.penalty;
+        }
+        break;
+      }
+      case 'ResourceReleased': {
+        if (open) {
+          open.outcome = 'released';
+          open.endedAt = timestampOf(log.blockNumber);
+          open.stakeReturned = log.args.stakeReturned;
+          open = undefined;
+        }
+        break;
+      }
+      case 'ReservationExpired': {
+        if (open) {
+          open.outcome = 'expired';
+          open.endedAt = open.reservationEnd;
+          open.stakeReturned = log.args.stakeReturned;
+          open.keeperReward = log.args.keeperReward;
+          open = undefined;
+        }
+        break;
+      }
+    }
+  }
+
+  // A reservation past its end that nobody has cleared yet is still expired
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (open && open.reservationEnd <= now) {
+    open.outcome = 'expired';
+    open.endedAt = open.reservationEnd;
+  }
+
+  return entries.reverse();
+};
+
+/**
+ * Rebuild one resource's active bookings from its logs
+ * BookingCreated opens a booking; BookingCancelled or BookingCheckedIn closes it.
+ *
+ * @param resourceLogs - The resource's logs in chain order
+ * @returns Bookings still holding their slot, in booking order
+ */
+const replayBookings = (resourceLogs: ContractEventLog[]): IndexedBooking[] => {
+  const bookings = new Map<bigint, IndexedBooking>();
+
+  for (const log of resourceLogs) {
+    switch (log.eventName) {
+      case 'BookingCreated': {
+        bookings.set(log.args.bookingId, {
+          bookingId: log.args.bookingId,
+          booker: log.args.booker,
+          start: log.args.start,
+          end: log.args.end,
+        });
+        break;
+      }
+      case 'BookingCancelled':
+      case 'BookingCheckedIn': {
+        bookings.delete(log.args.bookingId);
+        break;
+      }
+    }
+  }
+
+  return Array.from(bookings.values());
+};
+
+/**
+ * Fetch every reservation ever made on a resource, newest first
+ *
+ * Each ResourceReserved event starts an entry; the next ResourceReleased or
+ * ReservationExpired for the resource closes it. Entries line up one-to-one,
+ * in order, with the contract's getReservationHistory() when the scan starts
+ * at the deployment block.
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param resourceId - Resource whose history should be returned
+ * @param options - Block range options
+ * @returns Reservation timeline, most recent reservation first
+ */
+export const fetchResourceTimeline = async (
+  client: PublicClient,
+  contractAddress: Address,
+  resourceId: number,
+  options: IndexerOptions = {}
+): Promise<ReservationTimelineEntry[]> => {
+  const logs = await fetchContractEvents(client, contractAddress, options);
+  return indexResourceTimeline(client, logs, resourceId);
+};
+
+/**
+ * Rebuild one resource's reservation timeline from scanned logs
+ *
+ * @param client - viem public client, used for block timestamps
+ * @param logs - Decoded contract logs in chain order
+ * @param resourceId - Resource whose history should be returned
+ * @returns Reservation timeline, most recent reservation first
+ */
+export const indexResourceTimeline = async (
+  client: PublicClient,
+  logs: ContractEventLog[],
+  resourceId: number
+): Promise<ReservationTimelineEntry[]> => {
+  const resourceLogs = logs.filter(
+    (log) => 'resourceId' in log.args && Number(log.args.resourceId) === resourceId
+  );
+
+  // Block timestamps are needed for reservation starts and release times
+  const timestampOf = await fetchBlockTimestamps(client, resourceLogs);
+  return buildTimeline(resourceId, resourceLogs, timestampOf);
+};
+
+/**
+ * Fetch the reservation timelines of every resource in one log scan
+ *
+ * Only resources created inside the scanned block range are returned, since
+ * their creation time bounds how long they could have been reserved. Each
+ * resource also carries its retirement flag, waitlist length and active
+ * bookings, which availability forecasts need.
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param options - Block range options
+ * @returns Each resource's details and timeline (newest reservation first), by resource ID
+ */
+export const fetchUsageHistory = async (
+  client: PublicClient,
+  contractAddress: Address,
+  options: IndexerOptions = {}
+): Promise<ResourceUsageHistory[]> => {
+  const logs = await fetchContractEvents(client, contractAddress, options);
+  return indexUsageHistory(client, logs);
+};
+
+/**
+ * Rebuild every resource's usage history from scanned logs
+ *
+ * @param client - viem public client, used for block timestamps
+ * @param logs - Decoded contract logs in chain order
+ * @returns Each resource's details and timeline, by resource ID
+ */
+export const indexUsageHistory = async (
+  client: PublicClient,
+  logs: ContractEventLog[]
+): Promise<ResourceUsageHistory[]> => {
+  const logsByResource = new Map<number, ContractEventLog[]>();
+  for (const log of logs) {
+    if ('resourceId' in log.args && typeof log.args.resourceId === 'bigint') {
+      const resourceId = Number(log.args.resourceId);
+      logsByResource.set(resourceId, [...(logsByResource.get(resourceId) ?? []), log]);
+    }
+  }
+
+  // Only events that start or end a reservation (or create a resource) need timestamps
+  const timedLogs = logs.filter((log) =>
+    log.eventName === 'ResourceCreated' ||
+    log.eventName === 'ResourceReserved' ||
+    log.eventName === 'ReservationTransferred' ||
+    log.eventName === 'ResourceReleased'
+  );
+  const timestampOf = await fetchBlockTimestamps(client, timedLogs);
+  const { waitlists } = replayEvents(logs);
+
+  return logs.flatMap((log) => {
+    if (log.eventName !== 'ResourceCreated') {
+      return [];
+    }
+    const resourceId = Number(log.args.resourceId);
+    const resourceLogs = logsByResource.get(resourceId) ?? [];
+    return [{
+      resourceId,
+      name: log.args.name,
+      category: log.args.category as ResourceCategory,
+      createdAt: timestampOf(log.blockNumber),
+      timeline: buildTimeline(resourceId, resourceLogs, timestampOf),
+      retired: resourceLogs.some((resourceLog) => resourceLog.eventName === 'ResourceRetired'),
+      waitlistLength: waitlists.get(resourceId)?.length ?? 0,
+      bookings: replayBookings(resourceLogs),
+    }];
+  });
+};
+
+/**
+ * Fetch the handovers currently offered to a wallet
+ *
+ * Offers on reservations that have already ended are left out, since they
+ * can no longer be accepted.
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param userAddress - Wallet the handovers are offered to
+ * @param options - Block range options
+ * @returns Open handovers, soonest-ending first
+ */
+export const fetchIncomingTransfers = async (
+  client: PublicClient,
+  contractAddress: Address,
+  userAddress: Address,
+  options: IndexerOptions = {}
+): Promise<IncomingTransfer[]> => {
+  const logs = await fetchContractEvents(client, contractAddress, options);
+  return indexIncomingTransfers(logs, userAddress);
+};
+
+/**
+ * Rebuild the handovers currently offered to a wallet from scanned logs
+ *
+ * @param logs - Decoded contract logs in chain order
+ * @param userAddress - Wallet the handovers are offered to
+ * @returns Open handovers, soonest-ending first
+ */
+export const indexIncomingTransfers = (logs: ContractEventLog[], userAddress: Address): IncomingTransfer[] => {
+  const { resources, activeReservations, transferOffers } = replayEvents(logs);
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  const transfers: IncomingTransfer[] = [];
+  transferOffers.forEach((offer, resourceId) => {
+    const reservation = activeReservations.get(resourceId);
+    if (
+      !reservation ||
+      offer.to.toLowerCase() !== userAddress.toLowerCase() ||
+      reservation.reserver.toLowerCase() !== offer.from.toLowerCase() ||
+      reservation.reservationEnd <= now
+    ) {
+      return;
+    }
+
+    const metadata = resources.get(resourceId);
+    transfers.push({
+      resourceId,
+      resourceName: metadata?.name ?? `Resource #${resourceId}`,
+      category: metadata?.category ?? ResourceCategory.LAB,
+      from: offer.from,
+      stakeAmount: reservation.stakeAmount,
+      reservationEnd: reservation.reservationEnd,
+    });
+  });
+
+  return transfers.sort((a, b) => Number(a.reservationEnd - b.reservationEnd));
+};
+
+/**
+ * Rebuild AccessControl role membership from RoleGranted/RoleRevoked events
+ *
+ * @param logs - Decoded contract logs in chain order
+ * @returns Map of role identifier to current member addresses
+ */
+export const replayRoleEvents = (logs: ContractEventLog[]): Map<Hex, Address[]> => {
+  const members = new Map<Hex, Map<string, Address>>();
+
+  for (const log of logs) {
+    if (log.eventName !== 'RoleGranted' && log.eventName !== 'RoleRevoked') {
+      continue;
+    }
+
+    const roleMembers = members.get(log.args.role) ?? new Map<string, Address>();
+    members.set(log.args.role, roleMembers);
+
+    if (log.eventName === 'RoleGranted') {
+      roleMembers.set(log.args.account.toLowerCase(), log.args.account);
+    } else {
+      roleMembers.delete(log.args.account.toLowerCase());
+    }
+  }
+
+  return new Map(
+    Array.from(members.entries()).map(([role, roleMembers]) => [role, Array.from(roleMembers.values())])
+  );
+};
+
+/**
+ * Fetch the current members of every AccessControl role
+ *
+ * @param client - viem public client for the target chain
+ * @param contractAddress - Deployed CampusResourceNFT address
+ * @param options - Block range options
+ * @returns Map of role identifier to current member addresses
+ */
+export const fetchRoleMembers = async (
+  client: PublicClient,
+  contractAddress: Address,
+  options: IndexerOptions = {}
+): Promise<Map<Hex, Address[]>> => {
+  const logs = await fetchContractEvents(client, contractAddress, options);
+  return replayRoleEvents(logs);
+};
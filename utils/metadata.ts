@@ -0,0 +1,117 @@
+/**
+ * ERC1155 Resource Metadata
+ *
+ * CampusResourceNFT only stores a resource's name and category on-chain.
+ * Richer details (description, location, image) are served as ERC1155
+ * metadata JSON by the app itself at /api/metadata/{id}.json, backed by a
+ * local store (see utils/metadataStore.ts and data/resource-metadata.json).
+ *
+ * The contract's ERC1155 URI should point at that route, e.g.
+ *   METADATA_URI=https://your-app.example/api/metadata/{id}.json
+ *
+ * Per EIP-1155, clients replace `{id}` with the token ID as 64 lowercase
+ * hex characters (no 0x prefix).
+ */
+
+// ==================== Configuration ====================
+
+/**
+ * Metadata API route served by app/api/metadata/[id]
+ */
+export const METADATA_ENDPOINT = '/api/metadata';
+
+// ==================== Types ====================
+
+/**
+ * OpenSea-style attribute shown alongside a resource
+ */
+export interface MetadataAttribute {
+  trait_type: string;
+  value: string | number;
+}
+
+/**
+ * Metadata JSON returned for a token (ERC1155 Metadata URI JSON Schema)
+ *
+ * @property properties.location - Where the resource can be found on campus
+ */
+export interface ResourceMetadata {
+  name: string;
+  description: string;
+  image?: string;
+  external_url?: string;
+  attributes?: MetadataAttribute[];
+  properties: {
+    location?: string;
+  };
+}
+
+// ==================== Helper Functions ====================
+
+/**
+ * Format a token ID the way ERC1155 clients substitute `{id}`
+ * @param tokenId - Resource/token ID
+ * @returns 64-character lowercase hex string without 0x prefix
+ */
+export const toErc1155HexId = (tokenId: number | bigint): string => {
+  return BigInt(tokenId).toString(16).padStart(64, '0');
+};
+
+/**
+ * Resolve an ERC1155 URI template for a token
+ * @param uriTemplate - URI returned by the contract's `uri(id)`
+ * @param tokenId - Resource/token ID
+ */
+export const resolveTokenUri = (uriTemplate: string, tokenId: number | bigint): string => {
+  return uriTemplate.replace('{id}', toErc1155HexId(tokenId));
+};
+
+/**
+ * Parse the `{id}` segment of a metadata request
+ * Accepts the 64-character hex form (optionally with `.json`) and plain decimal IDs
+ *
+ * @returns Token ID, or null if the segment is not a valid ID
+ */
+export const parseMetadataId = (segment: string): bigint | null => {
+  const value = segment.replace(/\.json$/i, '');
+
+  if (/^[0-9a-f]{64}$/i.test(value)) {
+    return BigInt(`0x${value}`);
+  }
+  if (/^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+};
+
+/**
+ * Fetch a token's metadata JSON
+ * Tries the contract's URI first and falls back to the app's own route when
+ * that host is unreachable or has no entry for the token.
+ *
+ * @param tokenId - Resource/token ID
+ * @param uriTemplate - URI returned by the contract's `uri(id)`, if known
+ * @returns Metadata JSON, or null if none is published
+ */
+export const fetchResourceMetadata = async (
+  tokenId: number | bigint,
+  uriTemplate?: string
+): Promise<ResourceMetadata | null> => {
+  const localUri = `${METADATA_ENDPOINT}/${toErc1155HexId(tokenId)}.json`;
+  const candidates = uriTemplate ? [resolveTokenUri(uriTemplate, tokenId), localUri] : [localUri];
+
+  for (const uri of Array.from(new Set(candidates))) {
+    try {
+      const response = await fetch(uri);
+      if (response.status === 404) {
+        continue;
+      }
+      if (response.ok) {
+        return (await response.json()) as ResourceMetadata;
+      }
+    } catch {
+      // Unreachable metadata host; try the next candidate
+    }
+  }
+  return null;
+};
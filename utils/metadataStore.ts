@@ -0,0 +1,67 @@
+/**
+ * Resource Metadata Store (server-side only)
+ *
+ * Reads off-chain resource details from a local JSON file keyed by
+ * decimal resource ID. Each entry holds the fields that do not fit in the
+ * on-chain Resource struct:
+ *
+ *   { "0": { "description": "...", "location": "...", "image": "...", "attributes": [...] } }
+ *
+ * The file is re-read on every request, so edits show up without a restart.
+ *
+ * Environment:
+ * - METADATA_STORE_PATH: path to the JSON store (default: data/resource-metadata.json)
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MetadataAttribute } from '@/utils/metadata';
+
+// ==================== Types ====================
+
+/**
+ * Off-chain details stored for one resource
+ */
+export interface StoredResourceMetadata {
+  name?: string;
+  description?: string;
+  location?: string;
+  image?: string;
+  external_url?: string;
+  attributes?: MetadataAttribute[];
+}
+
+// ==================== Store ====================
+
+/**
+ * Resolve the store file path
+ */
+const getStorePath = (): string => {
+  return path.resolve(process.cwd(), process.env.METADATA_STORE_PATH || 'data/resource-metadata.json');
+};
+
+/**
+ * Read the whole metadata store
+ * A missing store file is treated as empty
+ */
+export const readMetadataStore = async (): Promise<Record<string, StoredResourceMetadata>> => {
+  try {
+    const contents = await fs.readFile(getStorePath(), 'utf8');
+    return JSON.parse(contents) as Record<string, StoredResourceMetadata>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw error;
+  }
+};
+
+/**
+ * Get the stored details for a resource
+ * @param resourceId - Resource/token ID
+ * @returns Stored details, or undefined if the resource has no entry
+ */
+export const getStoredMetadata = async (resourceId: bigint): Promise<StoredResourceMetadata | undefined> => {
+  const store = await readMetadataStore();
+  return store[resourceId.toString()];
+};
@@ -0,0 +1,337 @@
+/**
+ * Off-chain Signed Voting (Snapshot-style)
+ *
+ * A gas-free alternative to `castVote`. Voters sign an EIP-712 Ballot for a
+ * CampusResourceGovernor proposal in their wallet (no transaction), and the
+ * ballots API route (app/api/ballots) checks and stores the signature in a
+ * local file (utils/ballotStore.ts).
+ *
+ * Each ballot is weighted by the voter's `votingWeightAt` the proposal's
+ * snapshot block (the block before the proposal was created), the same
+ * checkpointed weight `castVote` uses, so tokens moved during the vote are
+ * not counted twice. The API only serves the signed ballots; the tally is
+ * always recomputed from them (`tallyBallots`), so anyone can verify a
+ * result from the signatures and chain state alone.
+ *
+ * Off-chain results are advisory: executing a proposal still takes an
+ * on-chain vote that passes.
+ */
+
+import { Address, Hex, PublicClient, WalletClient } from 'viem';
+import { CAMPUS_RESOURCE_GOVERNOR_ABI, getProposalState, Proposal, ProposalState } from '@/utils/governance';
+
+// ==================== Configuration ====================
+
+/**
+ * EIP-712 domain name for ballots
+ * The domain also binds each ballot to one chain and governor address.
+ */
+export const BALLOT_DOMAIN_NAME = 'CampusResourceGovernor';
+
+/**
+ * EIP-712 types for a signed ballot
+ */
+export const BALLOT_TYPES = {
+  Ballot: [
+    { name: 'proposalId', type: 'uint256' },
+    { name: 'support', type: 'bool' },
+    { name: 'snapshotBlock', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * Ballots API route
+ */
+export const BALLOTS_ENDPOINT = '/api/ballots';
+
+// ==================== Types ====================
+
+/**
+ * How votes are cast on the proposals pages
+ * - onchain: castVote transactions, which decide execution
+ * - offchain: signed ballots, free and advisory
+ */
+export type VotingMode = 'onchain' | 'offchain';
+
+/**
+ * Ballot signed by a voter
+ */
+export interface SignedBallot {
+  voter: Address;
+  proposalId: bigint;
+  support: boolean;
+  snapshotBlock: bigint;
+  signature: Hex;
+}
+
+/**
+ * Ballot as stored and sent as JSON (bigints encoded as decimal strings)
+ */
+export interface SerializedBallot extends Omit<SignedBallot, 'proposalId' | 'snapshotBlock'> {
+  proposalId: string;
+  snapshotBlock: string;
+}
+
+/**
+ * JSON body POSTed to the ballots route
+ */
+export interface BallotSubmission {
+  chainId: number;
+  ballot: SerializedBallot;
+}
+
+/**
+ * Ballots route response
+ * `ballots` is set on GET
+ */
+export interface BallotsResponse {
+  success: boolean;
+  ballots?: SerializedBallot[];
+  error?: string;
+}
+
+/**
+ * Ballot that passed verification, with the weight it was counted with
+ */
+export interface CountedBallot extends SignedBallot {
+  weight: bigint;
+}
+
+/**
+ * Result recomputed from signed ballots
+ *
+ * @property counted - Valid ballots, in the order they were stored
+ * @property rejected - Ballots left out: bad signature, wrong proposal or snapshot,
+ *   repeat voter or no weight at the snapshot block
+ */
+export interface OffchainTally {
+  forVotes: bigint;
+  againstVotes: bigint;
+  counted: CountedBallot[];
+  rejected: number;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Voting mode options, in display order
+ */
+export const VOTING_MODES: { value: VotingMode; label: string }[] = [
+  { value: 'onchain', label: 'On-chain' },
+  { value: 'offchain', label: 'Signed (gasless)' },
+];
+
+// ==================== Helper Functions ====================
+
+/**
+ * EIP-712 domain for ballots on a chain's governor
+ */
+export const getBallotDomain = (chainId: number, governorAddress: Address) => ({
+  name: BALLOT_DOMAIN_NAME,
+  version: '1',
+  chainId,
+  verifyingContract: governorAddress,
+});
+
+/**
+ * Convert a signed ballot to its JSON form
+ */
+export const serializeBallot = (ballot: SignedBallot): SerializedBallot => ({
+  ...ballot,
+  proposalId: ballot.proposalId.toString(),
+  snapshotBlock: ballot.snapshotBlock.toString(),
+});
+
+/**
+ * Parse a JSON ballot back into a signed ballot
+ */
+export const deserializeBallot = (ballot: SerializedBallot): SignedBallot => ({
+  ...ballot,
+  proposalId: BigInt(ballot.proposalId),
+  snapshotBlock: BigInt(ballot.snapshotBlock),
+});
+
+/**
+ * State of a proposal under its off-chain tally
+ * Same quorum and majority rule as on-chain; signed ballots never execute
+ * a proposal, so the result is only ever active, passed or rejected.
+ */
+export const getOffchainState = (
+  proposal: Proposal,
+  tally: Pick<OffchainTally, 'forVotes' | 'againstVotes'>,
+  quorum: bigint,
+  now?: number
+): ProposalState => {
+  return getProposalState(
+    { ...proposal, forVotes: tally.forVotes, againstVotes: tally.againstVotes, executed: false },
+    quorum,
+    now
+  );
+};
+
+// ==================== Signing & Verification ====================
+
+/**
+ * Sign a ballot for a proposal with the user's wallet
+ *
+ * @param walletClient - Connected wallet used to sign
+ * @param chainId - Current chain ID
+ * @param governorAddress - Governor the proposal belongs to
+ * @param voter - Signing address
+ * @param proposal - Proposal being voted on
+ * @param support - Whether to vote in favour
+ * @returns Signed ballot ready for the ballots route
+ */
+export const signBallot = async (
+  walletClient: WalletClient,
+  chainId: number,
+  governorAddress: Address,
+  voter: Address,
+  proposal: Proposal,
+  support: boolean
+): Promise<SignedBallot> => {
+  const message = {
+    proposalId: proposal.proposalId,
+    support,
+    snapshotBlock: proposal.snapshotBlock,
+  };
+
+  const signature = await walletClient.signTypedData({
+    account: voter,
+    domain: getBallotDomain(chainId, governorAddress),
+    types: BALLOT_TYPES,
+    primaryType: 'Ballot',
+    message,
+  });
+
+  return { voter, ...message, signature };
+};
+
+/**
+ * Check a ballot's signature
+ * Supports smart contract wallets (ERC-1271 / ERC-6492) as well as EOAs.
+ */
+export const verifyBallotSignature = async (
+  publicClient: PublicClient,
+  chainId: number,
+  governorAddress: Address,
+  ballot: SignedBallot
+): Promise<boolean> => {
+  try {
+    return await publicClient.verifyTypedData({
+      address: ballot.voter,
+      domain: getBallotDomain(chainId, governorAddress),
+      types: BALLOT_TYPES,
+      primaryType: 'Ballot',
+      message: {
+        proposalId: ballot.proposalId,
+        support: ballot.support,
+        snapshotBlock: ballot.snapshotBlock,
+      },
+      signature: ballot.signature,
+    });
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Voting weight of an account at a past block
+ */
+export const getSnapshotWeight = async (
+  publicClient: PublicClient,
+  governorAddress: Address,
+  account: Address,
+  snapshotBlock: bigint
+): Promise<bigint> => {
+  return publicClient.readContract({
+    address: governorAddress,
+    abi: CAMPUS_RESOURCE_GOVERNOR_ABI,
+    functionName: 'votingWeightAt',
+    args: [account, snapshotBlock],
+  });
+};
+
+/**
+ * Recompute a proposal's off-chain result from its signed ballots
+ *
+ * Only the first valid ballot per voter counts. Every signature and weight is
+ * checked against the chain before ballots are deduplicated, so the result
+ * does not depend on trusting the server that stored the ballots, and a forged
+ * ballot submitted ahead of a voter's own cannot shadow it.
+ *
+ * @param publicClient - Client for the chain the proposal is on
+ * @param chainId - Chain ID
+ * @param governorAddress - Governor the proposal belongs to
+ * @param proposal - Proposal being tallied
+ * @param ballots - Signed ballots, in submission order
+ */
+export const tallyBallots = async (
+  publicClient: PublicClient,
+  chainId: number,
+  governorAddress: Address,
+  proposal: Proposal,
+  ballots: SignedBallot[]
+): Promise<OffchainTally> => {
+  const checked = await Promise.all(
+    ballots.map(async (ballot) => {
+      if (ballot.proposalId !== proposal.proposalId || ballot.snapshotBlock !== proposal.snapshotBlock) {
+        return null;
+      }
+      const [isValid, weight] = await Promise.all([
+        verifyBallotSignature(publicClient, chainId, governorAddress, ballot),
+        getSnapshotWeight(publicClient, governorAddress, ballot.voter, proposal.snapshotBlock),
+      ]);
+      return isValid && weight > BigInt(0) ? { ...ballot, weight } : null;
+    })
+  );
+
+  // First valid ballot per voter, in submission order
+  const seen = new Set<string>();
+  const counted = checked.filter((ballot): ballot is CountedBallot => {
+    if (ballot === null || seen.has(ballot.voter.toLowerCase())) {
+      return false;
+    }
+    seen.add(ballot.voter.toLowerCase());
+    return true;
+  });
+  return {
+    forVotes: counted.reduce((sum, ballot) => (ballot.support ? sum + ballot.weight : sum), BigInt(0)),
+    againstVotes: counted.reduce((sum, ballot) => (ballot.support ? sum : sum + ballot.weight), BigInt(0)),
+    counted,
+    rejected: ballots.length - counted.length,
+  };
+};
+
+// ==================== API Client ====================
+
+/**
+ * Fetch the signed ballots stored for a proposal
+ * @returns Ballots in submission order
+ */
+export const fetchBallots = async (chainId: number, proposalId: bigint): Promise<SignedBallot[]> => {
+  const response = await fetch(`${BALLOTS_ENDPOINT}?chainId=${chainId}&proposalId=${proposalId}`);
+  const result = (await response.json()) as BallotsResponse;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Ballots request failed with status ${response.status}`);
+  }
+  return (result.ballots ?? []).map(deserializeBallot);
+};
+
+/**
+ * Submit a signed ballot to the ballots route
+ * @throws Error with the route's message if the ballot is rejected
+ */
+export const submitBallot = async (chainId: number, ballot: SignedBallot): Promise<void> => {
+  const body: BallotSubmission = { chainId, ballot: serializeBallot(ballot) };
+  const response = await fetch(BALLOTS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = (await response.json()) as BallotsResponse;
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Ballot rejected with status ${response.status}`);
+  }
+};
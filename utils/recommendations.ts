@@ -0,0 +1,383 @@
+/**
+ * Resource Recommendations
+ *
+ * Suggests available alternatives to a wallet from the reservation timelines
+ * rebuilt from contract events (see fetchUsageHistory in utils/indexer.ts):
+ * - Co-usage: resources reserved by the same wallets are alike (cosine
+ *   similarity of the sets of wallets that reserved them)
+ * - Category co-usage: how often wallets that reserve one category also
+ *   reserve another (a category always matches itself)
+ * - The wallet's own history: resources it has reserved before, and the
+ *   categories it reserves most
+ *
+ * Only resources that can be reserved right now are suggested: not retired,
+ * not reserved and not inside an active booking.
+ */
+
+import { Address } from 'viem';
+import { ResourceCategory } from '@/config/contract';
+import type { ResourceUsageHistory } from '@/utils/indexer';
+
+// ==================== Types ====================
+
+/**
+ * Strongest signal behind a suggestion
+ * - history: the wallet reserves this resource or its category often
+ * - co-usage: wallets that reserve the resource it is based on also reserve this one
+ * - category: wallets that reserve the category it is based on also reserve this one's
+ */
+export type SuggestionReason = 'history' | 'co-usage' | 'category';
+
+/**
+ * An available resource suggested to a wallet
+ *
+ * @property score - How good a match it is (0-1)
+ * @property basedOn - Resource the suggestion is similar to
+ * @property basedOnName - That resource's name
+ */
+export interface ResourceSuggestion {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+  score: number;
+  reason: SuggestionReason;
+  basedOn: number;
+  basedOnName: string;
+}
+
+/**
+ * A resource the wallet reserves often
+ *
+ * @property reservations - Times the wallet has reserved it
+ * @property isAvailable - Whether it can be reserved right now
+ * @property alternatives - Available look-alikes, best first (empty while it is available)
+ */
+export interface FavoriteResource {
+  resourceId: number;
+  name: string;
+  category: ResourceCategory;
+  reservations: number;
+  isAvailable: boolean;
+  alternatives: ResourceSuggestion[];
+}
+
+/**
+ * Recommendations for one wallet
+ *
+ * @property favorites - The wallet's most reserved resources, most reserved first
+ * @property suggestions - Available resources the wallet has never reserved, best first
+ */
+export interface WalletRecommendations {
+  favorites: FavoriteResource[];
+  suggestions: ResourceSuggestion[];
+}
+
+/**
+ * Recommendation options
+ *
+ * @property now - Time availability is judged at (unix seconds)
+ * @property limit - Most suggestions to return per list
+ */
+export interface RecommendationOptions {
+  now?: number;
+  limit?: number;
+}
+
+/**
+ * Co-usage figures shared by every recommendation
+ */
+interface RecommendationModel {
+  resources: Map<number, { name: string; category: ResourceCategory; isAvailable: boolean }>;
+  reservers: Map<number, Map<string, number>>;
+  categoryUsers: Map<ResourceCategory, Set<string>>;
+}
+
+// ==================== Constants ====================
+
+/**
+ * Most favorites shown for a wallet
+ */
+export const FAVORITES_LIMIT = 3;
+
+/**
+ * Short explanation of each suggestion reason, for display
+ */
+export const SUGGESTION_REASON_LABELS: Record<SuggestionReason, string> = {
+  history: 'Fits what you reserve',
+  'co-usage': 'Often reserved by the same people',
+  category: 'Similar kind of resource',
+};
+
+/**
+ * Weight of each signal in a suggestion's score
+ */
+const SIGNAL_WEIGHTS: Record<SuggestionReason, number> = {
+  'co-usage': 0.45,
+  category: 0.35,
+  history: 0.2,
+};
+
+/**
+ * Suggestions scoring below this are left out
+ */
+const MIN_SCORE = 0.05;
+
+// ==================== Model ====================
+
+/**
+ * Build co-usage figures from every resource's timeline
+ */
+const buildModel = (histories: ResourceUsageHistory[], now: number): RecommendationModel => {
+  const resources: RecommendationModel['resources'] = new Map();
+  const reservers: RecommendationModel['reservers'] = new Map();
+  const categoryUsers: RecommendationModel['categoryUsers'] = new Map();
+
+  for (const history of histories) {
+    const current = history.timeline[0];
+    const isReserved = current?.outcome === 'active' && Number(current.reservationEnd) > now;
+    const isBooked = history.bookings.some((booking) => Number(booking.start) <= now && now < Number(booking.end));
+    resources.set(history.resourceId, {
+      name: history.name,
+      category: history.category,
+      isAvailable: !history.retired && !isReserved && !isBooked,
+    });
+
+    const counts = new Map<string, number>();
+    const users = categoryUsers.get(history.category) ?? new Set<string>();
+    for (const entry of history.timeline) {
+      const wallet = entry.reserver.toLowerCase();
+      counts.set(wallet, (counts.get(wallet) ?? 0) + 1);
+      users.add(wallet);
+    }
+    reservers.set(history.resourceId, counts);
+    categoryUsers.set(history.category, users);
+  }
+
+  return { resources, reservers, categoryUsers };
+};
+
+/**
+ * Cosine similarity of the sets of wallets that reserved two resources
+ */
+const coUsage = (model: RecommendationModel, a: number, b: number): number => {
+  const usersA = model.reservers.get(a);
+  const usersB = model.reservers.get(b);
+  if (!usersA?.size || !usersB?.size) {
+    return 0;
+  }
+  let shared = 0;
+  usersA.forEach((_, wallet) => {
+    if (usersB.has(wallet)) shared += 1;
+  });
+  return shared / Math.sqrt(usersA.size * usersB.size);
+};
+
+/**
+ * Share of the wallets reserving category `from` that also reserve category `to`
+ */
+const categoryAffinity = (model: RecommendationModel, from: ResourceCategory, to: ResourceCategory): number => {
+  if (from === to) {
+    return 1;
+  }
+  const usersFrom = model.categoryUsers.get(from);
+  const usersTo = model.categoryUsers.get(to);
+  if (!usersFrom?.size || !usersTo) {
+    return 0;
+  }
+  let shared = 0;
+  usersFrom.forEach((wallet) => {
+    if (usersTo.has(wallet)) shared += 1;
+  });
+  return shared / usersFrom.size;
+};
+
+/**
+ * How much the wallet favors a resource (0-1): its reservations of the
+ * resource against its most reserved one, or half its share of the
+ * resource's category for resources it has never reserved
+ */
+const historyAffinity = (model: RecommendationModel, wallet: string | undefined, resourceId: number): number => {
+  if (!wallet) {
+    return 0;
+  }
+
+  let most = 0;
+  let total = 0;
+  const byCategory = new Map<ResourceCategory, number>();
+  model.reservers.forEach((counts, id) => {
+    const count = counts.get(wallet) ?? 0;
+    const category = model.resources.get(id)?.category;
+    most = Math.max(most, count);
+    total += count;
+    if (category !== undefined) {
+      byCategory.set(category, (byCategory.get(category) ?? 0) + count);
+    }
+  });
+  if (total === 0) {
+    return 0;
+  }
+
+  const own = model.reservers.get(resourceId)?.get(wallet) ?? 0;
+  if (own > 0) {
+    return own / most;
+  }
+  const category = model.resources.get(resourceId)?.category;
+  return category === undefined ? 0 : ((byCategory.get(category) ?? 0) / total) * 0.5;
+};
+
+/**
+ * Score an available resource as a stand-in for another one
+ */
+const scoreAgainst = (
+  model: RecommendationModel,
+  wallet: string | undefined,
+  basedOn: number,
+  candidate: number
+): ResourceSuggestion | null => {
+  const target = model.resources.get(basedOn);
+  const resource = model.resources.get(candidate);
+  if (!target || !resource) {
+    return null;
+  }
+
+  const signals: Record<SuggestionReason, number> = {
+    'co-usage': SIGNAL_WEIGHTS['co-usage'] * coUsage(model, basedOn, candidate),
+    category: SIGNAL_WEIGHTS.category * categoryAffinity(model, target.category, resource.category),
+    history: SIGNAL_WEIGHTS.history * historyAffinity(model, wallet, candidate),
+  };
+  const reasons = Object.keys(signals) as SuggestionReason[];
+  const score = reasons.reduce((sum, reason) => sum + signals[reason], 0);
+  const reason = reasons.reduce((best, next) => (signals[next] > signals[best] ? next : best));
+
+  return {
+    resourceId: candidate,
+    name: resource.name,
+    category: resource.category,
+    score,
+    reason,
+    basedOn,
+    basedOnName: target.name,
+  };
+};
+
+/**
+ * Best available stand-ins for a resource, best first
+ */
+const alternativesTo = (
+  model: RecommendationModel,
+  wallet: string | undefined,
+  resourceId: number,
+  limit: number
+): ResourceSuggestion[] => {
+  const suggestions: ResourceSuggestion[] = [];
+  model.resources.forEach((resource, candidate) => {
+    if (candidate === resourceId || !resource.isAvailable) {
+      return;
+    }
+    const suggestion = scoreAgainst(model, wallet, resourceId, candidate);
+    if (suggestion && suggestion.score >= MIN_SCORE) {
+      suggestions.push(suggestion);
+    }
+  });
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.resourceId - b.resourceId)
+    .slice(0, limit);
+};
+
+// ==================== Recommendations ====================
+
+/**
+ * Suggest available alternatives to one resource (e.g. while it is reserved)
+ *
+ * @param histories - Every resource's timeline (fetchUsageHistory)
+ * @param resourceId - Resource the wallet wanted
+ * @param wallet - Wallet to personalize for (optional)
+ * @param options - Availability time and most suggestions to return (default 3)
+ */
+export const recommendAlternatives = (
+  histories: ResourceUsageHistory[],
+  resourceId: number,
+  wallet?: Address,
+  options: RecommendationOptions = {}
+): ResourceSuggestion[] => {
+  const model = buildModel(histories, options.now ?? Math.floor(Date.now() / 1000));
+  return alternativesTo(model, wallet?.toLowerCase(), resourceId, options.limit ?? 3);
+};
+
+/**
+ * Recommend resources to a wallet from its own reservation history
+ *
+ * Favorites are the wallet's most reserved resources, each with alternatives
+ * while it is unavailable. Suggestions are available resources the wallet
+ * has never reserved, scored against each resource it has reserved (weighted
+ * by how often) and credited to the closest one.
+ *
+ * @param histories - Every resource's timeline (fetchUsageHistory)
+ * @param wallet - Wallet to recommend for
+ * @param options - Availability time and most suggestions per list (default 5)
+ */
+export const recommendForWallet = (
+  histories: ResourceUsageHistory[],
+  wallet: Address,
+  options: RecommendationOptions = {}
+): WalletRecommendations => {
+  const model = buildModel(histories, options.now ?? Math.floor(Date.now() / 1000));
+  const walletKey = wallet.toLowerCase();
+  const limit = options.limit ?? 5;
+
+  // The wallet's reservations per resource, most reserved first
+  const used: { resourceId: number; reservations: number }[] = [];
+  model.reservers.forEach((counts, resourceId) => {
+    const reservations = counts.get(walletKey) ?? 0;
+    if (reservations > 0) {
+      used.push({ resourceId, reservations });
+    }
+  });
+  used.sort((a, b) => b.reservations - a.reservations || a.resourceId - b.resourceId);
+  const totalReservations = used.reduce((sum, item) => sum + item.reservations, 0);
+
+  const favorites = used.slice(0, FAVORITES_LIMIT).flatMap(({ resourceId, reservations }): FavoriteResource[] => {
+    const resource = model.resources.get(resourceId);
+    if (!resource) {
+      return [];
+    }
+    return [{
+      resourceId,
+      name: resource.name,
+      category: resource.category,
+      reservations,
+      isAvailable: resource.isAvailable,
+      alternatives: resource.isAvailable ? [] : alternativesTo(model, walletKey, resourceId, limit),
+    }];
+  });
+
+  const suggestions: ResourceSuggestion[] = [];
+  model.resources.forEach((resource, candidate) => {
+    if (!resource.isAvailable || model.reservers.get(candidate)?.has(walletKey)) {
+      return;
+    }
+
+    let score = 0;
+    let closest: ResourceSuggestion | null = null;
+    for (const { resourceId, reservations } of used) {
+      const match = scoreAgainst(model, walletKey, resourceId, candidate);
+      if (!match) {
+        continue;
+      }
+      score += (match.score * reservations) / totalReservations;
+      if (!closest || match.score > closest.score) {
+        closest = match;
+      }
+    }
+    if (closest && score >= MIN_SCORE) {
+      suggestions.push({ ...closest, score });
+    }
+  });
+
+  return {
+    favorites,
+    suggestions: suggestions
+      .sort((a, b) => b.score - a.score || a.resourceId - b.resourceId)
+      .slice(0, limit),
+  };
+};
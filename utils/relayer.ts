@@ -0,0 +1,206 @@
+/**
+ * Meta-Transaction Relayer (server-side only)
+ *
+ * Validates signed ForwardRequests from the browser and submits them through
+ * CampusResourceForwarder, paying the gas from RELAYER_PRIVATE_KEY.
+ *
+ * Requests are only relayed when:
+ * - The chain has a forwarder, a CampusResourceNFT deployment and an RPC URL
+ * - The target is CampusResourceNFT and the call is in RELAYABLE_FUNCTIONS
+ * - The call carries no ETH (stakes come from the user's deposited balance,
+ *   so the relayer never fronts value) and is not a no-op such as withdrawStake(0)
+ * - The forwarder accepts the signature, nonce and deadline (`verify`)
+ * - The signer has not used up its quota of relayed requests for the hour
+ *
+ * Environment:
+ * - RELAYER_PRIVATE_KEY: funded account that submits transactions
+ * - SERVER_RPC_URL_<chainId>: RPC endpoint per chain, resolved by config/rpc.ts
+ * - RELAYER_QUOTA_PER_HOUR: relayed requests allowed per signer per hour (default 20)
+ */
+
+import {
+  createPublicClient,
+  createWalletClient,
+  decodeFunctionData,
+  Hex,
+  http,
+} from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { CAMPUS_RESOURCE_NFT_ABI, CONTRACT_ADDRESSES } from '@/config/contract';
+import { getServerRpcUrl } from '@/config/rpc';
+import { CAMPUS_RESOURCE_FORWARDER_ABI } from '@/config/generated/CampusResourceForwarder';
+import { ForwardRequestData, getForwarderAddress, RelayResponse } from '@/utils/gasless';
+
+// ==================== Configuration ====================
+
+/**
+ * CampusResourceNFT functions the relayer is willing to pay for
+ * None of them take ETH: gasless reservations draw the stake from the
+ * deposited stake balance (`reserveResourceFromBalance`).
+ */
+const RELAYABLE_FUNCTIONS = [
+  'reserveResourceFromBalance',
+  'releaseResource',
+  'withdrawStake',
+] as const;
+
+/**
+ * Relayed requests allowed per signer per quota window, unless
+ * RELAYER_QUOTA_PER_HOUR is set
+ */
+const DEFAULT_QUOTA_PER_HOUR = 20;
+
+/**
+ * Length of the quota window in milliseconds
+ */
+const QUOTA_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * When each signer's recent requests were accepted, keyed by lowercased address
+ * Kept in memory, so quotas reset when the server restarts.
+ */
+const relayedAt = new Map<string, number[]>();
+
+/**
+ * Error raised when a request is rejected before submission
+ */
+export class RelayError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'RelayError';
+  }
+}
+
+/**
+ * Relayed requests allowed per signer per hour
+ */
+const getQuotaPerHour = (): number => {
+  const quota = Number(process.env.RELAYER_QUOTA_PER_HOUR);
+  return Number.isInteger(quota) && quota > 0 ? quota : DEFAULT_QUOTA_PER_HOUR;
+};
+
+/**
+ * Count a request against the signer's hourly quota
+ * Checked and recorded in one synchronous step, so concurrent requests
+ * cannot all slip under the limit.
+ * @throws RelayError (429) once the quota is used up
+ */
+const consumeQuota = (signer: string): void => {
+  const now = Date.now();
+  const key = signer.toLowerCase();
+  const recent = (relayedAt.get(key) ?? []).filter((time) => now - time < QUOTA_WINDOW_MS);
+
+  if (recent.length >= getQuotaPerHour()) {
+    relayedAt.set(key, recent);
+    throw new RelayError('Relay quota exceeded for this address, try again later or send the transaction yourself', 429);
+  }
+
+  recent.push(now);
+  relayedAt.set(key, recent);
+};
+
+/**
+ * Calls that would succeed without changing any state, so relaying them
+ * would only burn the relayer's gas
+ */
+const isNoOpCall = (functionName: string, args: readonly unknown[] | undefined): boolean => {
+  switch (functionName) {
+    case 'withdrawStake':
+      return args?.[0] === BigInt(0);
+    case 'reserveResourceFromBalance':
+      return args?.[1] === BigInt(0);
+    default:
+      return false;
+  }
+};
+
+// ==================== Relay ====================
+
+/**
+ * Validate a signed ForwardRequest and submit it through the forwarder
+ *
+ * @param chainId - Chain the request was signed for
+ * @param request - Signed ForwardRequest from the browser
+ * @returns Transaction hash of the submitted execute() call
+ * @throws RelayError if the request is rejected
+ */
+export const relayForwardRequest = async (
+  chainId: number,
+  request: ForwardRequestData
+): Promise<RelayResponse> => {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY as Hex | undefined;
+  if (!privateKey) {
+    throw new RelayError('Relayer is not configured', 503);
+  }
+
+  const forwarderAddress = getForwarderAddress(chainId);
+  const contractAddress = CONTRACT_ADDRESSES[chainId];
+  const rpcUrl = getServerRpcUrl(chainId);
+  if (!forwarderAddress || !contractAddress || !rpcUrl) {
+    throw new RelayError(`Gasless transactions are not available on chain ${chainId}`);
+  }
+
+  // Only forward calls to CampusResourceNFT
+  if (request.to.toLowerCase() !== contractAddress.toLowerCase()) {
+    throw new RelayError('Request target is not the CampusResourceNFT contract');
+  }
+
+  let functionName: string;
+  let args: readonly unknown[] | undefined;
+  try {
+    ({ functionName, args } = decodeFunctionData({ abi: CAMPUS_RESOURCE_NFT_ABI, data: request.data }));
+  } catch {
+    throw new RelayError('Request data is not a CampusResourceNFT call');
+  }
+  if (!(RELAYABLE_FUNCTIONS as readonly string[]).includes(functionName)) {
+    throw new RelayError(`${functionName} cannot be relayed`);
+  }
+  if (isNoOpCall(functionName, args)) {
+    throw new RelayError(`${functionName} with a zero amount does nothing and is not relayed`);
+  }
+
+  // The relayer never fronts ETH; stakes come from the deposited stake balance
+  if (request.value !== BigInt(0)) {
+    throw new RelayError('Relayed requests cannot carry ETH');
+  }
+
+  const account = privateKeyToAccount(privateKey);
+  const transport = http(rpcUrl);
+  const publicClient = createPublicClient({ transport });
+  const walletClient = createWalletClient({ account, transport });
+
+  const remoteChainId = await publicClient.getChainId();
+  if (remoteChainId !== chainId) {
+    throw new RelayError(`Relayer RPC is on chain ${remoteChainId}, request is for ${chainId}`, 503);
+  }
+
+  const { from, to, value, gas, deadline, data, signature } = request;
+  const forwardRequest = { from, to, value, gas, deadline, data, signature };
+
+  const isValid = await publicClient.readContract({
+    address: forwarderAddress,
+    abi: CAMPUS_RESOURCE_FORWARDER_ABI,
+    functionName: 'verify',
+    args: [forwardRequest],
+  });
+  if (!isValid) {
+    throw new RelayError('Invalid signature, nonce or expired request');
+  }
+
+  // Only counted once the signature checks out, so nobody can use up another address's quota
+  consumeQuota(from);
+
+  // Simulate first so reverts (e.g. ResourceAlreadyReserved) are reported without spending gas
+  const { request: executeRequest } = await publicClient.simulateContract({
+    account,
+    address: forwarderAddress,
+    abi: CAMPUS_RESOURCE_FORWARDER_ABI,
+    functionName: 'execute',
+    args: [forwardRequest],
+    value,
+  });
+
+  const txHash = await walletClient.writeContract({ ...executeRequest, chain: null });
+
+  return { success: true, txHash };
+};
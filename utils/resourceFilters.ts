@@ -0,0 +1,180 @@
+/**
+ * Resources Grid Filtering
+ *
+ * Pure helpers behind the dashboard filter toolbar:
+ * - Parse/serialize filter state to and from the URL query, so filtered
+ *   views can be shared as links
+ * - Filter resources by text, category and status
+ * - Sort by soonest availability
+ *
+ * Query parameters (defaults are omitted from the URL):
+ * - q: text matched against name and location
+ * - category: category name, e.g. `lab` (see CATEGORY_NAMES)
+ * - status: available | reserved | mine | expired
+ * - sort: availability
+ */
+
+import { Address } from 'viem';
+import { CATEGORY_NAMES, ResourceCategory, ResourceWithId } from '@/config/contract';
+import type { ResourceFilters, ResourceSort, ResourceStatusFilter } from '@/types';
+
+// ==================== Configuration ====================
+
+/**
+ * Filter state when the URL has no query
+ */
+export const DEFAULT_RESOURCE_FILTERS: ResourceFilters = {
+  query: '',
+  category: 'all',
+  status: 'all',
+  sort: 'id',
+};
+
+/**
+ * Status filter options, in toolbar order
+ */
+export const STATUS_FILTER_LABELS: Record<ResourceStatusFilter, string> = {
+  all: 'Any Status',
+  available: 'Available',
+  reserved: 'Reserved',
+  mine: 'Reserved by Me',
+  expired: 'Expired',
+};
+
+/**
+ * Sort options, in toolbar order
+ */
+export const SORT_LABELS: Record<ResourceSort, string> = {
+  id: 'Resource ID',
+  availability: 'Soonest Available',
+};
+
+// ==================== URL Query ====================
+
+/**
+ * Look up a category by its (case-insensitive) display name
+ */
+const parseCategory = (value: string | null): ResourceCategory | 'all' => {
+  if (!value) {
+    return 'all';
+  }
+  const match = (Object.entries(CATEGORY_NAMES) as [string, string][]).find(
+    ([, name]) => name.toLowerCase() === value.toLowerCase()
+  );
+  return match ? (Number(match[0]) as ResourceCategory) : 'all';
+};
+
+/**
+ * Read filter state from the URL query
+ * Unknown or malformed values fall back to the defaults
+ */
+export const parseResourceFilters = (params: URLSearchParams): ResourceFilters => {
+  const status = params.get('status');
+  const sort = params.get('sort');
+
+  return {
+    query: params.get('q') ?? DEFAULT_RESOURCE_FILTERS.query,
+    category: parseCategory(params.get('category')),
+    status: status && status in STATUS_FILTER_LABELS ? (status as ResourceStatusFilter) : DEFAULT_RESOURCE_FILTERS.status,
+    sort: sort && sort in SORT_LABELS ? (sort as ResourceSort) : DEFAULT_RESOURCE_FILTERS.sort,
+  };
+};
+
+/**
+ * Write filter state to a URL query string, omitting defaults
+ * @returns Query string without the leading `?` (empty when nothing is filtered)
+ */
+export const serializeResourceFilters = (filters: ResourceFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters.query.trim()) {
+    params.set('q', filters.query.trim());
+  }
+  if (filters.category !== 'all') {
+    params.set('category', CATEGORY_NAMES[filters.category as ResourceCategory].toLowerCase());
+  }
+  if (filters.status !== DEFAULT_RESOURCE_FILTERS.status) {
+    params.set('status', filters.status);
+  }
+  if (filters.sort !== DEFAULT_RESOURCE_FILTERS.sort) {
+    params.set('sort', filters.sort);
+  }
+  return params.toString();
+};
+
+/**
+ * Whether any filter differs from the defaults
+ */
+export const hasActiveFilters = (filters: ResourceFilters): boolean => {
+  return serializeResourceFilters(filters) !== '';
+};
+
+// ==================== Filtering ====================
+
+/**
+ * Check a resource against the status filter
+ * @param userAddress - Connected wallet, used by the `mine` filter
+ */
+const matchesStatus = (
+  resource: ResourceWithId,
+  status: ResourceStatusFilter,
+  userAddress: Address | undefined
+): boolean => {
+  switch (status) {
+    case 'available':
+      return !resource.isReserved || !!resource.isExpired;
+    case 'reserved':
+      return resource.isReserved && !resource.isExpired;
+    case 'mine':
+      return (
+        resource.isReserved &&
+        !!userAddress &&
+        resource.currentReserver.toLowerCase() === userAddress.toLowerCase()
+      );
+    case 'expired':
+      return resource.isReserved && !!resource.isExpired;
+    default:
+      return true;
+  }
+};
+
+/**
+ * Seconds until a resource can be reserved (0 if available now)
+ */
+const secondsUntilAvailable = (resource: ResourceWithId): number => {
+  return resource.isReserved && !resource.isExpired ? resource.remainingTime ?? 0 : 0;
+};
+
+/**
+ * Apply the toolbar filters and sort order to a list of resources
+ * @param resources - Resources with any off-chain metadata (location) merged in
+ * @param filters - Current filter state
+ * @param userAddress - Connected wallet, used by the `mine` filter
+ * @returns Matching resources in display order
+ */
+export const applyResourceFilters = (
+  resources: ResourceWithId[],
+  filters: ResourceFilters,
+  userAddress: Address | undefined
+): ResourceWithId[] => {
+  const query = filters.query.trim().toLowerCase();
+
+  const matching = resources.filter((resource) => {
+    if (query) {
+      const haystack = `${resource.name} ${resource.location ?? ''}`.toLowerCase();
+      if (!haystack.includes(query)) {
+        return false;
+      }
+    }
+    if (filters.category !== 'all' && resource.category !== filters.category) {
+      return false;
+    }
+    return matchesStatus(resource, filters.status, userAddress);
+  });
+
+  if (filters.sort === 'availability') {
+    // Array.prototype.sort is stable, so ties keep creation order
+    return [...matching].sort((a, b) => secondsUntilAvailable(a) - secondsUntilAvailable(b));
+  }
+  return matching;
+};